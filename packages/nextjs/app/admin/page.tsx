@@ -0,0 +1,88 @@
+/**
+ * Owner console of the deployed crowdfunding campaign.
+ * Only the address returned by `get_owner` can use the forms below.
+ */
+
+"use client";
+
+import { AcceptedTokensForm } from "~~/components/crowdfunding/AcceptedTokensForm";
+import { CampaignMetadataForm } from "~~/components/crowdfunding/CampaignMetadataForm";
+import { FundingPolicyForm } from "~~/components/crowdfunding/FundingPolicyForm";
+import { ResetCampaignForm } from "~~/components/crowdfunding/ResetCampaignForm";
+import { Address } from "~~/components/scaffold-stark";
+import {
+  useDeployedContractInfo,
+  useScaffoldReadContractAt,
+} from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+
+const Admin = () => {
+  const { address } = useAccount();
+  const { data: crowdfundingContract, isLoading } =
+    useDeployedContractInfo("crowdfunding");
+
+  const { data: owner, isLoading: isLoadingOwner } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: crowdfundingContract?.address,
+    functionName: "get_owner",
+  });
+
+  if (isLoading || (crowdfundingContract && isLoadingOwner)) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (!crowdfundingContract?.address) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <p className="text-lg text-error">Contract not deployed</p>
+      </div>
+    );
+  }
+
+  const isOwner =
+    !!address &&
+    owner !== undefined &&
+    BigInt(address) === BigInt(owner.toString());
+
+  if (!isOwner) {
+    return (
+      <div className="flex flex-col justify-center items-center gap-2 min-h-[60vh]">
+        <p className="text-lg text-error m-0">
+          {address
+            ? "Only the campaign owner can access this page"
+            : "Connect the owner wallet to manage the campaign"}
+        </p>
+        {owner !== undefined && (
+          <div className="flex items-center gap-2 text-sm">
+            Owner:
+            <Address
+              address={feltToHex(BigInt(owner.toString())) as `0x${string}`}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center flex-grow pt-10 px-4">
+      <div className="max-w-2xl w-full flex flex-col gap-6">
+        <div className="flex flex-col items-center gap-2">
+          <h1 className="text-4xl font-bold m-0">Campaign admin</h1>
+          <Address address={crowdfundingContract.address} />
+        </div>
+        <CampaignMetadataForm campaignAddress={crowdfundingContract.address} />
+        <FundingPolicyForm campaignAddress={crowdfundingContract.address} />
+        <AcceptedTokensForm campaignAddress={crowdfundingContract.address} />
+        <ResetCampaignForm campaignAddress={crowdfundingContract.address} />
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,29 @@
+import { isContentHash } from "~~/services/metadata/campaignMetadata";
+import { readCampaignMetadata } from "~~/services/metadata/metadataStore";
+
+export async function GET(
+  _: Request,
+  { params: { hash } }: { params: { hash: string } },
+) {
+  const contentHash = hash.toLowerCase();
+  if (!isContentHash(contentHash)) {
+    return Response.json({ error: "invalid content hash" }, { status: 400 });
+  }
+
+  try {
+    const document = await readCampaignMetadata(contentHash);
+    if (document === undefined) {
+      return Response.json({ error: "metadata not found" }, { status: 404 });
+    }
+    // Served byte for byte so clients can verify it against the on-chain hash
+    return new Response(document, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (e) {
+    console.error("⚡️ ~ file: api/metadata/[hash]/route.ts ~ error", e);
+    return Response.json({ error: "failed to read metadata" }, { status: 500 });
+  }
+}
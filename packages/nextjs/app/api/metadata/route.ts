@@ -0,0 +1,38 @@
+import { validateCampaignMetadata } from "~~/services/metadata/campaignMetadata";
+import { storeCampaignMetadata } from "~~/services/metadata/metadataStore";
+
+// Metadata documents are small JSON files, anything bigger is rejected before parsing
+const MAX_BODY_BYTES = 32 * 1024;
+
+export async function POST(request: Request) {
+  const body = await request.text();
+  if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+    return Response.json(
+      { errors: ["metadata document is too large"] },
+      { status: 413 },
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return Response.json({ errors: ["invalid JSON"] }, { status: 400 });
+  }
+
+  const validation = validateCampaignMetadata(json);
+  if (!validation.success) {
+    return Response.json({ errors: validation.errors }, { status: 400 });
+  }
+
+  try {
+    const hash = await storeCampaignMetadata(validation.data);
+    return Response.json({ hash }, { status: 201 });
+  } catch (e) {
+    console.error("⚡️ ~ file: api/metadata/route.ts ~ error", e);
+    return Response.json(
+      { errors: ["failed to store metadata"] },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { resolvePriceAt } from "~~/services/prices/priceHistory";
+import { readPriceHistory } from "~~/services/prices/priceHistoryStore";
+import {
+  getPriceTokenKey,
+  parsePriceToken,
+} from "~~/services/prices/priceSources";
+
+// A campaign page asks for all its donations at once, bounded to keep the response small
+const MAX_TIMESTAMPS = 200;
+
+/**
+ * Resolves the price of a token at each block timestamp of `?at=` (comma separated, in seconds)
+ * from the recorded snapshots, `null` where no snapshot is close enough.
+ */
+export async function GET(
+  request: Request,
+  { params: { symbol } }: { params: { symbol: string } },
+) {
+  const token = parsePriceToken(decodeURIComponent(symbol));
+  if (!token) {
+    return Response.json(
+      { error: "expected a token symbol or address" },
+      { status: 400 },
+    );
+  }
+
+  const at = new URL(request.url).searchParams.get("at") ?? "";
+  const timestamps = at.split(",").filter(Boolean).map(Number);
+  if (
+    timestamps.length === 0 ||
+    timestamps.length > MAX_TIMESTAMPS ||
+    !timestamps.every((timestamp) => Number.isSafeInteger(timestamp))
+  ) {
+    return Response.json(
+      { error: `expected up to ${MAX_TIMESTAMPS} timestamps in seconds` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const points = await readPriceHistory(getPriceTokenKey(token));
+    const prices = Object.fromEntries(
+      timestamps.map((timestamp) => [
+        timestamp,
+        resolvePriceAt(points, timestamp) ?? null,
+      ]),
+    );
+    return Response.json({ token: getPriceTokenKey(token), prices });
+  } catch (e) {
+    console.error("⚡️ ~ file: api/price/[symbol]/history/route.ts ~ error", e);
+    return Response.json(
+      { error: "failed to read price history" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,31 +1,24 @@
+import { getPriceOracle } from "~~/services/prices/priceOracle";
+import { parsePriceToken } from "~~/services/prices/priceSources";
+
+/**
+ * Quotes a token by symbol or address, see PriceQuote.
+ * Stale and missing prices are answered as such, never as `usd: 0`.
+ */
 export async function GET(
   _: Request,
   { params: { symbol } }: { params: { symbol: string } },
 ) {
-  let apiUrl = "";
-  if (symbol === "ETH") {
-    apiUrl =
-      "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd";
-  } else if (symbol === "STRK") {
-    apiUrl =
-      "https://api.coingecko.com/api/v3/simple/price?ids=starknet&vs_currencies=usd";
-  } else {
-    return Response.json({
-      ethereum: { usd: 0 },
-      starknet: { usd: 0 },
-    });
-  }
-  try {
-    const response = await fetch(apiUrl);
-    if (!response.ok) {
-      throw new Error(`coingecko response status: ${response.status}`);
-    }
-    const json = await response.json();
-    return Response.json(json);
-  } catch (e) {
-    return Response.json({
-      ethereum: { usd: 0 },
-      starknet: { usd: 0 },
-    });
+  const token = parsePriceToken(decodeURIComponent(symbol));
+  if (!token) {
+    return Response.json(
+      { error: "expected a token symbol or address" },
+      { status: 400 },
+    );
   }
+
+  const quote = await getPriceOracle().getQuote(token);
+  return Response.json(quote, {
+    headers: { "Cache-Control": "no-store" },
+  });
 }
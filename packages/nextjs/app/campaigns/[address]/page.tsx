@@ -0,0 +1,24 @@
+"use client";
+
+import Link from "next/link";
+import { Campaign } from "~~/components/crowdfunding/Campaign";
+
+// Starknet addresses are felts, at most 64 hex digits
+const starknetAddressRegex = /^0x[a-fA-F0-9]{1,64}$/;
+
+const CampaignPage = ({ params }: { params: { address: string } }) => {
+  if (!starknetAddressRegex.test(params.address)) {
+    return (
+      <div className="flex flex-col gap-4 justify-center items-center min-h-[60vh]">
+        <p className="text-lg text-error">Invalid campaign address</p>
+        <Link href="/campaigns" className="btn btn-primary btn-sm">
+          Back to campaigns
+        </Link>
+      </div>
+    );
+  }
+
+  return <Campaign address={params.address} />;
+};
+
+export default CampaignPage;
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from "next/link";
+import { useReadContract } from "@starknet-react/core";
+import { BlockNumber } from "starknet";
+import { FunctionRet } from "abi-wan-kanabi/dist/kanabi";
+import { Address } from "~~/components/scaffold-stark";
+import { useTargetNetwork } from "~~/hooks/scaffold-stark/useTargetNetwork";
+import { crowdfundingFactoryAbi } from "~~/utils/Constants";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+import { contracts } from "~~/utils/scaffold-stark/contract";
+
+/**
+ * Lists every campaign created through the crowdfunding factory.
+ * The factory is only in deployedContracts.ts once `yarn deploy` ran for the target network,
+ * so its address is looked up at runtime and its calls are typed by the factory ABI.
+ */
+const Campaigns = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const factoryContract =
+    contracts?.[targetNetwork.network]?.crowdfundingFactory;
+
+  const {
+    data: campaigns,
+    isLoading: isLoadingCampaigns,
+    error,
+  } = useReadContract({
+    functionName: "get_campaigns",
+    address: factoryContract?.address,
+    abi: crowdfundingFactoryAbi,
+    args: [],
+    watch: true,
+    enabled: !!factoryContract,
+    blockIdentifier: "pending" as BlockNumber,
+  }) as Omit<ReturnType<typeof useReadContract>, "data"> & {
+    data:
+      | FunctionRet<typeof crowdfundingFactoryAbi, "get_campaigns">
+      | undefined;
+  };
+
+  const campaignAddresses = (campaigns ?? []).map((campaign) =>
+    feltToHex(BigInt(campaign)),
+  );
+
+  return (
+    <div className="flex flex-col items-center flex-grow pt-10 px-4">
+      <div className="max-w-2xl w-full">
+        <h1 className="text-4xl font-bold mb-8 text-center">Campaigns</h1>
+
+        {!factoryContract ? (
+          <p className="text-center text-error">
+            Crowdfunding factory not deployed on {targetNetwork.name}
+          </p>
+        ) : isLoadingCampaigns ? (
+          <div className="flex justify-center">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : error ? (
+          <p className="text-center text-error">
+            Could not load the campaigns from the factory
+          </p>
+        ) : campaignAddresses.length === 0 ? (
+          <p className="text-center text-base-content/70">
+            No campaigns created yet
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-4">
+            {campaignAddresses.map((campaignAddress, index) => (
+              <li
+                key={campaignAddress}
+                className="card bg-base-100 shadow-xl flex flex-row items-center justify-between p-4"
+              >
+                <div className="flex items-center gap-4">
+                  <span className="text-base-content/70">#{index + 1}</span>
+                  <Address address={campaignAddress as `0x${string}`} />
+                </div>
+                <Link
+                  href={`/campaigns/${campaignAddress}`}
+                  className="btn btn-primary btn-sm"
+                >
+                  View
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Campaigns;
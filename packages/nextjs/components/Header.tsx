@@ -25,6 +25,14 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "Home",
     href: "/",
   },
+  {
+    label: "Campaigns",
+    href: "/campaigns",
+  },
+  {
+    label: "Admin",
+    href: "/admin",
+  },
   {
     label: "Debug Contracts",
     href: "/debug",
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { parseTokenAmount } from "~~/components/scaffold-stark";
+import {
+  useErc20Token,
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+} from "~~/hooks/scaffold-stark";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+import {
+  TARGET_UNITS,
+  TargetUnit,
+  getTargetDecimals,
+  parseAcceptedTokens,
+  parseRaisedByToken,
+  parseTargetUnit,
+  toTargetUnitEnum,
+  validateAcceptedTokens,
+} from "./acceptedTokens";
+import { parseFundingPolicy } from "./fundingPolicy";
+
+/**
+ * Owner form for the tokens a campaign accepts and the unit of its target.
+ * Both are locked once the round has contributions, and need a keep-what-you-raise policy
+ * since the contract cannot price other tokens or USD to enforce refunds.
+ */
+export const AcceptedTokensForm = ({
+  campaignAddress,
+}: {
+  campaignAddress: string;
+}) => {
+  const [tokensText, setTokensText] = useState("");
+  const [selectedUnit, setSelectedUnit] = useState<TargetUnit>();
+  const [targetValue, setTargetValue] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { data: acceptedTokensData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_accepted_tokens",
+  });
+
+  const { data: targetUnitData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_target_unit",
+  });
+
+  const { data: policyData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_funding_policy",
+  });
+
+  const { data: raisedByToken } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_raised_by_token",
+  });
+
+  const { data: tokenAddress } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_token_address",
+  });
+  const token = useErc20Token({
+    address:
+      tokenAddress !== undefined
+        ? feltToHex(BigInt(tokenAddress.toString()))
+        : undefined,
+  });
+
+  const { sendAsync: setAcceptedTokens, isPending: isSettingTokens } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "set_accepted_tokens",
+      // The tokens are only known once validated, see handleSetTokens
+      args: [undefined],
+    });
+
+  const { sendAsync: setTargetUnit, isPending: isSettingUnit } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "set_target_unit",
+      args: [undefined, undefined],
+    });
+
+  const acceptedTokens = parseAcceptedTokens(acceptedTokensData);
+  const currentUnit = parseTargetUnit(targetUnitData);
+  const unit = selectedUnit ?? currentUnit ?? "Token";
+  const isKeepWhatYouRaise =
+    parseFundingPolicy(policyData) === "KeepWhatYouRaise";
+  const hasContributions = parseRaisedByToken(raisedByToken).some(
+    ({ amount }) => amount > 0n,
+  );
+
+  const handleSetTokens = async () => {
+    const validation = validateAcceptedTokens(tokensText, acceptedTokens[0]);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    try {
+      setErrors([]);
+      await setAcceptedTokens({ args: [validation.tokens] });
+    } catch (error) {
+      console.error("Error setting accepted tokens:", error);
+      setErrors([
+        error instanceof Error ? error.message : "Failed to set the tokens",
+      ]);
+    }
+  };
+
+  const handleSetUnit = async () => {
+    if (token.decimals === undefined) {
+      setErrors(["Token decimals not loaded yet"]);
+      return;
+    }
+
+    try {
+      setErrors([]);
+      const target = parseTokenAmount(
+        targetValue,
+        getTargetDecimals(unit, token.decimals),
+      );
+      if (target <= 0n) {
+        setErrors(["Target must be greater than 0"]);
+        return;
+      }
+      await setTargetUnit({ args: [toTargetUnitEnum(unit), target] });
+    } catch (error) {
+      console.error("Error setting target unit:", error);
+      setErrors([
+        error instanceof Error ? error.message : "Failed to set the target",
+      ]);
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-xl font-bold m-0">Accepted tokens</h2>
+        <p className="text-sm text-base-content/70 mt-1 mb-0">
+          {hasContributions
+            ? "Tokens and target cannot change once the round has contributions."
+            : isKeepWhatYouRaise
+              ? "Other tokens and USD targets are priced off-chain, the campaign unlocks once it ends."
+              : "Accepting other tokens or a USD target needs the keep what you raise policy."}
+        </p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">
+          Tokens besides {token.symbol ?? "the primary token"}
+        </label>
+        <textarea
+          className="textarea textarea-bordered w-full mt-1"
+          placeholder="One token address per line, leave empty to only accept the primary token"
+          value={tokensText}
+          onChange={(e) => setTokensText(e.target.value)}
+          disabled={hasContributions}
+        />
+        {acceptedTokens.length > 1 && (
+          <p className="text-xs text-base-content/70 mt-1 mb-0 break-all">
+            Currently also accepting {acceptedTokens.slice(1).join(", ")}
+          </p>
+        )}
+      </div>
+      <button
+        className="btn btn-primary"
+        onClick={handleSetTokens}
+        disabled={hasContributions || isSettingTokens}
+      >
+        {isSettingTokens ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          "Set accepted tokens"
+        )}
+      </button>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          className="select select-bordered"
+          value={unit}
+          onChange={(e) => setSelectedUnit(e.target.value as TargetUnit)}
+          disabled={hasContributions}
+        >
+          {TARGET_UNITS.map((option) => (
+            <option key={option} value={option}>
+              {option === "Usd" ? "USD" : (token.symbol ?? "Primary token")}
+            </option>
+          ))}
+        </select>
+        <input
+          className="input input-bordered flex-1"
+          placeholder={`Target in ${unit === "Usd" ? "USD" : (token.symbol ?? "tokens")}`}
+          value={targetValue}
+          onChange={(e) => setTargetValue(e.target.value)}
+          disabled={hasContributions}
+        />
+      </div>
+      <button
+        className="btn btn-secondary"
+        onClick={handleSetUnit}
+        disabled={hasContributions || isSettingUnit || !targetValue}
+      >
+        {isSettingUnit ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          "Set target"
+        )}
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="text-error text-sm bg-error/10 p-2 rounded-md m-0 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
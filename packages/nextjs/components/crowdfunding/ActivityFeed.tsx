@@ -0,0 +1,313 @@
+import { useMemo, useState } from "react";
+import { Address } from "~~/components/scaffold-stark";
+import {
+  formatTokenAmount,
+  tokenAmountToUsd,
+} from "~~/components/scaffold-stark";
+import {
+  getHistoricalPriceKey,
+  useHistoricalPrices,
+  useScaffoldEventHistory,
+} from "~~/hooks/scaffold-stark";
+import { useTargetNetwork } from "~~/hooks/scaffold-stark/useTargetNetwork";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-stark";
+import {
+  ActivityFilter,
+  ActivityItem,
+  ActivityValuation,
+  buildActivity,
+  filterActivity,
+  getTopDonors,
+  toActivityCsv,
+} from "./activity";
+import { TokenPricing } from "./acceptedTokens";
+
+type ActivityFeedProps = {
+  campaignAddress: string;
+  // The campaign's primary token, used for transfers without a token and top donors
+  tokenAddress?: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  tokenPrice: number;
+  // Other accepted tokens by address, and USD prices by symbol
+  tokens?: Record<string, TokenPricing>;
+  prices?: Record<string, number>;
+};
+
+const FILTERS: { value: ActivityFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "donations", label: "Donations" },
+  { value: "withdrawals", label: "Withdrawals" },
+  { value: "status", label: "Status changes" },
+];
+
+/**
+ * Live feed of a campaign's donations, withdrawals and status changes,
+ * with a leaderboard of its top donors
+ */
+export const ActivityFeed = ({
+  campaignAddress,
+  tokenAddress,
+  tokenSymbol,
+  tokenDecimals,
+  tokenPrice,
+  tokens = {},
+  prices = {},
+}: ActivityFeedProps) => {
+  const [filter, setFilter] = useState<ActivityFilter>("all");
+  const { targetNetwork } = useTargetNetwork();
+
+  const eventConfig = {
+    contractName: "crowdfunding",
+    address: campaignAddress,
+    fromBlock: 0n,
+    blockData: true,
+    watch: true,
+  } as const;
+
+  const { data: transfers, isLoading: isLoadingTransfers } =
+    useScaffoldEventHistory({
+      ...eventConfig,
+      eventName: "contracts::crowdfunding::crowdfunding::Transfer",
+    });
+  const { data: failedTransfers } = useScaffoldEventHistory({
+    ...eventConfig,
+    eventName: "contracts::crowdfunding::crowdfunding::TransferFailed",
+  });
+  const { data: refunds } = useScaffoldEventHistory({
+    ...eventConfig,
+    eventName: "contracts::crowdfunding::crowdfunding::Refunded",
+  });
+  const { data: statusChanges } = useScaffoldEventHistory({
+    ...eventConfig,
+    eventName: "contracts::crowdfunding::crowdfunding::ActiveChanged",
+  });
+  const { data: resets } = useScaffoldEventHistory({
+    ...eventConfig,
+    eventName: "contracts::crowdfunding::crowdfunding::ResetFund",
+  });
+
+  const activity = useMemo(
+    () =>
+      buildActivity(campaignAddress, {
+        transfers,
+        failedTransfers,
+        refunds,
+        statusChanges,
+        resets,
+      }),
+    [
+      campaignAddress,
+      transfers,
+      failedTransfers,
+      refunds,
+      statusChanges,
+      resets,
+    ],
+  );
+  const visibleActivity = filterActivity(activity, filter);
+  const topDonors = getTopDonors(activity, 5, tokenAddress);
+
+  const getToken = (token?: string) => {
+    const other =
+      token && tokenAddress && BigInt(token) !== BigInt(tokenAddress)
+        ? tokens[token]
+        : undefined;
+    const symbol = other ? (other.symbol ?? "TOKEN") : tokenSymbol;
+    return {
+      symbol,
+      decimals: other ? (other.decimals ?? 18) : tokenDecimals,
+      price: other ? (prices[symbol] ?? 0) : tokenPrice,
+    };
+  };
+
+  // Transfers are valued at the price of their block too, for receipts and reports
+  const historicalPrices = useHistoricalPrices(
+    activity
+      .filter((item) => item.kind !== "status" && item.timestamp)
+      .map((item) => ({
+        symbol: getToken(item.token).symbol,
+        timestamp: item.timestamp!,
+      })),
+  );
+
+  const getValuation = (item: ActivityItem): ActivityValuation => {
+    const token = getToken(item.token);
+    return {
+      ...token,
+      priceAtTime: item.timestamp
+        ? historicalPrices[
+            getHistoricalPriceKey({
+              symbol: token.symbol,
+              timestamp: item.timestamp,
+            })
+          ]
+        : undefined,
+    };
+  };
+
+  const formatAmount = (amount: bigint, token?: string) => {
+    const { symbol, decimals, price } = getToken(token);
+    const tokenAmount = `${formatTokenAmount(amount, decimals, 4)} ${symbol}`;
+    return price > 0
+      ? `${tokenAmount} ($${tokenAmountToUsd(amount, decimals, price)})`
+      : tokenAmount;
+  };
+
+  const formatValueAtTime = (item: ActivityItem) => {
+    const { decimals, priceAtTime } = getValuation(item);
+    if (item.amount === undefined || !priceAtTime) return undefined;
+    const usd = tokenAmountToUsd(item.amount, decimals, priceAtTime);
+    return item.kind === "donation"
+      ? `$${usd} at donation time`
+      : `$${usd} at the time`;
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toActivityCsv(activity, getValuation)], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `campaign-${campaignAddress.slice(0, 10)}-activity.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="md:col-span-2 bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Activity
+          </h2>
+          <div className="flex flex-wrap gap-1">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                className={`px-3 py-1 text-xs font-medium rounded-full ${
+                  filter === value
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                }`}
+                onClick={() => setFilter(value)}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              className="px-3 py-1 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              onClick={handleExport}
+              disabled={activity.length === 0}
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {isLoadingTransfers && activity.length === 0 ? (
+          <div className="flex justify-center">
+            <span className="loading loading-spinner loading-md"></span>
+          </div>
+        ) : visibleActivity.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No activity yet
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {visibleActivity.map((item) => {
+              const explorerLink = getBlockExplorerTxLink(
+                targetNetwork.network,
+                item.transactionHash,
+              );
+              const valueAtTime = formatValueAtTime(item);
+              return (
+                <li
+                  key={item.id}
+                  className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                >
+                  <div className="flex flex-col gap-1">
+                    <span
+                      className={`text-sm font-medium ${
+                        item.failed
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-gray-900 dark:text-white"
+                      }`}
+                    >
+                      {item.label}
+                    </span>
+                    {item.account && (
+                      <Address
+                        address={item.account as `0x${string}`}
+                        size="sm"
+                      />
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:items-end gap-1 text-sm">
+                    {item.amount !== undefined && (
+                      <span className="text-gray-900 dark:text-white">
+                        {formatAmount(item.amount, item.token)}
+                      </span>
+                    )}
+                    {valueAtTime && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {valueAtTime}
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {item.timestamp
+                        ? new Date(item.timestamp * 1000).toLocaleString()
+                        : `Block ${item.blockNumber}`}
+                      {explorerLink && (
+                        <>
+                          {" · "}
+                          <a
+                            href={explorerLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="underline"
+                          >
+                            View transaction
+                          </a>
+                        </>
+                      )}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Top donors
+        </h2>
+        {topDonors.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No donations yet
+          </p>
+        ) : (
+          <ol className="flex flex-col gap-3">
+            {topDonors.map((donor, index) => (
+              <li key={donor.account} className="flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    #{index + 1}
+                  </span>
+                  <Address address={donor.account as `0x${string}`} size="sm" />
+                </div>
+                <span className="text-sm text-gray-900 dark:text-white">
+                  {formatAmount(donor.total)} · {donor.count}{" "}
+                  {donor.count === 1 ? "donation" : "donations"}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,981 @@
+/**
+ * Starknet Crowdfunding Campaign
+ *
+ * This is the campaign component for the crowdfunding dApp, parameterised by the
+ * address of a crowdfunding contract so it serves both the home page and every
+ * campaign created through the factory.
+ * It provides a user interface for:
+ * - Viewing campaign details, progress and its markdown description
+ * - Making donations in any ERC20 token the campaign is configured with
+ * - Managing campaign status (for owners)
+ * - Withdrawing funds once the target is met (for owners)
+ * - Claiming refunds when a campaign misses its target
+ * - Following donations, withdrawals and status changes as they happen
+ *
+ * The component integrates with Starknet smart contracts using scaffold-stark hooks
+ * and handles all necessary token approvals and transactions.
+ */
+
+"use client";
+
+import { ConnectedAddress } from "~~/components/ConnectedAddress";
+import {
+  CampaignProgress,
+  TokenInput,
+  formatTokenAmount,
+  parseTokenAmount,
+} from "~~/components/scaffold-stark";
+import { useState, useMemo, useEffect } from "react";
+import {
+  useCrowdfundingDonate,
+  useErc20Token,
+  useErc20Tokens,
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+  useTokenPrices,
+} from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+import {
+  aggregateRaised,
+  getTargetDecimals,
+  parseAcceptedTokens,
+  parseRaisedByToken,
+  parseTargetUnit,
+} from "./acceptedTokens";
+import { ActivityFeed } from "./ActivityFeed";
+import { CampaignDescription } from "./CampaignDescription";
+import { CampaignMetadataCard } from "./CampaignMetadataCard";
+import {
+  FUNDING_POLICY_INFO,
+  getHardCapRemaining,
+  parseFundingPolicy,
+  parseStretchGoals,
+} from "./fundingPolicy";
+import { MilestoneTimeline } from "./MilestoneTimeline";
+import { getReleasedTotal, parseMilestones } from "./milestones";
+import { MyContribution } from "./MyContribution";
+import { RewardTierSelector } from "./RewardTierSelector";
+import { StretchGoals } from "./StretchGoals";
+import { TokenBreakdown } from "./TokenBreakdown";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+
+/**
+ * Formats remaining time into human-readable countdown
+ * @param remainingTime - Time remaining in seconds
+ * @returns Formatted string showing days, hours, minutes, and seconds
+ */
+const formatCountdown = (remainingTime: number): string => {
+  if (remainingTime <= 0) return "Ended";
+
+  const days = Math.floor(remainingTime / (24 * 60 * 60));
+  const hours = Math.floor((remainingTime % (24 * 60 * 60)) / (60 * 60));
+  const minutes = Math.floor((remainingTime % (60 * 60)) / 60);
+  const seconds = Math.floor(remainingTime % 60);
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m ${seconds}s`;
+  } else if (hours > 0) {
+    return `${hours}h ${minutes}m ${seconds}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  } else {
+    return `${seconds}s`;
+  }
+};
+
+/**
+ * Format deadline timestamp to human readable date and time
+ * @param timestamp Unix timestamp in seconds
+ * @returns Formatted date string
+ */
+const formatDeadline = (timestamp: string) => {
+  if (!timestamp) return "Loading...";
+  const date = new Date(Number(timestamp) * 1000);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString();
+};
+
+/**
+ * Main component for a crowdfunding campaign
+ * Manages campaign state, user interactions, and UI rendering
+ * @param address - Address of the crowdfunding contract to display
+ */
+export const Campaign = ({ address: campaignAddress }: { address: string }) => {
+  // Form and UI state management
+  const [sendValue, setSendValue] = useState(""); // Donation amount input
+  const [isLoading, setIsLoading] = useState(false); // Loading state for transactions
+  const [error, setError] = useState<string | null>(null); // Error message display
+  const [pendingAmount, setPendingAmount] = useState<bigint | null>(null); // Amount pending confirmation
+  const [showConfirmDialog, setShowConfirmDialog] = useState(false); // Confirmation dialog visibility
+  const [remainingTime, setRemainingTime] = useState<number>(0); // Campaign time remaining
+  const [selectedToken, setSelectedToken] = useState<string>(); // Token to donate, the primary token by default
+
+  // User account state
+  const { address } = useAccount(); // Connected wallet address
+
+  // Contract state queries against the campaign address
+  const { data: fundTitle, isLoading: isLoadingTitle } =
+    useScaffoldReadContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "get_fund_title",
+    });
+
+  const { data: fundDescriptionUri } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_fund_description_uri",
+  });
+
+  const { data: tokenAddress } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_token_address",
+  });
+
+  // Every token read goes through the generic ERC20 hook, so any token set via reset_fund works
+  const token = useErc20Token({
+    address:
+      tokenAddress !== undefined
+        ? feltToHex(BigInt(tokenAddress.toString()))
+        : undefined,
+    owner: address,
+    spender: campaignAddress,
+  });
+  const tokenSymbol = token.symbol ? token.symbol.toUpperCase() : "TOKEN";
+  const tokenDecimals = token.decimals;
+
+  // Campaigns can accept other tokens next to the primary one, which is always listed first
+  const { data: acceptedTokensData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_accepted_tokens",
+  });
+  const acceptedTokens = parseAcceptedTokens(acceptedTokensData);
+  const acceptedTokenInfo = useErc20Tokens(acceptedTokens);
+
+  const { data: raisedByTokenData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_raised_by_token",
+  });
+  const raisedByToken = parseRaisedByToken(raisedByTokenData);
+
+  const { data: targetUnitData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_target_unit",
+  });
+  const targetUnit = parseTargetUnit(targetUnitData) ?? "Token";
+
+  // USD prices of every accepted token, tokens without a known price map to 0
+  const tokenPrices = useTokenPrices(
+    Array.from(
+      new Set([
+        tokenSymbol,
+        ...Object.values(acceptedTokenInfo).flatMap((info) =>
+          info.symbol ? [info.symbol] : [],
+        ),
+      ]),
+    ),
+  );
+  const tokenPrice = tokenPrices[tokenSymbol] ?? 0;
+
+  const donationToken = useErc20Token({
+    address: selectedToken ?? token.address,
+    owner: address,
+    spender: campaignAddress,
+  });
+  const isPrimaryDonation =
+    !selectedToken ||
+    !token.address ||
+    BigInt(selectedToken) === BigInt(token.address);
+  const donationSymbol = donationToken.symbol
+    ? donationToken.symbol.toUpperCase()
+    : tokenSymbol;
+  const donationDecimals = donationToken.decimals;
+  const donationPrice = tokenPrices[donationSymbol] ?? 0;
+
+  const { data: fundBalance, isLoading: isLoadingBalance } =
+    useScaffoldReadContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "get_fund_balance",
+    });
+
+  const { data: fundTarget, isLoading: isLoadingTarget } =
+    useScaffoldReadContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "get_fund_target",
+    });
+
+  const { data: totalRaised } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_total_raised",
+  });
+
+  const { data: deadline } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_deadline",
+  });
+
+  const { data: initialOwner } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_owner",
+  });
+
+  const { data: isActive } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_active",
+  });
+
+  const { data: milestonesData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_milestones",
+  });
+  const milestones = parseMilestones(milestonesData);
+  const { data: fundingPolicyData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_funding_policy",
+  });
+  const fundingPolicy = parseFundingPolicy(fundingPolicyData);
+
+  const { data: stretchGoalsData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_stretch_goals",
+  });
+  const stretchGoals = parseStretchGoals(stretchGoalsData);
+
+  // Campaigns with milestones pay out through the timeline instead of withdraw_funds
+  const hasMilestones = milestones.length > 0;
+
+  // Contract write functions
+  // Donations are sent as a single approve + fund_to_contract multicall
+  const { donate, isPending: isApproving } = useCrowdfundingDonate({
+    campaignAddress,
+    tokenAddress: donationToken.address,
+    fundWithToken: !isPrimaryDonation,
+  });
+
+  const {
+    sendAsync: withdrawFunds,
+    isPending: isWithdrawing,
+    txStatus: withdrawStatus,
+  } = useScaffoldWriteContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "withdraw_funds",
+  });
+
+  const { sendAsync: setActive, isPending: isSettingActive } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "set_active",
+      args: [true] as const,
+    });
+
+  // Memoized computations
+  const isOwner = useMemo(() => {
+    if (!initialOwner || !address) return false;
+    const ownerHex =
+      "0x" + BigInt(initialOwner.toString()).toString(16).padStart(64, "0");
+    const addressHex = address.toLowerCase();
+    return ownerHex.toLowerCase() === addressHex;
+  }, [initialOwner, address]);
+
+  const raised =
+    totalRaised !== undefined ? BigInt(totalRaised.toString()) : 0n;
+  const target = fundTarget !== undefined ? BigInt(fundTarget.toString()) : 0n;
+
+  // Progress is shown in the target's unit, other tokens are converted with their USD price
+  const targetDecimals = getTargetDecimals(targetUnit, tokenDecimals ?? 18);
+  const targetSymbol = targetUnit === "Usd" ? "USD" : tokenSymbol;
+  const aggregated = aggregateRaised({
+    raised: raisedByToken,
+    unit: targetUnit,
+    primaryToken: token.address,
+    tokens: acceptedTokenInfo,
+    prices: tokenPrices,
+  });
+  const pledged = raisedByToken.length > 0 ? aggregated.total : raised;
+
+  // Funds can only be withdrawn once the target is met, otherwise backers get refunds
+  const isTargetMet =
+    totalRaised !== undefined && fundTarget !== undefined && raised >= target;
+  // Mirrors is_payout_unlocked, USD targets are priced off-chain so they only unlock once ended
+  const isPayoutUnlocked =
+    (targetUnit === "Token" && isTargetMet) ||
+    (fundingPolicy === "KeepWhatYouRaise" &&
+      deadline !== undefined &&
+      remainingTime === 0);
+  const hasFunds =
+    (fundBalance !== undefined && BigInt(fundBalance.toString()) > 0n) ||
+    raisedByToken.slice(1).some(({ amount }) => amount > 0n);
+
+  // Transaction handlers
+  const handleToggleActive = async () => {
+    // Toggle campaign active status
+    try {
+      setError(null);
+      setIsLoading(true);
+
+      await setActive({ args: [!isActive] });
+    } catch (error) {
+      console.error("Error changing status:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to change status",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitDonation = async (amount: bigint) => {
+    // Approve and fund in one transaction, the hook checks balance and allowance first
+    const result = await donate(amount);
+    if (result.status === "failed") {
+      setError(result.message);
+      return;
+    }
+    setSendValue("");
+  };
+
+  const handleDonate = async () => {
+    // Handle donation flow including validation and token approval
+    try {
+      setError(null);
+      setIsLoading(true);
+
+      // 输入验证
+      if (!sendValue) {
+        setError("Please enter an amount");
+        return;
+      }
+
+      // 检查钱包连接
+      if (!address) {
+        setError("Please connect your wallet first");
+        return;
+      }
+
+      if (donationDecimals === undefined) {
+        setError("Token decimals not loaded yet");
+        return;
+      }
+
+      // 数值验证, parsed exactly with the token's decimals
+      const amount = parseTokenAmount(sendValue, donationDecimals);
+      if (amount <= 0n) {
+        setError("Amount must be greater than 0");
+        return;
+      }
+
+      // Hard capped campaigns revert contributions beyond the target
+      if (fundingPolicy === "HardCap") {
+        const remaining = getHardCapRemaining(target, raised);
+        if (amount > remaining) {
+          setError(
+            `This campaign is capped at its target, at most ${formatTokenAmount(remaining, tokenDecimals ?? 18)} ${tokenSymbol} can still be contributed`,
+          );
+          return;
+        }
+      }
+      // 这里modal dialog提示用户确认捐赠金额
+      if (fundTarget) {
+        setPendingAmount(amount);
+        setShowConfirmDialog(true);
+        return;
+      }
+
+      await submitDonation(amount);
+    } catch (error) {
+      console.error("Error donating:", error);
+      setError(error instanceof Error ? error.message : "Failed to donate");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    // Process withdrawal for contract owner
+    try {
+      setError(null);
+      setIsLoading(true);
+
+      // Resolves once the withdrawal is accepted on L2, a revert throws with the decoded reason
+      await withdrawFunds();
+    } catch (error) {
+      console.error("Error withdrawing:", error);
+      setError(error instanceof Error ? error.message : "Failed to withdraw");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setShowConfirmDialog(false);
+    setPendingAmount(null);
+    setIsLoading(false);
+  };
+
+  const handleConfirmDonate = async () => {
+    // Confirm donation and execute transaction
+    try {
+      if (!pendingAmount) return;
+
+      setShowConfirmDialog(false);
+      const amount = pendingAmount;
+      setPendingAmount(null);
+
+      await submitDonation(amount);
+    } catch (error) {
+      console.error("Error in confirmation:", error);
+      setError(error instanceof Error ? error.message : "Confirmation failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Countdown timer effect
+  useEffect(() => {
+    // Update remaining time every second
+    if (!deadline) return;
+
+    const updateCountdown = () => {
+      const now = Math.floor(Date.now() / 1000);
+      const endTime = Number(deadline.toString());
+      const timeLeft = endTime - now;
+      setRemainingTime(Math.max(0, timeLeft));
+    };
+
+    // 初始更新
+    updateCountdown();
+
+    // 每秒更新一次
+    const timer = setInterval(updateCountdown, 1000);
+
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  // UI Rendering
+  return (
+    <div className="bg-gradient-to-b from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      {/* Main layout container with responsive padding */}
+      <div className="flex flex-col">
+        {/* Hero Section - Top */}
+        <div className="flex-shrink-0 px-4 sm:px-6 lg:px-8 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">
+              <span className="block text-indigo-600 dark:text-indigo-400">
+                Starknet CrowdFunding
+              </span>
+              <span className="block">
+                {fundTitle !== undefined ? fundTitle.toString() : "Loading..."}
+              </span>
+            </h1>
+            <div className="mt-2 text-base text-gray-500 dark:text-gray-400 sm:text-lg">
+              Join us in making a difference. Support this project with{" "}
+              {acceptedTokens.length > 1
+                ? acceptedTokens
+                    .map(
+                      (accepted) =>
+                        acceptedTokenInfo[accepted]?.symbol ?? "TOKEN",
+                    )
+                    .join(", ")
+                : tokenSymbol}
+              .
+            </div>
+          </div>
+
+          {/* Wallet Connection */}
+          <div className="mt-4 flex justify-center">
+            <ConnectedAddress />
+          </div>
+
+          {isOwner && (
+            <div className="mt-2 text-center">
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                You are the contract owner
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Main Content */}
+        <div className="px-4 sm:px-6 lg:px-8 pb-6">
+          <CampaignDescription uri={fundDescriptionUri?.toString()} />
+          <CampaignMetadataCard address={campaignAddress} />
+          {isActive ? (
+            <div className="max-w-4xl mx-auto">
+              {isLoadingTitle ||
+              isLoadingBalance ||
+              isLoadingTarget ||
+              token.isLoading ? (
+                <div className="flex justify-center items-center">
+                  <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-indigo-500"></div>
+                </div>
+              ) : (
+                <div className="bg-white dark:bg-gray-800 shadow overflow-hidden rounded-lg">
+                  {/* Progress Card */}
+                  <div className="p-4">
+                    <div className="space-y-4">
+                      {/* Progress Bar */}
+                      <div>
+                        <CampaignProgress
+                          target={target}
+                          pledged={pledged}
+                          withdrawn={getReleasedTotal(milestones)}
+                          stretchGoals={stretchGoals.map((goal) => ({
+                            label: goal.name,
+                            amount: goal.amount,
+                          }))}
+                          targetLabel={
+                            fundingPolicy === "HardCap" ? "Cap" : "Target"
+                          }
+                          decimals={targetDecimals}
+                          symbol={targetSymbol}
+                        />
+                        {fundingPolicy && (
+                          <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                            {FUNDING_POLICY_INFO[fundingPolicy].label}:{" "}
+                            {FUNDING_POLICY_INFO[fundingPolicy].description}
+                          </div>
+                        )}
+                      </div>
+
+                      <StretchGoals
+                        goals={stretchGoals}
+                        raised={pledged}
+                        tokenSymbol={targetSymbol}
+                        tokenDecimals={targetDecimals}
+                      />
+
+                      {acceptedTokens.length > 1 && (
+                        <TokenBreakdown
+                          raised={raisedByToken}
+                          tokens={acceptedTokenInfo}
+                          prices={tokenPrices}
+                          missingPrices={aggregated.missingPrices}
+                        />
+                      )}
+
+                      {/* Stats Grid */}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                            Current Balance
+                          </div>
+                          <div className="mt-1 flex items-baseline">
+                            <span className="text-2xl font-semibold text-gray-900 dark:text-white">
+                              {formatTokenAmount(
+                                fundBalance?.toString(),
+                                tokenDecimals ?? 18,
+                              )}
+                            </span>
+                            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                              {tokenSymbol}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                            Time Remaining
+                          </div>
+                          <div className="mt-1">
+                            <div className="text-2xl font-bold tracking-tight">
+                              <span
+                                className={`inline-flex items-center ${
+                                  remainingTime > 24 * 60 * 60
+                                    ? "text-green-600 dark:text-green-400"
+                                    : remainingTime > 0
+                                      ? "text-yellow-600 dark:text-yellow-400"
+                                      : "text-red-600 dark:text-red-400"
+                                }`}
+                              >
+                                {remainingTime > 0 ? "⏱ " : "🔚 "}
+                                {formatCountdown(remainingTime)}
+                              </span>
+                            </div>
+                            <div className="mt-1">
+                              <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md bg-blue-50/50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-200 border border-blue-100 dark:border-blue-800/30">
+                                Deadline:{" "}
+                                {formatDeadline(deadline?.toString() || "")}
+                              </span>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Donation Form */}
+                      <div className="mt-auto">
+                        <div className="flex flex-col space-y-4">
+                          {acceptedTokens.length > 1 && (
+                            <select
+                              className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                              value={selectedToken ?? acceptedTokens[0]}
+                              onChange={(e) => {
+                                setSelectedToken(e.target.value);
+                                setSendValue("");
+                              }}
+                              disabled={isLoading || isApproving}
+                            >
+                              {acceptedTokens.map((accepted) => (
+                                <option key={accepted} value={accepted}>
+                                  {acceptedTokenInfo[accepted]?.symbol ??
+                                    accepted}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          {/* Reward tiers are reached with primary token contributions */}
+                          {isPrimaryDonation && (
+                            <RewardTierSelector
+                              campaignAddress={campaignAddress}
+                              tokenSymbol={tokenSymbol}
+                              tokenDecimals={tokenDecimals ?? 18}
+                              disabled={isLoading || isApproving}
+                              onSelect={setSendValue}
+                            />
+                          )}
+                          <TokenInput
+                            value={sendValue}
+                            onChange={setSendValue}
+                            placeholder={`Amount to donate (${donationSymbol})`}
+                            disabled={isLoading || isApproving}
+                            decimals={donationDecimals ?? 18}
+                            symbol={donationSymbol}
+                            price={donationPrice}
+                          />
+                          <button
+                            className={`w-full px-4 py-3 rounded-md text-white font-medium ${
+                              isLoading || isApproving || !sendValue
+                                ? "bg-gray-400 cursor-not-allowed"
+                                : "bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                            } transition-all duration-200`}
+                            onClick={handleDonate}
+                            disabled={isLoading || isApproving || !sendValue}
+                          >
+                            {isLoading || isApproving ? (
+                              <span className="flex items-center justify-center">
+                                <svg
+                                  className="animate-spin -ml-1 mr-2 h-5 w-5 text-white"
+                                  xmlns="http://www.w3.org/2000/svg"
+                                  fill="none"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <circle
+                                    className="opacity-25"
+                                    cx="12"
+                                    cy="12"
+                                    r="10"
+                                    stroke="currentColor"
+                                    strokeWidth="4"
+                                  ></circle>
+                                  <path
+                                    className="opacity-75"
+                                    fill="currentColor"
+                                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                                  ></path>
+                                </svg>
+                                Processing...
+                              </span>
+                            ) : (
+                              `Donate ${donationSymbol}`
+                            )}
+                          </button>
+                          {error && (
+                            <div className="text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-2 rounded-md">
+                              {error}
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Admin Controls */}
+                        {isOwner && (
+                          <div className="mt-4 flex justify-end gap-4">
+                            <button
+                              className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm ${
+                                isActive
+                                  ? "text-white bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                                  : "text-white bg-green-600 hover:bg-green-700 focus:ring-green-500"
+                              } focus:outline-none focus:ring-2 focus:ring-offset-2 transition-all duration-200`}
+                              onClick={handleToggleActive}
+                              disabled={isLoading || isSettingActive}
+                            >
+                              {isLoading || isSettingActive ? (
+                                <span className="flex items-center">
+                                  <svg
+                                    className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                                    xmlns="http://www.w3.org/2000/svg"
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                  >
+                                    <circle
+                                      className="opacity-25"
+                                      cx="12"
+                                      cy="12"
+                                      r="10"
+                                      stroke="currentColor"
+                                      strokeWidth="4"
+                                    ></circle>
+                                    <path
+                                      className="opacity-75"
+                                      fill="currentColor"
+                                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                                    ></path>
+                                  </svg>
+                                  Processing...
+                                </span>
+                              ) : isActive ? (
+                                "Deactivate Funding"
+                              ) : (
+                                "Activate Funding"
+                              )}
+                            </button>
+                            {!hasMilestones && (
+                              <button
+                                className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm ${
+                                  isLoading ||
+                                  isWithdrawing ||
+                                  !hasFunds ||
+                                  !isPayoutUnlocked
+                                    ? "bg-gray-400 cursor-not-allowed"
+                                    : "text-white bg-blue-600 hover:bg-blue-700 focus:ring-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2"
+                                } transition-all duration-200`}
+                                onClick={handleWithdraw}
+                                disabled={
+                                  isLoading ||
+                                  isWithdrawing ||
+                                  !hasFunds ||
+                                  !isPayoutUnlocked
+                                }
+                              >
+                                {isLoading || isWithdrawing ? (
+                                  <span className="flex items-center">
+                                    <svg
+                                      className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      fill="none"
+                                      viewBox="0 0 24 24"
+                                    >
+                                      <circle
+                                        className="opacity-25"
+                                        cx="12"
+                                        cy="12"
+                                        r="10"
+                                        stroke="currentColor"
+                                        strokeWidth="4"
+                                      ></circle>
+                                      <path
+                                        className="opacity-75"
+                                        fill="currentColor"
+                                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                                      ></path>
+                                    </svg>
+                                    {withdrawStatus?.status === "pending"
+                                      ? "Confirming..."
+                                      : "Processing..."}
+                                  </span>
+                                ) : (
+                                  "Withdraw Funds"
+                                )}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {isOwner && withdrawStatus && (
+                          <div
+                            className={`mt-2 text-sm text-right ${
+                              withdrawStatus.status === "reverted" ||
+                              withdrawStatus.status === "rejected"
+                                ? "text-red-500"
+                                : withdrawStatus.status === "accepted"
+                                  ? "text-green-600"
+                                  : "text-gray-500"
+                            }`}
+                          >
+                            {withdrawStatus.status === "reverted"
+                              ? `Withdrawal reverted: ${withdrawStatus.revertReason}`
+                              : withdrawStatus.status === "rejected"
+                                ? `Withdrawal failed: ${withdrawStatus.revertReason}`
+                                : withdrawStatus.status === "accepted"
+                                  ? "Withdrawal accepted on L2"
+                                  : "Withdrawal submitted, waiting for confirmation..."}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="h-full max-w-4xl mx-auto flex items-center justify-center">
+              <div className="bg-red-50 dark:bg-red-900/20 border-l-4 border-red-400 p-4 rounded-md">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <svg
+                      className="h-5 w-5 text-red-400"
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 20 20"
+                      fill="currentColor"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                  </div>
+                  <div className="ml-3">
+                    <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
+                      Funding Closed
+                    </h3>
+                    <div className="mt-2 text-sm text-red-700 dark:text-red-300">
+                      This crowdfunding campaign is currently not active. Please
+                      check back later.
+                    </div>
+                  </div>
+                </div>
+                {/* Admin Controls */}
+                {isOwner && (
+                  <div className="mt-4 flex justify-end gap-4">
+                    <button
+                      className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm ${
+                        isActive
+                          ? "text-white bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                          : "text-white bg-green-600 hover:bg-green-700 focus:ring-green-500"
+                      } focus:outline-none focus:ring-2 focus:ring-offset-2 transition-all duration-200`}
+                      onClick={handleToggleActive}
+                      disabled={isLoading || isSettingActive}
+                    >
+                      {isLoading || isSettingActive ? (
+                        <span className="flex items-center">
+                          <svg
+                            className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                            xmlns="http://www.w3.org/2000/svg"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                          >
+                            <circle
+                              className="opacity-25"
+                              cx="12"
+                              cy="12"
+                              r="10"
+                              stroke="currentColor"
+                              strokeWidth="4"
+                            ></circle>
+                            <path
+                              className="opacity-75"
+                              fill="currentColor"
+                              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                            ></path>
+                          </svg>
+                          Processing...
+                        </span>
+                      ) : isActive ? (
+                        "Deactivate Funding"
+                      ) : (
+                        "Activate Funding"
+                      )}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+          <MilestoneTimeline
+            campaignAddress={campaignAddress}
+            tokenSymbol={tokenSymbol}
+            tokenDecimals={tokenDecimals ?? 18}
+            isOwner={isOwner}
+            isTargetMet={isTargetMet}
+          />
+          <MyContribution
+            campaignAddress={campaignAddress}
+            tokenSymbol={tokenSymbol}
+            tokenDecimals={tokenDecimals ?? 18}
+          />
+          <ActivityFeed
+            campaignAddress={campaignAddress}
+            tokenAddress={token.address}
+            tokenSymbol={tokenSymbol}
+            tokenDecimals={tokenDecimals ?? 18}
+            tokenPrice={tokenPrice}
+            tokens={acceptedTokenInfo}
+            prices={tokenPrices}
+          />
+        </div>
+      </div>
+
+      {/* Confirmation Modal */}
+      {showConfirmDialog && pendingAmount && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">
+              &#8203;
+            </span>
+            <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6">
+              <div>
+                <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 dark:bg-indigo-900">
+                  <svg
+                    className="h-6 w-6 text-indigo-600 dark:text-indigo-400"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                </div>
+                <div className="mt-3 text-center sm:mt-5">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+                    Confirm Donation
+                  </h3>
+                  <div className="mt-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Are you sure you want to donate{" "}
+                      {formatTokenAmount(pendingAmount, donationDecimals ?? 18)}{" "}
+                      {donationSymbol}?
+                    </p>
+                  </div>
+                </div>
+              </div>
+              <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+                <button
+                  type="button"
+                  className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:col-start-2 sm:text-sm"
+                  onClick={handleConfirmDonate}
+                  disabled={isLoading}
+                >
+                  {isLoading ? "Processing..." : "Confirm"}
+                </button>
+                <button
+                  type="button"
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:col-start-1 sm:text-sm"
+                  onClick={handleCancel}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
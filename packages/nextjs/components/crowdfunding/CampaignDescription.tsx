@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { loadDescription } from "./descriptionUri";
+import { MarkdownContent } from "./MarkdownContent";
+
+/**
+ * Loads and renders the markdown description of a campaign from its `fund_description_uri`.
+ */
+export const CampaignDescription = ({ uri }: { uri?: string }) => {
+  const [content, setContent] = useState<string>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setContent(undefined);
+    setError(null);
+    if (!uri) return;
+
+    let cancelled = false;
+    loadDescription(uri)
+      .then((markdown) => {
+        if (!cancelled) setContent(markdown);
+      })
+      .catch((e) => {
+        console.error("⚡️ ~ file: CampaignDescription.tsx ~ error", e);
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  if (!uri) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6 bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      {error ? (
+        <p className="m-0 text-sm text-red-500">{error}</p>
+      ) : content === undefined ? (
+        <div className="flex justify-center">
+          <span className="loading loading-spinner loading-md"></span>
+        </div>
+      ) : (
+        <MarkdownContent content={content} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { useCampaignMetadata } from "~~/hooks/scaffold-stark";
+import { IPFS_GATEWAY } from "./descriptionUri";
+
+// Metadata URIs are https:// or ipfs://, the latter is loaded through the public gateway
+const toHttpUrl = (uri: string) =>
+  uri.startsWith("ipfs://") ? IPFS_GATEWAY + uri.slice("ipfs://".length) : uri;
+
+/**
+ * Shows the off-chain metadata of a campaign once it has been verified against the on-chain hash.
+ */
+export const CampaignMetadataCard = ({ address }: { address: string }) => {
+  const { metadata, metadataHash, isLoading, error } =
+    useCampaignMetadata(address);
+
+  if (!metadataHash) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6 bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      {error ? (
+        <p className="m-0 text-sm text-red-500">{error}</p>
+      ) : isLoading || !metadata ? (
+        <div className="flex justify-center">
+          <span className="loading loading-spinner loading-md"></span>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <span className="badge badge-primary capitalize">
+              {metadata.category}
+            </span>
+            <span
+              className="text-xs text-green-600 dark:text-green-400"
+              title={metadataHash}
+            >
+              ✓ Verified against the on-chain hash
+            </span>
+          </div>
+
+          {metadata.images.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {metadata.images.map((image) => (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  key={image}
+                  src={toHttpUrl(image)}
+                  alt={`${metadata.grantee.name} campaign`}
+                  className="h-40 rounded-md object-cover"
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-start gap-3">
+            {metadata.grantee.avatar && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={toHttpUrl(metadata.grantee.avatar)}
+                alt={metadata.grantee.name}
+                className="h-12 w-12 rounded-full object-cover"
+              />
+            )}
+            <div>
+              <div className="font-semibold">
+                {metadata.grantee.website ? (
+                  <a
+                    href={toHttpUrl(metadata.grantee.website)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="link"
+                  >
+                    {metadata.grantee.name}
+                  </a>
+                ) : (
+                  metadata.grantee.name
+                )}
+              </div>
+              {metadata.grantee.bio && (
+                <p className="m-0 text-sm text-gray-500 dark:text-gray-400 whitespace-pre-line">
+                  {metadata.grantee.bio}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {metadata.links.length > 0 && (
+            <ul className="m-0 p-0 list-none flex flex-wrap gap-3 text-sm">
+              {metadata.links.map((link) => (
+                <li key={link.url}>
+                  <a
+                    href={toHttpUrl(link.url)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="link link-primary"
+                  >
+                    {link.label}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
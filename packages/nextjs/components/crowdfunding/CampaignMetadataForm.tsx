@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { InputBase } from "~~/components/scaffold-stark";
+import { useScaffoldWriteContractAt } from "~~/hooks/scaffold-stark";
+import {
+  CAMPAIGN_CATEGORIES,
+  CAMPAIGN_METADATA_VERSION,
+  CampaignCategory,
+  CampaignMetadata,
+  validateCampaignMetadata,
+} from "~~/services/metadata/campaignMetadata";
+
+type MetadataFormValues = {
+  category: CampaignCategory;
+  images: string;
+  links: string;
+  granteeName: string;
+  granteeBio: string;
+  granteeAvatar: string;
+  granteeWebsite: string;
+};
+
+const splitLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// Optional fields are left out instead of stored empty, they are part of the hashed document
+const optional = <TKey extends string>(key: TKey, value: string) =>
+  value.trim() ? ({ [key]: value.trim() } as Record<TKey, string>) : {};
+
+const toCampaignMetadata = (form: MetadataFormValues): CampaignMetadata => ({
+  version: CAMPAIGN_METADATA_VERSION,
+  category: form.category,
+  images: splitLines(form.images),
+  // One "label | url" pair per line
+  links: splitLines(form.links).map((line) => {
+    const separator = line.lastIndexOf("|");
+    return separator === -1
+      ? { label: line, url: line }
+      : {
+          label: line.slice(0, separator).trim(),
+          url: line.slice(separator + 1).trim(),
+        };
+  }),
+  grantee: {
+    name: form.granteeName.trim(),
+    ...optional("bio", form.granteeBio),
+    ...optional("avatar", form.granteeAvatar),
+    ...optional("website", form.granteeWebsite),
+  },
+});
+
+/**
+ * Owner form to publish campaign metadata through the metadata API and pin its hash on chain
+ * with `set_metadata_hash`.
+ */
+export const CampaignMetadataForm = ({
+  campaignAddress,
+}: {
+  campaignAddress: string;
+}) => {
+  const [form, setForm] = useState<MetadataFormValues>({
+    category: CAMPAIGN_CATEGORIES[0],
+    images: "",
+    links: "",
+    granteeName: "",
+    granteeBio: "",
+    granteeAvatar: "",
+    granteeWebsite: "",
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [publishedHash, setPublishedHash] = useState<string>();
+
+  const updateField = (field: keyof MetadataFormValues) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const { sendAsync: setMetadataHash, isPending } = useScaffoldWriteContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "set_metadata_hash",
+    // The hash is only known once the document is stored, see handleSubmit
+    args: [undefined],
+  });
+
+  const handleSubmit = async () => {
+    setPublishedHash(undefined);
+    const validation = validateCampaignMetadata(toCampaignMetadata(form));
+    if (!validation.success) {
+      setErrors(validation.errors);
+      return;
+    }
+    setErrors([]);
+
+    try {
+      setIsUploading(true);
+      const response = await fetch("/api/metadata", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validation.data),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setErrors(body.errors ?? ["Failed to store metadata"]);
+        return;
+      }
+      setIsUploading(false);
+      await setMetadataHash({ args: [BigInt(body.hash)] });
+      setPublishedHash(body.hash);
+    } catch (error) {
+      console.error("Error publishing metadata:", error);
+      setErrors([
+        error instanceof Error ? error.message : "Failed to publish metadata",
+      ]);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-xl font-bold m-0">Campaign metadata</h2>
+        <p className="text-sm text-base-content/70 mt-1 mb-0">
+          Stored off chain, the contract keeps its SHA-256 hash so visitors can
+          verify what they see.
+        </p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Category</label>
+        <select
+          className="select select-bordered w-full mt-1"
+          value={form.category}
+          onChange={(e) => updateField("category")(e.target.value)}
+        >
+          {CAMPAIGN_CATEGORIES.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Images</label>
+        <textarea
+          className="textarea textarea-bordered w-full mt-1"
+          placeholder="One https:// or ipfs:// image per line, the first is the cover"
+          value={form.images}
+          onChange={(e) => updateField("images")(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Links</label>
+        <textarea
+          className="textarea textarea-bordered w-full mt-1"
+          placeholder="One link per line, e.g. Website | https://example.org"
+          value={form.links}
+          onChange={(e) => updateField("links")(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium">Grantee profile</label>
+        <InputBase
+          name="granteeName"
+          placeholder="Name"
+          value={form.granteeName}
+          onChange={updateField("granteeName")}
+        />
+        <textarea
+          className="textarea textarea-bordered w-full"
+          placeholder="Short bio"
+          value={form.granteeBio}
+          onChange={(e) => updateField("granteeBio")(e.target.value)}
+        />
+        <InputBase
+          name="granteeAvatar"
+          placeholder="Avatar image (https:// or ipfs://)"
+          value={form.granteeAvatar}
+          onChange={updateField("granteeAvatar")}
+        />
+        <InputBase
+          name="granteeWebsite"
+          placeholder="Website (https://)"
+          value={form.granteeWebsite}
+          onChange={updateField("granteeWebsite")}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-error text-sm bg-error/10 p-2 rounded-md m-0 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {publishedHash && (
+        <p className="text-sm text-success m-0 break-all">
+          Published metadata {publishedHash}
+        </p>
+      )}
+
+      <button
+        className="btn btn-primary"
+        onClick={handleSubmit}
+        disabled={isUploading || isPending}
+      >
+        {isUploading || isPending ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          "Publish metadata"
+        )}
+      </button>
+    </div>
+  );
+};
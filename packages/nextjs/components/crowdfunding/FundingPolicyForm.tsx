@@ -0,0 +1,238 @@
+import { useState } from "react";
+import {
+  useErc20Token,
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+} from "~~/hooks/scaffold-stark";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+import {
+  getTargetDecimals,
+  parseRaisedByToken,
+  parseTargetUnit,
+} from "./acceptedTokens";
+import {
+  FUNDING_POLICIES,
+  FUNDING_POLICY_INFO,
+  FundingPolicy,
+  parseFundingPolicy,
+  toFundingPolicyEnum,
+  validateStretchGoals,
+} from "./fundingPolicy";
+
+/**
+ * Owner form for the campaign's funding policy and stretch goals.
+ * The policy is locked once the round has contributions, hard capped campaigns have no stretch goals
+ * and campaigns with milestones cannot keep what they raise.
+ */
+export const FundingPolicyForm = ({
+  campaignAddress,
+}: {
+  campaignAddress: string;
+}) => {
+  const [selectedPolicy, setSelectedPolicy] = useState<FundingPolicy>();
+  const [stretchGoals, setStretchGoals] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { data: policyData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_funding_policy",
+  });
+
+  const { data: fundTarget } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_fund_target",
+  });
+
+  const { data: raisedByToken } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_raised_by_token",
+  });
+
+  const { data: milestoneCount } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_milestone_count",
+  });
+
+  const { data: targetUnitData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_target_unit",
+  });
+  // Stretch goals are in the target's unit
+  const targetUnit = parseTargetUnit(targetUnitData) ?? "Token";
+
+  const { data: tokenAddress } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_token_address",
+  });
+  const token = useErc20Token({
+    address:
+      tokenAddress !== undefined
+        ? feltToHex(BigInt(tokenAddress.toString()))
+        : undefined,
+  });
+
+  const { sendAsync: setFundingPolicy, isPending: isSettingPolicy } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "set_funding_policy",
+      // The policy is only known once selected, see handleSetPolicy
+      args: [undefined],
+    });
+
+  const { sendAsync: setStretchGoalsTx, isPending: isSettingGoals } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "set_stretch_goals",
+      args: [undefined, undefined],
+    });
+
+  const currentPolicy = parseFundingPolicy(policyData);
+  const policy = selectedPolicy ?? currentPolicy ?? "AllOrNothing";
+  // Contributions in any accepted token lock the policy, not only the primary one
+  const hasContributions = parseRaisedByToken(raisedByToken).some(
+    ({ amount }) => amount > 0n,
+  );
+  // Mirrors set_funding_policy, a missed target must stay refundable for a milestone plan
+  const hasMilestones =
+    milestoneCount !== undefined && Number(milestoneCount) > 0;
+  const isBlockedByMilestones = hasMilestones && policy === "KeepWhatYouRaise";
+
+  const handleSetPolicy = async () => {
+    try {
+      setErrors([]);
+      await setFundingPolicy({ args: [toFundingPolicyEnum(policy)] });
+    } catch (error) {
+      console.error("Error setting funding policy:", error);
+      setErrors([
+        error instanceof Error ? error.message : "Failed to set funding policy",
+      ]);
+    }
+  };
+
+  const handleSetStretchGoals = async () => {
+    if (fundTarget === undefined || token.decimals === undefined) {
+      setErrors(["Campaign target not loaded yet"]);
+      return;
+    }
+    const validation = validateStretchGoals(stretchGoals, {
+      decimals: getTargetDecimals(targetUnit, token.decimals),
+      target: BigInt(fundTarget.toString()),
+    });
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    try {
+      setErrors([]);
+      await setStretchGoalsTx({
+        args: [validation.names, validation.amounts],
+      });
+    } catch (error) {
+      console.error("Error setting stretch goals:", error);
+      setErrors([
+        error instanceof Error ? error.message : "Failed to set stretch goals",
+      ]);
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-xl font-bold m-0">Funding policy</h2>
+        <p className="text-sm text-base-content/70 mt-1 mb-0">
+          {currentPolicy
+            ? `Currently ${FUNDING_POLICY_INFO[currentPolicy].label.toLowerCase()}.`
+            : "Loading the current policy..."}
+        </p>
+      </div>
+
+      <div>
+        <select
+          className="select select-bordered w-full"
+          value={policy}
+          onChange={(e) => setSelectedPolicy(e.target.value as FundingPolicy)}
+          disabled={hasContributions}
+        >
+          {FUNDING_POLICIES.map((option) => (
+            <option key={option} value={option}>
+              {FUNDING_POLICY_INFO[option].label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-base-content/70 mt-1 mb-0">
+          {hasContributions
+            ? "The policy cannot change once the round has contributions."
+            : isBlockedByMilestones
+              ? "Campaigns with milestones refund a missed target, clear the milestones first."
+              : FUNDING_POLICY_INFO[policy].description}
+        </p>
+      </div>
+
+      <button
+        className="btn btn-primary"
+        onClick={handleSetPolicy}
+        disabled={
+          hasContributions ||
+          isSettingPolicy ||
+          isBlockedByMilestones ||
+          policy === currentPolicy
+        }
+      >
+        {isSettingPolicy ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          "Set funding policy"
+        )}
+      </button>
+
+      {currentPolicy !== "HardCap" && (
+        <>
+          <div>
+            <label className="text-sm font-medium">
+              Stretch goals
+              {targetUnit === "Usd"
+                ? " (USD)"
+                : token.symbol
+                  ? ` (${token.symbol})`
+                  : ""}
+            </label>
+            <textarea
+              className="textarea textarea-bordered w-full mt-1"
+              placeholder="One goal per line, e.g. Mobile app | 150"
+              value={stretchGoals}
+              onChange={(e) => setStretchGoals(e.target.value)}
+            />
+          </div>
+          <button
+            className="btn btn-secondary"
+            onClick={handleSetStretchGoals}
+            disabled={isSettingGoals}
+          >
+            {isSettingGoals ? (
+              <span className="loading loading-spinner loading-sm"></span>
+            ) : (
+              "Set stretch goals"
+            )}
+          </button>
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-error text-sm bg-error/10 p-2 rounded-md m-0 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
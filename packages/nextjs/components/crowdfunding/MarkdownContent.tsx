@@ -0,0 +1,121 @@
+import { Fragment } from "react";
+import { MarkdownInline, parseMarkdown } from "./markdown";
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold",
+  "text-xl font-bold",
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold",
+];
+
+const Inline = ({ nodes }: { nodes: MarkdownInline[] }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <Fragment key={index}>{node.text}</Fragment>;
+        case "code":
+          return (
+            <code
+              key={index}
+              className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-sm"
+            >
+              {node.text}
+            </code>
+          );
+        case "strong":
+          return (
+            <strong key={index}>
+              <Inline nodes={node.children} />
+            </strong>
+          );
+        case "emphasis":
+          return (
+            <em key={index}>
+              <Inline nodes={node.children} />
+            </em>
+          );
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="link text-indigo-600 dark:text-indigo-400"
+            >
+              <Inline nodes={node.children} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+/**
+ * Renders untrusted markdown as React elements, see {@link parseMarkdown} for the supported syntax.
+ */
+export const MarkdownContent = ({ content }: { content: string }) => (
+  <div className="flex flex-col gap-3 text-gray-700 dark:text-gray-300 break-words">
+    {parseMarkdown(content).map((block, index) => {
+      switch (block.type) {
+        case "heading": {
+          const Heading = `h${block.level}` as "h1";
+          return (
+            <Heading
+              key={index}
+              className={`${HEADING_CLASSES[block.level - 1]} m-0 text-gray-900 dark:text-white`}
+            >
+              <Inline nodes={block.children} />
+            </Heading>
+          );
+        }
+        case "paragraph":
+          return (
+            <p key={index} className="m-0">
+              <Inline nodes={block.children} />
+            </p>
+          );
+        case "list": {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List
+              key={index}
+              className={`m-0 pl-6 ${block.ordered ? "list-decimal" : "list-disc"}`}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <Inline nodes={item} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+        case "blockquote":
+          return (
+            <blockquote
+              key={index}
+              className="m-0 pl-4 border-l-4 border-gray-300 dark:border-gray-600 italic"
+            >
+              <Inline nodes={block.children} />
+            </blockquote>
+          );
+        case "code":
+          return (
+            <pre
+              key={index}
+              className="m-0 p-3 rounded bg-gray-100 dark:bg-gray-700 text-sm overflow-x-auto"
+            >
+              <code>{block.text}</code>
+            </pre>
+          );
+        case "rule":
+          return (
+            <hr key={index} className="border-gray-200 dark:border-gray-700" />
+          );
+      }
+    })}
+  </div>
+);
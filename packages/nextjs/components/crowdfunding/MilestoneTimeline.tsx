@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { formatTokenAmount } from "~~/components/scaffold-stark";
+import {
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+} from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+import {
+  MilestoneState,
+  getMilestoneTimeline,
+  getReleasedTotal,
+  parseMilestones,
+} from "./milestones";
+
+type MilestoneTimelineProps = {
+  campaignAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  isOwner: boolean;
+  isTargetMet: boolean;
+};
+
+const STATE_STYLES: Record<MilestoneState, { dot: string; label: string }> = {
+  released: { dot: "bg-green-500", label: "Released" },
+  approved: { dot: "bg-indigo-500", label: "Approved" },
+  pending: { dot: "bg-gray-300 dark:bg-gray-600", label: "Pending" },
+};
+
+/**
+ * Timeline of a campaign's milestone tranches, with approval for the owner
+ * and release for the owner or grantee
+ */
+export const MilestoneTimeline = ({
+  campaignAddress,
+  tokenSymbol,
+  tokenDecimals,
+  isOwner,
+  isTargetMet,
+}: MilestoneTimelineProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const { address } = useAccount();
+
+  const { data: milestonesData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_milestones",
+  });
+
+  const { data: grantee } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_grantee_address",
+  });
+
+  const { sendAsync: approveMilestone, isPending: isApproving } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "approve_milestone",
+      // The milestone index is passed when a button is clicked
+      args: [undefined],
+    });
+
+  const { sendAsync: releaseMilestone, isPending: isReleasing } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "release_milestone",
+      args: [undefined],
+    });
+
+  const milestones = parseMilestones(milestonesData);
+  if (milestones.length === 0) return null;
+
+  const timeline = getMilestoneTimeline(milestones, { isTargetMet });
+  const isGrantee =
+    !!address &&
+    grantee !== undefined &&
+    BigInt(address) === BigInt(grantee.toString());
+  const isBusy = isApproving || isReleasing;
+
+  const handleAction = async (action: "approve" | "release", index: number) => {
+    try {
+      setError(null);
+      const send = action === "approve" ? approveMilestone : releaseMilestone;
+      await send({ args: [index] });
+    } catch (error) {
+      console.error(`Error trying to ${action} milestone:`, error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : `Failed to ${action} milestone`,
+      );
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+      <div className="flex items-baseline justify-between">
+        <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+          Milestones
+        </div>
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          {formatTokenAmount(getReleasedTotal(milestones), tokenDecimals)}{" "}
+          {tokenSymbol} released
+        </div>
+      </div>
+      {!isTargetMet && (
+        <div className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Milestones can be approved once the target is met.
+        </div>
+      )}
+
+      <ol className="mt-4 ml-2 border-l border-gray-200 dark:border-gray-700 list-none p-0">
+        {timeline.map((item) => (
+          <li key={item.index} className="relative pl-6 pb-4 last:pb-0">
+            <span
+              className={`absolute -left-[7px] top-1 h-3 w-3 rounded-full ${STATE_STYLES[item.state].dot}`}
+            ></span>
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {item.index + 1}. {item.description}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatTokenAmount(item.amount, tokenDecimals)} {tokenSymbol}{" "}
+                  · {STATE_STYLES[item.state].label}
+                </div>
+              </div>
+              {isOwner && item.canApprove && (
+                <button
+                  className="btn btn-sm btn-primary"
+                  onClick={() => handleAction("approve", item.index)}
+                  disabled={isBusy}
+                >
+                  {isApproving ? "Processing..." : "Approve"}
+                </button>
+              )}
+              {(isOwner || isGrantee) && item.canRelease && (
+                <button
+                  className="btn btn-sm btn-success"
+                  onClick={() => handleAction("release", item.index)}
+                  disabled={isBusy}
+                >
+                  {isReleasing ? "Processing..." : "Release to grantee"}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
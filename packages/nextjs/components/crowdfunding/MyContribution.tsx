@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { formatTokenAmount } from "~~/components/scaffold-stark";
+import {
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+} from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+
+type MyContributionProps = {
+  campaignAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+};
+
+/**
+ * Shows the connected account's contribution to a campaign and lets it claim
+ * a refund once the campaign has ended below its target
+ */
+export const MyContribution = ({
+  campaignAddress,
+  tokenSymbol,
+  tokenDecimals,
+}: MyContributionProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const { address } = useAccount();
+
+  const { data: contribution } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_contribution",
+    args: [address],
+  });
+
+  const { data: isRefundable } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "is_refundable",
+  });
+
+  const { sendAsync: claimRefund, isPending: isClaiming } =
+    useScaffoldWriteContractAt({
+      abiName: "crowdfunding",
+      address: campaignAddress,
+      functionName: "claim_refund",
+    });
+
+  if (!address) return null;
+
+  const contributed = contribution ? BigInt(contribution.toString()) : 0n;
+  const canClaim = Boolean(isRefundable) && contributed > 0n;
+
+  const handleClaimRefund = async () => {
+    try {
+      setError(null);
+      await claimRefund();
+    } catch (error) {
+      console.error("Error claiming refund:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to claim refund",
+      );
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+            My contribution
+          </div>
+          <div className="mt-1 flex items-baseline">
+            <span className="text-2xl font-semibold text-gray-900 dark:text-white">
+              {formatTokenAmount(contributed, tokenDecimals)}
+            </span>
+            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+              {tokenSymbol}
+            </span>
+          </div>
+          {isRefundable && (
+            <div className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              This campaign ended below its target, contributions can be
+              refunded.
+            </div>
+          )}
+        </div>
+        {isRefundable && (
+          <button
+            className={`inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm ${
+              canClaim && !isClaiming
+                ? "text-white bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2"
+                : "bg-gray-400 cursor-not-allowed"
+            } transition-all duration-200`}
+            onClick={handleClaimRefund}
+            disabled={!canClaim || isClaiming}
+          >
+            {isClaiming ? "Processing..." : "Claim Refund"}
+          </button>
+        )}
+      </div>
+      {error && (
+        <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useProvider } from "@starknet-react/core";
+import {
+  AddressInput,
+  InputBase,
+  formatTokenAmount,
+} from "~~/components/scaffold-stark";
+import {
+  fetchErc20Balance,
+  useErc20Token,
+  useScaffoldReadContractAt,
+  useScaffoldWriteContractAt,
+} from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+import { universalEthAddress, universalStrkAddress } from "~~/utils/Constants";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+import { parseAcceptedTokens } from "./acceptedTokens";
+import {
+  REFUND_GRACE_PERIOD,
+  ResetCampaignErrors,
+  ResetCampaignForm as ResetCampaignFormValues,
+  validateResetCampaign,
+} from "./resetCampaign";
+
+const CUSTOM_TOKEN = "custom";
+
+const TOKEN_OPTIONS = [
+  { label: "STRK", address: universalStrkAddress },
+  { label: "ETH", address: universalEthAddress },
+];
+
+const FieldError = ({ error }: { error?: string }) =>
+  error ? <p className="text-error text-xs mt-1 mb-0">{error}</p> : null;
+
+/**
+ * Owner form to start a new round of a campaign through `reset_fund`.
+ * Inputs are validated against the contract asserts before anything is sent.
+ */
+export const ResetCampaignForm = ({
+  campaignAddress,
+}: {
+  campaignAddress: string;
+}) => {
+  const { address } = useAccount();
+  const { provider } = useProvider();
+  const [tokenOption, setTokenOption] = useState<string>(
+    TOKEN_OPTIONS[0].address,
+  );
+  const [form, setForm] = useState<ResetCampaignFormValues>({
+    token: TOKEN_OPTIONS[0].address,
+    grantee: "",
+    target: "",
+    title: "",
+    description: "",
+    descriptionUri: "",
+    deadline: "",
+    owner: address ?? "",
+  });
+  const [errors, setErrors] = useState<ResetCampaignErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const updateField =
+    (field: keyof ResetCampaignFormValues) => (value: string) =>
+      setForm((current) => ({ ...current, [field]: value }));
+
+  const { data: fundBalance } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_fund_balance",
+  });
+
+  const { data: isRefundable } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "is_refundable",
+  });
+
+  const { data: deadline } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_deadline",
+  });
+
+  const { data: acceptedTokensData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_accepted_tokens",
+  });
+
+  const { data: currentTokenAddress } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_token_address",
+  });
+
+  // The balance is held in the current token, the target is entered in the new one
+  const currentToken = useErc20Token({
+    address:
+      currentTokenAddress !== undefined
+        ? feltToHex(BigInt(currentTokenAddress.toString()))
+        : undefined,
+  });
+  const selectedToken = useErc20Token({
+    address: /^0x[a-fA-F0-9]{1,64}$/.test(form.token) ? form.token : undefined,
+  });
+
+  const { sendAsync: resetFund, isPending } = useScaffoldWriteContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "reset_fund",
+    // Arguments are only known once the form is validated, see handleSubmit
+    args: [
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ],
+  });
+
+  const balance =
+    fundBalance !== undefined ? BigInt(fundBalance.toString()) : undefined;
+  // A missed target holds the unclaimed refunds, the reset sweeps them once the grace period is over
+  const refundSweepTime =
+    isRefundable && deadline !== undefined
+      ? BigInt(deadline.toString()) + REFUND_GRACE_PERIOD
+      : undefined;
+
+  const handleTokenOption = (option: string) => {
+    setTokenOption(option);
+    updateField("token")(option === CUSTOM_TOKEN ? "" : option);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitError(null);
+    // Read right before sending, like reset_fund checks every token the round accepted
+    let tokenBalances: bigint[] | undefined;
+    try {
+      if (acceptedTokensData === undefined) {
+        throw new Error("Accepted tokens are still loading");
+      }
+      tokenBalances = await Promise.all(
+        parseAcceptedTokens(acceptedTokensData)
+          .slice(1)
+          .map((token) => fetchErc20Balance(provider, token, campaignAddress)),
+      );
+    } catch (error) {
+      console.error("Error reading accepted token balances:", error);
+    }
+    const validation = validateResetCampaign(form, {
+      decimals: selectedToken.decimals,
+      fundBalance: balance,
+      refundSweepTime,
+      tokenBalances,
+      now: BigInt(Math.floor(Date.now() / 1000)),
+    });
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    try {
+      await resetFund({ args: validation.args });
+    } catch (error) {
+      console.error("Error resetting campaign:", error);
+      setSubmitError(
+        error instanceof Error ? error.message : "Failed to reset campaign",
+      );
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-xl font-bold m-0">Reset campaign</h2>
+        <p className="text-sm text-base-content/70 mt-1 mb-0">
+          Starts a new round with an empty contributor ledger. The campaign is
+          reactivated once the reset is accepted.
+        </p>
+      </div>
+
+      {balance !== undefined && balance > 0n && (
+        <div className="alert alert-warning text-sm">
+          The campaign still holds{" "}
+          {formatTokenAmount(balance, currentToken.decimals ?? 18)}{" "}
+          {currentToken.symbol ?? "tokens"}.{" "}
+          {refundSweepTime !== undefined
+            ? "Refunds backers have not claimed once the grace period is over are sent to you by the reset."
+            : "Withdraw the funds before resetting."}
+        </div>
+      )}
+      <FieldError error={errors.balance} />
+
+      <div>
+        <label className="text-sm font-medium">Token</label>
+        <select
+          className="select select-bordered w-full mt-1"
+          value={tokenOption}
+          onChange={(e) => handleTokenOption(e.target.value)}
+        >
+          {TOKEN_OPTIONS.map(({ label, address }) => (
+            <option key={address} value={address}>
+              {label}
+            </option>
+          ))}
+          <option value={CUSTOM_TOKEN}>Custom token</option>
+        </select>
+        {tokenOption === CUSTOM_TOKEN && (
+          <div className="mt-2">
+            <AddressInput
+              name="token"
+              placeholder="Token address"
+              value={form.token}
+              onChange={updateField("token")}
+            />
+          </div>
+        )}
+        <FieldError error={errors.token} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Grantee</label>
+        <div className="mt-1">
+          <AddressInput
+            name="grantee"
+            placeholder="Grantee address"
+            value={form.grantee}
+            onChange={updateField("grantee")}
+          />
+        </div>
+        <FieldError error={errors.grantee} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">
+          Target
+          {selectedToken.symbol ? ` (${selectedToken.symbol})` : ""}
+        </label>
+        <div className="mt-1">
+          <InputBase
+            name="target"
+            placeholder="0.0"
+            value={form.target}
+            onChange={updateField("target")}
+            error={!!errors.target}
+          />
+        </div>
+        <FieldError error={errors.target} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Title</label>
+        <div className="mt-1">
+          <InputBase
+            name="title"
+            placeholder="Campaign title"
+            value={form.title}
+            onChange={updateField("title")}
+            error={!!errors.title}
+          />
+        </div>
+        <FieldError error={errors.title} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Description (markdown)</label>
+        <textarea
+          className="textarea textarea-bordered w-full mt-1 min-h-[8rem]"
+          placeholder="Stored on chain unless a link is given below"
+          value={form.description}
+          onChange={(e) => updateField("description")(e.target.value)}
+        />
+        <FieldError error={errors.description} />
+        <div className="mt-2">
+          <InputBase
+            name="descriptionUri"
+            placeholder="or https:// / ipfs:// link to a markdown file"
+            value={form.descriptionUri}
+            onChange={updateField("descriptionUri")}
+            error={!!errors.descriptionUri}
+          />
+        </div>
+        <FieldError error={errors.descriptionUri} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Deadline</label>
+        <input
+          type="datetime-local"
+          className="input input-bordered w-full mt-1"
+          value={form.deadline}
+          onChange={(e) => updateField("deadline")(e.target.value)}
+        />
+        <FieldError error={errors.deadline} />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Owner</label>
+        <div className="mt-1">
+          <AddressInput
+            name="owner"
+            placeholder="New owner address"
+            value={form.owner}
+            onChange={updateField("owner")}
+          />
+        </div>
+        <FieldError error={errors.owner} />
+      </div>
+
+      {submitError && (
+        <div className="text-error text-sm bg-error/10 p-2 rounded-md">
+          {submitError}
+        </div>
+      )}
+
+      <button
+        className="btn btn-primary"
+        onClick={handleSubmit}
+        disabled={isPending}
+      >
+        {isPending ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          "Reset campaign"
+        )}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { formatTokenAmount } from "~~/components/scaffold-stark";
+import { useScaffoldReadContractAt } from "~~/hooks/scaffold-stark";
+import { useAccount } from "~~/hooks/useAccount";
+import { getReachedTier, getTierTopUp, parseRewardTiers } from "./rewardTiers";
+
+type RewardTierSelectorProps = {
+  campaignAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  disabled?: boolean;
+  // Receives the amount still needed to reach the tier, as a decimal string
+  onSelect: (amount: string) => void;
+};
+
+/**
+ * Lists a campaign's reward tiers and pre-fills the donation amount needed to reach one
+ */
+export const RewardTierSelector = ({
+  campaignAddress,
+  tokenSymbol,
+  tokenDecimals,
+  disabled = false,
+  onSelect,
+}: RewardTierSelectorProps) => {
+  const { address } = useAccount();
+
+  const { data: tiersData } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_reward_tiers",
+  });
+
+  const { data: contribution } = useScaffoldReadContractAt({
+    abiName: "crowdfunding",
+    address: campaignAddress,
+    functionName: "get_contribution",
+    args: [address],
+  });
+
+  const tiers = parseRewardTiers(tiersData);
+  if (tiers.length === 0) return null;
+
+  const contributed = contribution ? BigInt(contribution.toString()) : 0n;
+  const reachedTier = getReachedTier(tiers, contributed);
+
+  return (
+    <div>
+      <div className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        Reward tiers
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {tiers.map((tier, index) => {
+          const isEarned = reachedTier !== undefined && index <= reachedTier;
+          return (
+            <button
+              key={`${tier.name}-${index}`}
+              type="button"
+              className={`text-left px-3 py-2 rounded-md border text-sm transition-all duration-200 ${
+                isEarned
+                  ? "border-green-400 bg-green-50 dark:bg-green-900/20 cursor-default"
+                  : "border-gray-200 dark:border-gray-600 hover:border-indigo-500"
+              }`}
+              onClick={() =>
+                onSelect(
+                  formatTokenAmount(
+                    getTierTopUp(tier, contributed),
+                    tokenDecimals,
+                  ),
+                )
+              }
+              disabled={disabled || isEarned}
+            >
+              <div className="font-medium text-gray-900 dark:text-white">
+                {tier.name}
+              </div>
+              <div className="text-gray-500 dark:text-gray-400">
+                {isEarned
+                  ? "✓ Badge earned"
+                  : `${formatTokenAmount(tier.minAmount, tokenDecimals)} ${tokenSymbol}+`}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { formatTokenAmount } from "~~/components/scaffold-stark";
+import { StretchGoal } from "./fundingPolicy";
+
+type StretchGoalsProps = {
+  goals: StretchGoal[];
+  raised: bigint;
+  tokenSymbol: string;
+  tokenDecimals: number;
+};
+
+/**
+ * Lists what funding beyond the target pays for, goals already reached are checked off
+ */
+export const StretchGoals = ({
+  goals,
+  raised,
+  tokenSymbol,
+  tokenDecimals,
+}: StretchGoalsProps) => {
+  if (goals.length === 0) return null;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+        Stretch goals
+      </div>
+      <ul className="mt-2 space-y-1 list-none p-0 m-0">
+        {goals.map((goal, index) => {
+          const isReached = raised >= goal.amount;
+          return (
+            <li
+              key={`${goal.name}-${index}`}
+              className="flex justify-between gap-4 text-sm"
+            >
+              <span
+                className={
+                  isReached
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-gray-900 dark:text-white"
+                }
+              >
+                {isReached ? "✓ " : ""}
+                {goal.name}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {formatTokenAmount(goal.amount, tokenDecimals)} {tokenSymbol}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
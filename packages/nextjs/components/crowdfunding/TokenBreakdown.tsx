@@ -0,0 +1,53 @@
+import {
+  formatTokenAmount,
+  tokenAmountToUsd,
+} from "~~/components/scaffold-stark";
+import { TokenPricing, TokenRaised } from "./acceptedTokens";
+
+type TokenBreakdownProps = {
+  raised: TokenRaised[];
+  tokens: Record<string, TokenPricing>;
+  prices: Record<string, number>;
+  // Tokens left out of the progress for lack of a price
+  missingPrices: string[];
+};
+
+/**
+ * Lists what was raised in each accepted token, with its USD value when the price is known
+ */
+export const TokenBreakdown = ({
+  raised,
+  tokens,
+  prices,
+  missingPrices,
+}: TokenBreakdownProps) => {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+        Raised per token
+      </div>
+      <ul className="mt-2 space-y-1 list-none p-0 m-0">
+        {raised.map(({ token, amount }) => {
+          const { symbol = "TOKEN", decimals = 18 } = tokens[token] ?? {};
+          const price = prices[symbol] ?? 0;
+          return (
+            <li key={token} className="flex justify-between gap-4 text-sm">
+              <span className="text-gray-900 dark:text-white">{symbol}</span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {formatTokenAmount(amount, decimals, 4)} {symbol}
+                {price > 0 &&
+                  ` ($${tokenAmountToUsd(amount, decimals, price)})`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {missingPrices.length > 0 && (
+        <div className="mt-2 text-xs text-yellow-700 dark:text-yellow-300">
+          No price for {missingPrices.join(", ")}, not counted in the progress
+          yet.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { CairoCustomEnum } from "starknet";
+import {
+  USD_DECIMALS,
+  aggregateRaised,
+  convertTokenAmount,
+  getTargetDecimals,
+  parseAcceptedTokens,
+  parseRaisedByToken,
+  parseTargetUnit,
+  toTargetUnitEnum,
+  validateAcceptedTokens,
+} from "../acceptedTokens";
+
+const strk =
+  "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const usdc =
+  "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+const unknown = "0x123";
+
+const tokens = {
+  [strk]: { symbol: "STRK", decimals: 18 },
+  [usdc]: { symbol: "USDC", decimals: 6 },
+  [unknown]: { symbol: "ABC", decimals: 18 },
+};
+
+describe("Accepted tokens", () => {
+  describe("parseTargetUnit", () => {
+    it("should read the active variant of the contract enum", () => {
+      expect(
+        parseTargetUnit(new CairoCustomEnum({ Token: undefined, Usd: {} })),
+      ).toBe("Usd");
+      expect(parseTargetUnit("Token")).toBe("Token");
+      expect(parseTargetUnit(undefined)).toBeUndefined();
+    });
+
+    it("should round trip through the enum encoding", () => {
+      expect(parseTargetUnit(toTargetUnitEnum("Usd"))).toBe("Usd");
+    });
+  });
+
+  it("should use cents for USD targets", () => {
+    expect(getTargetDecimals("Usd", 18)).toBe(USD_DECIMALS);
+    expect(getTargetDecimals("Token", 6)).toBe(6);
+  });
+
+  describe("contract output", () => {
+    it("should normalize accepted tokens and raised amounts", () => {
+      expect(parseAcceptedTokens([BigInt(strk), BigInt(usdc)])).toEqual([
+        strk,
+        usdc,
+      ]);
+      expect(
+        parseRaisedByToken([{ token: BigInt(usdc), amount: "2500000" }]),
+      ).toEqual([{ token: usdc, amount: 2500000n }]);
+      expect(parseAcceptedTokens(undefined)).toEqual([]);
+      expect(parseRaisedByToken(undefined)).toEqual([]);
+    });
+  });
+
+  describe("validateAcceptedTokens", () => {
+    it("should accept one address per line", () => {
+      const validation = validateAcceptedTokens(`${usdc}\n\n${unknown}`, strk);
+      expect(validation).toEqual({
+        isValid: true,
+        errors: [],
+        tokens: [usdc, unknown],
+      });
+    });
+
+    it("should reject invalid, zero and duplicate addresses", () => {
+      const validation = validateAcceptedTokens(
+        `USDC\n0x0\n${strk}\n${usdc}\n${usdc.toUpperCase().replace("0X", "0x")}`,
+        strk,
+      );
+      expect(validation.errors).toEqual([
+        "Line 1: expected a token address",
+        "Line 2: expected a token address",
+        "Line 3: token is already accepted",
+        "Line 5: token is already accepted",
+      ]);
+    });
+  });
+
+  describe("convertTokenAmount", () => {
+    it("should convert through USD prices without floats", () => {
+      // 2.5 USDC at $1 into STRK at $0.5
+      expect(
+        convertTokenAmount(
+          2500000n,
+          { decimals: 6, price: 1 },
+          { decimals: 18, price: 0.5 },
+        ),
+      ).toBe(5n * 10n ** 18n);
+      // 1.5 STRK at $0.4 into cents
+      expect(
+        convertTokenAmount(
+          15n * 10n ** 17n,
+          { decimals: 18, price: 0.4 },
+          { decimals: USD_DECIMALS, price: 1 },
+        ),
+      ).toBe(60n);
+    });
+
+    it("should throw without a target price", () => {
+      expect(() =>
+        convertTokenAmount(
+          1n,
+          { decimals: 6, price: 1 },
+          { decimals: 18, price: 0 },
+        ),
+      ).toThrow("Price unavailable");
+    });
+  });
+
+  describe("aggregateRaised", () => {
+    const raised = [
+      { token: strk, amount: 10n ** 18n },
+      { token: usdc, amount: 3000000n },
+      { token: unknown, amount: 5n },
+    ];
+
+    it("should count the primary token as is for token targets", () => {
+      const { total, missingPrices } = aggregateRaised({
+        raised,
+        unit: "Token",
+        primaryToken: strk,
+        tokens,
+        prices: { STRK: 0.5, USDC: 1 },
+      });
+      expect(total).toBe(7n * 10n ** 18n);
+      expect(missingPrices).toEqual(["ABC"]);
+    });
+
+    it("should sum every token in cents for USD targets", () => {
+      const { total, missingPrices } = aggregateRaised({
+        raised,
+        unit: "Usd",
+        primaryToken: strk,
+        tokens,
+        prices: { STRK: 0.5, USDC: 1, ABC: 0 },
+      });
+      expect(total).toBe(350n);
+      expect(missingPrices).toEqual(["ABC"]);
+    });
+
+    it("should only need prices for other tokens that received funds", () => {
+      const { total, missingPrices } = aggregateRaised({
+        raised: [
+          { token: strk, amount: 42n },
+          { token: usdc, amount: 0n },
+        ],
+        unit: "Token",
+        primaryToken: strk,
+        tokens,
+        prices: {},
+      });
+      expect(total).toBe(42n);
+      expect(missingPrices).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildActivity,
+  filterActivity,
+  getTopDonors,
+  toActivityCsv,
+} from "../activity";
+
+const campaign = "0x123";
+const alice = "0xa11ce";
+const bob = "0xb0b";
+
+const makeEvent = (
+  args: Record<string, unknown>,
+  transactionHash: string,
+  blockNumber: number,
+) => ({
+  args,
+  log: { transaction_hash: transactionHash, block_number: blockNumber },
+  block: { timestamp: 1700000000 + blockNumber },
+});
+
+const transfers = [
+  makeEvent(
+    { from: BigInt(alice), to: BigInt(campaign), amount: 5n },
+    "0x1",
+    1,
+  ),
+  makeEvent({ from: BigInt(bob), to: BigInt(campaign), amount: 7n }, "0x2", 2),
+  makeEvent(
+    { from: BigInt(alice), to: BigInt(campaign), amount: 4n },
+    "0x3",
+    3,
+  ),
+  makeEvent({ from: BigInt(campaign), to: BigInt(bob), amount: 7n }, "0x4", 4),
+];
+
+describe("Campaign activity", () => {
+  describe("buildActivity", () => {
+    it("should classify transfers and order them newest first", () => {
+      const activity = buildActivity(campaign, {
+        transfers,
+        refunds: [
+          makeEvent({ contributor: BigInt(bob), amount: 7n }, "0x4", 4),
+        ],
+        statusChanges: [makeEvent({ active: false }, "0x5", 5)],
+      });
+
+      expect(activity.map((item) => [item.kind, item.label])).toEqual([
+        ["status", "Campaign deactivated"],
+        ["refund", "Refund"],
+        ["donation", "Donation"],
+        ["donation", "Donation"],
+        ["donation", "Donation"],
+      ]);
+      expect(activity[1]).toMatchObject({
+        account: bob,
+        amount: 7n,
+        timestamp: 1700000004,
+        transactionHash: "0x4",
+      });
+    });
+
+    it("should treat outgoing transfers without a refund event as withdrawals", () => {
+      const [withdrawal] = buildActivity(campaign, {
+        transfers: [transfers[3]],
+      });
+
+      expect(withdrawal).toMatchObject({ kind: "withdrawal", account: bob });
+    });
+
+    it("should mark failed transfers", () => {
+      const [failed] = buildActivity(campaign, {
+        failedTransfers: [
+          makeEvent(
+            { from: BigInt(alice), to: BigInt(campaign), amount: 1n },
+            "0x6",
+            6,
+          ),
+        ],
+      });
+
+      expect(failed).toMatchObject({
+        kind: "donation",
+        label: "Donation failed",
+        failed: true,
+      });
+    });
+  });
+
+  describe("filterActivity", () => {
+    const activity = buildActivity(campaign, {
+      transfers,
+      resets: [
+        makeEvent(
+          { initial_owner: BigInt(alice), fund_target: 100n },
+          "0x0",
+          0,
+        ),
+      ],
+    });
+
+    it("should keep only the selected kind", () => {
+      expect(filterActivity(activity, "donations")).toHaveLength(3);
+      expect(filterActivity(activity, "withdrawals")).toHaveLength(1);
+      expect(filterActivity(activity, "status")).toHaveLength(1);
+      expect(filterActivity(activity, "all")).toHaveLength(5);
+    });
+  });
+
+  describe("getTopDonors", () => {
+    it("should aggregate donations per donor", () => {
+      const activity = buildActivity(campaign, { transfers });
+
+      expect(getTopDonors(activity)).toEqual([
+        { account: alice, total: 9n, count: 2 },
+        { account: bob, total: 7n, count: 1 },
+      ]);
+      expect(getTopDonors(activity, 1)).toHaveLength(1);
+    });
+
+    it("should only add up donations in the requested token", () => {
+      const primary = "0x5";
+      const other = "0x6";
+      const activity = buildActivity(campaign, {
+        transfers: [
+          ...transfers,
+          makeEvent(
+            {
+              from: BigInt(bob),
+              to: BigInt(campaign),
+              amount: 100n,
+              token: BigInt(other),
+            },
+            "0x6",
+            6,
+          ),
+          makeEvent(
+            {
+              from: BigInt(bob),
+              to: BigInt(campaign),
+              amount: 1n,
+              token: BigInt(primary),
+            },
+            "0x7",
+            7,
+          ),
+        ],
+      });
+
+      expect(activity[1]).toMatchObject({ token: other, amount: 100n });
+      expect(getTopDonors(activity, 5, primary)).toEqual([
+        { account: alice, total: 9n, count: 2 },
+        { account: bob, total: 8n, count: 2 },
+      ]);
+    });
+  });
+
+  describe("toActivityCsv", () => {
+    it("should value transfers now and at the time they were made", () => {
+      const activity = buildActivity(campaign, {
+        transfers: [
+          makeEvent(
+            {
+              from: BigInt(alice),
+              to: BigInt(campaign),
+              amount: 2n * 10n ** 18n,
+            },
+            "0x1",
+            1,
+          ),
+          makeEvent(
+            { from: BigInt(campaign), to: BigInt(bob), amount: 10n ** 18n },
+            "0x2",
+            2,
+          ),
+        ],
+        statusChanges: [makeEvent({ active: false }, "0x3", 3)],
+      });
+
+      const csv = toActivityCsv(activity, (item) => ({
+        symbol: "STRK",
+        decimals: 18,
+        price: 0.5,
+        priceAtTime: item.kind === "donation" ? 0.25 : undefined,
+      }));
+
+      expect(csv.split("\n")).toEqual([
+        "date,type,account,amount,token,usd_now,usd_at_time,transaction_hash,block_number",
+        `2023-11-14T22:13:22.000Z,Withdrawal,${bob},1,STRK,0.5,,0x2,2`,
+        `2023-11-14T22:13:21.000Z,Donation,${alice},2,STRK,1,0.5,0x1,1`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  IPFS_GATEWAY,
+  loadDescription,
+  MAX_DESCRIPTION_BYTES,
+  resolveDescriptionUri,
+  toMarkdownDataUri,
+} from "../descriptionUri";
+
+describe("descriptionUri", () => {
+  it("should round trip markdown through a data URI", () => {
+    const markdown = "# Bibliothèque\n\nDonate 💜";
+    expect(resolveDescriptionUri(toMarkdownDataUri(markdown))).toEqual({
+      content: markdown,
+    });
+  });
+
+  it("should decode percent-encoded data URIs", () => {
+    expect(resolveDescriptionUri("data:text/markdown,%23%20Hi")).toEqual({
+      content: "# Hi",
+    });
+  });
+
+  it("should resolve ipfs and web URIs", () => {
+    expect(resolveDescriptionUri("ipfs://bafyhash/readme.md")).toEqual({
+      url: `${IPFS_GATEWAY}bafyhash/readme.md`,
+    });
+    expect(resolveDescriptionUri("https://example.com/campaign.md")).toEqual({
+      url: "https://example.com/campaign.md",
+    });
+  });
+
+  it("should reject unsupported URIs", () => {
+    expect(resolveDescriptionUri("")).toBeUndefined();
+    expect(resolveDescriptionUri("javascript:alert(1)")).toBeUndefined();
+    expect(resolveDescriptionUri("data:text/html,<b>hi</b>")).toBeUndefined();
+  });
+
+  it("should fetch remote descriptions", async () => {
+    const fetcher = vi
+      .fn()
+      .mockResolvedValue({ ok: true, text: async () => "# Remote" });
+
+    await expect(
+      loadDescription("https://example.com/campaign.md", fetcher),
+    ).resolves.toBe("# Remote");
+    expect(fetcher).toHaveBeenCalledWith("https://example.com/campaign.md");
+  });
+
+  it("should fail on errors and oversized documents", async () => {
+    const failing = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+    await expect(
+      loadDescription("https://example.com/missing.md", failing),
+    ).rejects.toThrow("Failed to load description (404)");
+
+    await expect(
+      loadDescription(toMarkdownDataUri("a".repeat(MAX_DESCRIPTION_BYTES + 1))),
+    ).rejects.toThrow("Description is too large");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { CairoCustomEnum } from "starknet";
+import {
+  getHardCapRemaining,
+  parseFundingPolicy,
+  parseStretchGoals,
+  toFundingPolicyEnum,
+  validateStretchGoals,
+} from "../fundingPolicy";
+
+describe("Funding policy", () => {
+  describe("parseFundingPolicy", () => {
+    it("should read the active variant of the contract enum", () => {
+      expect(
+        parseFundingPolicy(
+          new CairoCustomEnum({
+            AllOrNothing: undefined,
+            KeepWhatYouRaise: undefined,
+            HardCap: {},
+          }),
+        ),
+      ).toBe("HardCap");
+      expect(parseFundingPolicy("KeepWhatYouRaise")).toBe("KeepWhatYouRaise");
+      expect(parseFundingPolicy(undefined)).toBeUndefined();
+    });
+
+    it("should round trip through the enum encoding", () => {
+      expect(parseFundingPolicy(toFundingPolicyEnum("AllOrNothing"))).toBe(
+        "AllOrNothing",
+      );
+    });
+  });
+
+  it("should compute the remaining hard cap capacity", () => {
+    expect(getHardCapRemaining(100n, 40n)).toBe(60n);
+    expect(getHardCapRemaining(100n, 100n)).toBe(0n);
+  });
+
+  describe("validateStretchGoals", () => {
+    it("should parse goals in token units", () => {
+      expect(
+        validateStretchGoals("Translations | 150\nMobile app | 200.5\n", {
+          decimals: 2,
+          target: 10000n,
+        }),
+      ).toEqual({
+        isValid: true,
+        errors: [],
+        names: ["Translations", "Mobile app"],
+        amounts: [15000n, 20050n],
+      });
+    });
+
+    it("should require increasing amounts above the target", () => {
+      const validation = validateStretchGoals(
+        "Too low | 50\nFirst | 150\nNot increasing | 120\nno amount",
+        { decimals: 0, target: 100n },
+      );
+      expect(validation.errors).toEqual([
+        "Line 1: amount must be above the target",
+        "Line 3: amount must be above the previous goal",
+        'Line 4: expected "name | amount"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown, sanitizeUrl } from "../markdown";
+
+describe("markdown", () => {
+  describe("sanitizeUrl", () => {
+    it("should allow web, ipfs and mail links", () => {
+      expect(sanitizeUrl("https://example.com")).toBe("https://example.com");
+      expect(sanitizeUrl("ipfs://bafyhash")).toBe("ipfs://bafyhash");
+      expect(sanitizeUrl("mailto:team@example.com")).toBe(
+        "mailto:team@example.com",
+      );
+    });
+
+    it("should reject script and relative links", () => {
+      expect(sanitizeUrl("javascript:alert(1)")).toBeUndefined();
+      expect(sanitizeUrl("data:text/html,<script>")).toBeUndefined();
+      expect(sanitizeUrl("/admin")).toBeUndefined();
+    });
+  });
+
+  describe("parseInline", () => {
+    it("should parse emphasis, code and links", () => {
+      expect(
+        parseInline("**Bold** and *soft* `code` [docs](https://docs.io)"),
+      ).toEqual([
+        { type: "strong", children: [{ type: "text", text: "Bold" }] },
+        { type: "text", text: " and " },
+        { type: "emphasis", children: [{ type: "text", text: "soft" }] },
+        { type: "text", text: " " },
+        { type: "code", text: "code" },
+        { type: "text", text: " " },
+        {
+          type: "link",
+          href: "https://docs.io",
+          children: [{ type: "text", text: "docs" }],
+        },
+      ]);
+    });
+
+    it("should keep the label of unsafe links as text", () => {
+      expect(parseInline("[click](javascript:alert(1))")).toEqual([
+        { type: "text", text: "click" },
+        { type: "text", text: ")" },
+      ]);
+    });
+
+    it("should not treat underscores inside words as emphasis", () => {
+      expect(parseInline("fund_to_contract")).toEqual([
+        { type: "text", text: "fund_to_contract" },
+      ]);
+    });
+
+    it("should keep html as plain text", () => {
+      expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+        { type: "text", text: "<img src=x onerror=alert(1)>" },
+      ]);
+    });
+  });
+
+  describe("parseMarkdown", () => {
+    it("should parse block elements", () => {
+      const blocks = parseMarkdown(
+        [
+          "# Title",
+          "",
+          "First line",
+          "continued",
+          "",
+          "- one",
+          "- two",
+          "",
+          "1. first",
+          "",
+          "> quoted",
+          "",
+          "```",
+          "let x = 1;",
+          "```",
+          "---",
+        ].join("\n"),
+      );
+
+      expect(blocks.map((block) => block.type)).toEqual([
+        "heading",
+        "paragraph",
+        "list",
+        "list",
+        "blockquote",
+        "code",
+        "rule",
+      ]);
+      expect(blocks[1]).toEqual({
+        type: "paragraph",
+        children: [{ type: "text", text: "First line continued" }],
+      });
+      expect(blocks[2]).toMatchObject({ ordered: false });
+      expect(blocks[3]).toMatchObject({ ordered: true });
+      expect(blocks[5]).toEqual({ type: "code", text: "let x = 1;" });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  CampaignMilestone,
+  getMilestoneTimeline,
+  getReleasedTotal,
+  parseMilestones,
+} from "../milestones";
+
+const milestone = (
+  amount: bigint,
+  approved = false,
+  released = false,
+): CampaignMilestone => ({
+  amount,
+  description: `Tranche of ${amount}`,
+  approved,
+  released,
+});
+
+describe("Campaign milestones", () => {
+  describe("parseMilestones", () => {
+    it("should normalize contract output", () => {
+      expect(
+        parseMilestones([
+          {
+            amount: "30",
+            description: "Prototype",
+            approved: true,
+            released: false,
+          },
+        ]),
+      ).toEqual([
+        {
+          amount: 30n,
+          description: "Prototype",
+          approved: true,
+          released: false,
+        },
+      ]);
+    });
+
+    it("should return an empty plan for missing data", () => {
+      expect(parseMilestones(undefined)).toEqual([]);
+    });
+  });
+
+  describe("getMilestoneTimeline", () => {
+    it("should only allow approving the first pending milestone once the target is met", () => {
+      const milestones = [
+        milestone(30n, true, true),
+        milestone(30n),
+        milestone(40n),
+      ];
+
+      const timeline = getMilestoneTimeline(milestones, { isTargetMet: true });
+      expect(timeline.map((item) => item.state)).toEqual([
+        "released",
+        "pending",
+        "pending",
+      ]);
+      expect(timeline.map((item) => item.canApprove)).toEqual([
+        false,
+        true,
+        false,
+      ]);
+
+      expect(
+        getMilestoneTimeline(milestones, { isTargetMet: false }).some(
+          (item) => item.canApprove,
+        ),
+      ).toBe(false);
+    });
+
+    it("should release approved milestones in order", () => {
+      const timeline = getMilestoneTimeline(
+        [milestone(30n, true), milestone(30n, true), milestone(40n)],
+        { isTargetMet: true },
+      );
+      expect(timeline.map((item) => item.canRelease)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+      expect(timeline[1].state).toBe("approved");
+    });
+  });
+
+  describe("getReleasedTotal", () => {
+    it("should sum released tranches", () => {
+      expect(
+        getReleasedTotal([
+          milestone(30n, true, true),
+          milestone(20n, true, true),
+          milestone(50n, true),
+        ]),
+      ).toBe(50n);
+    });
+  });
+});
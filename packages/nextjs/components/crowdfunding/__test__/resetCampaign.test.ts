@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import {
+  ResetCampaignForm,
+  toUnixDeadline,
+  validateResetCampaign,
+} from "../resetCampaign";
+import { toMarkdownDataUri } from "../descriptionUri";
+
+const now = 1700000000n;
+
+const validForm: ResetCampaignForm = {
+  token: "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d",
+  grantee: "0x064b48806902a367c8598f4f95c305e8c1a1acba5f082d294a43793113115691",
+  target: "1.5",
+  title: "Build a library",
+  description: "## Plan\n\nBuy books",
+  descriptionUri: "",
+  deadline: "2030-01-01T12:00",
+  owner: "0x47434ec924bb16a99710134c2fb830037eace2d82b0725c3d07a3f6016bb47a",
+};
+
+const context = { decimals: 18, fundBalance: 0n, tokenBalances: [], now };
+
+describe("resetCampaign", () => {
+  describe("toUnixDeadline", () => {
+    it("should convert a datetime-local value into seconds", () => {
+      expect(toUnixDeadline("2030-01-01T12:00")).toBe(
+        BigInt(new Date("2030-01-01T12:00").getTime() / 1000),
+      );
+    });
+
+    it("should return undefined for empty or invalid values", () => {
+      expect(toUnixDeadline("")).toBeUndefined();
+      expect(toUnixDeadline("not a date")).toBeUndefined();
+    });
+  });
+
+  describe("validateResetCampaign", () => {
+    it("should build the reset_fund arguments", () => {
+      const result = validateResetCampaign(validForm, context);
+
+      expect(result.isValid).toBe(true);
+      expect(result.args).toEqual([
+        validForm.token,
+        validForm.grantee,
+        15n * 10n ** 17n,
+        "Build a library",
+        toMarkdownDataUri("## Plan\n\nBuy books"),
+        toUnixDeadline(validForm.deadline),
+        validForm.owner,
+      ]);
+    });
+
+    it("should require the funds to be withdrawn first", () => {
+      const result = validateResetCampaign(validForm, {
+        ...context,
+        fundBalance: 1n,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.balance).toBeDefined();
+    });
+
+    it("should wait for the refund grace period of a missed target", () => {
+      const result = validateResetCampaign(validForm, {
+        ...context,
+        fundBalance: 1n,
+        refundSweepTime: now,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.balance).toContain(
+        "Backers can claim their refunds",
+      );
+    });
+
+    it("should let the reset sweep unclaimed refunds after the grace period", () => {
+      const result = validateResetCampaign(validForm, {
+        ...context,
+        fundBalance: 1n,
+        refundSweepTime: now - 1n,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should require every accepted token to be withdrawn first", () => {
+      const result = validateResetCampaign(validForm, {
+        ...context,
+        tokenBalances: [0n, 5n],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.balance).toBe(
+        "Please withdraw the remaining funds in every accepted token before resetting",
+      );
+    });
+
+    it("should not treat unreadable token balances as withdrawn", () => {
+      const result = validateResetCampaign(validForm, {
+        ...context,
+        tokenBalances: undefined,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.balance).toBeDefined();
+    });
+
+    it("should reject a deadline that is not in the future", () => {
+      const result = validateResetCampaign(
+        { ...validForm, deadline: "2020-01-01T00:00" },
+        context,
+      );
+
+      expect(result.errors.deadline).toBe("Deadline must be in the future");
+    });
+
+    it("should reject zero or malformed addresses", () => {
+      const result = validateResetCampaign(
+        { ...validForm, grantee: "0x0", owner: "0x", token: "" },
+        context,
+      );
+
+      expect(Object.keys(result.errors).sort()).toEqual([
+        "grantee",
+        "owner",
+        "token",
+      ]);
+    });
+
+    it("should validate the target against the token decimals", () => {
+      expect(
+        validateResetCampaign({ ...validForm, target: "0" }, context).errors
+          .target,
+      ).toBe("Target must be greater than zero");
+      expect(
+        validateResetCampaign(
+          { ...validForm, target: "0.1234567" },
+          { ...context, decimals: 6 },
+        ).errors.target,
+      ).toBe("Amount supports at most 6 decimal places");
+    });
+
+    it("should require a title", () => {
+      expect(
+        validateResetCampaign({ ...validForm, title: " " }, context).errors
+          .title,
+      ).toBe("Enter a title");
+    });
+
+    it("should prefer a hosted description link over inline markdown", () => {
+      const result = validateResetCampaign(
+        { ...validForm, descriptionUri: "ipfs://bafyhash" },
+        context,
+      );
+      expect(result.args?.[4]).toBe("ipfs://bafyhash");
+
+      expect(
+        validateResetCampaign(
+          { ...validForm, descriptionUri: "javascript:alert(1)" },
+          context,
+        ).errors.descriptionUri,
+      ).toBeDefined();
+    });
+
+    it("should require a description or a link", () => {
+      expect(
+        validateResetCampaign({ ...validForm, description: "" }, context).errors
+          .description,
+      ).toBe("Write a description or link to one");
+    });
+  });
+});
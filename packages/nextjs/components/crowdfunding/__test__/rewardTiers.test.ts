@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import {
+  getReachedTier,
+  getTierTopUp,
+  parseBackerBadges,
+  parseRewardTiers,
+} from "../rewardTiers";
+
+const tiers = parseRewardTiers([
+  { name: "Supporter", min_amount: 10n },
+  { name: "Sponsor", min_amount: "50" },
+  { name: "Patron", min_amount: 100n },
+]);
+
+describe("Reward tiers", () => {
+  it("should normalize contract output", () => {
+    expect(tiers[1]).toEqual({ name: "Sponsor", minAmount: 50n });
+    expect(parseRewardTiers(undefined)).toEqual([]);
+    expect(
+      parseBackerBadges([{ round: 2n, tier: 1n, name: "Sponsor" }]),
+    ).toEqual([{ round: 2, tier: 1, name: "Sponsor" }]);
+  });
+
+  it("should find the highest tier reached", () => {
+    expect(getReachedTier(tiers, 9n)).toBeUndefined();
+    expect(getReachedTier(tiers, 10n)).toBe(0);
+    expect(getReachedTier(tiers, 99n)).toBe(1);
+    expect(getReachedTier(tiers, 1000n)).toBe(2);
+  });
+
+  it("should compute the top up needed to reach a tier", () => {
+    expect(getTierTopUp(tiers[1], 20n)).toBe(30n);
+    expect(getTierTopUp(tiers[1], 60n)).toBe(0n);
+  });
+});
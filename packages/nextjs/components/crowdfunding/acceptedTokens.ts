@@ -0,0 +1,194 @@
+import { CairoCustomEnum } from "starknet";
+import {
+  PRICE_DECIMALS,
+  parseTokenAmount,
+} from "~~/components/scaffold-stark/Input/amount";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+
+/**
+ * Campaigns can accept several tokens and express their target in the primary token or in USD.
+ * Mirrors the `TargetUnit` and `TokenRaised` contract types, amounts in other units are
+ * aggregated off-chain with USD prices since the contract has no price oracle.
+ */
+
+export const TARGET_UNITS = ["Token", "Usd"] as const;
+
+export type TargetUnit = (typeof TARGET_UNITS)[number];
+
+// USD targets are stored in cents
+export const USD_DECIMALS = 2;
+
+export type TokenRaised = {
+  token: string;
+  amount: bigint;
+};
+
+// What the aggregation needs to know about a token, see useErc20Tokens
+export type TokenPricing = {
+  symbol?: string;
+  decimals?: number;
+};
+
+export type AcceptedTokensValidation =
+  | { isValid: true; errors: string[]; tokens: string[] }
+  | { isValid: false; errors: string[] };
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{1,64}$/;
+
+/**
+ * Reads the active variant of a `TargetUnit` returned by the contract.
+ */
+export const parseTargetUnit = (data: unknown): TargetUnit | undefined => {
+  if (data instanceof CairoCustomEnum) {
+    return TARGET_UNITS.find((unit) => unit === data.activeVariant());
+  }
+  return TARGET_UNITS.find((unit) => unit === data);
+};
+
+/**
+ * Encodes a unit for `set_target_unit`.
+ */
+export const toTargetUnitEnum = (unit: TargetUnit) =>
+  new CairoCustomEnum({ [unit]: {} });
+
+/**
+ * Decimals of the target, the primary token's own or {@link USD_DECIMALS}.
+ */
+export const getTargetDecimals = (unit: TargetUnit, tokenDecimals: number) =>
+  unit === "Usd" ? USD_DECIMALS : tokenDecimals;
+
+/**
+ * Normalizes the `get_accepted_tokens` output into hex addresses, the primary token first.
+ */
+export const parseAcceptedTokens = (data: unknown): string[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((token) => feltToHex(BigInt(token.toString())));
+};
+
+/**
+ * Normalizes the `get_raised_by_token` output, the primary token first.
+ */
+export const parseRaisedByToken = (data: unknown): TokenRaised[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((entry) => ({
+    token: feltToHex(BigInt(entry.token?.toString() ?? 0)),
+    amount: BigInt(entry.amount?.toString() ?? 0),
+  }));
+};
+
+/**
+ * Validates one token address per line for `set_accepted_tokens`.
+ * The primary token is always accepted and must not be listed again.
+ */
+export const validateAcceptedTokens = (
+  text: string,
+  primaryToken?: string,
+): AcceptedTokensValidation => {
+  const errors: string[] = [];
+  const tokens: string[] = [];
+  const seen = new Set<bigint>(
+    primaryToken !== undefined ? [BigInt(primaryToken)] : [],
+  );
+
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .forEach((line, index) => {
+      if (!line) return;
+      if (!ADDRESS_REGEX.test(line) || BigInt(line) === 0n) {
+        errors.push(`Line ${index + 1}: expected a token address`);
+        return;
+      }
+      if (seen.has(BigInt(line))) {
+        errors.push(`Line ${index + 1}: token is already accepted`);
+        return;
+      }
+      seen.add(BigInt(line));
+      tokens.push(feltToHex(BigInt(line)));
+    });
+
+  if (errors.length > 0) return { isValid: false, errors };
+  return { isValid: true, errors, tokens };
+};
+
+const toScaledPrice = (price: number) =>
+  parseTokenAmount(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS);
+
+/**
+ * Converts a raw amount between two units through their USD prices, staying in bigint.
+ * Prices are fixed to {@link PRICE_DECIMALS} places, the result is truncated.
+ */
+export const convertTokenAmount = (
+  amount: bigint,
+  from: { decimals: number; price: number },
+  to: { decimals: number; price: number },
+): bigint => {
+  const fromPrice = toScaledPrice(from.price);
+  const toPrice = toScaledPrice(to.price);
+  if (toPrice === 0n) {
+    throw new Error("Price unavailable");
+  }
+  return (
+    (amount * fromPrice * 10n ** BigInt(to.decimals)) /
+    (toPrice * 10n ** BigInt(from.decimals))
+  );
+};
+
+/**
+ * Sums what was raised in every accepted token in the target's unit.
+ * The primary token counts as is for token targets, other amounts need a USD price;
+ * tokens without one are left out and reported in `missingPrices`.
+ * @param config.tokens - symbol and decimals by token address
+ * @param config.prices - USD prices by symbol, 0 when unknown
+ */
+export const aggregateRaised = ({
+  raised,
+  unit,
+  primaryToken,
+  tokens,
+  prices,
+}: {
+  raised: TokenRaised[];
+  unit: TargetUnit;
+  primaryToken?: string;
+  tokens: Record<string, TokenPricing>;
+  prices: Record<string, number>;
+}): { total: bigint; missingPrices: string[] } => {
+  const primary = primaryToken !== undefined ? tokens[primaryToken] : undefined;
+  const targetPricing =
+    unit === "Usd"
+      ? { decimals: USD_DECIMALS, price: 1 }
+      : {
+          decimals: primary?.decimals,
+          price: primary?.symbol ? (prices[primary.symbol] ?? 0) : 0,
+        };
+
+  let total = 0n;
+  const missingPrices: string[] = [];
+  raised.forEach(({ token, amount }) => {
+    if (amount === 0n) return;
+    if (unit === "Token" && token === primaryToken) {
+      total += amount;
+      return;
+    }
+
+    const { symbol, decimals } = tokens[token] ?? {};
+    const price = symbol ? (prices[symbol] ?? 0) : 0;
+    if (
+      decimals === undefined ||
+      targetPricing.decimals === undefined ||
+      !(price > 0) ||
+      !(targetPricing.price > 0)
+    ) {
+      missingPrices.push(symbol ?? token);
+      return;
+    }
+    total += convertTokenAmount(
+      amount,
+      { decimals, price },
+      { decimals: targetPricing.decimals, price: targetPricing.price },
+    );
+  });
+
+  return { total, missingPrices };
+};
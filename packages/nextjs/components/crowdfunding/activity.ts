@@ -0,0 +1,229 @@
+import {
+  formatTokenAmount,
+  tokenAmountToUsd,
+} from "~~/components/scaffold-stark/Input/amount";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+
+export type ActivityKind = "donation" | "withdrawal" | "refund" | "status";
+
+export type ActivityFilter = "all" | "donations" | "withdrawals" | "status";
+
+export type ActivityItem = {
+  id: string;
+  kind: ActivityKind;
+  label: string;
+  account?: string;
+  amount?: bigint;
+  // Token of a transfer, missing for failed transfers and events emitted before multi-token support
+  token?: string;
+  failed: boolean;
+  timestamp?: number;
+  transactionHash: string;
+  blockNumber: number;
+};
+
+export type TopDonor = {
+  account: string;
+  total: bigint;
+  count: number;
+};
+
+// Token and USD prices an item's amount is valued with, prices are 0 or missing when unknown
+export type ActivityValuation = {
+  symbol: string;
+  decimals: number;
+  price: number;
+  // Price at the item's block timestamp
+  priceAtTime?: number;
+};
+
+// Shape of the entries returned by useScaffoldEventHistory
+type CampaignEvent = {
+  args: Record<string, any>;
+  log: { transaction_hash: string; block_number: number };
+  block?: { timestamp?: number } | null;
+};
+
+type CampaignEvents = {
+  transfers?: CampaignEvent[];
+  failedTransfers?: CampaignEvent[];
+  refunds?: CampaignEvent[];
+  statusChanges?: CampaignEvent[];
+  resets?: CampaignEvent[];
+};
+
+type TransferKind = Exclude<ActivityKind, "status">;
+
+const TRANSFER_LABELS: Record<TransferKind, string> = {
+  donation: "Donation",
+  withdrawal: "Withdrawal",
+  refund: "Refund",
+};
+
+const toAddress = (value: unknown) => feltToHex(BigInt(value as string));
+
+const eventMeta = (event: CampaignEvent, index: number, kind: string) => ({
+  id: `${event.log.transaction_hash}-${kind}-${index}`,
+  timestamp: event.block?.timestamp,
+  transactionHash: event.log.transaction_hash,
+  blockNumber: event.log.block_number,
+});
+
+/**
+ * Merges the campaign's events into a single feed, newest first.
+ * Transfers into the campaign are donations, transfers out are withdrawals,
+ * or refunds when the same transaction emitted a `Refunded` event.
+ */
+export const buildActivity = (
+  campaignAddress: string,
+  {
+    transfers = [],
+    failedTransfers = [],
+    refunds = [],
+    statusChanges = [],
+    resets = [],
+  }: CampaignEvents,
+): ActivityItem[] => {
+  const campaign = BigInt(campaignAddress);
+  const refundTxs = new Set(refunds.map((e) => e.log.transaction_hash));
+
+  const fromTransfer =
+    (failed: boolean) =>
+    (event: CampaignEvent, index: number): ActivityItem => {
+      const isDonation = BigInt(event.args.to) === campaign;
+      const kind: TransferKind = isDonation
+        ? "donation"
+        : refundTxs.has(event.log.transaction_hash)
+          ? "refund"
+          : "withdrawal";
+      return {
+        ...eventMeta(event, index, failed ? "failed" : "transfer"),
+        kind,
+        label: failed
+          ? `${TRANSFER_LABELS[kind]} failed`
+          : TRANSFER_LABELS[kind],
+        account: toAddress(isDonation ? event.args.from : event.args.to),
+        amount: BigInt(event.args.amount),
+        token:
+          event.args.token !== undefined
+            ? toAddress(event.args.token)
+            : undefined,
+        failed,
+      };
+    };
+
+  const items: ActivityItem[] = [
+    ...transfers.map(fromTransfer(false)),
+    ...failedTransfers.map(fromTransfer(true)),
+    ...statusChanges.map((event, index) => ({
+      ...eventMeta(event, index, "active"),
+      kind: "status" as const,
+      label: event.args.active ? "Campaign activated" : "Campaign deactivated",
+      failed: false,
+    })),
+    ...resets.map((event, index) => ({
+      ...eventMeta(event, index, "reset"),
+      kind: "status" as const,
+      label: "Campaign reset",
+      account: toAddress(event.args.initial_owner),
+      amount: BigInt(event.args.fund_target),
+      failed: false,
+    })),
+  ];
+
+  return items.sort((a, b) => b.blockNumber - a.blockNumber);
+};
+
+/**
+ * Keeps the feed items matching the selected filter
+ */
+export const filterActivity = (
+  items: ActivityItem[],
+  filter: ActivityFilter,
+): ActivityItem[] => {
+  switch (filter) {
+    case "donations":
+      return items.filter((item) => item.kind === "donation");
+    case "withdrawals":
+      return items.filter(
+        (item) => item.kind === "withdrawal" || item.kind === "refund",
+      );
+    case "status":
+      return items.filter((item) => item.kind === "status");
+    default:
+      return items;
+  }
+};
+
+/**
+ * Aggregates successful donations per donor, largest total first
+ * @param token - only count donations in this token, donations without a token always count
+ */
+export const getTopDonors = (
+  items: ActivityItem[],
+  limit: number = 5,
+  token?: string,
+): TopDonor[] => {
+  const totals = new Map<string, TopDonor>();
+  for (const item of items) {
+    if (item.kind !== "donation" || item.failed || !item.account) continue;
+    if (token && item.token && BigInt(item.token) !== BigInt(token)) continue;
+    const donor = totals.get(item.account) ?? {
+      account: item.account,
+      total: 0n,
+      count: 0,
+    };
+    donor.total += item.amount ?? 0n;
+    donor.count += 1;
+    totals.set(item.account, donor);
+  }
+
+  return Array.from(totals.values())
+    .sort((a, b) => (a.total === b.total ? 0 : a.total > b.total ? -1 : 1))
+    .slice(0, limit);
+};
+
+const CSV_COLUMNS = [
+  "date",
+  "type",
+  "account",
+  "amount",
+  "token",
+  "usd_now",
+  "usd_at_time",
+  "transaction_hash",
+  "block_number",
+];
+
+const toCsvField = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Exports the feed's transfers as CSV, valued at today's price and at the time of the transfer.
+ * USD columns are left empty when the price is unknown.
+ */
+export const toActivityCsv = (
+  items: ActivityItem[],
+  getValuation: (item: ActivityItem) => ActivityValuation,
+): string => {
+  const rows = items
+    .filter((item) => item.kind !== "status" && item.amount !== undefined)
+    .map((item) => {
+      const { symbol, decimals, price, priceAtTime } = getValuation(item);
+      const amount = item.amount!;
+      return [
+        item.timestamp ? new Date(item.timestamp * 1000).toISOString() : "",
+        item.label,
+        item.account ?? "",
+        formatTokenAmount(amount, decimals),
+        symbol,
+        price > 0 ? tokenAmountToUsd(amount, decimals, price) : "",
+        priceAtTime ? tokenAmountToUsd(amount, decimals, priceAtTime) : "",
+        item.transactionHash,
+        item.blockNumber.toString(),
+      ];
+    });
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(toCsvField).join(","))
+    .join("\n");
+};
@@ -0,0 +1,93 @@
+/**
+ * Campaign descriptions are markdown documents referenced by the `fund_description_uri` stored on chain.
+ * Supported URIs are https:// (or http:// for local setups), ipfs:// through a public gateway,
+ * and inline `data:text/markdown` URIs for campaigns that keep the whole description on chain.
+ */
+
+export const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+
+// Descriptions larger than this are not rendered
+export const MAX_DESCRIPTION_BYTES = 100_000;
+
+const DATA_URI_PATTERN =
+  /^data:text\/(?:markdown|plain)(;charset=[\w-]+)?(;base64)?,(.*)$/s;
+
+const decodeBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+const encodeBase64 = (value: string) => {
+  let binary = "";
+  new TextEncoder().encode(value).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+/**
+ * Encodes a markdown document as an inline data URI, so it can be stored directly on chain.
+ */
+export const toMarkdownDataUri = (markdown: string) =>
+  `data:text/markdown;base64,${encodeBase64(markdown)}`;
+
+/**
+ * Resolves a description URI into either its inline content or a URL that can be fetched.
+ * @returns `undefined` for empty or unsupported URIs
+ */
+export const resolveDescriptionUri = (
+  uri: string,
+): { content: string } | { url: string } | undefined => {
+  const trimmed = uri.trim();
+  const dataUri = DATA_URI_PATTERN.exec(trimmed);
+  if (dataUri) {
+    const [, , isBase64, payload] = dataUri;
+    try {
+      return {
+        content: isBase64 ? decodeBase64(payload) : decodeURIComponent(payload),
+      };
+    } catch {
+      return undefined;
+    }
+  }
+  if (trimmed.startsWith("ipfs://")) {
+    return { url: IPFS_GATEWAY + trimmed.slice("ipfs://".length) };
+  }
+  if (/^https?:\/\//.test(trimmed)) {
+    return { url: trimmed };
+  }
+  return undefined;
+};
+
+/**
+ * Loads the markdown a description URI points to.
+ * @throws if the URI is unsupported, the request fails or the document is too large
+ */
+export const loadDescription = async (
+  uri: string,
+  fetcher: typeof fetch = fetch,
+): Promise<string> => {
+  const resolved = resolveDescriptionUri(uri);
+  if (!resolved) {
+    throw new Error(`Unsupported description URI: ${uri}`);
+  }
+
+  const content =
+    "content" in resolved
+      ? resolved.content
+      : await fetcher(resolved.url).then((response) => {
+          if (!response.ok) {
+            throw new Error(`Failed to load description (${response.status})`);
+          }
+          return response.text();
+        });
+
+  if (new TextEncoder().encode(content).length > MAX_DESCRIPTION_BYTES) {
+    throw new Error("Description is too large");
+  }
+  return content;
+};
@@ -0,0 +1,129 @@
+import { CairoCustomEnum } from "starknet";
+import { parseTokenAmount } from "~~/components/scaffold-stark/Input/amount";
+
+/**
+ * Funding policies decide what happens around the target, stretch goals list what funding
+ * beyond the target pays for. Both mirror the `FundingPolicy` and `StretchGoal` contract types.
+ */
+
+export const FUNDING_POLICIES = [
+  "AllOrNothing",
+  "KeepWhatYouRaise",
+  "HardCap",
+] as const;
+
+export type FundingPolicy = (typeof FUNDING_POLICIES)[number];
+
+export const FUNDING_POLICY_INFO: Record<
+  FundingPolicy,
+  { label: string; description: string }
+> = {
+  AllOrNothing: {
+    label: "All-or-nothing",
+    description: "Backers are refunded if the target is missed.",
+  },
+  KeepWhatYouRaise: {
+    label: "Keep what you raise",
+    description:
+      "The grantee keeps whatever was raised once the campaign ends.",
+  },
+  HardCap: {
+    label: "Hard cap",
+    description:
+      "Contributions stop at the target, backers are refunded if it is missed.",
+  },
+};
+
+export type StretchGoal = {
+  name: string;
+  amount: bigint;
+};
+
+export type StretchGoalsValidation =
+  | { isValid: true; errors: string[]; names: string[]; amounts: bigint[] }
+  | { isValid: false; errors: string[] };
+
+/**
+ * Reads the active variant of a `FundingPolicy` returned by the contract.
+ */
+export const parseFundingPolicy = (
+  data: unknown,
+): FundingPolicy | undefined => {
+  if (data instanceof CairoCustomEnum) {
+    return FUNDING_POLICIES.find((policy) => policy === data.activeVariant());
+  }
+  return FUNDING_POLICIES.find((policy) => policy === data);
+};
+
+/**
+ * Encodes a policy for `set_funding_policy`.
+ */
+export const toFundingPolicyEnum = (policy: FundingPolicy) =>
+  new CairoCustomEnum({ [policy]: {} });
+
+/**
+ * Normalizes the `get_stretch_goals` output, goals are sorted by increasing amount.
+ */
+export const parseStretchGoals = (data: unknown): StretchGoal[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((goal) => ({
+    name: String(goal.name ?? ""),
+    amount: BigInt(goal.amount?.toString() ?? 0),
+  }));
+};
+
+/**
+ * Amount that can still be contributed under a hard cap.
+ */
+export const getHardCapRemaining = (target: bigint, raised: bigint) =>
+  target > raised ? target - raised : 0n;
+
+/**
+ * Parses stretch goals entered as one "name | amount" pair per line, mirroring the contract asserts.
+ * @param text - raw textarea value, amounts in token units
+ * @param context.decimals - token decimals
+ * @param context.target - funding target, the first goal must be above it
+ */
+export const validateStretchGoals = (
+  text: string,
+  { decimals, target }: { decimals: number; target: bigint },
+): StretchGoalsValidation => {
+  const errors: string[] = [];
+  const names: string[] = [];
+  const amounts: bigint[] = [];
+
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line, index) => {
+      const separator = line.lastIndexOf("|");
+      const name = separator === -1 ? "" : line.slice(0, separator).trim();
+      if (!name) {
+        errors.push(`Line ${index + 1}: expected "name | amount"`);
+        return;
+      }
+      let amount: bigint;
+      try {
+        amount = parseTokenAmount(line.slice(separator + 1), decimals);
+      } catch (e) {
+        errors.push(`Line ${index + 1}: ${(e as Error).message}`);
+        return;
+      }
+      const previous =
+        amounts.length > 0 ? amounts[amounts.length - 1] : target;
+      if (amount <= previous) {
+        errors.push(
+          `Line ${index + 1}: amount must be above the ${
+            amounts.length > 0 ? "previous goal" : "target"
+          }`,
+        );
+        return;
+      }
+      names.push(name);
+      amounts.push(amount);
+    });
+
+  if (errors.length > 0) return { isValid: false, errors };
+  return { isValid: true, errors, names, amounts };
+};
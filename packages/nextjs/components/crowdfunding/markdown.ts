@@ -0,0 +1,191 @@
+/**
+ * Minimal markdown parser for campaign descriptions.
+ * Descriptions come from arbitrary URIs, so the output is a plain tree that is rendered
+ * as React elements: raw HTML is never interpreted and links are restricted to safe protocols.
+ */
+
+const SAFE_PROTOCOLS = ["http:", "https:", "ipfs:", "mailto:"];
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "blockquote"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const BLOCKQUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*```/;
+
+/**
+ * Returns the URL if it uses an allowed protocol, `undefined` otherwise (e.g. `javascript:` or relative links).
+ */
+export const sanitizeUrl = (href: string): string | undefined => {
+  try {
+    const { protocol } = new URL(href);
+    return SAFE_PROTOCOLS.includes(protocol) ? href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, strong, strongAlt, emphasis, emphasisAlt, label, href] =
+      match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({
+        type: "strong",
+        children: parseInline(strong ?? strongAlt),
+      });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({
+        type: "emphasis",
+        children: parseInline(emphasis ?? emphasisAlt),
+      });
+    } else {
+      const safeHref = sanitizeUrl(href);
+      // Unsafe links keep their label so no content is lost
+      nodes.push(
+        ...(safeHref
+          ? [
+              {
+                type: "link" as const,
+                href: safeHref,
+                children: parseInline(label),
+              },
+            ]
+          : parseInline(label)),
+      );
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+};
+
+/**
+ * Parses headings, paragraphs, lists, blockquotes, fenced code blocks and rules.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: "paragraph",
+        children: parseInline(paragraph.join(" ")),
+      });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    const listPattern = UNORDERED_ITEM_PATTERN.test(line)
+      ? UNORDERED_ITEM_PATTERN
+      : ORDERED_ITEM_PATTERN.test(line)
+        ? ORDERED_ITEM_PATTERN
+        : undefined;
+    if (listPattern) {
+      flushParagraph();
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(parseInline((listPattern.exec(lines[i]) as string[])[1]));
+        i++;
+      }
+      i--;
+      blocks.push({
+        type: "list",
+        ordered: listPattern === ORDERED_ITEM_PATTERN,
+        items,
+      });
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (i < lines.length && BLOCKQUOTE_PATTERN.test(lines[i])) {
+        quote.push((BLOCKQUOTE_PATTERN.exec(lines[i]) as string[])[1]);
+        i++;
+      }
+      i--;
+      blocks.push({
+        type: "blockquote",
+        children: parseInline(quote.join(" ")),
+      });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+
+  return blocks;
+};
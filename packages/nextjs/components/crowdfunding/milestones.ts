@@ -0,0 +1,65 @@
+/**
+ * Milestones split a campaign's payout into tranches. The owner approves them in order once the
+ * target is met, and each approved tranche is then released to the grantee, also in order.
+ */
+
+export type CampaignMilestone = {
+  amount: bigint;
+  description: string;
+  approved: boolean;
+  released: boolean;
+};
+
+export type MilestoneState = "released" | "approved" | "pending";
+
+export type MilestoneTimelineItem = CampaignMilestone & {
+  index: number;
+  state: MilestoneState;
+  // Only the next milestone in line can be approved, and only once the target is met
+  canApprove: boolean;
+  canRelease: boolean;
+};
+
+/**
+ * Normalizes the `get_milestones` output, amounts may come back as bigint, number or string.
+ */
+export const parseMilestones = (data: unknown): CampaignMilestone[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((milestone) => ({
+    amount: BigInt(milestone.amount?.toString() ?? 0),
+    description: String(milestone.description ?? ""),
+    approved: Boolean(milestone.approved),
+    released: Boolean(milestone.released),
+  }));
+};
+
+/**
+ * Derives the state of every milestone and which of them can be acted on next.
+ */
+export const getMilestoneTimeline = (
+  milestones: CampaignMilestone[],
+  { isTargetMet }: { isTargetMet: boolean },
+): MilestoneTimelineItem[] => {
+  const nextApproval = milestones.findIndex((milestone) => !milestone.approved);
+  const nextRelease = milestones.findIndex((milestone) => !milestone.released);
+
+  return milestones.map((milestone, index) => ({
+    ...milestone,
+    index,
+    state: milestone.released
+      ? "released"
+      : milestone.approved
+        ? "approved"
+        : "pending",
+    canApprove: isTargetMet && index === nextApproval,
+    canRelease: milestone.approved && index === nextRelease,
+  }));
+};
+
+/**
+ * Sums the tranches already paid out to the grantee.
+ */
+export const getReleasedTotal = (milestones: CampaignMilestone[]) =>
+  milestones
+    .filter((milestone) => milestone.released)
+    .reduce((total, milestone) => total + milestone.amount, 0n);
@@ -0,0 +1,183 @@
+import { parseTokenAmount } from "~~/components/scaffold-stark/Input/amount";
+import { resolveDescriptionUri, toMarkdownDataUri } from "./descriptionUri";
+
+// Titles are stored as a ByteArray, the limit only keeps the page header readable
+const MAX_TITLE_LENGTH = 100;
+
+const STARKNET_ADDRESS_REGEX = /^0x[a-fA-F0-9]{1,64}$/;
+
+// Mirrors REFUND_GRACE_PERIOD in crowdfunding.cairo, in seconds
+export const REFUND_GRACE_PERIOD = 30n * 24n * 60n * 60n;
+
+export type ResetCampaignForm = {
+  token: string;
+  grantee: string;
+  // Decimal amount in token units, e.g. "1.5"
+  target: string;
+  title: string;
+  // Markdown body, stored inline as a data URI unless `descriptionUri` is set
+  description: string;
+  // Link to hosted markdown (https:// or ipfs://)
+  descriptionUri: string;
+  // Value of a datetime-local input, in the user's timezone
+  deadline: string;
+  owner: string;
+};
+
+export type ResetCampaignErrors = Partial<
+  Record<keyof ResetCampaignForm | "balance", string>
+>;
+
+// reset_fund(token, grantee_address, fund_target, fund_title, fund_description_uri, deadline, initial_owner)
+export type ResetCampaignArgs = [
+  string,
+  string,
+  bigint,
+  string,
+  string,
+  bigint,
+  string,
+];
+
+export type ResetCampaignValidation =
+  | { isValid: true; errors: ResetCampaignErrors; args: ResetCampaignArgs }
+  | { isValid: false; errors: ResetCampaignErrors; args?: undefined };
+
+const isNonZeroAddress = (value: string) =>
+  STARKNET_ADDRESS_REGEX.test(value) && BigInt(value) !== 0n;
+
+/**
+ * Converts a datetime-local value into a Unix timestamp in seconds.
+ * @returns `undefined` when the value is not a valid date
+ */
+export const toUnixDeadline = (dateTime: string): bigint | undefined => {
+  const time = new Date(dateTime).getTime();
+  if (!dateTime || Number.isNaN(time)) return undefined;
+  return BigInt(Math.floor(time / 1000));
+};
+
+/**
+ * Validates the reset form before sending `reset_fund`, mirroring the contract asserts
+ * so the owner gets a field error instead of a reverted transaction.
+ * @param form - raw form values
+ * @param context.decimals - decimals of the selected token, the target is entered in token units
+ * @param context.fundBalance - current balance of the campaign, reset requires it to be withdrawn first
+ * @param context.refundSweepTime - for a missed target, the Unix timestamp after which the reset sweeps unclaimed refunds
+ * @param context.tokenBalances - balances of the other accepted tokens, `undefined` if they could not be read
+ * @param context.now - current Unix timestamp in seconds, the new deadline must be after it
+ * @returns the field errors and, when valid, the `reset_fund` arguments
+ */
+export const validateResetCampaign = (
+  form: ResetCampaignForm,
+  {
+    decimals,
+    fundBalance,
+    refundSweepTime,
+    tokenBalances,
+    now,
+  }: {
+    decimals?: number;
+    fundBalance?: bigint;
+    refundSweepTime?: bigint;
+    tokenBalances?: bigint[];
+    now: bigint;
+  },
+): ResetCampaignValidation => {
+  const errors: ResetCampaignErrors = {};
+
+  // assert(self.is_refund_grace_period_over(), 'Please withdraw first!') while funds are left
+  if (fundBalance === undefined) {
+    errors.balance = "Campaign balance is still loading";
+  } else if (fundBalance > 0n && refundSweepTime === undefined) {
+    errors.balance = "Please withdraw the remaining funds before resetting";
+  } else if (
+    fundBalance > 0n &&
+    refundSweepTime !== undefined &&
+    now <= refundSweepTime
+  ) {
+    errors.balance = `Backers can claim their refunds until ${new Date(
+      Number(refundSweepTime) * 1000,
+    ).toLocaleString()}, the campaign can be reset after that`;
+  }
+  // assert(!self.has_accepted_token_balance(), 'Please withdraw first!')
+  else if (tokenBalances === undefined) {
+    errors.balance =
+      "Could not read the campaign's balances of its other accepted tokens";
+  } else if (tokenBalances.some((balance) => balance > 0n)) {
+    errors.balance =
+      "Please withdraw the remaining funds in every accepted token before resetting";
+  }
+
+  if (!isNonZeroAddress(form.token)) {
+    errors.token = "Select a token or enter a valid token address";
+  }
+  if (!isNonZeroAddress(form.grantee)) {
+    errors.grantee = "Enter a valid grantee address";
+  }
+  if (!isNonZeroAddress(form.owner)) {
+    errors.owner = "Enter a valid owner address";
+  }
+
+  let target: bigint | undefined;
+  if (decimals === undefined) {
+    errors.target = "Token decimals are still loading";
+  } else {
+    try {
+      target = parseTokenAmount(form.target, decimals);
+      if (target <= 0n) {
+        errors.target = "Target must be greater than zero";
+      }
+    } catch (e) {
+      errors.target = e instanceof Error ? e.message : "Invalid target";
+    }
+  }
+
+  const title = form.title.trim();
+  if (!title) {
+    errors.title = "Enter a title";
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+
+  let descriptionUri: string | undefined;
+  if (form.descriptionUri.trim()) {
+    descriptionUri = form.descriptionUri.trim();
+    if (!resolveDescriptionUri(descriptionUri)) {
+      errors.descriptionUri = "Use an https:// or ipfs:// link";
+    }
+  } else if (form.description.trim()) {
+    descriptionUri = toMarkdownDataUri(form.description.trim());
+  } else {
+    errors.description = "Write a description or link to one";
+  }
+
+  const deadline = toUnixDeadline(form.deadline);
+  if (deadline === undefined) {
+    errors.deadline = "Pick a deadline";
+  } else if (deadline <= now) {
+    errors.deadline = "Deadline must be in the future";
+  }
+
+  if (
+    Object.keys(errors).length > 0 ||
+    target === undefined ||
+    !deadline ||
+    !descriptionUri
+  ) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    args: [
+      form.token,
+      form.grantee,
+      target,
+      title,
+      descriptionUri,
+      deadline,
+      form.owner,
+    ],
+  };
+};
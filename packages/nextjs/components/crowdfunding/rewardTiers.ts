@@ -0,0 +1,59 @@
+/**
+ * Reward tiers are perks offered at contribution thresholds. Backers reaching a tier get a badge
+ * recorded by the campaign, holding the highest tier reached in each round.
+ */
+
+export type RewardTier = {
+  name: string;
+  minAmount: bigint;
+};
+
+export type BackerBadge = {
+  round: number;
+  tier: number;
+  name: string;
+};
+
+/**
+ * Normalizes the `get_reward_tiers` output, tiers are sorted by increasing minimum amount.
+ */
+export const parseRewardTiers = (data: unknown): RewardTier[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((tier) => ({
+    name: String(tier.name ?? ""),
+    minAmount: BigInt(tier.min_amount?.toString() ?? 0),
+  }));
+};
+
+/**
+ * Normalizes the `get_backer_badges` output.
+ */
+export const parseBackerBadges = (data: unknown): BackerBadge[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((badge) => ({
+    round: Number(badge.round ?? 0),
+    tier: Number(badge.tier ?? 0),
+    name: String(badge.name ?? ""),
+  }));
+};
+
+/**
+ * Finds the highest tier reached by a round total.
+ * @returns the tier index, or `undefined` below the first tier
+ */
+export const getReachedTier = (
+  tiers: RewardTier[],
+  total: bigint,
+): number | undefined => {
+  let reached: number | undefined;
+  tiers.forEach((tier, index) => {
+    if (tier.minAmount <= total) reached = index;
+  });
+  return reached;
+};
+
+/**
+ * Amount still needed to reach a tier, contributions add up within a round.
+ */
+export const getTierTopUp = (tier: RewardTier, contributed: bigint) =>
+  tier.minAmount > contributed ? tier.minAmount - contributed : 0n;
@@ -0,0 +1,107 @@
+import { formatTokenAmount } from "./Input/amount";
+import {
+  ProgressGoal,
+  ProgressSegmentKind,
+  calculatePercentage,
+  getCampaignProgress,
+} from "~~/utils/scaffold-stark/progress";
+
+type CampaignProgressProps = {
+  target: bigint;
+  // Total contributed, including what was already paid out
+  pledged: bigint;
+  // Part of `pledged` already paid out to the grantee
+  withdrawn?: bigint;
+  stretchGoals?: ProgressGoal[];
+  // Label of the target marker, e.g. "Cap" for hard capped campaigns
+  targetLabel?: string;
+  // Decimals shown in the percentage
+  precision?: number;
+  decimals: number;
+  symbol: string;
+};
+
+const SEGMENT_STYLES: Record<
+  ProgressSegmentKind,
+  { className: string; label: string }
+> = {
+  withdrawn: { className: "bg-green-500", label: "Withdrawn" },
+  pledged: { className: "bg-indigo-600 dark:bg-indigo-500", label: "Pledged" },
+  stretch: { className: "bg-amber-500", label: "Beyond target" },
+};
+
+/**
+ * Campaign progress bar with exact percentages, segments for withdrawn, pledged and
+ * over-target funds, and markers for the target and stretch goals.
+ */
+export const CampaignProgress = ({
+  target,
+  pledged,
+  withdrawn = 0n,
+  stretchGoals = [],
+  targetLabel = "Target",
+  precision = 2,
+  decimals,
+  symbol,
+}: CampaignProgressProps) => {
+  const { segments, markers, isOverTarget } = getCampaignProgress({
+    target,
+    pledged,
+    withdrawn,
+    stretchGoals,
+    targetLabel,
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <span>
+          Progress: {calculatePercentage(pledged, target, precision)}%
+          {isOverTarget && (
+            <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+              Over target
+            </span>
+          )}
+        </span>
+        <span>
+          {targetLabel}: {formatTokenAmount(target, decimals)} {symbol}
+        </span>
+      </div>
+      <div className="relative w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+        <div className="flex h-3 rounded-full overflow-hidden">
+          {segments.map((segment) => (
+            <div
+              key={segment.kind}
+              className={`h-3 transition-all duration-500 ease-in-out ${SEGMENT_STYLES[segment.kind].className}`}
+              style={{ width: `${segment.width}%` }}
+              title={`${SEGMENT_STYLES[segment.kind].label}: ${formatTokenAmount(segment.amount, decimals)} ${symbol}`}
+            ></div>
+          ))}
+        </div>
+        {markers.map((marker) => (
+          <div
+            key={marker.label}
+            className={`absolute -top-1 h-5 w-0.5 ${
+              marker.reached ? "bg-green-500" : "bg-gray-500 dark:bg-gray-400"
+            }`}
+            style={{ left: `calc(${marker.position}% - 1px)` }}
+            title={`${marker.label}: ${formatTokenAmount(marker.amount, decimals)} ${symbol}`}
+          ></div>
+        ))}
+      </div>
+      {segments.length > 1 && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-500 dark:text-gray-400">
+          {segments.map((segment) => (
+            <span key={segment.kind} className="inline-flex items-center gap-1">
+              <span
+                className={`inline-block h-2 w-2 rounded-full ${SEGMENT_STYLES[segment.kind].className}`}
+              ></span>
+              {SEGMENT_STYLES[segment.kind].label}{" "}
+              {formatTokenAmount(segment.amount, decimals)} {symbol}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import { useRef, useState } from "react";
 import { NetworkOptions } from "./NetworkOptions";
+import { RecentTransactions } from "./RecentTransactions";
+import { BackerBadges } from "./BackerBadges";
 import CopyToClipboard from "react-copy-to-clipboard";
 import { createPortal } from "react-dom";
 import {
@@ -150,6 +152,8 @@ export const AddressInfoDropdown = ({
               <span className="whitespace-nowrap">View QR Code</span>
             </label>
           </li>
+          <BackerBadges address={address} hidden={selectingNetwork} />
+          <RecentTransactions hidden={selectingNetwork} />
           {chain.network != "devnet" ? (
             <li className={selectingNetwork ? "hidden" : ""}>
               <button
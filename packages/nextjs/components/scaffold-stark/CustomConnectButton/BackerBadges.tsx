@@ -0,0 +1,47 @@
+import { TrophyIcon } from "@heroicons/react/24/outline";
+import { parseBackerBadges } from "~~/components/crowdfunding/rewardTiers";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-stark";
+
+type BackerBadgesProps = {
+  address: string;
+  hidden?: boolean;
+};
+
+/**
+ * Badges the connected account earned by backing the deployed campaign.
+ */
+export const BackerBadges = ({
+  address,
+  hidden = false,
+}: BackerBadgesProps) => {
+  const { data } = useScaffoldReadContract({
+    contractName: "crowdfunding",
+    functionName: "get_backer_badges",
+    args: [address],
+  });
+
+  const badges = parseBackerBadges(data);
+  if (badges.length === 0) return null;
+
+  return (
+    <li className={hidden ? "hidden" : ""}>
+      <div className="flex flex-col items-stretch gap-1 py-2 cursor-default hover:bg-transparent">
+        <span className="flex items-center gap-3 text-sm font-semibold">
+          <TrophyIcon className="h-6 w-4 ml-2 sm:ml-0" />
+          Backer badges
+        </span>
+        <div className="flex flex-wrap gap-1">
+          {badges.map((badge) => (
+            <span
+              key={`${badge.round}-${badge.tier}`}
+              className="badge badge-sm badge-primary"
+              title={`Round ${badge.round + 1}`}
+            >
+              {badge.name}
+            </span>
+          ))}
+        </div>
+      </div>
+    </li>
+  );
+};
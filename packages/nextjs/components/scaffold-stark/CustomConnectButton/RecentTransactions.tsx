@@ -0,0 +1,112 @@
+import { ClockIcon } from "@heroicons/react/24/outline";
+import { useTargetNetwork } from "~~/hooks/scaffold-stark/useTargetNetwork";
+import { useTransactionHistory } from "~~/hooks/scaffold-stark/useTransactionHistory";
+import {
+  TransactionRecord,
+  TransactionRecordStatus,
+} from "~~/services/store/store";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-stark";
+
+// Number of transactions listed in the dropdown
+const VISIBLE_TRANSACTIONS = 5;
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  fund_to_contract: "Donate",
+  withdraw_funds: "Withdraw",
+  set_active: "Toggle funding",
+  reset_fund: "Reset campaign",
+  claim_refund: "Claim refund",
+  set_milestones: "Set milestones",
+  approve_milestone: "Approve milestone",
+  release_milestone: "Release milestone",
+  set_reward_tiers: "Set reward tiers",
+  set_funding_policy: "Set funding policy",
+  set_stretch_goals: "Set stretch goals",
+};
+
+const STATUS_BADGES: Record<TransactionRecordStatus, string> = {
+  submitted: "badge-ghost",
+  pending: "badge-warning",
+  accepted: "badge-success",
+  reverted: "badge-error",
+  rejected: "badge-error",
+};
+
+/**
+ * Labels a transaction by its most meaningful call, e.g. "approve, fund_to_contract" is a donation.
+ */
+export const getTransactionLabel = ({ description }: TransactionRecord) => {
+  const functionNames = description?.split(", ") ?? [];
+  const known = functionNames.find((name) => TRANSACTION_LABELS[name]);
+  if (known) return TRANSACTION_LABELS[known];
+  return description || "Transaction";
+};
+
+type RecentTransactionsProps = {
+  hidden?: boolean;
+};
+
+export const RecentTransactions = ({
+  hidden = false,
+}: RecentTransactionsProps) => {
+  const { transactions, clearTransactions } = useTransactionHistory();
+  const { targetNetwork } = useTargetNetwork();
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <li className={hidden ? "hidden" : ""}>
+      <div className="flex flex-col items-stretch gap-1 py-2 cursor-default hover:bg-transparent">
+        <div className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-3 text-sm font-semibold">
+            <ClockIcon className="h-6 w-4 ml-2 sm:ml-0" />
+            Recent transactions
+          </span>
+          <button
+            type="button"
+            className="link text-xs"
+            onClick={clearTransactions}
+          >
+            Clear
+          </button>
+        </div>
+        {transactions.slice(0, VISIBLE_TRANSACTIONS).map((transaction) => {
+          const explorerLink = getBlockExplorerTxLink(
+            targetNetwork.network,
+            transaction.hash,
+          );
+          return (
+            <div
+              key={transaction.hash}
+              className="flex items-center justify-between gap-4 text-xs"
+              title={transaction.revertReason}
+            >
+              <div className="flex flex-col">
+                <span>{getTransactionLabel(transaction)}</span>
+                {explorerLink ? (
+                  <a
+                    href={explorerLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="link opacity-70"
+                  >
+                    {`${transaction.hash.slice(0, 6)}...${transaction.hash.slice(-4)}`}
+                  </a>
+                ) : (
+                  <span className="opacity-70">
+                    {`${transaction.hash.slice(0, 6)}...${transaction.hash.slice(-4)}`}
+                  </span>
+                )}
+              </div>
+              <span
+                className={`badge badge-sm ${STATUS_BADGES[transaction.status]}`}
+              >
+                {transaction.status}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </li>
+  );
+};
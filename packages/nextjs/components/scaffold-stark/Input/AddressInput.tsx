@@ -23,22 +23,12 @@ export const AddressInput = ({
     (newValue: Address) => {
       const sanitizedValue = newValue.toLowerCase();
 
-      if (sanitizedValue === "0x") {
-        onChange("0x0" as Address);
-        return;
-      }
-
-      const isValid =
-        /^(0x)([a-fA-F0-9]{40})$/.test(sanitizedValue) &&
-        !/0x.*0x/.test(sanitizedValue);
+      // Starknet addresses are felts of up to 64 hex characters, partial values are let through so the field can be typed in
+      const isValid = /^(0|0x[a-f0-9]{0,64})?$/.test(sanitizedValue);
       if (!isValid) {
         return;
       }
 
-      if (sanitizedValue.length !== 42) {
-        return;
-      }
-
       onChange(newValue);
     },
     [onChange],
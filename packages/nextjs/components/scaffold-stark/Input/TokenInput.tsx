@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowsRightLeftIcon } from "@heroicons/react/24/outline";
+import {
+  CommonInputProps,
+  InputBase,
+  UNSIGNED_NUMBER_REGEX,
+} from "~~/components/scaffold-stark";
+import {
+  formatTokenAmount,
+  isValidTokenAmount,
+  parseTokenAmount,
+  tokenAmountToUsd,
+  usdToTokenAmount,
+} from "./amount";
+
+const MAX_DECIMALS_USD = 2;
+
+function tokenValueToDisplayValue(
+  usdMode: boolean,
+  tokenValue: string,
+  decimals: number,
+  price: number,
+) {
+  if (usdMode && price > 0 && isValidTokenAmount(tokenValue, decimals)) {
+    return tokenAmountToUsd(
+      parseTokenAmount(tokenValue, decimals),
+      decimals,
+      price,
+      MAX_DECIMALS_USD,
+    );
+  }
+  return tokenValue;
+}
+
+function displayValueToTokenValue(
+  usdMode: boolean,
+  displayValue: string,
+  decimals: number,
+  price: number,
+) {
+  if (usdMode && price > 0 && isValidTokenAmount(displayValue, decimals)) {
+    return formatTokenAmount(
+      usdToTokenAmount(displayValue, decimals, price),
+      decimals,
+    );
+  }
+  return displayValue;
+}
+
+/**
+ * Input for an ERC20 amount with optional USD conversion.
+ * Conversions are done in fixed point so fractional amounts stay exact.
+ *
+ * onChange will always be called with the decimal value in token units
+ */
+export const TokenInput = ({
+  value,
+  name,
+  placeholder,
+  onChange,
+  disabled,
+  decimals,
+  symbol,
+  price = 0,
+  usdMode,
+}: CommonInputProps & {
+  decimals: number;
+  symbol: string;
+  price?: number;
+  usdMode?: boolean;
+}) => {
+  // What was last typed and the token value it gave, shown as typed while the value matches
+  // so USD input is not rounded back through the token amount on every keystroke
+  const [typedValue, setTypedValue] = useState<{
+    displayValue: string;
+    tokenValue: string;
+    usdMode: boolean;
+  }>();
+  const [internalUsdMode, setInternalUSDMode] = useState(
+    price > 0 ? Boolean(usdMode) : false,
+  );
+
+  useEffect(() => {
+    setInternalUSDMode(price > 0 ? Boolean(usdMode) : false);
+  }, [usdMode, price]);
+
+  const displayValue = useMemo(() => {
+    if (
+      typedValue &&
+      typedValue.usdMode === internalUsdMode &&
+      typedValue.tokenValue === value
+    ) {
+      return typedValue.displayValue;
+    }
+    return tokenValueToDisplayValue(internalUsdMode, value, decimals, price);
+  }, [price, decimals, typedValue, internalUsdMode, value]);
+
+  const handleChangeNumber = (newValue: string) => {
+    if (newValue && !UNSIGNED_NUMBER_REGEX.test(newValue)) {
+      return;
+    }
+
+    const fractionalDigits = newValue.split(".")[1];
+    const maxFractionDigits = internalUsdMode ? MAX_DECIMALS_USD : decimals;
+    if (fractionalDigits && fractionalDigits.length > maxFractionDigits) {
+      return;
+    }
+
+    const tokenValue = displayValueToTokenValue(
+      internalUsdMode,
+      newValue,
+      decimals,
+      price,
+    );
+    setTypedValue({
+      displayValue: newValue,
+      tokenValue,
+      usdMode: internalUsdMode,
+    });
+    onChange(tokenValue);
+  };
+
+  const toggleMode = () => {
+    if (price > 0) {
+      setInternalUSDMode(!internalUsdMode);
+    }
+  };
+
+  return (
+    <InputBase
+      name={name}
+      value={displayValue}
+      placeholder={placeholder}
+      onChange={handleChangeNumber}
+      disabled={disabled}
+      prefix={
+        <span className="pl-4 mr-2 text-accent self-center">
+          {internalUsdMode ? "$" : symbol}
+        </span>
+      }
+      suffix={
+        <div
+          className={`${
+            price > 0
+              ? ""
+              : "tooltip tooltip-secondary before:content-[attr(data-tip)] before:right-[-10px] before:left-auto before:transform-none"
+          }`}
+          data-tip="Unable to fetch price"
+        >
+          <button
+            type="button"
+            className="btn btn-primary h-[2rem] min-h-[2rem] mt-[.1rem]"
+            onClick={toggleMode}
+            disabled={!internalUsdMode && !price}
+          >
+            <ArrowsRightLeftIcon
+              className="h-3 w-3 cursor-pointer"
+              aria-hidden="true"
+            />
+          </button>
+        </div>
+      }
+    />
+  );
+};
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { cleanup, fireEvent, render } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TokenInput } from "../TokenInput";
+
+const Harness = ({
+  price,
+  onChange,
+}: {
+  price: number;
+  onChange: (value: string) => void;
+}) => {
+  const [value, setValue] = useState("");
+  return (
+    <TokenInput
+      name="amount"
+      value={value}
+      onChange={(newValue) => {
+        setValue(newValue);
+        onChange(newValue);
+      }}
+      decimals={18}
+      symbol="STRK"
+      price={price}
+      usdMode
+    />
+  );
+};
+
+const typeUsd = (price: number, usdValue: string) => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<Harness price={price} onChange={onChange} />);
+  const input = getByRole("textbox") as HTMLInputElement;
+  fireEvent.change(input, { target: { value: usdValue } });
+  return { input, onChange };
+};
+
+describe("TokenInput", () => {
+  afterEach(cleanup);
+
+  it("should keep the USD value as typed instead of rounding it back", () => {
+    const { input, onChange } = typeUsd(3, "1");
+
+    expect(input.value).toBe("1");
+    expect(onChange).toHaveBeenLastCalledWith("0.333333333333333333");
+  });
+
+  it("should not floor whole USD amounts below what was typed", () => {
+    const { input, onChange } = typeUsd(0.7, "10");
+
+    expect(input.value).toBe("10");
+    expect(onChange).toHaveBeenLastCalledWith("14.285714285714285714");
+  });
+});
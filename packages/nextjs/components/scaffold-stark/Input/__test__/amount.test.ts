@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatTokenAmount,
+  isValidTokenAmount,
+  parseTokenAmount,
+  tokenAmountToUsd,
+  usdToTokenAmount,
+} from "../amount";
+
+describe("Token amount utilities", () => {
+  describe("parseTokenAmount", () => {
+    it("should parse whole and fractional amounts exactly", () => {
+      expect(parseTokenAmount("1", 18)).toBe(10n ** 18n);
+      expect(parseTokenAmount("0.5", 18)).toBe(5n * 10n ** 17n);
+      expect(parseTokenAmount(".25", 6)).toBe(250000n);
+      expect(parseTokenAmount("3.", 6)).toBe(3000000n);
+      expect(parseTokenAmount("0.000000000000000001", 18)).toBe(1n);
+    });
+
+    it("should not lose precision on large amounts", () => {
+      expect(parseTokenAmount("123456789012345678901234.123456789", 18)).toBe(
+        123456789012345678901234123456789000000000n,
+      );
+    });
+
+    it("should reject invalid input", () => {
+      expect(() => parseTokenAmount("", 18)).toThrow();
+      expect(() => parseTokenAmount(".", 18)).toThrow();
+      expect(() => parseTokenAmount("-1", 18)).toThrow();
+      expect(() => parseTokenAmount("1e18", 18)).toThrow();
+      expect(() => parseTokenAmount("1.2.3", 18)).toThrow();
+    });
+
+    it("should reject more fractional digits than the token supports", () => {
+      expect(() => parseTokenAmount("0.1234567", 6)).toThrow(
+        "Amount supports at most 6 decimal places",
+      );
+    });
+  });
+
+  describe("isValidTokenAmount", () => {
+    it("should validate against the token decimals", () => {
+      expect(isValidTokenAmount("0.5", 18)).toBe(true);
+      expect(isValidTokenAmount("0.5", 0)).toBe(false);
+      expect(isValidTokenAmount("abc", 18)).toBe(false);
+    });
+  });
+
+  describe("formatTokenAmount", () => {
+    it("should format raw amounts and trim trailing zeros", () => {
+      expect(formatTokenAmount(15n * 10n ** 17n, 18)).toBe("1.5");
+      expect(formatTokenAmount("1000000", 6)).toBe("1");
+      expect(formatTokenAmount(1n, 18)).toBe("0.000000000000000001");
+    });
+
+    it("should return 0 for missing amounts", () => {
+      expect(formatTokenAmount(undefined, 18)).toBe("0");
+      expect(formatTokenAmount("", 18)).toBe("0");
+    });
+
+    it("should truncate to the requested fraction digits", () => {
+      expect(formatTokenAmount(1234567n, 6, 2)).toBe("1.23");
+      expect(formatTokenAmount(1000001n, 6, 2)).toBe("1");
+    });
+
+    it("should round trip with parseTokenAmount", () => {
+      const value = "42.000000123";
+      expect(formatTokenAmount(parseTokenAmount(value, 18), 18)).toBe(value);
+    });
+  });
+
+  describe("USD conversion", () => {
+    it("should convert token amounts to USD", () => {
+      expect(tokenAmountToUsd(parseTokenAmount("0.5", 18), 18, 2.5)).toBe(
+        "1.25",
+      );
+      expect(tokenAmountToUsd(parseTokenAmount("3", 6), 6, 0.1)).toBe("0.3");
+    });
+
+    it("should convert USD to token amounts", () => {
+      expect(usdToTokenAmount("1.25", 18, 2.5)).toBe(5n * 10n ** 17n);
+    });
+
+    it("should throw when the price is unavailable", () => {
+      expect(() => usdToTokenAmount("1", 18, 0)).toThrow("Price unavailable");
+    });
+
+    it("should convert with prices too large for fixed notation", () => {
+      expect(tokenAmountToUsd(parseTokenAmount("1", 18), 18, 1e21)).toBe(
+        "1000000000000000000000",
+      );
+      expect(usdToTokenAmount("2000000000000000000000", 18, 1e21)).toBe(
+        2n * 10n ** 18n,
+      );
+    });
+
+    it("should reject prices that are not finite", () => {
+      expect(() => tokenAmountToUsd(1n, 18, Infinity)).toThrow("Invalid price");
+      expect(() => tokenAmountToUsd(1n, 18, NaN)).toThrow("Invalid price");
+    });
+  });
+});
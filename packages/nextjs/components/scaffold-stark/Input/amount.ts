@@ -0,0 +1,117 @@
+import { UNSIGNED_NUMBER_REGEX } from "./utils";
+
+// Decimals used to turn float prices into fixed point values for exact conversions
+export const PRICE_DECIMALS = 8;
+
+/**
+ * Parses a human readable decimal amount into its smallest unit without going through floats.
+ * @param value - decimal string, e.g. "0.5"
+ * @param decimals - token decimals as returned by the ERC20 `decimals()` entrypoint
+ * @returns the amount in the token's smallest unit
+ * @throws if the value is not an unsigned decimal or has more fractional digits than `decimals`
+ */
+export const parseTokenAmount = (value: string, decimals: number): bigint => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === "." || !UNSIGNED_NUMBER_REGEX.test(trimmed)) {
+    throw new Error("Please enter a valid number");
+  }
+
+  const [integerPart, fractionalPart = ""] = trimmed.split(".");
+  if (fractionalPart.length > decimals) {
+    throw new Error(`Amount supports at most ${decimals} decimal places`);
+  }
+
+  return (
+    BigInt(integerPart || "0") * 10n ** BigInt(decimals) +
+    BigInt(fractionalPart.padEnd(decimals, "0") || "0")
+  );
+};
+
+/**
+ * Checks whether a decimal string can be parsed with the given token decimals.
+ */
+export const isValidTokenAmount = (value: string, decimals: number) => {
+  try {
+    parseTokenAmount(value, decimals);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Formats an amount in the token's smallest unit as a decimal string, trimming trailing zeros.
+ * @param amount - raw amount, as returned by contract reads
+ * @param decimals - token decimals
+ * @param maxFractionDigits - optionally truncate the fractional part to this many digits
+ */
+export const formatTokenAmount = (
+  amount: bigint | string | undefined,
+  decimals: number,
+  maxFractionDigits?: number,
+): string => {
+  if (amount === undefined || amount === "") return "0";
+  const value = BigInt(amount);
+  const isNegative = value < 0n;
+  const absolute = isNegative ? -value : value;
+  const divisor = 10n ** BigInt(decimals);
+
+  const integerPart = absolute / divisor;
+  const fractionalStr = (absolute % divisor)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, maxFractionDigits ?? decimals)
+    .replace(/0+$/, "");
+
+  const formatted =
+    fractionalStr.length > 0
+      ? `${integerPart}.${fractionalStr}`
+      : integerPart.toString();
+  return isNegative ? `-${formatted}` : formatted;
+};
+
+// Fixes a float price to PRICE_DECIMALS places as a bigint
+const scalePrice = (price: number): bigint => {
+  if (!Number.isFinite(price) || price < 0) {
+    throw new Error("Invalid price");
+  }
+  // toFixed switches to exponent notation from 1e21, where a double has no fractional digits left
+  if (price >= 1e21) {
+    return BigInt(price) * 10n ** BigInt(PRICE_DECIMALS);
+  }
+  return parseTokenAmount(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS);
+};
+
+/**
+ * Converts a raw token amount into a USD decimal string using a float price.
+ * The price is fixed to {@link PRICE_DECIMALS} places so the rest of the math stays in bigint.
+ */
+export const tokenAmountToUsd = (
+  amount: bigint,
+  decimals: number,
+  price: number,
+  usdDecimals: number = 2,
+): string => {
+  const scaledPrice = scalePrice(price);
+  const usdValue =
+    (amount * scaledPrice * 10n ** BigInt(usdDecimals)) /
+    10n ** BigInt(decimals + PRICE_DECIMALS);
+  return formatTokenAmount(usdValue, usdDecimals);
+};
+
+/**
+ * Converts a USD decimal string into a raw token amount using a float price.
+ * @throws if the USD value cannot be parsed or the price is not positive
+ */
+export const usdToTokenAmount = (
+  usdValue: string,
+  decimals: number,
+  price: number,
+): bigint => {
+  if (!(price > 0)) {
+    throw new Error("Price unavailable");
+  }
+  const scaledPrice = scalePrice(price);
+  const scaledUsd = parseTokenAmount(usdValue, PRICE_DECIMALS);
+  return (scaledUsd * 10n ** BigInt(decimals)) / scaledPrice;
+};
@@ -1,7 +1,9 @@
 "use client";
 
 export * from "./utils";
+export * from "./amount";
 export * from "./IntegerInput";
 export * from "./InputBase";
 export * from "./EtherInput";
+export * from "./TokenInput";
 export * from "./AddressInput";
@@ -3,3 +3,4 @@ export * from "./Balance";
 export * from "./Input";
 export * from "./BlockieAvatar";
 export * from "./Faucet";
+export * from "./CampaignProgress";
@@ -60,6 +60,120 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::Milestone",
+          members: [
+            {
+              name: "amount",
+              type: "core::integer::u256",
+            },
+            {
+              name: "description",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "approved",
+              type: "core::bool",
+            },
+            {
+              name: "released",
+              type: "core::bool",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::RewardTier",
+          members: [
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "min_amount",
+              type: "core::integer::u256",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::BackerBadge",
+          members: [
+            {
+              name: "round",
+              type: "core::integer::u32",
+            },
+            {
+              name: "tier",
+              type: "core::integer::u32",
+            },
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+            },
+          ],
+        },
+        {
+          type: "enum",
+          name: "contracts::crowdfunding::FundingPolicy",
+          variants: [
+            {
+              name: "AllOrNothing",
+              type: "()",
+            },
+            {
+              name: "KeepWhatYouRaise",
+              type: "()",
+            },
+            {
+              name: "HardCap",
+              type: "()",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::StretchGoal",
+          members: [
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+            },
+          ],
+        },
+        {
+          type: "enum",
+          name: "contracts::crowdfunding::TargetUnit",
+          variants: [
+            {
+              name: "Token",
+              type: "()",
+            },
+            {
+              name: "Usd",
+              type: "()",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::TokenRaised",
+          members: [
+            {
+              name: "token",
+              type: "core::starknet::contract_address::ContractAddress",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+            },
+          ],
+        },
         {
           type: "interface",
           name: "contracts::crowdfunding::IFund",
@@ -88,11 +202,22 @@ const deployedContracts = {
             },
             {
               type: "function",
-              name: "get_fund_description",
+              name: "get_fund_title",
               inputs: [],
               outputs: [
                 {
-                  type: "core::felt252",
+                  type: "core::byte_array::ByteArray",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_fund_description_uri",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::byte_array::ByteArray",
                 },
               ],
               state_mutability: "view",
@@ -130,6 +255,17 @@ const deployedContracts = {
               ],
               state_mutability: "view",
             },
+            {
+              type: "function",
+              name: "get_grantee_address",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              state_mutability: "view",
+            },
             {
               type: "function",
               name: "fund_to_contract",
@@ -144,38 +280,27 @@ const deployedContracts = {
             },
             {
               type: "function",
-              name: "withdraw_funds",
-              inputs: [],
-              outputs: [],
-              state_mutability: "external",
-            },
-            {
-              type: "function",
-              name: "reset_fund",
+              name: "fund_with_token",
               inputs: [
                 {
                   name: "token",
                   type: "core::starknet::contract_address::ContractAddress",
                 },
                 {
-                  name: "grantee_address",
-                  type: "core::starknet::contract_address::ContractAddress",
-                },
-                {
-                  name: "fund_target",
+                  name: "amount",
                   type: "core::integer::u256",
                 },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "set_accepted_tokens",
+              inputs: [
                 {
-                  name: "fund_description",
-                  type: "core::felt252",
-                },
-                {
-                  name: "deadline",
-                  type: "core::felt252",
-                },
-                {
-                  name: "initial_owner",
-                  type: "core::starknet::contract_address::ContractAddress",
+                  name: "tokens",
+                  type: "core::array::Array::<core::starknet::contract_address::ContractAddress>",
                 },
               ],
               outputs: [],
@@ -183,67 +308,68 @@ const deployedContracts = {
             },
             {
               type: "function",
-              name: "get_owner",
+              name: "get_accepted_tokens",
               inputs: [],
               outputs: [
                 {
-                  type: "core::starknet::contract_address::ContractAddress",
+                  type: "core::array::Array::<core::starknet::contract_address::ContractAddress>",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_active",
+              name: "get_raised_by_token",
               inputs: [],
               outputs: [
                 {
-                  type: "core::bool",
+                  type: "core::array::Array::<contracts::crowdfunding::TokenRaised>",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "set_active",
+              name: "get_token_contribution",
               inputs: [
                 {
-                  name: "new_active",
-                  type: "core::bool",
+                  name: "token",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+                {
+                  name: "contributor",
+                  type: "core::starknet::contract_address::ContractAddress",
                 },
               ],
-              outputs: [],
-              state_mutability: "external",
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
             },
-          ],
-        },
-        {
-          type: "impl",
-          name: "OwnableMixinImpl",
-          interface_name: "openzeppelin_access::ownable::interface::OwnableABI",
-        },
-        {
-          type: "interface",
-          name: "openzeppelin_access::ownable::interface::OwnableABI",
-          items: [
             {
               type: "function",
-              name: "owner",
+              name: "get_target_unit",
               inputs: [],
               outputs: [
                 {
-                  type: "core::starknet::contract_address::ContractAddress",
+                  type: "contracts::crowdfunding::TargetUnit",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "transfer_ownership",
+              name: "set_target_unit",
               inputs: [
                 {
-                  name: "new_owner",
-                  type: "core::starknet::contract_address::ContractAddress",
+                  name: "unit",
+                  type: "contracts::crowdfunding::TargetUnit",
+                },
+                {
+                  name: "fund_target",
+                  type: "core::integer::u256",
                 },
               ],
               outputs: [],
@@ -251,18 +377,22 @@ const deployedContracts = {
             },
             {
               type: "function",
-              name: "renounce_ownership",
+              name: "withdraw_funds",
               inputs: [],
               outputs: [],
               state_mutability: "external",
             },
             {
               type: "function",
-              name: "transferOwnership",
+              name: "set_milestones",
               inputs: [
                 {
-                  name: "newOwner",
-                  type: "core::starknet::contract_address::ContractAddress",
+                  name: "amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+                {
+                  name: "descriptions",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
                 },
               ],
               outputs: [],
@@ -270,392 +400,1441 @@ const deployedContracts = {
             },
             {
               type: "function",
-              name: "renounceOwnership",
+              name: "get_milestone_count",
               inputs: [],
-              outputs: [],
-              state_mutability: "external",
+              outputs: [
+                {
+                  type: "core::integer::u32",
+                },
+              ],
+              state_mutability: "view",
             },
-          ],
-        },
-        {
-          type: "constructor",
-          name: "constructor",
-          inputs: [
             {
-              name: "token",
-              type: "core::starknet::contract_address::ContractAddress",
+              type: "function",
+              name: "get_milestones",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::Milestone>",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "grantee_address",
-              type: "core::starknet::contract_address::ContractAddress",
+              type: "function",
+              name: "approve_milestone",
+              inputs: [
+                {
+                  name: "index",
+                  type: "core::integer::u32",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "fund_target",
-              type: "core::integer::u256",
+              type: "function",
+              name: "release_milestone",
+              inputs: [
+                {
+                  name: "index",
+                  type: "core::integer::u32",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "fund_description",
-              type: "core::felt252",
+              type: "function",
+              name: "set_reward_tiers",
+              inputs: [
+                {
+                  name: "names",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
+                },
+                {
+                  name: "min_amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "deadline",
-              type: "core::felt252",
+              type: "function",
+              name: "get_reward_tiers",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::RewardTier>",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "initial_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-            },
-          ],
-        },
-        {
-          type: "event",
-          name: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferred",
+              type: "function",
+              name: "get_backer_badges",
+              inputs: [
+                {
+                  name: "backer",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::BackerBadge>",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_funding_policy",
+              inputs: [],
+              outputs: [
+                {
+                  type: "contracts::crowdfunding::FundingPolicy",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "set_funding_policy",
+              inputs: [
+                {
+                  name: "policy",
+                  type: "contracts::crowdfunding::FundingPolicy",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "set_stretch_goals",
+              inputs: [
+                {
+                  name: "names",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
+                },
+                {
+                  name: "amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "get_stretch_goals",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::StretchGoal>",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_contribution",
+              inputs: [
+                {
+                  name: "contributor",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_total_raised",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "is_refundable",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::bool",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "claim_refund",
+              inputs: [],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "reset_fund",
+              inputs: [
+                {
+                  name: "token",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+                {
+                  name: "grantee_address",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+                {
+                  name: "fund_target",
+                  type: "core::integer::u256",
+                },
+                {
+                  name: "fund_title",
+                  type: "core::byte_array::ByteArray",
+                },
+                {
+                  name: "fund_description_uri",
+                  type: "core::byte_array::ByteArray",
+                },
+                {
+                  name: "deadline",
+                  type: "core::felt252",
+                },
+                {
+                  name: "initial_owner",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "get_owner",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_active",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::bool",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "set_active",
+              inputs: [
+                {
+                  name: "new_active",
+                  type: "core::bool",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "get_metadata_hash",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "set_metadata_hash",
+              inputs: [
+                {
+                  name: "metadata_hash",
+                  type: "core::integer::u256",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+          ],
+        },
+        {
+          type: "impl",
+          name: "UpgradeableImpl",
+          interface_name: "contracts::crowdfunding::IUpgradeable",
+        },
+        {
+          type: "interface",
+          name: "contracts::crowdfunding::IUpgradeable",
+          items: [
+            {
+              type: "function",
+              name: "upgrade",
+              inputs: [
+                {
+                  name: "new_class_hash",
+                  type: "core::starknet::class_hash::ClassHash",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+          ],
+        },
+        {
+          type: "impl",
+          name: "OwnableMixinImpl",
+          interface_name: "openzeppelin_access::ownable::interface::OwnableABI",
+        },
+        {
+          type: "interface",
+          name: "openzeppelin_access::ownable::interface::OwnableABI",
+          items: [
+            {
+              type: "function",
+              name: "owner",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "transfer_ownership",
+              inputs: [
+                {
+                  name: "new_owner",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "renounce_ownership",
+              inputs: [],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "transferOwnership",
+              inputs: [
+                {
+                  name: "newOwner",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "renounceOwnership",
+              inputs: [],
+              outputs: [],
+              state_mutability: "external",
+            },
+          ],
+        },
+        {
+          type: "constructor",
+          name: "constructor",
+          inputs: [
+            {
+              name: "token",
+              type: "core::starknet::contract_address::ContractAddress",
+            },
+            {
+              name: "grantee_address",
+              type: "core::starknet::contract_address::ContractAddress",
+            },
+            {
+              name: "fund_target",
+              type: "core::integer::u256",
+            },
+            {
+              name: "fund_title",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "fund_description_uri",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "deadline",
+              type: "core::felt252",
+            },
+            {
+              name: "initial_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferred",
+          kind: "struct",
+          members: [
+            {
+              name: "previous_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "new_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferStarted",
+          kind: "struct",
+          members: [
+            {
+              name: "previous_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "new_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "openzeppelin_access::ownable::ownable::OwnableComponent::Event",
+          kind: "enum",
+          variants: [
+            {
+              name: "OwnershipTransferred",
+              type: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferred",
+              kind: "nested",
+            },
+            {
+              name: "OwnershipTransferStarted",
+              type: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferStarted",
+              kind: "nested",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::SelfDestructed",
+          kind: "struct",
+          members: [
+            {
+              name: "recipient",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Transfer",
+          kind: "struct",
+          members: [
+            {
+              name: "from",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "to",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+            {
+              name: "token",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::TransferFailed",
+          kind: "struct",
+          members: [
+            {
+              name: "from",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "to",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+            {
+              name: "error_message",
+              type: "core::felt252",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::ResetFund",
+          kind: "struct",
+          members: [
+            {
+              name: "token",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "grantee_address",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "fund_target",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+            {
+              name: "fund_title",
+              type: "core::byte_array::ByteArray",
+              kind: "data",
+            },
+            {
+              name: "fund_description_uri",
+              type: "core::byte_array::ByteArray",
+              kind: "data",
+            },
+            {
+              name: "deadline",
+              type: "core::felt252",
+              kind: "data",
+            },
+            {
+              name: "initial_owner",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::ActiveChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "active",
+              type: "core::bool",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Refunded",
+          kind: "struct",
+          members: [
+            {
+              name: "contributor",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MetadataChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "metadata_hash",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestonesSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "total",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestoneApproved",
+          kind: "struct",
+          members: [
+            {
+              name: "index",
+              type: "core::integer::u32",
+              kind: "key",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestoneReleased",
+          kind: "struct",
+          members: [
+            {
+              name: "index",
+              type: "core::integer::u32",
+              kind: "key",
+            },
+            {
+              name: "grantee_address",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::RewardTiersSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::BadgeEarned",
+          kind: "struct",
+          members: [
+            {
+              name: "backer",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "round",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "tier",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::FundingPolicyChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "policy",
+              type: "contracts::crowdfunding::FundingPolicy",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::StretchGoalsSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::AcceptedTokensSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::TargetUnitChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "unit",
+              type: "contracts::crowdfunding::TargetUnit",
+              kind: "data",
+            },
+            {
+              name: "fund_target",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Upgraded",
           kind: "struct",
           members: [
             {
-              name: "previous_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "key",
+              name: "class_hash",
+              type: "core::starknet::class_hash::ClassHash",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Event",
+          kind: "enum",
+          variants: [
+            {
+              name: "OwnableEvent",
+              type: "openzeppelin_access::ownable::ownable::OwnableComponent::Event",
+              kind: "flat",
+            },
+            {
+              name: "SelfDestructed",
+              type: "contracts::crowdfunding::crowdfunding::SelfDestructed",
+              kind: "nested",
+            },
+            {
+              name: "Transfer",
+              type: "contracts::crowdfunding::crowdfunding::Transfer",
+              kind: "nested",
+            },
+            {
+              name: "TransferFailed",
+              type: "contracts::crowdfunding::crowdfunding::TransferFailed",
+              kind: "nested",
+            },
+            {
+              name: "ResetFund",
+              type: "contracts::crowdfunding::crowdfunding::ResetFund",
+              kind: "nested",
+            },
+            {
+              name: "ActiveChanged",
+              type: "contracts::crowdfunding::crowdfunding::ActiveChanged",
+              kind: "nested",
+            },
+            {
+              name: "Refunded",
+              type: "contracts::crowdfunding::crowdfunding::Refunded",
+              kind: "nested",
+            },
+            {
+              name: "MetadataChanged",
+              type: "contracts::crowdfunding::crowdfunding::MetadataChanged",
+              kind: "nested",
+            },
+            {
+              name: "MilestonesSet",
+              type: "contracts::crowdfunding::crowdfunding::MilestonesSet",
+              kind: "nested",
+            },
+            {
+              name: "MilestoneApproved",
+              type: "contracts::crowdfunding::crowdfunding::MilestoneApproved",
+              kind: "nested",
+            },
+            {
+              name: "MilestoneReleased",
+              type: "contracts::crowdfunding::crowdfunding::MilestoneReleased",
+              kind: "nested",
+            },
+            {
+              name: "RewardTiersSet",
+              type: "contracts::crowdfunding::crowdfunding::RewardTiersSet",
+              kind: "nested",
+            },
+            {
+              name: "BadgeEarned",
+              type: "contracts::crowdfunding::crowdfunding::BadgeEarned",
+              kind: "nested",
+            },
+            {
+              name: "FundingPolicyChanged",
+              type: "contracts::crowdfunding::crowdfunding::FundingPolicyChanged",
+              kind: "nested",
+            },
+            {
+              name: "StretchGoalsSet",
+              type: "contracts::crowdfunding::crowdfunding::StretchGoalsSet",
+              kind: "nested",
+            },
+            {
+              name: "AcceptedTokensSet",
+              type: "contracts::crowdfunding::crowdfunding::AcceptedTokensSet",
+              kind: "nested",
+            },
+            {
+              name: "TargetUnitChanged",
+              type: "contracts::crowdfunding::crowdfunding::TargetUnitChanged",
+              kind: "nested",
+            },
+            {
+              name: "Upgraded",
+              type: "contracts::crowdfunding::crowdfunding::Upgraded",
+              kind: "nested",
+            },
+          ],
+        },
+      ],
+      classHash:
+        "0x640d3ce6692e83af96eace4533f5beeab9b548f99903de21b935a7f91d8f40b",
+    },
+  },
+  sepolia: {
+    crowdfunding: {
+      address:
+        "0x75b54c5569d1780b70a5631a034eadd7f24cfeec1013956b71a41e91edd2b9",
+      abi: [
+        {
+          type: "impl",
+          name: "CrowdFundingImpl",
+          interface_name: "contracts::crowdfunding::IFund",
+        },
+        {
+          type: "struct",
+          name: "core::integer::u256",
+          members: [
+            {
+              name: "low",
+              type: "core::integer::u128",
             },
             {
-              name: "new_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "key",
+              name: "high",
+              type: "core::integer::u128",
             },
           ],
         },
         {
-          type: "event",
-          name: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferStarted",
-          kind: "struct",
+          type: "struct",
+          name: "core::byte_array::ByteArray",
           members: [
             {
-              name: "previous_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "key",
+              name: "data",
+              type: "core::array::Array::<core::bytes_31::bytes31>",
             },
             {
-              name: "new_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "key",
+              name: "pending_word",
+              type: "core::felt252",
+            },
+            {
+              name: "pending_word_len",
+              type: "core::integer::u32",
             },
           ],
         },
         {
-          type: "event",
-          name: "openzeppelin_access::ownable::ownable::OwnableComponent::Event",
-          kind: "enum",
+          type: "enum",
+          name: "core::bool",
           variants: [
             {
-              name: "OwnershipTransferred",
-              type: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferred",
-              kind: "nested",
+              name: "False",
+              type: "()",
             },
             {
-              name: "OwnershipTransferStarted",
-              type: "openzeppelin_access::ownable::ownable::OwnableComponent::OwnershipTransferStarted",
-              kind: "nested",
+              name: "True",
+              type: "()",
             },
           ],
         },
         {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::SelfDestructed",
-          kind: "struct",
+          type: "struct",
+          name: "contracts::crowdfunding::Milestone",
           members: [
             {
-              name: "recipient",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "amount",
+              type: "core::integer::u256",
             },
             {
-              name: "amount",
+              name: "description",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "approved",
+              type: "core::bool",
+            },
+            {
+              name: "released",
+              type: "core::bool",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::RewardTier",
+          members: [
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "min_amount",
               type: "core::integer::u256",
-              kind: "data",
             },
           ],
         },
         {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::Transfer",
-          kind: "struct",
+          type: "struct",
+          name: "contracts::crowdfunding::BackerBadge",
           members: [
             {
-              name: "from",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "round",
+              type: "core::integer::u32",
             },
             {
-              name: "to",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "tier",
+              type: "core::integer::u32",
             },
             {
-              name: "amount",
-              type: "core::integer::u256",
-              kind: "data",
+              name: "name",
+              type: "core::byte_array::ByteArray",
             },
           ],
         },
         {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::TransferFailed",
-          kind: "struct",
-          members: [
+          type: "enum",
+          name: "contracts::crowdfunding::FundingPolicy",
+          variants: [
             {
-              name: "from",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "AllOrNothing",
+              type: "()",
             },
             {
-              name: "to",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "KeepWhatYouRaise",
+              type: "()",
+            },
+            {
+              name: "HardCap",
+              type: "()",
+            },
+          ],
+        },
+        {
+          type: "struct",
+          name: "contracts::crowdfunding::StretchGoal",
+          members: [
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
             },
             {
               name: "amount",
               type: "core::integer::u256",
-              kind: "data",
             },
+          ],
+        },
+        {
+          type: "enum",
+          name: "contracts::crowdfunding::TargetUnit",
+          variants: [
             {
-              name: "error_message",
-              type: "core::felt252",
-              kind: "data",
+              name: "Token",
+              type: "()",
+            },
+            {
+              name: "Usd",
+              type: "()",
             },
           ],
         },
         {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::ResetFund",
-          kind: "struct",
+          type: "struct",
+          name: "contracts::crowdfunding::TokenRaised",
           members: [
             {
               name: "token",
               type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
             },
             {
-              name: "grantee_address",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              name: "amount",
+              type: "core::integer::u256",
             },
+          ],
+        },
+        {
+          type: "interface",
+          name: "contracts::crowdfunding::IFund",
+          items: [
             {
-              name: "fund_target",
-              type: "core::integer::u256",
-              kind: "data",
+              type: "function",
+              name: "get_fund_balance",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "fund_description",
-              type: "core::felt252",
-              kind: "data",
+              type: "function",
+              name: "get_fund_target",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "deadline",
-              type: "core::felt252",
-              kind: "data",
+              type: "function",
+              name: "get_fund_title",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::byte_array::ByteArray",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "initial_owner",
-              type: "core::starknet::contract_address::ContractAddress",
-              kind: "data",
+              type: "function",
+              name: "get_fund_description_uri",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::byte_array::ByteArray",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_deadline",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::felt252",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_token_symbol",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::byte_array::ByteArray",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_token_address",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "get_grantee_address",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "fund_to_contract",
+              inputs: [
+                {
+                  name: "amount",
+                  type: "core::integer::u256",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-        {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::ActiveChanged",
-          kind: "struct",
-          members: [
             {
-              name: "active",
-              type: "core::bool",
-              kind: "data",
+              type: "function",
+              name: "fund_with_token",
+              inputs: [
+                {
+                  name: "token",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+                {
+                  name: "amount",
+                  type: "core::integer::u256",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-        {
-          type: "event",
-          name: "contracts::crowdfunding::crowdfunding::Event",
-          kind: "enum",
-          variants: [
             {
-              name: "OwnableEvent",
-              type: "openzeppelin_access::ownable::ownable::OwnableComponent::Event",
-              kind: "flat",
+              type: "function",
+              name: "set_accepted_tokens",
+              inputs: [
+                {
+                  name: "tokens",
+                  type: "core::array::Array::<core::starknet::contract_address::ContractAddress>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "SelfDestructed",
-              type: "contracts::crowdfunding::crowdfunding::SelfDestructed",
-              kind: "nested",
+              type: "function",
+              name: "get_accepted_tokens",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<core::starknet::contract_address::ContractAddress>",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "Transfer",
-              type: "contracts::crowdfunding::crowdfunding::Transfer",
-              kind: "nested",
+              type: "function",
+              name: "get_raised_by_token",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::TokenRaised>",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "TransferFailed",
-              type: "contracts::crowdfunding::crowdfunding::TransferFailed",
-              kind: "nested",
+              type: "function",
+              name: "get_token_contribution",
+              inputs: [
+                {
+                  name: "token",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+                {
+                  name: "contributor",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "ResetFund",
-              type: "contracts::crowdfunding::crowdfunding::ResetFund",
-              kind: "nested",
+              type: "function",
+              name: "get_target_unit",
+              inputs: [],
+              outputs: [
+                {
+                  type: "contracts::crowdfunding::TargetUnit",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "ActiveChanged",
-              type: "contracts::crowdfunding::crowdfunding::ActiveChanged",
-              kind: "nested",
+              type: "function",
+              name: "set_target_unit",
+              inputs: [
+                {
+                  name: "unit",
+                  type: "contracts::crowdfunding::TargetUnit",
+                },
+                {
+                  name: "fund_target",
+                  type: "core::integer::u256",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-      ],
-      classHash:
-        "0x640d3ce6692e83af96eace4533f5beeab9b548f99903de21b935a7f91d8f40b",
-    },
-  },
-  sepolia: {
-    crowdfunding: {
-      address:
-        "0x75b54c5569d1780b70a5631a034eadd7f24cfeec1013956b71a41e91edd2b9",
-      abi: [
-        {
-          type: "impl",
-          name: "CrowdFundingImpl",
-          interface_name: "contracts::crowdfunding::IFund",
-        },
-        {
-          type: "struct",
-          name: "core::integer::u256",
-          members: [
             {
-              name: "low",
-              type: "core::integer::u128",
+              type: "function",
+              name: "withdraw_funds",
+              inputs: [],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "high",
-              type: "core::integer::u128",
+              type: "function",
+              name: "set_milestones",
+              inputs: [
+                {
+                  name: "amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+                {
+                  name: "descriptions",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-        {
-          type: "struct",
-          name: "core::byte_array::ByteArray",
-          members: [
             {
-              name: "data",
-              type: "core::array::Array::<core::bytes_31::bytes31>",
+              type: "function",
+              name: "get_milestone_count",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u32",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "pending_word",
-              type: "core::felt252",
+              type: "function",
+              name: "get_milestones",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::array::Array::<contracts::crowdfunding::Milestone>",
+                },
+              ],
+              state_mutability: "view",
             },
             {
-              name: "pending_word_len",
-              type: "core::integer::u32",
+              type: "function",
+              name: "approve_milestone",
+              inputs: [
+                {
+                  name: "index",
+                  type: "core::integer::u32",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-        {
-          type: "enum",
-          name: "core::bool",
-          variants: [
             {
-              name: "False",
-              type: "()",
+              type: "function",
+              name: "release_milestone",
+              inputs: [
+                {
+                  name: "index",
+                  type: "core::integer::u32",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
             {
-              name: "True",
-              type: "()",
+              type: "function",
+              name: "set_reward_tiers",
+              inputs: [
+                {
+                  name: "names",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
+                },
+                {
+                  name: "min_amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
             },
-          ],
-        },
-        {
-          type: "interface",
-          name: "contracts::crowdfunding::IFund",
-          items: [
             {
               type: "function",
-              name: "get_fund_balance",
+              name: "get_reward_tiers",
               inputs: [],
               outputs: [
                 {
-                  type: "core::integer::u256",
+                  type: "core::array::Array::<contracts::crowdfunding::RewardTier>",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_fund_target",
-              inputs: [],
+              name: "get_backer_badges",
+              inputs: [
+                {
+                  name: "backer",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
               outputs: [
                 {
-                  type: "core::integer::u256",
+                  type: "core::array::Array::<contracts::crowdfunding::BackerBadge>",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_fund_description",
+              name: "get_funding_policy",
               inputs: [],
               outputs: [
                 {
-                  type: "core::felt252",
+                  type: "contracts::crowdfunding::FundingPolicy",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_deadline",
+              name: "set_funding_policy",
+              inputs: [
+                {
+                  name: "policy",
+                  type: "contracts::crowdfunding::FundingPolicy",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "set_stretch_goals",
+              inputs: [
+                {
+                  name: "names",
+                  type: "core::array::Array::<core::byte_array::ByteArray>",
+                },
+                {
+                  name: "amounts",
+                  type: "core::array::Array::<core::integer::u256>",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+            {
+              type: "function",
+              name: "get_stretch_goals",
               inputs: [],
               outputs: [
                 {
-                  type: "core::felt252",
+                  type: "core::array::Array::<contracts::crowdfunding::StretchGoal>",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_token_symbol",
-              inputs: [],
+              name: "get_contribution",
+              inputs: [
+                {
+                  name: "contributor",
+                  type: "core::starknet::contract_address::ContractAddress",
+                },
+              ],
               outputs: [
                 {
-                  type: "core::byte_array::ByteArray",
+                  type: "core::integer::u256",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "get_token_address",
+              name: "get_total_raised",
               inputs: [],
               outputs: [
                 {
-                  type: "core::starknet::contract_address::ContractAddress",
+                  type: "core::integer::u256",
                 },
               ],
               state_mutability: "view",
             },
             {
               type: "function",
-              name: "fund_to_contract",
-              inputs: [
+              name: "is_refundable",
+              inputs: [],
+              outputs: [
                 {
-                  name: "amount",
-                  type: "core::integer::u256",
+                  type: "core::bool",
                 },
               ],
-              outputs: [],
-              state_mutability: "external",
+              state_mutability: "view",
             },
             {
               type: "function",
-              name: "withdraw_funds",
+              name: "claim_refund",
               inputs: [],
               outputs: [],
               state_mutability: "external",
@@ -677,8 +1856,12 @@ const deployedContracts = {
                   type: "core::integer::u256",
                 },
                 {
-                  name: "fund_description",
-                  type: "core::felt252",
+                  name: "fund_title",
+                  type: "core::byte_array::ByteArray",
+                },
+                {
+                  name: "fund_description_uri",
+                  type: "core::byte_array::ByteArray",
                 },
                 {
                   name: "deadline",
@@ -726,6 +1909,52 @@ const deployedContracts = {
               outputs: [],
               state_mutability: "external",
             },
+            {
+              type: "function",
+              name: "get_metadata_hash",
+              inputs: [],
+              outputs: [
+                {
+                  type: "core::integer::u256",
+                },
+              ],
+              state_mutability: "view",
+            },
+            {
+              type: "function",
+              name: "set_metadata_hash",
+              inputs: [
+                {
+                  name: "metadata_hash",
+                  type: "core::integer::u256",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
+          ],
+        },
+        {
+          type: "impl",
+          name: "UpgradeableImpl",
+          interface_name: "contracts::crowdfunding::IUpgradeable",
+        },
+        {
+          type: "interface",
+          name: "contracts::crowdfunding::IUpgradeable",
+          items: [
+            {
+              type: "function",
+              name: "upgrade",
+              inputs: [
+                {
+                  name: "new_class_hash",
+                  type: "core::starknet::class_hash::ClassHash",
+                },
+              ],
+              outputs: [],
+              state_mutability: "external",
+            },
           ],
         },
         {
@@ -805,8 +2034,12 @@ const deployedContracts = {
               type: "core::integer::u256",
             },
             {
-              name: "fund_description",
-              type: "core::felt252",
+              name: "fund_title",
+              type: "core::byte_array::ByteArray",
+            },
+            {
+              name: "fund_description_uri",
+              type: "core::byte_array::ByteArray",
             },
             {
               name: "deadline",
@@ -906,6 +2139,11 @@ const deployedContracts = {
               type: "core::integer::u256",
               kind: "data",
             },
+            {
+              name: "token",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
           ],
         },
         {
@@ -956,8 +2194,13 @@ const deployedContracts = {
               kind: "data",
             },
             {
-              name: "fund_description",
-              type: "core::felt252",
+              name: "fund_title",
+              type: "core::byte_array::ByteArray",
+              kind: "data",
+            },
+            {
+              name: "fund_description_uri",
+              type: "core::byte_array::ByteArray",
               kind: "data",
             },
             {
@@ -984,6 +2227,195 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Refunded",
+          kind: "struct",
+          members: [
+            {
+              name: "contributor",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MetadataChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "metadata_hash",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestonesSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "total",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestoneApproved",
+          kind: "struct",
+          members: [
+            {
+              name: "index",
+              type: "core::integer::u32",
+              kind: "key",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::MilestoneReleased",
+          kind: "struct",
+          members: [
+            {
+              name: "index",
+              type: "core::integer::u32",
+              kind: "key",
+            },
+            {
+              name: "grantee_address",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "data",
+            },
+            {
+              name: "amount",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::RewardTiersSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::BadgeEarned",
+          kind: "struct",
+          members: [
+            {
+              name: "backer",
+              type: "core::starknet::contract_address::ContractAddress",
+              kind: "key",
+            },
+            {
+              name: "round",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "tier",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+            {
+              name: "name",
+              type: "core::byte_array::ByteArray",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::FundingPolicyChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "policy",
+              type: "contracts::crowdfunding::FundingPolicy",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::StretchGoalsSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::AcceptedTokensSet",
+          kind: "struct",
+          members: [
+            {
+              name: "count",
+              type: "core::integer::u32",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::TargetUnitChanged",
+          kind: "struct",
+          members: [
+            {
+              name: "unit",
+              type: "contracts::crowdfunding::TargetUnit",
+              kind: "data",
+            },
+            {
+              name: "fund_target",
+              type: "core::integer::u256",
+              kind: "data",
+            },
+          ],
+        },
+        {
+          type: "event",
+          name: "contracts::crowdfunding::crowdfunding::Upgraded",
+          kind: "struct",
+          members: [
+            {
+              name: "class_hash",
+              type: "core::starknet::class_hash::ClassHash",
+              kind: "data",
+            },
+          ],
+        },
         {
           type: "event",
           name: "contracts::crowdfunding::crowdfunding::Event",
@@ -1019,6 +2451,66 @@ const deployedContracts = {
               type: "contracts::crowdfunding::crowdfunding::ActiveChanged",
               kind: "nested",
             },
+            {
+              name: "Refunded",
+              type: "contracts::crowdfunding::crowdfunding::Refunded",
+              kind: "nested",
+            },
+            {
+              name: "MetadataChanged",
+              type: "contracts::crowdfunding::crowdfunding::MetadataChanged",
+              kind: "nested",
+            },
+            {
+              name: "MilestonesSet",
+              type: "contracts::crowdfunding::crowdfunding::MilestonesSet",
+              kind: "nested",
+            },
+            {
+              name: "MilestoneApproved",
+              type: "contracts::crowdfunding::crowdfunding::MilestoneApproved",
+              kind: "nested",
+            },
+            {
+              name: "MilestoneReleased",
+              type: "contracts::crowdfunding::crowdfunding::MilestoneReleased",
+              kind: "nested",
+            },
+            {
+              name: "RewardTiersSet",
+              type: "contracts::crowdfunding::crowdfunding::RewardTiersSet",
+              kind: "nested",
+            },
+            {
+              name: "BadgeEarned",
+              type: "contracts::crowdfunding::crowdfunding::BadgeEarned",
+              kind: "nested",
+            },
+            {
+              name: "FundingPolicyChanged",
+              type: "contracts::crowdfunding::crowdfunding::FundingPolicyChanged",
+              kind: "nested",
+            },
+            {
+              name: "StretchGoalsSet",
+              type: "contracts::crowdfunding::crowdfunding::StretchGoalsSet",
+              kind: "nested",
+            },
+            {
+              name: "AcceptedTokensSet",
+              type: "contracts::crowdfunding::crowdfunding::AcceptedTokensSet",
+              kind: "nested",
+            },
+            {
+              name: "TargetUnitChanged",
+              type: "contracts::crowdfunding::crowdfunding::TargetUnitChanged",
+              kind: "nested",
+            },
+            {
+              name: "Upgraded",
+              type: "contracts::crowdfunding::crowdfunding::Upgraded",
+              kind: "nested",
+            },
           ],
         },
       ],
@@ -0,0 +1,150 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import { useScaffoldReadContractAt } from "../useScaffoldReadContractAt";
+import {
+  fetchCampaignMetadata,
+  useCampaignMetadata,
+} from "../useCampaignMetadata";
+import {
+  CampaignMetadata,
+  hashCampaignMetadata,
+} from "~~/services/metadata/campaignMetadata";
+
+vi.mock("../useScaffoldReadContractAt", () => ({
+  useScaffoldReadContractAt: vi.fn(),
+}));
+
+const mockCampaignAddress = "0x456";
+
+const metadata: CampaignMetadata = {
+  version: 1,
+  category: "community",
+  images: ["ipfs://bafycover"],
+  links: [],
+  grantee: { name: "Neighbourhood garden" },
+};
+
+const mockUseScaffoldReadContractAt =
+  useScaffoldReadContractAt as unknown as Mock;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+describe("fetchCampaignMetadata", () => {
+  it("should return documents that match the hash", async () => {
+    const hash = await hashCampaignMetadata(metadata);
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse(metadata));
+
+    await expect(fetchCampaignMetadata(hash, fetcher)).resolves.toEqual(
+      metadata,
+    );
+    expect(fetcher).toHaveBeenCalledWith(`/api/metadata/${hash}`);
+  });
+
+  it("should reject documents that do not match the hash", async () => {
+    const hash = await hashCampaignMetadata(metadata);
+    const fetcher = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ ...metadata, category: "arts" }));
+
+    await expect(fetchCampaignMetadata(hash, fetcher)).rejects.toThrow(
+      "Campaign metadata does not match the on-chain hash",
+    );
+  });
+
+  it("should reject documents that do not match the schema", async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse({ version: 1 }));
+
+    await expect(
+      fetchCampaignMetadata(`0x${"1".repeat(64)}`, fetcher),
+    ).rejects.toThrow("Invalid campaign metadata");
+  });
+
+  it("should report missing documents", async () => {
+    const fetcher = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ error: "metadata not found" }, 404));
+
+    await expect(
+      fetchCampaignMetadata(`0x${"1".repeat(64)}`, fetcher),
+    ).rejects.toThrow("Failed to load campaign metadata (404)");
+  });
+});
+
+describe("useCampaignMetadata", () => {
+  const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    fetchSpy.mockReset();
+  });
+
+  it("should read the hash from the campaign and verify the document", async () => {
+    const hash = await hashCampaignMetadata(metadata);
+    mockUseScaffoldReadContractAt.mockReturnValue({
+      data: BigInt(hash),
+      isLoading: false,
+    });
+    fetchSpy.mockResolvedValue(jsonResponse(metadata));
+
+    const { result } = renderHook(() =>
+      useCampaignMetadata(mockCampaignAddress),
+    );
+
+    await waitFor(() => expect(result.current.isVerified).toBe(true));
+    expect(result.current.metadata).toEqual(metadata);
+    expect(result.current.metadataHash).toBe(hash);
+    expect(result.current.error).toBeNull();
+    expect(mockUseScaffoldReadContractAt).toHaveBeenCalledWith({
+      abiName: "crowdfunding",
+      address: mockCampaignAddress,
+      functionName: "get_metadata_hash",
+    });
+  });
+
+  it("should expose an error instead of unverified metadata", async () => {
+    mockUseScaffoldReadContractAt.mockReturnValue({
+      data: 1n,
+      isLoading: false,
+    });
+    fetchSpy.mockResolvedValue(jsonResponse(metadata));
+
+    const { result } = renderHook(() =>
+      useCampaignMetadata(mockCampaignAddress),
+    );
+
+    await waitFor(() =>
+      expect(result.current.error).toBe(
+        "Campaign metadata does not match the on-chain hash",
+      ),
+    );
+    expect(result.current.metadata).toBeUndefined();
+    expect(result.current.isVerified).toBe(false);
+  });
+
+  it("should not fetch anything when no hash is set", () => {
+    mockUseScaffoldReadContractAt.mockReturnValue({
+      data: 0n,
+      isLoading: false,
+    });
+
+    const { result } = renderHook(() =>
+      useCampaignMetadata(mockCampaignAddress),
+    );
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(result.current.metadataHash).toBeUndefined();
+    expect(result.current.isLoading).toBe(false);
+  });
+});
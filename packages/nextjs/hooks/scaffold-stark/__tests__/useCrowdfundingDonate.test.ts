@@ -0,0 +1,286 @@
+import { act, renderHook } from "@testing-library/react";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import {
+  buildDonationCalls,
+  useCrowdfundingDonate,
+} from "../useCrowdfundingDonate";
+import { useScaffoldMultiWriteContract } from "../useScaffoldMultiWriteContract";
+import { useErc20Token } from "../useErc20Token";
+import { useAccount } from "~~/hooks/useAccount";
+import { CallData, cairo } from "starknet";
+import { mockCrowdfundingContractData } from "./seed/mockCrowdfundingContractData";
+
+vi.mock("~~/hooks/useAccount", () => ({
+  useAccount: vi.fn(),
+}));
+
+vi.mock("../useErc20Token", () => ({
+  useErc20Token: vi.fn(),
+}));
+
+vi.mock("../useScaffoldMultiWriteContract", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../useScaffoldMultiWriteContract")
+  >()),
+  useScaffoldMultiWriteContract: vi.fn(),
+}));
+
+const mockDonorAddress =
+  "0x064b48806902a367c8598f4f95c305e8c1a1acba5f082d294a43793113115691";
+
+// an arbitrary ERC20 that is not part of predeployedContracts
+const mockTokenAddress =
+  "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+
+describe("buildDonationCalls", () => {
+  it("should prepend an approve call when the allowance is too low", () => {
+    const calls = buildDonationCalls({
+      tokenAddress: mockTokenAddress,
+      campaignAddress: mockCrowdfundingContractData.address,
+      amount: 10n,
+      allowance: 5n,
+    });
+
+    expect(calls).toEqual([
+      {
+        contractAddress: mockTokenAddress,
+        entrypoint: "approve",
+        calldata: CallData.compile({
+          spender: mockCrowdfundingContractData.address,
+          amount: cairo.uint256(10n),
+        }),
+      },
+      {
+        contractAddress: mockCrowdfundingContractData.address,
+        entrypoint: "fund_to_contract",
+        calldata: CallData.compile({ amount: cairo.uint256(10n) }),
+      },
+    ]);
+  });
+
+  it("should only fund when the allowance already covers the amount", () => {
+    const calls = buildDonationCalls({
+      tokenAddress: mockTokenAddress,
+      campaignAddress: mockCrowdfundingContractData.address,
+      amount: 10n,
+      allowance: 10n,
+    });
+
+    expect(calls).toEqual([
+      {
+        contractAddress: mockCrowdfundingContractData.address,
+        entrypoint: "fund_to_contract",
+        calldata: CallData.compile({ amount: cairo.uint256(10n) }),
+      },
+    ]);
+  });
+
+  it("should fund through fund_with_token for other accepted tokens", () => {
+    const calls = buildDonationCalls({
+      tokenAddress: mockTokenAddress,
+      campaignAddress: mockCrowdfundingContractData.address,
+      amount: 10n,
+      allowance: 10n,
+      fundWithToken: true,
+    });
+
+    expect(calls).toEqual([
+      {
+        contractAddress: mockCrowdfundingContractData.address,
+        entrypoint: "fund_with_token",
+        calldata: CallData.compile({
+          token: mockTokenAddress,
+          amount: cairo.uint256(10n),
+        }),
+      },
+    ]);
+  });
+});
+
+describe("useCrowdfundingDonate", () => {
+  const mockSendAsync = vi.fn();
+  const mockRefetchBalance = vi.fn();
+  const mockRefetchAllowance = vi.fn();
+
+  const mockTokenReads = ({
+    balance,
+    allowance,
+  }: {
+    balance: bigint;
+    allowance: bigint;
+  }) => {
+    mockRefetchBalance.mockResolvedValue({ data: balance });
+    mockRefetchAllowance.mockResolvedValue({ data: allowance });
+  };
+
+  beforeEach(() => {
+    (useAccount as Mock).mockReturnValue({ address: mockDonorAddress });
+    (useErc20Token as Mock).mockReturnValue({
+      refetchBalance: mockRefetchBalance,
+      refetchAllowance: mockRefetchAllowance,
+    });
+    (useScaffoldMultiWriteContract as Mock).mockReturnValue({
+      sendAsync: mockSendAsync,
+      isPending: false,
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should send approve and fund_to_contract in one multicall", async () => {
+    mockTokenReads({ balance: 100n, allowance: 0n });
+    mockSendAsync.mockResolvedValue("0xabc");
+
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(50n);
+    });
+
+    expect(useErc20Token).toHaveBeenCalledWith({
+      address: mockTokenAddress,
+      owner: mockDonorAddress,
+      spender: mockCrowdfundingContractData.address,
+    });
+    expect(mockRefetchAllowance).toHaveBeenCalled();
+    expect(mockSendAsync).toHaveBeenCalledTimes(1);
+    expect(mockSendAsync.mock.calls[0][0].calls).toHaveLength(2);
+    expect(donateResult).toEqual({
+      status: "submitted",
+      transactionHash: "0xabc",
+      amount: 50n,
+      approved: true,
+    });
+  });
+
+  it("should fail without sending when the balance is insufficient", async () => {
+    mockTokenReads({ balance: 10n, allowance: 0n });
+
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(50n);
+    });
+
+    expect(mockSendAsync).not.toHaveBeenCalled();
+    expect(donateResult).toEqual({
+      status: "failed",
+      reason: "insufficient-balance",
+      message: "Insufficient balance",
+    });
+  });
+
+  it("should not send when the balance or allowance cannot be read", async () => {
+    mockRefetchBalance.mockResolvedValue({
+      data: undefined,
+      error: new Error("RPC unavailable"),
+    });
+    mockRefetchAllowance.mockResolvedValue({ data: 0n });
+
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(50n);
+    });
+
+    expect(mockSendAsync).not.toHaveBeenCalled();
+    expect(donateResult).toEqual({
+      status: "failed",
+      reason: "token-read-failed",
+      message: "Could not read your token balance: RPC unavailable",
+    });
+  });
+
+  it("should reject non-positive amounts", async () => {
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(0n);
+    });
+
+    expect(mockRefetchBalance).not.toHaveBeenCalled();
+    expect(donateResult).toMatchObject({
+      status: "failed",
+      reason: "invalid-amount",
+    });
+  });
+
+  it("should require a connected wallet", async () => {
+    (useAccount as Mock).mockReturnValue({ address: undefined });
+
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(1n);
+    });
+
+    expect(donateResult).toMatchObject({
+      status: "failed",
+      reason: "wallet-not-connected",
+    });
+  });
+
+  it("should surface transaction errors as a failed result", async () => {
+    mockTokenReads({ balance: 100n, allowance: 100n });
+    mockSendAsync.mockRejectedValue(new Error("User abort"));
+
+    const { result } = renderHook(() =>
+      useCrowdfundingDonate({
+        campaignAddress: mockCrowdfundingContractData.address,
+        tokenAddress: mockTokenAddress,
+      }),
+    );
+
+    let donateResult;
+    await act(async () => {
+      donateResult = await result.current.donate(50n);
+    });
+
+    expect(mockSendAsync.mock.calls[0][0].calls).toHaveLength(1);
+    expect(donateResult).toEqual({
+      status: "failed",
+      reason: "transaction-failed",
+      message: "User abort",
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import { useProvider, useReadContract } from "@starknet-react/core";
+import { byteArray } from "starknet";
+import { useErc20Token } from "../useErc20Token";
+
+vi.mock("@starknet-react/core", () => ({
+  useProvider: vi.fn(),
+  useReadContract: vi.fn(),
+}));
+
+const mockTokenAddress =
+  "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+const mockOwner =
+  "0x064b48806902a367c8598f4f95c305e8c1a1acba5f082d294a43793113115691";
+const mockSpender =
+  "0x47434ec924bb16a99710134c2fb830037eace2d82b0725c3d07a3f6016bb47a";
+
+// "USDC" encoded as a felt252 short string
+const mockSymbolFelt = ["0x55534443"];
+
+const mockUseReadContract = useReadContract as unknown as Mock;
+
+const mockReads = (values: Record<string, unknown>) => {
+  mockUseReadContract.mockImplementation(({ functionName }) => ({
+    data: values[functionName],
+    isLoading: false,
+    refetch: vi.fn(),
+  }));
+};
+
+describe("useErc20Token", () => {
+  const callContract = vi.fn();
+
+  beforeEach(() => {
+    (useProvider as Mock).mockReturnValue({ provider: { callContract } });
+    callContract.mockResolvedValue(mockSymbolFelt);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resolve symbol, decimals, balance and allowance for any address", async () => {
+    mockReads({
+      decimals: 6n,
+      balance_of: 1500000n,
+      allowance: 250000n,
+    });
+
+    const { result } = renderHook(() =>
+      useErc20Token({
+        address: mockTokenAddress,
+        owner: mockOwner,
+        spender: mockSpender,
+      }),
+    );
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+    expect(result.current).toMatchObject({
+      address: mockTokenAddress,
+      symbol: "USDC",
+      decimals: 6,
+      balance: 1500000n,
+      allowance: 250000n,
+      isLoading: false,
+    });
+    expect(mockUseReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: "allowance",
+        address: mockTokenAddress,
+        args: [mockOwner, mockSpender],
+        enabled: true,
+      }),
+    );
+  });
+
+  it("should decode ByteArray symbols", async () => {
+    const { data, pending_word, pending_word_len } =
+      byteArray.byteArrayFromString("Wrapped BTC");
+    callContract.mockResolvedValue([
+      data.length.toString(),
+      ...data.map((word) => word.toString()),
+      pending_word.toString(),
+      pending_word_len.toString(),
+    ]);
+    mockReads({ decimals: 8n });
+
+    const { result } = renderHook(() =>
+      useErc20Token({ address: mockTokenAddress }),
+    );
+
+    await waitFor(() => {
+      expect(result.current.symbol).toBe("Wrapped BTC");
+    });
+    expect(callContract).toHaveBeenCalledWith({
+      contractAddress: mockTokenAddress,
+      entrypoint: "symbol",
+    });
+  });
+
+  it("should disable account reads without an owner", () => {
+    mockReads({});
+
+    const { result } = renderHook(() =>
+      useErc20Token({ address: mockTokenAddress }),
+    );
+
+    expect(result.current.balance).toBeUndefined();
+    expect(mockUseReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: "balance_of",
+        args: [],
+        enabled: false,
+      }),
+    );
+  });
+
+  it("should disable all reads without a token address", () => {
+    mockReads({});
+
+    renderHook(() => useErc20Token({ owner: mockOwner }));
+
+    mockUseReadContract.mock.calls.forEach(([config]) => {
+      expect(config.enabled).toBe(false);
+    });
+    expect(callContract).not.toHaveBeenCalled();
+  });
+});
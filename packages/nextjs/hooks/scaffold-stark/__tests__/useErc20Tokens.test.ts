@@ -0,0 +1,135 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi, type Mock } from "vitest";
+import { useProvider } from "@starknet-react/core";
+import { byteArray } from "starknet";
+import {
+  decodeSymbolResult,
+  decodeTokenSymbol,
+  fetchErc20Balance,
+  useErc20Tokens,
+} from "../useErc20Tokens";
+
+vi.mock("@starknet-react/core", () => ({
+  useProvider: vi.fn(),
+}));
+
+const mockStrkAddress =
+  "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const mockUsdcAddress =
+  "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+
+// "USDC" encoded as a felt252 short string
+const mockFeltSymbol = ["0x55534443"];
+
+const toByteArrayResult = (value: string) => {
+  const { data, pending_word, pending_word_len } =
+    byteArray.byteArrayFromString(value);
+  return [
+    data.length.toString(),
+    ...data.map((word) => word.toString()),
+    pending_word.toString(),
+    pending_word_len.toString(),
+  ];
+};
+
+describe("decodeTokenSymbol", () => {
+  it("should decode a felt252 symbol", () => {
+    expect(decodeTokenSymbol(0x55534443n)).toBe("USDC");
+  });
+
+  it("should return undefined when the symbol is missing", () => {
+    expect(decodeTokenSymbol(undefined)).toBeUndefined();
+  });
+});
+
+describe("decodeSymbolResult", () => {
+  it("should decode felt252 symbols", () => {
+    expect(decodeSymbolResult(mockFeltSymbol)).toBe("USDC");
+  });
+
+  it("should decode ByteArray symbols", () => {
+    expect(decodeSymbolResult(toByteArrayResult("STRK"))).toBe("STRK");
+  });
+});
+
+describe("fetchErc20Balance", () => {
+  it("should combine the u256 balance", async () => {
+    const callContract = vi.fn().mockResolvedValue(["0x5", "0x1"]);
+
+    await expect(
+      fetchErc20Balance(
+        { callContract } as any,
+        mockUsdcAddress,
+        mockStrkAddress,
+      ),
+    ).resolves.toBe(5n + (1n << 128n));
+    expect(callContract).toHaveBeenCalledWith({
+      contractAddress: mockUsdcAddress,
+      entrypoint: "balance_of",
+      calldata: [mockStrkAddress],
+    });
+  });
+});
+
+describe("useErc20Tokens", () => {
+  const callContract = vi.fn();
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resolve symbol and decimals of every token", async () => {
+    (useProvider as Mock).mockReturnValue({ provider: { callContract } });
+    callContract.mockImplementation(({ contractAddress, entrypoint }) => {
+      const isUsdc = contractAddress === mockUsdcAddress;
+      if (entrypoint === "symbol") {
+        return Promise.resolve(
+          isUsdc ? mockFeltSymbol : toByteArrayResult("strk"),
+        );
+      }
+      return Promise.resolve([isUsdc ? "0x6" : "0x12"]);
+    });
+
+    const { result } = renderHook(() =>
+      useErc20Tokens([mockStrkAddress, mockUsdcAddress]),
+    );
+
+    await waitFor(() => {
+      expect(result.current).toEqual({
+        [mockStrkAddress]: {
+          address: mockStrkAddress,
+          symbol: "STRK",
+          decimals: 18,
+        },
+        [mockUsdcAddress]: {
+          address: mockUsdcAddress,
+          symbol: "USDC",
+          decimals: 6,
+        },
+      });
+    });
+  });
+
+  it("should keep tokens that failed to load by address", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    (useProvider as Mock).mockReturnValue({ provider: { callContract } });
+    callContract.mockRejectedValue(new Error("Contract not found"));
+
+    const { result } = renderHook(() => useErc20Tokens([mockUsdcAddress]));
+
+    await waitFor(() => {
+      expect(result.current).toEqual({
+        [mockUsdcAddress]: { address: mockUsdcAddress },
+      });
+    });
+  });
+
+  it("should not call the provider without tokens", () => {
+    (useProvider as Mock).mockReturnValue({ provider: { callContract } });
+
+    const { result } = renderHook(() => useErc20Tokens([]));
+
+    expect(result.current).toEqual({});
+    expect(callContract).not.toHaveBeenCalled();
+  });
+});
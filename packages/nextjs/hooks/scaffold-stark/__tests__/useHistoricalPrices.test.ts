@@ -0,0 +1,54 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { priceService } from "~~/services/web3/PriceService";
+import { useHistoricalPrices } from "../useHistoricalPrices";
+
+vi.mock("~~/services/web3/PriceService", () => ({
+  priceService: {
+    getPricesAt: vi.fn(),
+  },
+}));
+
+describe("useHistoricalPrices", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resolve the prices of every symbol at once", async () => {
+    const strkPrices: Record<number, number> = {
+      1700000000: 0.5,
+      1700000100: 0.6,
+    };
+    vi.mocked(priceService.getPricesAt).mockImplementation((symbol) =>
+      Promise.resolve(symbol === "STRK" ? strkPrices : {}),
+    );
+
+    const { result } = renderHook(() =>
+      useHistoricalPrices([
+        { symbol: "STRK", timestamp: 1700000000 },
+        { symbol: "USDC", timestamp: 1700000000 },
+        { symbol: "STRK", timestamp: 1700000100 },
+        { symbol: "STRK", timestamp: 1700000000 },
+      ]),
+    );
+
+    await waitFor(() => {
+      expect(result.current).toEqual({
+        "STRK@1700000000": 0.5,
+        "STRK@1700000100": 0.6,
+      });
+    });
+    expect(priceService.getPricesAt).toHaveBeenCalledTimes(2);
+    expect(priceService.getPricesAt).toHaveBeenCalledWith(
+      "STRK",
+      [1700000000, 1700000100],
+    );
+  });
+
+  it("should not resolve anything without requests", () => {
+    const { result } = renderHook(() => useHistoricalPrices([]));
+
+    expect(result.current).toEqual({});
+    expect(priceService.getPricesAt).not.toHaveBeenCalled();
+  });
+});
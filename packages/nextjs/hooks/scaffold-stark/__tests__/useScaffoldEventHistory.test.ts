@@ -6,6 +6,11 @@ import { useProvider } from "@starknet-react/core";
 import { RpcProvider } from "starknet";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { mockDeployedContractData } from "./seed/mockDeployedContractData";
+import {
+  deleteEventCache,
+  readEventCache,
+  writeEventCache,
+} from "~~/services/store/eventCache";
 
 // Mock dependencies
 vi.mock("~~/hooks/scaffold-stark", () => ({
@@ -20,6 +25,13 @@ vi.mock("@starknet-react/core", () => ({
   useProvider: vi.fn(),
 }));
 
+vi.mock("~~/services/store/eventCache", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~~/services/store/eventCache")>()),
+  readEventCache: vi.fn().mockResolvedValue(undefined),
+  writeEventCache: vi.fn().mockResolvedValue(undefined),
+  deleteEventCache: vi.fn().mockResolvedValue(undefined),
+}));
+
 describe("useScaffoldEventHistory", () => {
   const mockContractName = "YourContract";
   const mockEventName = "contracts::YourContract::YourContract::EventParser";
@@ -191,4 +203,326 @@ describe("useScaffoldEventHistory", () => {
     ]);
     expect(result.current.error).toBeUndefined();
   });
+
+  it("should read events from the given address using the ABI of contractName", async () => {
+    const mockAddress =
+      "0x0456000000000000000000000000000000000000000000000000000000000456";
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        address: mockAddress,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    expect(RpcProvider.prototype.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ address: mockAddress }),
+    );
+    expect(result.current.data[0].args.u256_val).toBe(1024n);
+  });
+
+  const makeEvent = (transactionHash: string, blockNumber: number) => ({
+    ...mockEvents[0],
+    transaction_hash: transactionHash,
+    block_number: blockNumber,
+  });
+
+  it("should follow continuation tokens until the last page", async () => {
+    RpcProvider.prototype.getEvents = vi
+      .fn()
+      .mockResolvedValueOnce({
+        events: [makeEvent("0x1", 1), makeEvent("0x2", 2)],
+        continuation_token: "page-2",
+      })
+      .mockResolvedValueOnce({
+        events: [makeEvent("0x3", 3)],
+        continuation_token: "page-3",
+      })
+      .mockResolvedValueOnce({
+        events: [makeEvent("0x4", 4)],
+      })
+      .mockResolvedValue({ events: [] });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        chunkSize: 2,
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(4));
+
+    expect(RpcProvider.prototype.getEvents).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ chunk_size: 2, continuation_token: "page-2" }),
+    );
+    expect(RpcProvider.prototype.getEvents).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({ continuation_token: "page-3" }),
+    );
+    // Newest first
+    expect(
+      result.current.data.map((event) => event.log.transaction_hash),
+    ).toEqual(["0x4", "0x3", "0x2", "0x1"]);
+    expect(result.current.data[0].args.u256_val).toBe(1024n);
+  });
+
+  it("should read the range in block windows", async () => {
+    RpcProvider.prototype.getEvents = vi
+      .fn()
+      .mockResolvedValueOnce({ events: [makeEvent("0x1", 10)] })
+      .mockResolvedValueOnce({ events: [] })
+      .mockResolvedValueOnce({ events: [makeEvent("0x2", 900)] })
+      .mockResolvedValue({ events: [] });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        blockRangeSize: 400,
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(2));
+
+    const windows = (
+      RpcProvider.prototype.getEvents as ReturnType<typeof vi.fn>
+    ).mock.calls
+      .slice(0, 3)
+      .map(([filter]) => [
+        filter.from_block.block_number,
+        filter.to_block.block_number,
+      ]);
+    expect(windows).toEqual([
+      [1, 400],
+      [401, 800],
+      [801, 1000],
+    ]);
+    expect(
+      result.current.data.map((event) => event.log.transaction_hash),
+    ).toEqual(["0x2", "0x1"]);
+  });
+
+  it("should fetch each block once and skip enrichment that was not requested", async () => {
+    RpcProvider.prototype.getEvents = vi
+      .fn()
+      .mockResolvedValueOnce({
+        events: [makeEvent("0x1", 4), makeEvent("0x2", 4), makeEvent("0x3", 4)],
+      })
+      .mockResolvedValue({ events: [] });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        blockData: true,
+        concurrency: 2,
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(3));
+
+    expect(RpcProvider.prototype.getBlockWithTxHashes).toHaveBeenCalledTimes(1);
+    expect(RpcProvider.prototype.getTransactionByHash).not.toHaveBeenCalled();
+    expect(RpcProvider.prototype.getTransactionReceipt).not.toHaveBeenCalled();
+    expect(result.current.data[0].block).toEqual({ block_hash: "0xabc" });
+  });
+
+  it("should return raw events when parseArgs is false", async () => {
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        parseArgs: false,
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    expect(result.current.data[0].args).toBeUndefined();
+    expect(result.current.data[0].log).toEqual(mockEvents[0]);
+  });
+
+  const mockCacheSignature = {
+    deployedAddress: mockDeployedContractData.address,
+    classHash: "undefined",
+    fromBlock: "1",
+    blockData: false,
+    transactionData: false,
+    receiptData: false,
+  };
+
+  it("should resume from the last synced block of a cached history", async () => {
+    const cachedEvent = {
+      log: makeEvent("0xcached", 500),
+      block: null,
+      transaction: null,
+      receipt: null,
+    };
+    vi.mocked(readEventCache).mockResolvedValueOnce({
+      key: "cached",
+      signature: mockCacheSignature,
+      lastSyncedBlock: 900n,
+      events: [cachedEvent],
+    });
+    RpcProvider.prototype.getEvents = vi
+      .fn()
+      .mockResolvedValueOnce({ events: [makeEvent("0xnew", 950)] })
+      .mockResolvedValue({ events: [] });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(2));
+
+    expect(RpcProvider.prototype.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from_block: { block_number: 901 },
+        to_block: { block_number: 1000 },
+      }),
+    );
+    expect(
+      result.current.data.map((event) => event.log.transaction_hash),
+    ).toEqual(["0xnew", "0xcached"]);
+    expect(writeEventCache).toHaveBeenCalledWith(
+      expect.objectContaining({
+        signature: mockCacheSignature,
+        lastSyncedBlock: 1000n,
+        events: [
+          expect.objectContaining({ log: makeEvent("0xnew", 950) }),
+          cachedEvent,
+        ],
+      }),
+    );
+  });
+
+  it("should drop a cached history after a redeploy", async () => {
+    vi.mocked(readEventCache).mockResolvedValueOnce({
+      key: "cached",
+      signature: { ...mockCacheSignature, classHash: "0xold" },
+      lastSyncedBlock: 900n,
+      events: [{ log: makeEvent("0xcached", 500) }],
+    });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    expect(deleteEventCache).toHaveBeenCalled();
+    expect(RpcProvider.prototype.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ from_block: { block_number: 1 } }),
+    );
+    expect(result.current.data[0].log).toEqual(mockEvents[0]);
+  });
+
+  it("should drop a cached history synced past a reset chain", async () => {
+    vi.mocked(readEventCache).mockResolvedValueOnce({
+      key: "cached",
+      signature: mockCacheSignature,
+      lastSyncedBlock: 5000n,
+      events: [{ log: makeEvent("0xcached", 4000) }],
+    });
+
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    expect(deleteEventCache).toHaveBeenCalled();
+    expect(RpcProvider.prototype.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ from_block: { block_number: 1 } }),
+    );
+    expect(result.current.data[0].log).toEqual(mockEvents[0]);
+  });
+
+  it("should read the history again when the chain is reset while watching", async () => {
+    const { result, rerender } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+      }),
+    );
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    RpcProvider.prototype.getBlockLatestAccepted = vi.fn().mockResolvedValue({
+      block_number: 10,
+    });
+    RpcProvider.prototype.getEvents = vi
+      .fn()
+      .mockResolvedValue({ events: [makeEvent("0xafter-reset", 5)] });
+    // A new provider triggers the next read, like a poll would
+    // @ts-ignore
+    (useProvider as vi.Mock).mockReturnValue({
+      provider: new RpcProvider({
+        nodeUrl: mockTargetNetwork.rpcUrls.public.http[0],
+      }),
+    });
+    rerender();
+
+    await waitFor(() =>
+      expect(result.current.data?.[0]?.log.transaction_hash).toBe(
+        "0xafter-reset",
+      ),
+    );
+    expect(result.current.data).toHaveLength(1);
+    expect(deleteEventCache).toHaveBeenCalled();
+    expect(RpcProvider.prototype.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from_block: { block_number: 1 },
+        to_block: { block_number: 10 },
+      }),
+    );
+  });
+
+  it("should not touch the cache when disabled", async () => {
+    const { result } = renderHook(() =>
+      useScaffoldEventHistory({
+        contractName: mockContractName as any,
+        eventName: mockEventName as never,
+        fromBlock: BigInt(1),
+        watch: false,
+        cache: false,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+
+    expect(readEventCache).not.toHaveBeenCalled();
+    expect(writeEventCache).not.toHaveBeenCalled();
+  });
 });
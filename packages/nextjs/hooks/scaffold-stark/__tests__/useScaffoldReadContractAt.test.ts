@@ -0,0 +1,115 @@
+import { renderHook } from "@testing-library/react";
+import { useScaffoldReadContractAt } from "../useScaffoldReadContractAt";
+import { useReadContract } from "@starknet-react/core";
+import { vi, describe, it, expect, Mock, beforeEach } from "vitest";
+
+// Mocking dependencies using Vitest
+vi.mock("../useTargetNetwork", () => ({
+  useTargetNetwork: vi.fn(() => ({
+    targetNetwork: { network: "sepolia" },
+  })),
+}));
+
+vi.mock("~~/utils/scaffold-stark/contract", () => ({
+  contracts: {
+    sepolia: {
+      crowdfunding: {
+        address: "0x123",
+        abi: [{ name: "get_fund_balance" }],
+      },
+    },
+  },
+}));
+
+vi.mock("@starknet-react/core", () => ({
+  useReadContract: vi.fn(),
+}));
+
+describe("useScaffoldReadContractAt", () => {
+  const abiName = "crowdfunding";
+  const functionName = "get_fund_balance";
+  const address = "0x456"; // a campaign created at runtime, not the deployed one
+
+  const mockUseReadContract = useReadContract as unknown as Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should call useReadContract with the ABI of abiName and the given address", () => {
+    mockUseReadContract.mockReturnValue({
+      data: "mockedData",
+    });
+
+    const filteredArgs = [1, undefined, 3].filter((arg) => arg !== undefined);
+
+    renderHook(() =>
+      useScaffoldReadContractAt({
+        abiName,
+        address,
+        functionName,
+        args: filteredArgs as any,
+      }),
+    );
+
+    expect(mockUseReadContract).toHaveBeenCalledWith({
+      functionName: "get_fund_balance",
+      address: "0x456",
+      abi: [{ name: "get_fund_balance" }],
+      watch: true,
+      args: filteredArgs,
+      enabled: true,
+      blockIdentifier: "pending",
+    });
+  });
+
+  it("should disable read when args contain undefined", () => {
+    renderHook(() =>
+      useScaffoldReadContractAt({
+        abiName,
+        address,
+        functionName,
+        args: [1, undefined, 3] as any,
+      }),
+    );
+
+    expect(mockUseReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        enabled: false,
+      }),
+    );
+  });
+
+  it("should disable read when the address is missing", () => {
+    renderHook(() =>
+      useScaffoldReadContractAt({
+        abiName,
+        address: undefined,
+        functionName,
+      }),
+    );
+
+    expect(mockUseReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: undefined,
+        enabled: false,
+      }),
+    );
+  });
+
+  it("should pass blockIdentifier as 'pending'", () => {
+    renderHook(() =>
+      useScaffoldReadContractAt({
+        abiName,
+        address,
+        functionName,
+      }),
+    );
+
+    expect(mockUseReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        blockIdentifier: "pending",
+      }),
+    );
+  });
+});
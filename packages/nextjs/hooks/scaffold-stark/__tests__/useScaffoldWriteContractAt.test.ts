@@ -0,0 +1,132 @@
+import { renderHook, act } from "@testing-library/react";
+import { useScaffoldWriteContractAt } from "~~/hooks/scaffold-stark/useScaffoldWriteContractAt";
+import { useTransactor } from "~~/hooks/scaffold-stark";
+import { useTargetNetwork } from "~~/hooks/scaffold-stark/useTargetNetwork";
+import { useSendTransaction, useNetwork } from "@starknet-react/core";
+import { vi, describe, beforeEach, it, expect } from "vitest";
+import { Mock } from "vitest";
+import { mockCrowdfundingContractData } from "./seed/mockCrowdfundingContractData";
+
+// Mock dependencies
+vi.mock("~~/hooks/scaffold-stark", () => ({
+  useTransactor: vi.fn(),
+}));
+
+vi.mock("~~/hooks/scaffold-stark/useTargetNetwork", () => ({
+  useTargetNetwork: vi.fn(),
+}));
+
+vi.mock("~~/utils/scaffold-stark/contract", async () => {
+  const { mockCrowdfundingContractData } = await import(
+    "./seed/mockCrowdfundingContractData"
+  );
+  return {
+    contracts: {
+      sepolia: { crowdfunding: mockCrowdfundingContractData },
+    },
+  };
+});
+
+vi.mock("@starknet-react/core", () => ({
+  useSendTransaction: vi.fn(),
+  useNetwork: vi.fn(),
+}));
+
+describe("useScaffoldWriteContractAt", () => {
+  const campaignAddress =
+    "0x0456000000000000000000000000000000000000000000000000000000000456";
+
+  const mockUseSendTransaction = useSendTransaction as unknown as Mock;
+  const mockUseTransactor = useTransactor as unknown as Mock;
+  const mockUseTargetNetwork = useTargetNetwork as unknown as Mock;
+  const mockUseNetwork = useNetwork as unknown as Mock;
+
+  let mockSendAsync: Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSendAsync = vi.fn().mockResolvedValue({ transaction_hash: "0xabc" });
+    mockUseSendTransaction.mockReturnValue({ sendAsync: mockSendAsync });
+    mockUseTransactor.mockReturnValue((tx: () => Promise<unknown>) => tx());
+    mockUseTargetNetwork.mockReturnValue({
+      targetNetwork: { id: 1, network: "sepolia" },
+    });
+    mockUseNetwork.mockReturnValue({ chain: { id: 1 } });
+  });
+
+  it("should send the call to the given address", async () => {
+    const { result } = renderHook(() =>
+      useScaffoldWriteContractAt({
+        abiName: "crowdfunding",
+        address: campaignAddress,
+        functionName: "set_active",
+        args: [true],
+      }),
+    );
+
+    await act(async () => {
+      await result.current.sendAsync();
+    });
+
+    expect(mockSendAsync).toHaveBeenCalledWith([
+      expect.objectContaining({
+        contractAddress: campaignAddress,
+        entrypoint: "set_active",
+        calldata: ["1"],
+      }),
+    ]);
+  });
+
+  it("should prefer args passed to sendAsync", async () => {
+    const { result } = renderHook(() =>
+      useScaffoldWriteContractAt({
+        abiName: "crowdfunding",
+        address: campaignAddress,
+        functionName: "set_active",
+        args: [true],
+      }),
+    );
+
+    await act(async () => {
+      await result.current.sendAsync({ args: [false] });
+    });
+
+    expect(mockSendAsync).toHaveBeenCalledWith([
+      expect.objectContaining({ calldata: ["0"] }),
+    ]);
+  });
+
+  it("should not send without an address", async () => {
+    const { result } = renderHook(() =>
+      useScaffoldWriteContractAt({
+        abiName: "crowdfunding",
+        address: undefined,
+        functionName: "withdraw_funds",
+      }),
+    );
+
+    await act(async () => {
+      await result.current.sendAsync();
+    });
+
+    expect(mockSendAsync).not.toHaveBeenCalled();
+  });
+
+  it("should not send when user is on the wrong network", async () => {
+    mockUseNetwork.mockReturnValue({ chain: { id: 2 } });
+
+    const { result } = renderHook(() =>
+      useScaffoldWriteContractAt({
+        abiName: "crowdfunding",
+        address: campaignAddress,
+        functionName: "withdraw_funds",
+      }),
+    );
+
+    await act(async () => {
+      await result.current.sendAsync();
+    });
+
+    expect(mockSendAsync).not.toHaveBeenCalled();
+  });
+});
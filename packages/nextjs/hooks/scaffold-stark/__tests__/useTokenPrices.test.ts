@@ -0,0 +1,53 @@
+import { renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useGlobalState } from "~~/services/store/store";
+import { priceService } from "~~/services/web3/PriceService";
+import { useTokenPrices } from "../useTokenPrices";
+
+vi.mock("~~/services/web3/PriceService", () => ({
+  priceService: {
+    trackTokenPrices: vi.fn(),
+  },
+}));
+
+describe("useTokenPrices", () => {
+  beforeEach(() => {
+    useGlobalState.setState({
+      nativeCurrencyPrice: 2000,
+      strkCurrencyPrice: 0.5,
+      tokenPrices: { USDC: 1 },
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return the price of every symbol", () => {
+    const { result } = renderHook(() =>
+      useTokenPrices(["ETH", "STRK", "USDC", "ABC"]),
+    );
+
+    expect(result.current).toEqual({
+      ETH: 2000,
+      STRK: 0.5,
+      USDC: 1,
+      ABC: 0,
+    });
+  });
+
+  it("should track the symbols with the price service", () => {
+    renderHook(() => useTokenPrices(["STRK", "USDC"]));
+
+    expect(priceService.trackTokenPrices).toHaveBeenCalledWith(
+      ["STRK", "USDC"],
+      useGlobalState.getState().setTokenPrice,
+    );
+  });
+
+  it("should not track anything without symbols", () => {
+    renderHook(() => useTokenPrices([]));
+
+    expect(priceService.trackTokenPrices).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+import { useProvider } from "@starknet-react/core";
+import { useAccount } from "~~/hooks/useAccount";
+import {
+  getTransactionHistoryKey,
+  useGlobalState,
+} from "~~/services/store/store";
+import { useTransactionHistory } from "../useTransactionHistory";
+
+vi.mock("@starknet-react/core", () => ({
+  useProvider: vi.fn(),
+}));
+
+vi.mock("~~/hooks/useAccount", () => ({
+  useAccount: vi.fn(),
+}));
+
+vi.mock("../useTargetNetwork", () => ({
+  useTargetNetwork: () => ({ targetNetwork: { network: "sepolia" } }),
+}));
+
+const mockAddress =
+  "0x064b48806902a367c8598f4f95c305e8c1a1acba5f082d294a43793113115691";
+const key = getTransactionHistoryKey("sepolia", mockAddress);
+
+describe("useTransactionHistory", () => {
+  const waitForTransaction = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useAccount as Mock).mockReturnValue({ address: mockAddress });
+    (useProvider as Mock).mockReturnValue({
+      provider: { waitForTransaction },
+    });
+    useGlobalState.setState({
+      transactions: {
+        [key]: [
+          {
+            hash: "0xpending",
+            status: "pending",
+            description: "approve, fund_to_contract",
+            submittedAt: 2,
+          },
+          {
+            hash: "0xaccepted",
+            status: "accepted",
+            description: "withdraw_funds",
+            submittedAt: 1,
+          },
+        ],
+      },
+    });
+  });
+
+  it("should return the history of the connected account", () => {
+    waitForTransaction.mockReturnValue(new Promise(() => {}));
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    expect(result.current.transactions.map((tx) => tx.hash)).toEqual([
+      "0xpending",
+      "0xaccepted",
+    ]);
+  });
+
+  it("should re-check unsettled transactions on load", async () => {
+    waitForTransaction.mockResolvedValue({
+      execution_status: "REVERTED",
+      finality_status: "ACCEPTED_ON_L2",
+      revert_reason:
+        "Execution failed. Failure reason: 0x43616e6e6f7420776974686472617721 ('Cannot withdraw!').",
+    });
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    expect(waitForTransaction).toHaveBeenCalledTimes(1);
+    expect(waitForTransaction).toHaveBeenCalledWith(
+      "0xpending",
+      expect.any(Object),
+    );
+    await waitFor(() =>
+      expect(result.current.transactions[0]).toMatchObject({
+        status: "reverted",
+        revertReason: "Cannot withdraw!",
+      }),
+    );
+  });
+
+  it("should record a rejected transaction apart from reverted ones", async () => {
+    waitForTransaction.mockRejectedValue(
+      Object.assign(new Error("REJECTED: REJECTED"), {
+        response: { finality_status: "REJECTED" },
+      }),
+    );
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    await waitFor(() =>
+      expect(result.current.transactions[0].status).toBe("rejected"),
+    );
+    expect(result.current.transactions[0].revertReason).toBeUndefined();
+  });
+
+  it("should record a reverted execution status as reverted", async () => {
+    waitForTransaction.mockRejectedValue(
+      Object.assign(new Error("REVERTED: ACCEPTED_ON_L2"), {
+        response: {
+          finality_status: "ACCEPTED_ON_L2",
+          execution_status: "REVERTED",
+          failure_reason:
+            "Execution failed. Failure reason: 0x43616e6e6f7420776974686472617721 ('Cannot withdraw!').",
+        },
+      }),
+    );
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    await waitFor(() =>
+      expect(result.current.transactions[0]).toMatchObject({
+        status: "reverted",
+        revertReason: "Cannot withdraw!",
+      }),
+    );
+  });
+
+  it("should leave the transaction pending when the node cannot be reached", async () => {
+    const error = Object.assign(new Error("Bad gateway"), {
+      response: { status: 502 },
+    });
+    waitForTransaction.mockRejectedValue(error);
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    await waitFor(() => expect(waitForTransaction).toHaveBeenCalledTimes(1));
+    // Let the rejected wait settle before reading the store
+    await waitForTransaction.mock.results[0].value.catch(() => undefined);
+    expect(result.current.transactions[0].status).toBe("pending");
+  });
+
+  it("should be empty without a connected account", () => {
+    (useAccount as Mock).mockReturnValue({ address: undefined });
+
+    const { result } = renderHook(() => useTransactionHistory());
+
+    expect(result.current.transactions).toEqual([]);
+    expect(waitForTransaction).not.toHaveBeenCalled();
+  });
+});
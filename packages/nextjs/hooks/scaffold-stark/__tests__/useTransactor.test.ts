@@ -6,6 +6,13 @@ import { useTargetNetwork } from "../useTargetNetwork";
 import { notification } from "~~/utils/scaffold-stark";
 import { AccountInterface } from "starknet";
 import { getBlockExplorerTxLink } from "~~/utils/scaffold-stark";
+import {
+  getTransactionHistoryKey,
+  useGlobalState,
+} from "~~/services/store/store";
+
+const mockAddress =
+  "0x064b48806902a367c8598f4f95c305e8c1a1acba5f082d294a43793113115691";
 
 vi.mock("~~/utils/scaffold-stark", () => ({
   notification: {
@@ -18,14 +25,7 @@ vi.mock("~~/utils/scaffold-stark", () => ({
 }));
 
 vi.mock("~~/hooks/useAccount", () => ({
-  useAccount: vi.fn(() => ({
-    account: {
-      getChainId: vi.fn().mockResolvedValue("mock-network-id"),
-      execute: vi.fn(),
-    },
-    address: "mock-address",
-    status: "connected",
-  })),
+  useAccount: vi.fn(),
 }));
 
 vi.mock("../useTargetNetwork", () => ({
@@ -39,13 +39,17 @@ describe("useTransactor", () => {
 
   beforeEach(() => {
     walletClientMock = {
-      address: "mock-address",
+      address: mockAddress,
       getChainId: vi.fn().mockResolvedValue("mock-chain-id"),
       execute: vi.fn().mockResolvedValue({ transaction_hash: "mock-tx-hash" }),
+      waitForTransaction: vi.fn().mockResolvedValue({
+        execution_status: "SUCCEEDED",
+        finality_status: "ACCEPTED_ON_L2",
+      }),
     };
     (useAccount as Mock).mockReturnValue({
       account: walletClientMock,
-      address: "mock-address",
+      address: mockAddress,
       status: "connected",
     });
 
@@ -183,4 +187,124 @@ describe("useTransactor", () => {
       "Incorrect transaction passed to transactor",
     );
   });
+
+  it("should report status changes until the transaction is accepted", async () => {
+    const onStatusChange = vi.fn();
+    const { result } = renderHook(() =>
+      useTransactor(walletClientMock as AccountInterface),
+    );
+
+    await act(async () => {
+      await result.current(() => Promise.resolve("mock-tx-hash"), {
+        onStatusChange,
+      });
+    });
+
+    expect(walletClientMock.waitForTransaction).toHaveBeenCalledWith(
+      "mock-tx-hash",
+      expect.objectContaining({
+        successStates: expect.arrayContaining(["ACCEPTED_ON_L2"]),
+      }),
+    );
+    expect(onStatusChange.mock.calls.map(([status]) => status)).toEqual([
+      { status: "submitted", transactionHash: "mock-tx-hash" },
+      { status: "pending", transactionHash: "mock-tx-hash" },
+      { status: "accepted", transactionHash: "mock-tx-hash" },
+    ]);
+  });
+
+  it("should decode the revert reason of a reverted transaction", async () => {
+    (walletClientMock.waitForTransaction as Mock).mockResolvedValue({
+      execution_status: "REVERTED",
+      finality_status: "ACCEPTED_ON_L2",
+      revert_reason:
+        "Execution failed. Failure reason: 0x43616e6e6f7420776974686472617721 ('Cannot withdraw!').",
+    });
+    const onStatusChange = vi.fn();
+    const { result } = renderHook(() =>
+      useTransactor(walletClientMock as AccountInterface),
+    );
+
+    await expect(
+      result.current(() => Promise.resolve("mock-tx-hash"), {
+        onStatusChange,
+      }),
+    ).rejects.toThrow("Cannot withdraw!");
+
+    expect(onStatusChange).toHaveBeenLastCalledWith({
+      status: "reverted",
+      transactionHash: "mock-tx-hash",
+      revertReason: "Cannot withdraw!",
+    });
+    expect(notification.success).not.toHaveBeenCalled();
+    expect(notification.error).toHaveBeenCalledWith("Cannot withdraw!");
+  });
+
+  it("should report a transaction that fails after submission as rejected", async () => {
+    const mockError = new Error("Transaction status is REJECTED");
+    (walletClientMock.waitForTransaction as Mock).mockRejectedValue(mockError);
+    const onStatusChange = vi.fn();
+    const { result } = renderHook(() =>
+      useTransactor(walletClientMock as AccountInterface),
+    );
+
+    await expect(
+      result.current(() => Promise.resolve("mock-rejected-hash"), {
+        onStatusChange,
+      }),
+    ).rejects.toThrow(mockError);
+
+    expect(onStatusChange).toHaveBeenLastCalledWith({
+      status: "rejected",
+      transactionHash: "mock-rejected-hash",
+      revertReason: "Transaction status is REJECTED",
+      error: mockError,
+    });
+    const history =
+      useGlobalState.getState().transactions[
+        getTransactionHistoryKey("mock-network", mockAddress)
+      ];
+    expect(history[0]).toMatchObject({
+      hash: "mock-rejected-hash",
+      status: "rejected",
+    });
+  });
+
+  it("should not report a status when the wallet rejects before submission", async () => {
+    const onStatusChange = vi.fn();
+    const { result } = renderHook(() =>
+      useTransactor(walletClientMock as AccountInterface),
+    );
+
+    await expect(
+      result.current(() => Promise.reject<string>("User abort"), {
+        onStatusChange,
+      }),
+    ).rejects.toBe("User abort");
+
+    expect(onStatusChange).not.toHaveBeenCalled();
+    expect(notification.error).toHaveBeenCalledWith("User abort");
+  });
+
+  it("should record the transaction in the account history", async () => {
+    const { result } = renderHook(() =>
+      useTransactor(walletClientMock as AccountInterface),
+    );
+
+    await act(async () => {
+      await result.current(() => Promise.resolve("mock-recorded-hash"), {
+        description: "withdraw_funds",
+      });
+    });
+
+    const history =
+      useGlobalState.getState().transactions[
+        getTransactionHistoryKey("mock-network", mockAddress)
+      ];
+    expect(history[0]).toMatchObject({
+      hash: "mock-recorded-hash",
+      description: "withdraw_funds",
+      status: "accepted",
+    });
+  });
 });
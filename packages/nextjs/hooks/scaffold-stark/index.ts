@@ -7,6 +7,15 @@ export * from "./useAutoConnect";
 export * from "./useSwitchNetwork";
 export * from "./useScaffoldReadContract";
 export * from "./useScaffoldWriteContract";
+export * from "./useScaffoldReadContractAt";
+export * from "./useScaffoldWriteContractAt";
 export * from "./useScaffoldStrkBalance";
 export * from "./useScaffoldContract";
 export * from "./useScaffoldEventHistory";
+export * from "./useCrowdfundingDonate";
+export * from "./useErc20Token";
+export * from "./useTransactionHistory";
+export * from "./useCampaignMetadata";
+export * from "./useErc20Tokens";
+export * from "./useTokenPrices";
+export * from "./useHistoricalPrices";
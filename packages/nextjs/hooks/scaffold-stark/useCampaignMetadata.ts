@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useScaffoldReadContractAt } from "./useScaffoldReadContractAt";
+import {
+  CampaignMetadata,
+  hashCampaignMetadata,
+  toContentHash,
+  validateCampaignMetadata,
+} from "~~/services/metadata/campaignMetadata";
+
+/**
+ * Fetches a metadata document from the metadata API and checks it against the expected content hash.
+ * @throws if the document is missing, does not match the schema or does not hash to `contentHash`
+ */
+export const fetchCampaignMetadata = async (
+  contentHash: string,
+  fetcher: typeof fetch = fetch,
+): Promise<CampaignMetadata> => {
+  const response = await fetcher(`/api/metadata/${contentHash}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load campaign metadata (${response.status})`);
+  }
+
+  const validation = validateCampaignMetadata(await response.json());
+  if (!validation.success) {
+    throw new Error(`Invalid campaign metadata: ${validation.errors[0]}`);
+  }
+
+  const actualHash = await hashCampaignMetadata(validation.data);
+  if (actualHash !== contentHash) {
+    throw new Error("Campaign metadata does not match the on-chain hash");
+  }
+  return validation.data;
+};
+
+/**
+ * Loads the off-chain metadata of a campaign and verifies it against `get_metadata_hash`.
+ * `metadata` is only set once the document hashes to the on-chain value.
+ * @param address - campaign contract address
+ */
+export const useCampaignMetadata = (address?: string) => {
+  const { data: metadataHash, isLoading: isLoadingHash } =
+    useScaffoldReadContractAt({
+      abiName: "crowdfunding",
+      address,
+      functionName: "get_metadata_hash",
+    });
+
+  const contentHash = toContentHash(
+    metadataHash !== undefined ? BigInt(metadataHash.toString()) : undefined,
+  );
+
+  const [metadata, setMetadata] = useState<CampaignMetadata>();
+  const [error, setError] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    setMetadata(undefined);
+    setError(null);
+    if (!contentHash) return;
+
+    let cancelled = false;
+    setIsFetching(true);
+    fetchCampaignMetadata(contentHash)
+      .then((document) => {
+        if (!cancelled) setMetadata(document);
+      })
+      .catch((e) => {
+        console.error("⚡️ ~ file: useCampaignMetadata.ts ~ error", e);
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => {
+        if (!cancelled) setIsFetching(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentHash]);
+
+  return {
+    metadata,
+    metadataHash: contentHash,
+    isLoading: isLoadingHash || isFetching,
+    isVerified: metadata !== undefined,
+    error,
+  };
+};
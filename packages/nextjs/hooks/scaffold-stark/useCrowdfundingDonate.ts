@@ -0,0 +1,205 @@
+import { useCallback } from "react";
+import { Call, CallData, cairo } from "starknet";
+import { useAccount } from "~~/hooks/useAccount";
+import { useScaffoldMultiWriteContract } from "./useScaffoldMultiWriteContract";
+import { useErc20Token } from "./useErc20Token";
+
+export type DonateFailureReason =
+  | "wallet-not-connected"
+  | "contract-not-deployed"
+  | "invalid-amount"
+  | "insufficient-balance"
+  | "token-read-failed"
+  | "transaction-failed";
+
+export type DonateResult =
+  | {
+      status: "submitted";
+      transactionHash: string;
+      amount: bigint;
+      // whether an `approve` call was prepended to the multicall
+      approved: boolean;
+    }
+  | {
+      status: "failed";
+      reason: DonateFailureReason;
+      message: string;
+    };
+
+/**
+ * Builds the donation multicall: an ERC20 `approve` for the campaign
+ * (skipped when the current allowance already covers the amount) followed by `fund_to_contract`,
+ * or `fund_with_token` for tokens other than the campaign's primary token.
+ * Both token and campaign are resolved at runtime, so the calls are sent raw.
+ */
+export const buildDonationCalls = ({
+  tokenAddress,
+  campaignAddress,
+  amount,
+  allowance,
+  fundWithToken = false,
+}: {
+  tokenAddress: string;
+  campaignAddress: string;
+  amount: bigint;
+  allowance: bigint;
+  fundWithToken?: boolean;
+}): Call[] => {
+  const fundCall: Call = fundWithToken
+    ? {
+        contractAddress: campaignAddress,
+        entrypoint: "fund_with_token",
+        calldata: CallData.compile({
+          token: tokenAddress,
+          amount: cairo.uint256(amount),
+        }),
+      }
+    : {
+        contractAddress: campaignAddress,
+        entrypoint: "fund_to_contract",
+        calldata: CallData.compile({ amount: cairo.uint256(amount) }),
+      };
+  if (allowance >= amount) {
+    return [fundCall];
+  }
+  const approveCall: Call = {
+    contractAddress: tokenAddress,
+    entrypoint: "approve",
+    calldata: CallData.compile({
+      spender: campaignAddress,
+      amount: cairo.uint256(amount),
+    }),
+  };
+  return [approveCall, fundCall];
+};
+
+/**
+ * Donates to a crowdfunding campaign in a single transaction.
+ * Balance and allowance are read right before sending so the multicall never fails on a stale value.
+ * @param config.campaignAddress - address of the crowdfunding campaign
+ * @param config.tokenAddress - address of the ERC20 to donate, see `get_accepted_tokens`
+ * @param config.fundWithToken - donate through `fund_with_token`, needed for tokens other than `get_token_address`
+ * @returns donate function resolving to a typed result, plus the underlying send transaction state
+ */
+export const useCrowdfundingDonate = ({
+  campaignAddress,
+  tokenAddress,
+  fundWithToken = false,
+}: {
+  campaignAddress?: string;
+  tokenAddress?: string;
+  fundWithToken?: boolean;
+}) => {
+  const { address } = useAccount();
+  const { refetchBalance, refetchAllowance } = useErc20Token({
+    address: tokenAddress,
+    owner: address,
+    spender: campaignAddress,
+  });
+
+  const { sendAsync, ...sendTransactionInstance } =
+    useScaffoldMultiWriteContract({ calls: [] });
+
+  const donate = useCallback(
+    async (amount: bigint): Promise<DonateResult> => {
+      if (!address) {
+        return {
+          status: "failed",
+          reason: "wallet-not-connected",
+          message: "Please connect your wallet first",
+        };
+      }
+      if (!campaignAddress || !tokenAddress) {
+        return {
+          status: "failed",
+          reason: "contract-not-deployed",
+          message: "Contract not deployed",
+        };
+      }
+      if (amount <= 0n) {
+        return {
+          status: "failed",
+          reason: "invalid-amount",
+          message: "Amount must be greater than 0",
+        };
+      }
+
+      const [balanceRead, allowanceRead] = await Promise.all([
+        refetchBalance(),
+        refetchAllowance(),
+      ]);
+      // A failed read is not a zero balance or allowance, nothing is sent without both
+      if (balanceRead.data === undefined || allowanceRead.data === undefined) {
+        const readError = balanceRead.error ?? allowanceRead.error;
+        console.error(
+          "⚡️ ~ file: useCrowdfundingDonate.ts ~ error",
+          readError,
+        );
+        return {
+          status: "failed",
+          reason: "token-read-failed",
+          message: readError?.message
+            ? `Could not read your token balance: ${readError.message}`
+            : "Could not read your token balance",
+        };
+      }
+      const balance = BigInt(balanceRead.data.toString());
+      const allowance = BigInt(allowanceRead.data.toString());
+
+      if (balance < amount) {
+        return {
+          status: "failed",
+          reason: "insufficient-balance",
+          message: "Insufficient balance",
+        };
+      }
+
+      const calls = buildDonationCalls({
+        tokenAddress,
+        campaignAddress,
+        amount,
+        allowance,
+        fundWithToken,
+      });
+
+      try {
+        const transactionHash = await sendAsync({ calls });
+        if (!transactionHash) {
+          return {
+            status: "failed",
+            reason: "transaction-failed",
+            message: "Transaction was not submitted",
+          };
+        }
+        return {
+          status: "submitted",
+          transactionHash,
+          amount,
+          approved: calls.length > 1,
+        };
+      } catch (error) {
+        console.error("⚡️ ~ file: useCrowdfundingDonate.ts ~ error", error);
+        return {
+          status: "failed",
+          reason: "transaction-failed",
+          message:
+            error instanceof Error ? error.message : "Transaction failed",
+        };
+      }
+    },
+    [
+      address,
+      campaignAddress,
+      tokenAddress,
+      fundWithToken,
+      refetchBalance,
+      refetchAllowance,
+      sendAsync,
+    ],
+  );
+
+  return {
+    ...sendTransactionInstance,
+    donate,
+  };
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useProvider, useReadContract } from "@starknet-react/core";
+import { BlockNumber } from "starknet";
+import { universalErc20Abi } from "~~/utils/Constants";
+import { decodeSymbolResult } from "./useErc20Tokens";
+
+type UseErc20TokenProps = {
+  address?: string;
+  owner?: string;
+  spender?: string;
+};
+
+/**
+ * Resolves metadata and account state of any ERC20 by address.
+ * Does not rely on `predeployedContracts` so it works for whatever token a campaign is reset to.
+ * @param config.address - token contract address, all reads are disabled while undefined
+ * @param config.owner - account whose balance and allowance are read
+ * @param config.spender - spender for the allowance read, e.g. the crowdfunding contract
+ */
+export const useErc20Token = ({
+  address,
+  owner,
+  spender,
+}: UseErc20TokenProps) => {
+  const tokenAddress = address as `0x${string}` | undefined;
+  const { provider } = useProvider();
+
+  // `symbol` is a felt252 or a ByteArray depending on the token, so it is read raw
+  const [symbol, setSymbol] = useState<{ address: string; value?: string }>();
+  useEffect(() => {
+    if (!tokenAddress) return;
+    let cancelled = false;
+    provider
+      .callContract({ contractAddress: tokenAddress, entrypoint: "symbol" })
+      .then((result) => decodeSymbolResult(result))
+      .catch((e) => {
+        console.error("⚡️ ~ file: useErc20Token.ts ~ error", e);
+        return undefined;
+      })
+      .then((value) => {
+        if (!cancelled) setSymbol({ address: tokenAddress, value });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenAddress, provider]);
+  const isLoadingSymbol = symbol?.address !== tokenAddress;
+
+  const { data: decimals, isLoading: isLoadingDecimals } = useReadContract({
+    functionName: "decimals",
+    address: tokenAddress,
+    abi: universalErc20Abi,
+    enabled: !!tokenAddress,
+    args: [],
+    blockIdentifier: "pending" as BlockNumber,
+  });
+
+  const { data: balance, refetch: refetchBalance } = useReadContract({
+    functionName: "balance_of",
+    address: tokenAddress,
+    abi: universalErc20Abi,
+    watch: true,
+    enabled: !!tokenAddress && !!owner,
+    args: owner ? [owner] : [],
+    blockIdentifier: "pending" as BlockNumber,
+  });
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    functionName: "allowance",
+    address: tokenAddress,
+    abi: universalErc20Abi,
+    watch: true,
+    enabled: !!tokenAddress && !!owner && !!spender,
+    args: owner && spender ? [owner, spender] : [],
+    blockIdentifier: "pending" as BlockNumber,
+  });
+
+  return {
+    address: tokenAddress,
+    symbol: isLoadingSymbol ? undefined : symbol?.value,
+    decimals: decimals !== undefined ? Number(decimals) : undefined,
+    balance: balance !== undefined ? BigInt(balance.toString()) : undefined,
+    allowance:
+      allowance !== undefined ? BigInt(allowance.toString()) : undefined,
+    isLoading: !!tokenAddress && (isLoadingSymbol || isLoadingDecimals),
+    refetchBalance,
+    refetchAllowance,
+  };
+};
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useProvider } from "@starknet-react/core";
+import { ProviderInterface, byteArray, shortString, uint256 } from "starknet";
+import { feltToHex } from "~~/utils/scaffold-stark/common";
+
+export type Erc20TokenInfo = {
+  address: string;
+  symbol?: string;
+  decimals?: number;
+};
+
+/**
+ * Decodes the felt252 `symbol()` of an ERC20 into a readable string.
+ */
+export const decodeTokenSymbol = (symbol: unknown): string | undefined => {
+  if (symbol === undefined || symbol === null) return undefined;
+  try {
+    return shortString.decodeShortString(feltToHex(BigInt(symbol.toString())));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Decodes a raw `symbol()` result, a felt252 short string or a ByteArray depending on the token.
+ */
+export const decodeSymbolResult = (result: string[]): string | undefined => {
+  if (result.length === 1) return decodeTokenSymbol(result[0]);
+  // ByteArray: number of full words, the words, then the pending word and its length
+  const wordCount = Number(result[0]);
+  return byteArray.stringFromByteArray({
+    data: result.slice(1, 1 + wordCount),
+    pending_word: result[1 + wordCount],
+    pending_word_len: Number(result[2 + wordCount]),
+  });
+};
+
+/**
+ * Reads `symbol` and `decimals` of a token with raw calls, so no ABI is needed.
+ */
+export const fetchErc20TokenInfo = async (
+  provider: ProviderInterface,
+  address: string,
+): Promise<Erc20TokenInfo> => {
+  const [symbol, decimals] = await Promise.all([
+    provider.callContract({ contractAddress: address, entrypoint: "symbol" }),
+    provider.callContract({ contractAddress: address, entrypoint: "decimals" }),
+  ]);
+  return {
+    address,
+    symbol: decodeSymbolResult(symbol)?.toUpperCase(),
+    decimals: Number(BigInt(decimals[0])),
+  };
+};
+
+/**
+ * Reads the `balance_of` an account with a raw call, so no ABI is needed.
+ */
+export const fetchErc20Balance = async (
+  provider: ProviderInterface,
+  address: string,
+  account: string,
+): Promise<bigint> => {
+  const [low, high] = await provider.callContract({
+    contractAddress: address,
+    entrypoint: "balance_of",
+    calldata: [account],
+  });
+  return uint256.uint256ToBN({ low, high });
+};
+
+/**
+ * Resolves symbol and decimals of a list of ERC20s, e.g. the tokens a campaign accepts.
+ * Unlike useErc20Token the number of tokens can change between renders.
+ * @param addresses - token addresses, as hex
+ * @returns token info by address, tokens that failed to load only have their address
+ */
+export const useErc20Tokens = (addresses: string[]) => {
+  const { provider } = useProvider();
+  const [tokens, setTokens] = useState<Record<string, Erc20TokenInfo>>({});
+  const addressesKey = addresses.join(",");
+
+  useEffect(() => {
+    if (!addressesKey) return;
+    let cancelled = false;
+    Promise.all(
+      addressesKey.split(",").map((address) =>
+        fetchErc20TokenInfo(provider, address).catch((e) => {
+          console.error("⚡️ ~ file: useErc20Tokens.ts ~ error", e);
+          return { address };
+        }),
+      ),
+    ).then((infos) => {
+      if (cancelled) return;
+      setTokens(Object.fromEntries(infos.map((info) => [info.address, info])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [addressesKey, provider]);
+
+  return tokens;
+};
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { priceService } from "~~/services/web3/PriceService";
+
+export type HistoricalPriceRequest = {
+  symbol: string;
+  // Block timestamp in seconds
+  timestamp: number;
+};
+
+export const getHistoricalPriceKey = ({
+  symbol,
+  timestamp,
+}: HistoricalPriceRequest) => `${symbol}@${timestamp}`;
+
+/**
+ * USD prices of tokens at past block timestamps, resolved from recorded price snapshots.
+ * @returns price by `getHistoricalPriceKey`, requests without a known price are left out
+ */
+export const useHistoricalPrices = (requests: HistoricalPriceRequest[]) => {
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const requestsKey = Array.from(new Set(requests.map(getHistoricalPriceKey)))
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!requestsKey) return;
+    let cancelled = false;
+
+    const timestampsBySymbol = new Map<string, number[]>();
+    requestsKey.split(",").forEach((key) => {
+      const [symbol, timestamp] = key.split("@");
+      timestampsBySymbol.set(symbol, [
+        ...(timestampsBySymbol.get(symbol) ?? []),
+        Number(timestamp),
+      ]);
+    });
+
+    Promise.all(
+      Array.from(timestampsBySymbol, async ([symbol, timestamps]) => {
+        const resolved = await priceService.getPricesAt(symbol, timestamps);
+        return Object.entries(resolved).map(([timestamp, price]) => [
+          getHistoricalPriceKey({ symbol, timestamp: Number(timestamp) }),
+          price,
+        ]);
+      }),
+    ).then((entries) => {
+      if (cancelled) return;
+      setPrices(Object.fromEntries(entries.flat()));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestsKey]);
+
+  return prices;
+};
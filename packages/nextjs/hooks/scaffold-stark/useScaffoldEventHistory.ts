@@ -1,11 +1,20 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useTargetNetwork } from "./useTargetNetwork";
 import { useInterval } from "usehooks-ts";
 import { useDeployedContractInfo } from "~~/hooks/scaffold-stark";
 import scaffoldConfig from "~~/scaffold.config";
 import { replacer } from "~~/utils/scaffold-stark/common";
+import {
+  deleteEventCache,
+  EventCacheSignature,
+  getEventCacheKey,
+  isEventCacheValid,
+  readEventCache,
+  writeEventCache,
+} from "~~/services/store/eventCache";
 import {
   Abi,
+  EventToPrimitiveType,
   ExtractAbiEvent,
   ExtractAbiEventNames,
 } from "abi-wan-kanabi/dist/kanabi";
@@ -19,10 +28,78 @@ import { useProvider } from "@starknet-react/core";
 import { hash, RpcProvider } from "starknet";
 import { events as starknetEvents, CallData } from "starknet";
 
+type EmittedEvent = Awaited<
+  ReturnType<RpcProvider["getEvents"]>
+>["events"][number];
+
+/**
+ * Reads every event in the block range, following continuation tokens until the last page
+ */
+const getAllEvents = async (
+  publicClient: RpcProvider,
+  filter: Omit<Parameters<RpcProvider["getEvents"]>[0], "continuation_token">,
+) => {
+  const logs: EmittedEvent[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const rawEventResp = await publicClient.getEvents({
+      ...filter,
+      continuation_token: continuationToken,
+    });
+    if (!rawEventResp) break;
+    logs.push(...rawEventResp.events);
+    continuationToken = rawEventResp.continuation_token;
+  } while (continuationToken);
+  return logs;
+};
+
+/**
+ * Splits [fromBlock, toBlock] into consecutive windows of at most blockRangeSize blocks
+ */
+const getBlockWindows = (
+  fromBlock: bigint,
+  toBlock: bigint,
+  blockRangeSize?: bigint,
+): [bigint, bigint][] => {
+  if (!blockRangeSize || blockRangeSize <= 0n) return [[fromBlock, toBlock]];
+  const windows: [bigint, bigint][] = [];
+  for (let start = fromBlock; start <= toBlock; start += blockRangeSize) {
+    const end = start + blockRangeSize - 1n;
+    windows.push([start, end < toBlock ? end : toBlock]);
+  }
+  return windows;
+};
+
+/**
+ * Maps items with at most `concurrency` calls in flight, keeping the input order
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+) => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  );
+  return results;
+};
+
 /**
  * Reads events from a deployed contract
  * @param config - The config settings
  * @param config.contractName - deployed contract name
+ * @param config.address - read events from this address using the ABI of contractName (default: the deployed address)
  * @param config.eventName - name of the event to listen for
  * @param config.fromBlock - the block number to start reading events from
  * @param config.filters - filters to be applied to the event (parameterName: value)
@@ -31,6 +108,11 @@ import { events as starknetEvents, CallData } from "starknet";
  * @param config.receiptData - if set to true it will return the receipt data for each event (default: false)
  * @param config.watch - if set to true, the events will be updated every pollingInterval milliseconds set at scaffoldConfig (default: false)
  * @param config.enabled - if set to false, disable the hook from running (default: true)
+ * @param config.chunkSize - number of events requested per page, pages are followed until the last one (default: 100)
+ * @param config.blockRangeSize - read the range in windows of this many blocks, progress is kept after each window (default: whole range)
+ * @param config.concurrency - maximum number of block/transaction/receipt requests in flight (default: 5)
+ * @param config.parseArgs - if set to false, events are returned without decoding their data into args (default: true)
+ * @param config.cache - if set to true, events and the last synced block are kept in IndexedDB and reads resume from there (default: true)
  */
 export const useScaffoldEventHistory = <
   TContractName extends ContractName,
@@ -40,6 +122,7 @@ export const useScaffoldEventHistory = <
   TReceiptData extends boolean = false,
 >({
   contractName,
+  address,
   eventName,
   fromBlock,
   filters,
@@ -48,6 +131,11 @@ export const useScaffoldEventHistory = <
   receiptData,
   watch,
   enabled = true,
+  chunkSize = 100,
+  blockRangeSize,
+  concurrency = 5,
+  parseArgs = true,
+  cache = true,
 }: UseScaffoldEventHistoryConfig<
   TContractName,
   TEventName,
@@ -55,13 +143,22 @@ export const useScaffoldEventHistory = <
   TTransactionData,
   TReceiptData
 >) => {
-  const [events, setEvents] = useState<any[]>();
+  const [events, setEventsState] = useState<any[]>();
+  // Mirrors events so paged reads can append to the latest value and persist it
+  const eventsRef = useRef<any[] | undefined>(undefined);
+  const setEvents = (newEvents: any[] | undefined) => {
+    eventsRef.current = newEvents;
+    setEventsState(newEvents);
+  };
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>();
   const [fromBlockUpdated, setFromBlockUpdated] = useState<bigint>(fromBlock);
+  // readEvents takes its own fromBlock, this is the one the history starts at
+  const initialFromBlock = fromBlock;
 
   const { data: deployedContractData, isLoading: deployedContractLoading } =
     useDeployedContractInfo(contractName);
+  const contractAddress = address ?? deployedContractData?.address;
   const { provider } = useProvider();
   const { targetNetwork } = useTargetNetwork();
 
@@ -71,8 +168,47 @@ export const useScaffoldEventHistory = <
     });
   }, [targetNetwork.rpcUrls.public.http]);
 
+  // Paged reads can span several polling intervals, only one runs at a time
+  const isReadingRef = useRef(false);
+
+  const cacheKey =
+    cache && contractAddress
+      ? getEventCacheKey(targetNetwork.network, contractAddress, eventName)
+      : undefined;
+  const cacheSignature: EventCacheSignature | undefined = deployedContractData
+    ? {
+        deployedAddress: deployedContractData.address,
+        classHash: String(deployedContractData.classHash),
+        fromBlock: fromBlock.toString(),
+        blockData: Boolean(blockData),
+        transactionData: Boolean(transactionData),
+        receiptData: Boolean(receiptData),
+      }
+    : undefined;
+  // The cache is restored once per key, later reads continue from the synced block
+  const restoredCacheKeyRef = useRef<string | undefined>(undefined);
+
+  const restoreCache = async (latestBlock: bigint) => {
+    if (!cacheKey || !cacheSignature) return undefined;
+    if (restoredCacheKeyRef.current === cacheKey) return undefined;
+    restoredCacheKeyRef.current = cacheKey;
+
+    const entry = await readEventCache(cacheKey);
+    if (!entry) return undefined;
+    if (!isEventCacheValid(entry, cacheSignature, latestBlock)) {
+      await deleteEventCache(cacheKey);
+      return undefined;
+    }
+    setEvents(entry.events);
+    setFromBlockUpdated(entry.lastSyncedBlock + 1n);
+    return entry;
+  };
+
   const readEvents = async (fromBlock?: bigint) => {
+    if (isReadingRef.current) return;
+    isReadingRef.current = true;
     setIsLoading(true);
+    let hasReadWindow = false;
     try {
       if (!deployedContractData) {
         throw new Error("Contract not found");
@@ -89,59 +225,102 @@ export const useScaffoldEventHistory = <
       const blockNumber = (await publicClient.getBlockLatestAccepted())
         .block_number;
 
+      let startBlock = fromBlock || fromBlockUpdated;
+      let replaceEvents =
+        !eventsRef.current || typeof fromBlock !== "undefined";
+      const cachedEntry = await restoreCache(BigInt(blockNumber));
+      if (cachedEntry) {
+        startBlock = cachedEntry.lastSyncedBlock + 1n;
+        replaceEvents = false;
+      }
+
+      // The chain was reset while watching, e.g. a restarted devnet, so the history is read again
       if (
-        (fromBlock && blockNumber >= fromBlock) ||
-        blockNumber >= fromBlockUpdated
+        startBlock > BigInt(blockNumber) + 1n &&
+        startBlock > initialFromBlock
       ) {
-        const rawEventResp = await publicClient.getEvents({
-          chunk_size: 100,
-          keys: [
-            [hash.getSelectorFromName(event.name.split("::").slice(-1)[0])],
-          ],
-          address: deployedContractData?.address,
-          from_block: { block_number: Number(fromBlock || fromBlockUpdated) },
-          to_block: { block_number: blockNumber },
-        });
-        if (!rawEventResp) {
-          return;
+        if (cacheKey) {
+          await deleteEventCache(cacheKey);
         }
-        const logs = rawEventResp.events;
-        setFromBlockUpdated(BigInt(blockNumber + 1));
-
-        const newEvents = [];
-        for (let i = logs.length - 1; i >= 0; i--) {
-          newEvents.push({
-            log: logs[i],
-            block:
-              blockData && logs[i].block_hash === null
-                ? null
-                : await publicClient.getBlockWithTxHashes(logs[i].block_hash),
-            transaction:
-              transactionData && logs[i].transaction_hash !== null
-                ? await publicClient.getTransactionByHash(
-                    logs[i].transaction_hash,
-                  )
-                : null,
-            receipt:
-              receiptData && logs[i].transaction_hash !== null
-                ? await publicClient.getTransactionReceipt(
-                    logs[i].transaction_hash,
-                  )
-                : null,
+        setEvents(undefined);
+        startBlock = initialFromBlock;
+        replaceEvents = true;
+      }
+
+      if (BigInt(blockNumber) >= startBlock) {
+        // Blocks are shared by events of the same block, fetch each one once per read
+        const blocks = new Map<string, Promise<any>>();
+        const getBlock = (blockHash: string) => {
+          if (!blocks.has(blockHash)) {
+            blocks.set(blockHash, publicClient.getBlockWithTxHashes(blockHash));
+          }
+          return blocks.get(blockHash);
+        };
+
+        const enrich = async (log: EmittedEvent) => ({
+          log,
+          block:
+            blockData && log.block_hash ? await getBlock(log.block_hash) : null,
+          transaction:
+            transactionData && log.transaction_hash !== null
+              ? await publicClient.getTransactionByHash(log.transaction_hash)
+              : null,
+          receipt:
+            receiptData && log.transaction_hash !== null
+              ? await publicClient.getTransactionReceipt(log.transaction_hash)
+              : null,
+        });
+
+        const windows = getBlockWindows(
+          startBlock,
+          BigInt(blockNumber),
+          blockRangeSize !== undefined ? BigInt(blockRangeSize) : undefined,
+        );
+        for (const [windowFrom, windowTo] of windows) {
+          const logs = await getAllEvents(publicClient, {
+            chunk_size: chunkSize,
+            keys: [
+              [hash.getSelectorFromName(event.name.split("::").slice(-1)[0])],
+            ],
+            address: contractAddress,
+            from_block: { block_number: Number(windowFrom) },
+            to_block: { block_number: Number(windowTo) },
           });
-        }
-        if (events && typeof fromBlock === "undefined") {
-          setEvents([...newEvents, ...events]);
-        } else {
-          setEvents(newEvents);
+
+          // Newest first, like the rest of the history
+          const newEvents = await mapWithConcurrency(
+            logs.reverse(),
+            concurrency,
+            enrich,
+          );
+
+          // Keep what was read so far, a failing window resumes from here on the next read
+          const updatedEvents = replaceEvents
+            ? newEvents
+            : [...newEvents, ...(eventsRef.current || [])];
+          setEvents(updatedEvents);
+          setFromBlockUpdated(windowTo + 1n);
+          if (cacheKey && cacheSignature) {
+            await writeEventCache({
+              key: cacheKey,
+              signature: cacheSignature,
+              lastSyncedBlock: windowTo,
+              events: updatedEvents,
+            });
+          }
+          replaceEvents = false;
+          hasReadWindow = true;
         }
         setError(undefined);
       }
     } catch (e: any) {
       console.error(e);
-      setEvents(undefined);
+      if (!hasReadWindow) {
+        setEvents(undefined);
+      }
       setError(e);
     } finally {
+      isReadingRef.current = false;
       setIsLoading(false);
     }
   };
@@ -161,7 +340,7 @@ export const useScaffoldEventHistory = <
     contractName,
     eventName,
     deployedContractLoading,
-    deployedContractData?.address,
+    contractAddress,
     deployedContractData,
     // eslint-disable-next-line react-hooks/exhaustive-deps
     JSON.stringify(filters, replacer),
@@ -171,11 +350,11 @@ export const useScaffoldEventHistory = <
   ]);
 
   useEffect(() => {
-    // Reset the internal state when target network or fromBlock changed
+    // Reset the internal state when target network, address or fromBlock changed
     setEvents([]);
     setFromBlockUpdated(fromBlock);
     setError(undefined);
-  }, [fromBlock, targetNetwork.id]);
+  }, [fromBlock, targetNetwork.id, contractAddress]);
 
   useInterval(
     async () => {
@@ -193,6 +372,9 @@ export const useScaffoldEventHistory = <
   const eventHistoryData = useMemo(() => {
     if (deployedContractData) {
       return (events || []).map((event) => {
+        if (!parseArgs) {
+          return { args: undefined, ...event };
+        }
         const logs = [JSON.parse(JSON.stringify(event.log))];
         const parsed = starknetEvents.parseEvents(
           logs,
@@ -202,13 +384,16 @@ export const useScaffoldEventHistory = <
         );
         const args = parsed.length ? parsed[0][eventName] : {};
         return {
-          args,
+          args: args as EventToPrimitiveType<
+            ContractAbi<TContractName>,
+            TEventName
+          >,
           ...event,
         };
       });
     }
     return [];
-  }, [deployedContractData, events, eventName]);
+  }, [deployedContractData, events, eventName, parseArgs]);
 
   return {
     data: eventHistoryData,
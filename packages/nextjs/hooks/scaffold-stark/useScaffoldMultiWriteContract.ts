@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useTargetNetwork } from "./useTargetNetwork";
 import {
   Contract,
@@ -15,7 +16,7 @@ import {
   Call,
 } from "starknet";
 import { notification } from "~~/utils/scaffold-stark";
-import { useTransactor } from "./useTransactor";
+import { TransactorStatus, useTransactor } from "./useTransactor";
 
 function isRawCall(value: Call | any): value is Call {
   return "entrypoint" in value;
@@ -40,12 +41,20 @@ export const useScaffoldMultiWriteContract = <
   const { targetNetwork } = useTargetNetwork();
   const { chain } = useNetwork();
   const sendTxnWrapper = useTransactor();
+  const [txStatus, setTxStatus] = useState<TransactorStatus>();
 
   // TODO add custom options
 
   const sendTransactionInstance = useSendTransaction({});
 
-  const sendContractWriteTx = async () => {
+  const sendContractWriteTx = async (params?: {
+    calls?: Array<
+      UseScaffoldWriteConfig<TAbi, TContractName, TFunctionName> | Call
+    >;
+  }) => {
+    // if no calls supplied, use the ones supplied from hook
+    const callsToSend = params?.calls ?? calls;
+
     if (!chain?.id) {
       console.error("Please connect your wallet");
       return;
@@ -60,8 +69,8 @@ export const useScaffoldMultiWriteContract = <
         // we just parse calldata here so that it will only parse on demand.
         // use IIFE pattern
         const parsedCalls = (() => {
-          if (calls) {
-            return calls.map((call) => {
+          if (callsToSend) {
+            return callsToSend.map((call) => {
               if (isRawCall(call)) {
                 return call;
               }
@@ -88,8 +97,12 @@ export const useScaffoldMultiWriteContract = <
         })();
 
         // setIsMining(true);
-        return await sendTxnWrapper(() =>
-          sendTransactionInstance.sendAsync(parsedCalls),
+        return await sendTxnWrapper(
+          () => sendTransactionInstance.sendAsync(parsedCalls),
+          {
+            onStatusChange: setTxStatus,
+            description: parsedCalls.map((call) => call.entrypoint).join(", "),
+          },
         );
       } catch (e: any) {
         throw e;
@@ -105,6 +118,7 @@ export const useScaffoldMultiWriteContract = <
   return {
     ...sendTransactionInstance,
     sendAsync: sendContractWriteTx,
+    txStatus,
   };
 };
 
@@ -0,0 +1,48 @@
+import { Abi, useReadContract } from "@starknet-react/core";
+import { BlockNumber } from "starknet";
+import { useTargetNetwork } from "./useTargetNetwork";
+import {
+  AbiFunctionOutputs,
+  ContractAbi,
+  ContractName,
+  ExtractAbiFunctionNamesScaffold,
+  UseScaffoldReadContractAtConfig,
+  contracts,
+} from "~~/utils/scaffold-stark/contract";
+
+/**
+ * Reads from a contract at an explicit address using the ABI of a declared contract,
+ * e.g. a campaign created at runtime with the `crowdfunding` ABI.
+ */
+export const useScaffoldReadContractAt = <
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "view"
+  >,
+>({
+  abiName,
+  address,
+  functionName,
+  args,
+  ...readConfig
+}: UseScaffoldReadContractAtConfig<TAbi, TContractName, TFunctionName>) => {
+  const { targetNetwork } = useTargetNetwork();
+  const abi = contracts?.[targetNetwork.network]?.[abiName as string]?.abi;
+
+  return useReadContract({
+    functionName,
+    address: address as `0x${string}` | undefined,
+    abi,
+    watch: true,
+    args: args || [],
+    enabled:
+      !!address &&
+      (!args || !Array.isArray(args) || !args.some((arg) => arg === undefined)),
+    blockIdentifier: "pending" as BlockNumber,
+    ...(readConfig as any),
+  }) as Omit<ReturnType<typeof useReadContract>, "data"> & {
+    data: AbiFunctionOutputs<ContractAbi, TFunctionName> | undefined;
+  };
+};
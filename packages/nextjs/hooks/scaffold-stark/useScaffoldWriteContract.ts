@@ -1,5 +1,6 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { useTargetNetwork } from "./useTargetNetwork";
+import { TransactorStatus } from "./useTransactor";
 import {
   useDeployedContractInfo,
   useTransactor,
@@ -29,6 +30,7 @@ export const useScaffoldWriteContract = <
   const { data: deployedContractData } = useDeployedContractInfo(contractName);
   const { chain } = useNetwork();
   const sendTxnWrapper = useTransactor();
+  const [txStatus, setTxStatus] = useState<TransactorStatus>();
   const { targetNetwork } = useTargetNetwork();
 
   // leave blank for now since default args will be called by the trigger function anyway
@@ -72,8 +74,9 @@ export const useScaffoldWriteContract = <
       if (sendTransactionInstance.sendAsync) {
         try {
           // setIsMining(true);
-          return await sendTxnWrapper(() =>
-            sendTransactionInstance.sendAsync(newCalls as any[]),
+          return await sendTxnWrapper(
+            () => sendTransactionInstance.sendAsync(newCalls as any[]),
+            { onStatusChange: setTxStatus, description: functionName },
           );
         } catch (e: any) {
           throw e;
@@ -99,5 +102,6 @@ export const useScaffoldWriteContract = <
   return {
     ...sendTransactionInstance,
     sendAsync: sendContractWriteTx,
+    txStatus,
   };
 };
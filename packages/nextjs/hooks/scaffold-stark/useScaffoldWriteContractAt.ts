@@ -0,0 +1,107 @@
+import { useCallback, useState } from "react";
+import { useTargetNetwork } from "./useTargetNetwork";
+import { TransactorStatus } from "./useTransactor";
+import { useTransactor } from "~~/hooks/scaffold-stark";
+import {
+  ContractAbi,
+  ContractName,
+  ExtractAbiFunctionNamesScaffold,
+  UseScaffoldWriteContractAtConfig,
+  contracts,
+} from "~~/utils/scaffold-stark/contract";
+import { useSendTransaction, useNetwork, Abi } from "@starknet-react/core";
+import { notification } from "~~/utils/scaffold-stark";
+import { Contract as StarknetJsContract } from "starknet";
+
+/**
+ * Writes to a contract at an explicit address using the ABI of a declared contract,
+ * e.g. a campaign created at runtime with the `crowdfunding` ABI.
+ */
+export const useScaffoldWriteContractAt = <
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "external"
+  >,
+>({
+  abiName,
+  address,
+  functionName,
+  args,
+}: UseScaffoldWriteContractAtConfig<TAbi, TContractName, TFunctionName>) => {
+  const { chain } = useNetwork();
+  const sendTxnWrapper = useTransactor();
+  const [txStatus, setTxStatus] = useState<TransactorStatus>();
+  const { targetNetwork } = useTargetNetwork();
+  const abi = contracts?.[targetNetwork.network]?.[abiName as string]?.abi;
+
+  const sendTransactionInstance = useSendTransaction({});
+
+  const sendContractWriteTx = useCallback(
+    async (params?: {
+      args?: UseScaffoldWriteContractAtConfig<
+        TAbi,
+        TContractName,
+        TFunctionName
+      >["args"];
+    }) => {
+      // if no args supplied, use the one supplied from hook
+      let newArgs = params?.args;
+      if (Object.keys(newArgs || {}).length <= 0) {
+        newArgs = args;
+      }
+
+      if (!abi) {
+        console.error(
+          `ABI of ${String(abiName)} not found, did you forget to run \`yarn deploy\`?`,
+        );
+        return;
+      }
+      if (!address) {
+        console.error("Target contract address is missing");
+        return;
+      }
+      if (!chain?.id) {
+        console.error("Please connect your wallet");
+        return;
+      }
+      if (chain?.id !== targetNetwork.id) {
+        console.error("You are on the wrong network");
+        return;
+      }
+
+      const contractInstance = new StarknetJsContract(abi, address);
+      const newCalls = [
+        contractInstance.populate(functionName, newArgs as any[]),
+      ];
+
+      if (sendTransactionInstance.sendAsync) {
+        return await sendTxnWrapper(
+          () => sendTransactionInstance.sendAsync(newCalls as any[]),
+          { onStatusChange: setTxStatus, description: functionName },
+        );
+      } else {
+        notification.error("Contract writer error. Try again.");
+        return;
+      }
+    },
+    [
+      abi,
+      abiName,
+      address,
+      args,
+      chain?.id,
+      functionName,
+      sendTransactionInstance,
+      sendTxnWrapper,
+      targetNetwork.id,
+    ],
+  );
+
+  return {
+    ...sendTransactionInstance,
+    sendAsync: sendContractWriteTx,
+    txStatus,
+  };
+};
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { useGlobalState } from "~~/services/store/store";
+import { priceService } from "~~/services/web3/PriceService";
+
+/**
+ * USD prices of the given token symbols, polled by the price service.
+ * ETH and STRK reuse the prices polled by useNativeCurrencyPrice.
+ * @returns price by symbol, 0 while unknown
+ */
+export const useTokenPrices = (symbols: string[]): Record<string, number> => {
+  const nativeCurrencyPrice = useGlobalState(
+    (state) => state.nativeCurrencyPrice,
+  );
+  const strkCurrencyPrice = useGlobalState((state) => state.strkCurrencyPrice);
+  const tokenPrices = useGlobalState((state) => state.tokenPrices);
+  const setTokenPrice = useGlobalState((state) => state.setTokenPrice);
+  const symbolsKey = symbols.join(",");
+
+  useEffect(() => {
+    if (!symbolsKey) return;
+    priceService.trackTokenPrices(symbolsKey.split(","), setTokenPrice);
+  }, [symbolsKey, setTokenPrice]);
+
+  return Object.fromEntries(
+    symbols.map((symbol) => [
+      symbol,
+      symbol === "ETH"
+        ? nativeCurrencyPrice
+        : symbol === "STRK"
+          ? strkCurrencyPrice
+          : (tokenPrices[symbol] ?? 0),
+    ]),
+  );
+};
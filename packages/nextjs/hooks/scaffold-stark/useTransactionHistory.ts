@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { useProvider } from "@starknet-react/core";
+import { TransactionExecutionStatus, TransactionStatus } from "starknet";
+import { useAccount } from "~~/hooks/useAccount";
+import {
+  getTransactionHistoryKey,
+  TransactionRecord,
+  useGlobalState,
+} from "~~/services/store/store";
+import {
+  decodeRevertReason,
+  getReceiptRevertReason,
+} from "~~/utils/scaffold-stark/revertReason";
+import { useTargetNetwork } from "./useTargetNetwork";
+import { getTransactionWaitOptions } from "./useTransactor";
+
+const EMPTY_HISTORY: TransactionRecord[] = [];
+
+const isUnsettled = (transaction: TransactionRecord) =>
+  transaction.status === "submitted" || transaction.status === "pending";
+
+/**
+ * Reads the persisted transaction history of the connected account on the target network.
+ * Transactions left unsettled by a previous session (e.g. the tab was closed mid-transaction)
+ * are re-checked once when the history is loaded.
+ * @returns the most recent transactions first and a function clearing them
+ */
+export const useTransactionHistory = () => {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { provider } = useProvider();
+  const historyKey = address
+    ? getTransactionHistoryKey(targetNetwork.network, address)
+    : undefined;
+
+  const transactions = useGlobalState((state) =>
+    historyKey ? state.transactions[historyKey] : undefined,
+  );
+  const updateTransaction = useGlobalState((state) => state.updateTransaction);
+  const clearTransactions = useGlobalState((state) => state.clearTransactions);
+  const checkedKeyRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!historyKey || checkedKeyRef.current === historyKey) return;
+    checkedKeyRef.current = historyKey;
+
+    // Read once from the store, transactions sent from now on are followed by the transactor
+    const unsettled = (
+      useGlobalState.getState().transactions[historyKey] ?? []
+    ).filter(isUnsettled);
+
+    unsettled.forEach(async ({ hash }) => {
+      try {
+        const receipt = await provider.waitForTransaction(
+          hash,
+          getTransactionWaitOptions(),
+        );
+        const revertReason = getReceiptRevertReason(receipt);
+        updateTransaction(
+          historyKey,
+          hash,
+          revertReason !== undefined
+            ? { status: "reverted", revertReason }
+            : { status: "accepted" },
+        );
+      } catch (e: any) {
+        // The status is only attached when the wait ended in an error state, see getTransactionWaitOptions
+        console.error("⚡️ ~ file: useTransactionHistory.ts ~ error", e);
+        const txStatus = e?.response;
+        if (
+          txStatus?.execution_status === TransactionExecutionStatus.REVERTED
+        ) {
+          updateTransaction(historyKey, hash, {
+            status: "reverted",
+            revertReason: decodeRevertReason(
+              txStatus.failure_reason ?? "Transaction reverted",
+            ),
+          });
+        } else if (txStatus?.finality_status === TransactionStatus.REJECTED) {
+          updateTransaction(historyKey, hash, { status: "rejected" });
+        }
+        // Timeouts and node errors leave the transaction pending so it is checked again on the next load
+      }
+    });
+  }, [historyKey, provider, updateTransaction]);
+
+  return {
+    transactions: transactions ?? EMPTY_HISTORY,
+    clearTransactions: () => historyKey && clearTransactions(historyKey),
+  };
+};
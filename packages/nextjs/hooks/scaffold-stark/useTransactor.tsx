@@ -2,16 +2,67 @@ import { useAccount } from "~~/hooks/useAccount";
 import {
   AccountInterface,
   InvokeFunctionResponse,
-  RpcProvider,
+  TransactionFinalityStatus,
+  waitForTransactionOptions,
 } from "starknet";
 import { getBlockExplorerTxLink, notification } from "~~/utils/scaffold-stark";
+import {
+  decodeRevertReason,
+  getReceiptRevertReason,
+} from "~~/utils/scaffold-stark/revertReason";
+import {
+  getTransactionHistoryKey,
+  TransactionRecordStatus,
+  useGlobalState,
+} from "~~/services/store/store";
 import { useTargetNetwork } from "./useTargetNetwork";
 
+export type TransactorStatus = {
+  status: TransactionRecordStatus;
+  transactionHash: string;
+  revertReason?: string;
+  // What ended a rejected transaction, e.g. a REJECTED status, a timeout or an RPC error
+  error?: unknown;
+};
+
+export type TransactorOptions = {
+  onStatusChange?: (status: TransactorStatus) => void;
+  // Recorded with the transaction in the account's history, e.g. the called function names
+  description?: string;
+};
+
 type TransactionFunc = (
   tx: () => Promise<InvokeFunctionResponse> | Promise<string>,
+  options?: TransactorOptions,
   // | SendTransactionParameters,
 ) => Promise<string | undefined>;
 
+/**
+ * Polls until the transaction is included on L2.
+ * Reverted transactions are still included on L2, so they resolve the wait like accepted ones.
+ * Rejected transactions keep throwing through the default error states.
+ */
+export const getTransactionWaitOptions = (): waitForTransactionOptions => ({
+  retryInterval: 2000,
+  successStates: [
+    TransactionFinalityStatus.ACCEPTED_ON_L2,
+    TransactionFinalityStatus.ACCEPTED_ON_L1,
+  ],
+});
+
+/**
+ * Error thrown when a transaction was included on L2 but its execution reverted.
+ */
+export class TransactionRevertedError extends Error {
+  constructor(
+    public readonly transactionHash: string,
+    public readonly revertReason: string,
+  ) {
+    super(revertReason);
+    this.name = "TransactionRevertedError";
+  }
+}
+
 /**
  * Custom notification content for TXs.
  */
@@ -42,7 +93,9 @@ const TxnNotification = ({
 /**
  * Runs Transaction passed in to returned function showing UI feedback.
  * @param _walletClient - Optional wallet client to use. If not provided, will use the one from useWalletClient.
- * @returns function that takes in transaction function as callback, shows UI feedback for transaction and returns a promise of the transaction hash
+ * @returns function that takes in transaction function as callback, shows UI feedback for transaction and returns a promise of the transaction hash.
+ * The promise settles once the transaction is accepted on L2 and rejects with a {@link TransactionRevertedError} if it reverted.
+ * Pass `onStatusChange` to follow the transaction through submitted, pending, accepted, reverted or rejected.
  */
 export const useTransactor = (
   _walletClient?: AccountInterface,
@@ -50,17 +103,41 @@ export const useTransactor = (
   let walletClient = _walletClient;
   const { account, address, status } = useAccount();
   const { targetNetwork } = useTargetNetwork();
+  const addTransaction = useGlobalState((state) => state.addTransaction);
+  const updateTransaction = useGlobalState((state) => state.updateTransaction);
   if (walletClient === undefined && account) {
     walletClient = account;
   }
 
-  return async (tx) => {
+  return async (tx, options) => {
     if (!walletClient) {
       notification.error("Cannot access account");
       console.error("⚡️ ~ file: useTransactor.tsx ~ error");
       return;
     }
 
+    const historyKey = getTransactionHistoryKey(
+      targetNetwork.network,
+      walletClient.address,
+    );
+    // Every status change is mirrored into the persisted transaction history
+    const reportStatus = (txStatus: TransactorStatus) => {
+      if (txStatus.status === "submitted") {
+        addTransaction(historyKey, {
+          hash: txStatus.transactionHash,
+          status: txStatus.status,
+          description: options?.description,
+          submittedAt: Date.now(),
+        });
+      } else {
+        updateTransaction(historyKey, txStatus.transactionHash, {
+          status: txStatus.status,
+          revertReason: txStatus.revertReason,
+        });
+      }
+      options?.onStatusChange?.(txStatus);
+    };
+
     let notificationId = null;
     let transactionHash:
       | Awaited<InvokeFunctionResponse>["transaction_hash"]
@@ -85,6 +162,7 @@ export const useTransactor = (
       }
 
       notification.remove(notificationId);
+      reportStatus({ status: "submitted", transactionHash });
 
       const blockExplorerTxURL = networkId
         ? getBlockExplorerTxLink(targetNetwork.network, transactionHash)
@@ -96,8 +174,25 @@ export const useTransactor = (
           blockExplorerLink={blockExplorerTxURL}
         />,
       );
+      reportStatus({ status: "pending", transactionHash });
+
+      const receipt = await walletClient.waitForTransaction(
+        transactionHash,
+        getTransactionWaitOptions(),
+      );
+
+      const revertReason = getReceiptRevertReason(receipt);
+      if (revertReason !== undefined) {
+        reportStatus({
+          status: "reverted",
+          transactionHash,
+          revertReason,
+        });
+        throw new TransactionRevertedError(transactionHash, revertReason);
+      }
 
       notification.remove(notificationId);
+      reportStatus({ status: "accepted", transactionHash });
 
       notification.success(
         <TxnNotification
@@ -108,14 +203,37 @@ export const useTransactor = (
           icon: "🎉",
         },
       );
-    } catch (error: any) {
+    } catch (error: unknown) {
       if (notificationId) {
         notification.remove(notificationId);
       }
 
+      const errorMessage =
+        typeof error === "string"
+          ? error
+          : typeof error === "object" &&
+              error !== null &&
+              "message" in error &&
+              typeof error.message === "string"
+            ? error.message
+            : undefined;
       const errorPattern = /Contract (.*?)"}/;
-      const match = errorPattern.exec(error.message);
-      const message = match ? match[1] : error.message;
+      const match = errorMessage ? errorPattern.exec(errorMessage) : null;
+      const message = match
+        ? match[1]
+        : errorMessage !== undefined
+          ? decodeRevertReason(errorMessage)
+          : "Transaction failed";
+
+      // Reverted transactions are already reported, anything else after submission never made it into a block
+      if (transactionHash && !(error instanceof TransactionRevertedError)) {
+        reportStatus({
+          status: "rejected",
+          transactionHash,
+          revertReason: message,
+          error,
+        });
+      }
 
       console.error("⚡️ ~ file: useTransactor.ts ~ error", message);
 
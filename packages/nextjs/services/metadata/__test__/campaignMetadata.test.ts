@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  CampaignMetadata,
+  canonicalizeJson,
+  hashCampaignMetadata,
+  isContentHash,
+  toContentHash,
+  validateCampaignMetadata,
+} from "../campaignMetadata";
+
+const metadata: CampaignMetadata = {
+  version: 1,
+  category: "open-source",
+  images: ["https://example.org/cover.png", "ipfs://bafycover"],
+  links: [{ label: "Repository", url: "https://example.org/repo" }],
+  grantee: {
+    name: "Starknet Builders",
+    bio: "We build public goods.",
+    website: "https://example.org",
+  },
+};
+
+describe("Campaign metadata", () => {
+  describe("validateCampaignMetadata", () => {
+    it("should accept a valid document", () => {
+      const validation = validateCampaignMetadata(metadata);
+      expect(validation.success).toBe(true);
+      expect(validation.errors).toEqual([]);
+    });
+
+    it("should reject non objects", () => {
+      expect(validateCampaignMetadata(null)).toEqual({
+        success: false,
+        errors: ["metadata must be an object"],
+      });
+      expect(validateCampaignMetadata([]).success).toBe(false);
+    });
+
+    it("should report every invalid field", () => {
+      const validation = validateCampaignMetadata({
+        ...metadata,
+        version: 2,
+        category: "gaming",
+        images: ["javascript:alert(1)"],
+        links: [{ label: "", url: "http://insecure.example.org" }],
+        grantee: { name: "Builders", avatar: "data:image/png;base64,AA" },
+        extra: true,
+      });
+      expect(validation.success).toBe(false);
+      expect(validation.errors).toEqual(
+        expect.arrayContaining([
+          "unknown field extra",
+          "version must be 1",
+          expect.stringContaining("category must be one of"),
+          "images[0] must be an https:// or ipfs:// URI",
+          "links[0].label is required",
+          "links[0].url must be an https:// or ipfs:// URI",
+          "grantee.avatar must be an https:// or ipfs:// URI",
+        ]),
+      );
+    });
+
+    it("should limit the number of images", () => {
+      const validation = validateCampaignMetadata({
+        ...metadata,
+        images: Array(11).fill("https://example.org/image.png"),
+      });
+      expect(validation.errors).toContain(
+        "images must have at most 10 entries",
+      );
+    });
+  });
+
+  describe("canonicalizeJson", () => {
+    it("should sort object keys at every level", () => {
+      expect(
+        canonicalizeJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: 3 } }),
+      ).toBe('{"a":{"c":3,"d":[2,{"e":0,"f":1}]},"b":1}');
+    });
+  });
+
+  describe("hashCampaignMetadata", () => {
+    it("should hash the canonical JSON with SHA-256", async () => {
+      // sha256 of "{}" is 44136fa3...
+      expect(await hashCampaignMetadata({} as CampaignMetadata)).toBe(
+        "0x44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a",
+      );
+    });
+
+    it("should not depend on key order", async () => {
+      const reordered = {
+        grantee: { ...metadata.grantee },
+        links: metadata.links,
+        images: metadata.images,
+        category: metadata.category,
+        version: metadata.version,
+      } as CampaignMetadata;
+      expect(await hashCampaignMetadata(reordered)).toBe(
+        await hashCampaignMetadata(metadata),
+      );
+    });
+  });
+
+  describe("toContentHash", () => {
+    it("should pad on-chain u256 values to 64 hex digits", () => {
+      expect(toContentHash(0xabcn)).toBe(`0x${"abc".padStart(64, "0")}`);
+      expect(isContentHash(toContentHash(0xabcn)!)).toBe(true);
+    });
+
+    it("should treat zero and malformed values as no metadata", () => {
+      expect(toContentHash(0n)).toBeUndefined();
+      expect(toContentHash(undefined)).toBeUndefined();
+      expect(toContentHash("not a hash")).toBeUndefined();
+      expect(toContentHash(2n ** 256n)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { CampaignMetadata, hashCampaignMetadata } from "../campaignMetadata";
+import { readCampaignMetadata, storeCampaignMetadata } from "../metadataStore";
+
+const metadata: CampaignMetadata = {
+  version: 1,
+  category: "education",
+  images: [],
+  links: [],
+  grantee: { name: "School" },
+};
+
+describe("metadataStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "campaign-metadata-"));
+    process.env.CAMPAIGN_METADATA_DIR = directory;
+  });
+
+  afterEach(async () => {
+    delete process.env.CAMPAIGN_METADATA_DIR;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should store documents under their content hash", async () => {
+    const hash = await storeCampaignMetadata(metadata);
+
+    expect(hash).toBe(await hashCampaignMetadata(metadata));
+    expect(JSON.parse((await readCampaignMetadata(hash))!)).toEqual(metadata);
+  });
+
+  it("should keep the existing file when the same document is stored twice", async () => {
+    const hash = await storeCampaignMetadata(metadata);
+    expect(await storeCampaignMetadata(metadata)).toBe(hash);
+    expect(await fs.readdir(directory)).toEqual([`${hash}.json`]);
+  });
+
+  it("should return undefined for unknown hashes", async () => {
+    expect(await readCampaignMetadata(`0x${"0".repeat(64)}`)).toBeUndefined();
+  });
+
+  it("should reject malformed hashes", async () => {
+    await expect(readCampaignMetadata("../secrets")).rejects.toThrow(
+      "Invalid content hash",
+    );
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Campaign metadata: everything about a campaign that does not fit on chain.
+ * Documents are addressed by the SHA-256 of their canonical JSON, the contract only stores that hash
+ * (`get_metadata_hash`) so any copy of the document can be verified against it.
+ */
+
+export const CAMPAIGN_METADATA_VERSION = 1;
+
+export const CAMPAIGN_CATEGORIES = [
+  "community",
+  "education",
+  "environment",
+  "health",
+  "open-source",
+  "arts",
+  "other",
+] as const;
+
+export const MAX_METADATA_IMAGES = 10;
+export const MAX_METADATA_LINKS = 10;
+const MAX_TEXT_LENGTH = 200;
+const MAX_BIO_LENGTH = 2000;
+
+const CONTENT_HASH_REGEX = /^0x[0-9a-f]{64}$/;
+
+export type CampaignCategory = (typeof CAMPAIGN_CATEGORIES)[number];
+
+export type CampaignMetadataLink = {
+  label: string;
+  url: string;
+};
+
+export type GranteeProfile = {
+  name: string;
+  bio?: string;
+  avatar?: string;
+  website?: string;
+};
+
+export type CampaignMetadata = {
+  version: typeof CAMPAIGN_METADATA_VERSION;
+  category: CampaignCategory;
+  // https:// or ipfs:// image URIs, the first one is the cover
+  images: string[];
+  links: CampaignMetadataLink[];
+  grantee: GranteeProfile;
+};
+
+export type CampaignMetadataValidation =
+  | { success: true; data: CampaignMetadata; errors: [] }
+  | { success: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUri = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    return ["https:", "ipfs:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const checkText = (
+  errors: string[],
+  field: string,
+  value: unknown,
+  { required, maxLength }: { required: boolean; maxLength: number },
+) => {
+  if (value === undefined && !required) return;
+  if (typeof value !== "string" || (required && value.trim() === "")) {
+    errors.push(`${field} is required`);
+  } else if (value.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+  }
+};
+
+/**
+ * Validates an untrusted value against the campaign metadata schema.
+ * Unknown fields are rejected so the hashed document is exactly what the UI renders.
+ */
+export const validateCampaignMetadata = (
+  value: unknown,
+): CampaignMetadataValidation => {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { success: false, errors: ["metadata must be an object"] };
+  }
+
+  const allowedKeys = ["version", "category", "images", "links", "grantee"];
+  Object.keys(value)
+    .filter((key) => !allowedKeys.includes(key))
+    .forEach((key) => errors.push(`unknown field ${key}`));
+
+  if (value.version !== CAMPAIGN_METADATA_VERSION) {
+    errors.push(`version must be ${CAMPAIGN_METADATA_VERSION}`);
+  }
+
+  if (!CAMPAIGN_CATEGORIES.includes(value.category as CampaignCategory)) {
+    errors.push(`category must be one of ${CAMPAIGN_CATEGORIES.join(", ")}`);
+  }
+
+  if (!Array.isArray(value.images)) {
+    errors.push("images must be a list");
+  } else {
+    if (value.images.length > MAX_METADATA_IMAGES) {
+      errors.push(`images must have at most ${MAX_METADATA_IMAGES} entries`);
+    }
+    value.images.forEach((image, index) => {
+      if (!isUri(image)) {
+        errors.push(`images[${index}] must be an https:// or ipfs:// URI`);
+      }
+    });
+  }
+
+  if (!Array.isArray(value.links)) {
+    errors.push("links must be a list");
+  } else {
+    if (value.links.length > MAX_METADATA_LINKS) {
+      errors.push(`links must have at most ${MAX_METADATA_LINKS} entries`);
+    }
+    value.links.forEach((link, index) => {
+      if (!isRecord(link)) {
+        errors.push(`links[${index}] must be an object`);
+        return;
+      }
+      checkText(errors, `links[${index}].label`, link.label, {
+        required: true,
+        maxLength: MAX_TEXT_LENGTH,
+      });
+      if (!isUri(link.url)) {
+        errors.push(`links[${index}].url must be an https:// or ipfs:// URI`);
+      }
+    });
+  }
+
+  if (!isRecord(value.grantee)) {
+    errors.push("grantee must be an object");
+  } else {
+    const { name, bio, avatar, website } = value.grantee;
+    checkText(errors, "grantee.name", name, {
+      required: true,
+      maxLength: MAX_TEXT_LENGTH,
+    });
+    checkText(errors, "grantee.bio", bio, {
+      required: false,
+      maxLength: MAX_BIO_LENGTH,
+    });
+    if (avatar !== undefined && !isUri(avatar)) {
+      errors.push("grantee.avatar must be an https:// or ipfs:// URI");
+    }
+    if (website !== undefined && !isUri(website)) {
+      errors.push("grantee.website must be an https:// or ipfs:// URI");
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, data: value as CampaignMetadata, errors: [] };
+};
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal documents always hash the same.
+ */
+export const canonicalizeJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    isRecord(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((key) => [key, nested[key]]),
+        )
+      : nested,
+  );
+
+/**
+ * Computes the content hash of a metadata document: SHA-256 of its canonical JSON, as 0x-prefixed hex.
+ */
+export const hashCampaignMetadata = async (
+  metadata: CampaignMetadata,
+): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalizeJson(metadata)),
+  );
+  return `0x${Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")}`;
+};
+
+/**
+ * Normalizes a content hash, e.g. the u256 read from the contract, to 0x-prefixed 64 digit hex.
+ * @returns `undefined` for zero (no metadata) or malformed hashes
+ */
+export const toContentHash = (
+  hash: bigint | string | undefined,
+): string | undefined => {
+  if (hash === undefined || hash === "") return undefined;
+  try {
+    const value = BigInt(hash);
+    if (value <= 0n || value >= 2n ** 256n) return undefined;
+    return `0x${value.toString(16).padStart(64, "0")}`;
+  } catch {
+    return undefined;
+  }
+};
+
+export const isContentHash = (value: string) => CONTENT_HASH_REGEX.test(value);
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  CampaignMetadata,
+  canonicalizeJson,
+  hashCampaignMetadata,
+  isContentHash,
+} from "./campaignMetadata";
+
+/**
+ * Server-side, content-addressed store of campaign metadata documents on the local filesystem.
+ * Each document is written once as `<hash>.json`, its content never changes for a given hash.
+ */
+
+export const getMetadataDirectory = () =>
+  process.env.CAMPAIGN_METADATA_DIR ??
+  path.join(process.cwd(), ".campaign-metadata");
+
+const getMetadataPath = (hash: string) =>
+  path.join(getMetadataDirectory(), `${hash}.json`);
+
+/**
+ * Stores a validated metadata document under its content hash.
+ * @returns the content hash to store on chain
+ */
+export const storeCampaignMetadata = async (
+  metadata: CampaignMetadata,
+): Promise<string> => {
+  const hash = await hashCampaignMetadata(metadata);
+  await fs.mkdir(getMetadataDirectory(), { recursive: true });
+  // Same hash means same content, an existing file can be kept as is
+  await fs
+    .writeFile(getMetadataPath(hash), canonicalizeJson(metadata), {
+      flag: "wx",
+    })
+    .catch((e: NodeJS.ErrnoException) => {
+      if (e.code !== "EEXIST") throw e;
+    });
+  return hash;
+};
+
+/**
+ * Reads the raw JSON stored for a content hash.
+ * @returns `undefined` if no document is stored under the hash
+ * @throws if the hash is malformed
+ */
+export const readCampaignMetadata = async (
+  hash: string,
+): Promise<string | undefined> => {
+  if (!isContentHash(hash)) {
+    throw new Error("Invalid content hash");
+  }
+  try {
+    return await fs.readFile(getMetadataPath(hash), "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw e;
+  }
+};
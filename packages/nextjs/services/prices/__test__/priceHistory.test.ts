@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { appendPricePoint, resolvePriceAt } from "../priceHistory";
+
+const points = [
+  { timestamp: 1000, usd: 1 },
+  { timestamp: 2000, usd: 2 },
+  { timestamp: 4000, usd: 4 },
+];
+
+describe("priceHistory", () => {
+  describe("resolvePriceAt", () => {
+    it("should pick the snapshot closest to the block", () => {
+      expect(resolvePriceAt(points, 2000)?.usd).toBe(2);
+      expect(resolvePriceAt(points, 2400)?.usd).toBe(2);
+      expect(resolvePriceAt(points, 3600)?.usd).toBe(4);
+      expect(resolvePriceAt(points, 500)?.usd).toBe(1);
+    });
+
+    it("should prefer the earlier snapshot on a tie", () => {
+      expect(resolvePriceAt(points, 3000)?.usd).toBe(2);
+    });
+
+    it("should ignore snapshots further than the max gap", () => {
+      expect(resolvePriceAt(points, 4500, 100)).toBeUndefined();
+      expect(resolvePriceAt([], 1000)).toBeUndefined();
+    });
+  });
+
+  describe("appendPricePoint", () => {
+    it("should keep points sorted", () => {
+      expect(
+        appendPricePoint(points, { timestamp: 3000, usd: 3 }).map(
+          ({ usd }) => usd,
+        ),
+      ).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should drop points too close to an existing one", () => {
+      expect(appendPricePoint(points, { timestamp: 2100, usd: 9 }, 300)).toBe(
+        points,
+      );
+      expect(appendPricePoint(points, { timestamp: 2000, usd: 9 })).toBe(
+        points,
+      );
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { readPriceHistory, recordPricePoint } from "../priceHistoryStore";
+
+describe("priceHistoryStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "price-history-"));
+    process.env.PRICE_HISTORY_DIR = directory;
+  });
+
+  afterEach(async () => {
+    delete process.env.PRICE_HISTORY_DIR;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should start with an empty history", async () => {
+    expect(await readPriceHistory("STRK")).toEqual([]);
+  });
+
+  it("should record snapshots a few minutes apart", async () => {
+    await Promise.all([
+      recordPricePoint("STRK", { timestamp: 1000, usd: 0.5 }),
+      recordPricePoint("STRK", { timestamp: 1060, usd: 0.6 }),
+      recordPricePoint("STRK", { timestamp: 2000, usd: 0.7 }),
+    ]);
+
+    expect(await readPriceHistory("STRK")).toEqual([
+      { timestamp: 1000, usd: 0.5 },
+      { timestamp: 2000, usd: 0.7 },
+    ]);
+    expect(await fs.readdir(directory)).toEqual(["STRK.json"]);
+  });
+
+  it("should reject tokens that are not file safe", async () => {
+    await expect(readPriceHistory("../STRK")).rejects.toThrow(
+      "Invalid price history token",
+    );
+  });
+});
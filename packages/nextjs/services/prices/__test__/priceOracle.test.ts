@@ -0,0 +1,138 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createPriceOracle } from "../priceOracle";
+import { PriceSource } from "../priceSources";
+
+const createSource = (
+  name: string,
+  getPrice: PriceSource["getPrice"],
+): PriceSource => ({ name, getPrice: vi.fn(getPrice) });
+
+describe("createPriceOracle", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should fall back to the next source", async () => {
+    const failing = createSource("failing", () =>
+      Promise.reject(new Error("Network error")),
+    );
+    const unknown = createSource("unknown", () => Promise.resolve(undefined));
+    const fixture = createSource("fixture", () => Promise.resolve({ usd: 2 }));
+    const oracle = createPriceOracle({
+      sources: [failing, unknown, fixture],
+      now: () => 1000,
+    });
+
+    await expect(oracle.getQuote({ symbol: "STRK" })).resolves.toEqual({
+      token: "STRK",
+      usd: 2,
+      status: "fresh",
+      source: "fixture",
+      updatedAt: 1000,
+    });
+  });
+
+  it("should serve cached prices until they expire", async () => {
+    let time = 0;
+    const source = createSource("fixture", () => Promise.resolve({ usd: 1 }));
+    const oracle = createPriceOracle({
+      sources: [source],
+      cacheTtl: 100,
+      now: () => time,
+    });
+
+    await oracle.getQuote({ symbol: "USDC" });
+    time = 50;
+    await oracle.getQuote({ symbol: "USDC" });
+    expect(source.getPrice).toHaveBeenCalledTimes(1);
+
+    time = 150;
+    await oracle.getQuote({ symbol: "USDC" });
+    expect(source.getPrice).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report the last price as stale once sources fail", async () => {
+    let time = 0;
+    let isDown = false;
+    const source = createSource("coingecko", () =>
+      isDown
+        ? Promise.reject(new Error("Too Many Requests"))
+        : Promise.resolve({ usd: 2000 }),
+    );
+    const oracle = createPriceOracle({
+      sources: [source],
+      cacheTtl: 100,
+      now: () => time,
+    });
+
+    await oracle.getQuote({ symbol: "ETH" });
+    time = 200;
+    isDown = true;
+
+    await expect(oracle.getQuote({ symbol: "ETH" })).resolves.toEqual({
+      token: "ETH",
+      usd: 2000,
+      status: "stale",
+      source: "coingecko",
+      updatedAt: 0,
+    });
+  });
+
+  it("should report old on-chain prices as stale", async () => {
+    const source = createSource("pragma", () =>
+      Promise.resolve({ usd: 0.5, updatedAt: 0 }),
+    );
+    const oracle = createPriceOracle({
+      sources: [source],
+      maxAge: 1000,
+      now: () => 5000,
+    });
+
+    const quote = await oracle.getQuote({ symbol: "STRK" });
+    expect(quote.status).toBe("stale");
+    expect(quote.usd).toBe(0.5);
+  });
+
+  it("should report missing prices as null, not 0", async () => {
+    const oracle = createPriceOracle({
+      sources: [createSource("fixture", () => Promise.resolve(undefined))],
+    });
+
+    await expect(oracle.getQuote({ symbol: "ABC" })).resolves.toEqual({
+      token: "ABC",
+      usd: null,
+      status: "missing",
+      source: null,
+      updatedAt: null,
+    });
+  });
+
+  it("should snapshot every price a source answers", async () => {
+    const onPrice = vi.fn().mockResolvedValue(undefined);
+    const oracle = createPriceOracle({
+      sources: [
+        createSource("pragma", () =>
+          Promise.resolve({ usd: 0.5, updatedAt: 1_700_000_000_500 }),
+        ),
+      ],
+      onPrice,
+    });
+
+    await oracle.getQuote({ symbol: "STRK" });
+
+    expect(onPrice).toHaveBeenCalledWith("STRK", {
+      timestamp: 1_700_000_000,
+      usd: 0.5,
+    });
+  });
+
+  it("should still quote when the snapshot fails", async () => {
+    const oracle = createPriceOracle({
+      sources: [createSource("fixture", () => Promise.resolve({ usd: 1 }))],
+      onPrice: () => Promise.reject(new Error("EACCES")),
+    });
+
+    const quote = await oracle.getQuote({ symbol: "USDC" });
+    expect(quote.usd).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderInterface, shortString } from "starknet";
+import {
+  createCoinGeckoPriceSource,
+  createFixturePriceSource,
+  createPragmaPriceSource,
+  parsePriceToken,
+} from "../priceSources";
+
+const usdcAddress =
+  "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+
+describe("Price sources", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("parsePriceToken", () => {
+    it("should read symbols and addresses", () => {
+      expect(parsePriceToken("usdc")).toEqual({ symbol: "USDC" });
+      expect(
+        parsePriceToken(
+          "0x53C91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+        ),
+      ).toEqual({
+        address: usdcAddress,
+      });
+      expect(parsePriceToken("not a token")).toBeUndefined();
+    });
+  });
+
+  describe("CoinGecko", () => {
+    it("should quote known symbols by id", async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ "usd-coin": { usd: 0.999 } }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const price = await createCoinGeckoPriceSource().getPrice({
+        symbol: "USDC",
+      });
+
+      expect(price).toEqual({ usd: 0.999 });
+      expect(mockFetch.mock.calls[0][0]).toContain("ids=usd-coin");
+    });
+
+    it("should quote other tokens by contract address", async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8":
+              { usd: 1.001 },
+          }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const price = await createCoinGeckoPriceSource().getPrice({
+        symbol: "ABC",
+        address: usdcAddress,
+      });
+
+      expect(price).toEqual({ usd: 1.001 });
+      expect(mockFetch.mock.calls[0][0]).toContain(
+        `token_price/starknet?contract_addresses=${usdcAddress}`,
+      );
+    });
+
+    it("should throw on error responses and skip unknown tokens", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue({ ok: false, status: 429 }),
+      );
+      const source = createCoinGeckoPriceSource();
+
+      await expect(source.getPrice({ symbol: "ETH" })).rejects.toThrow(
+        "coingecko response status: 429",
+      );
+      await expect(source.getPrice({ symbol: "ABC" })).resolves.toBeUndefined();
+    });
+  });
+
+  describe("Pragma", () => {
+    it("should read the median spot price with its timestamp", async () => {
+      const callContract = vi
+        .fn()
+        .mockResolvedValue(["0x2e90edd000", "0x8", "0x6553f100", "0x5", "0x1"]);
+      const source = createPragmaPriceSource(
+        { callContract } as unknown as ProviderInterface,
+        "0x1",
+      );
+
+      const price = await source.getPrice({ symbol: "ETH" });
+
+      expect(price).toEqual({ usd: 2000, updatedAt: 1700000000000 });
+      expect(callContract).toHaveBeenCalledWith({
+        contractAddress: "0x1",
+        entrypoint: "get_data_median",
+        calldata: ["0", shortString.encodeShortString("ETH/USD")],
+      });
+    });
+
+    it("should skip pairs without data", async () => {
+      const callContract = vi
+        .fn()
+        .mockResolvedValue(["0x0", "0x8", "0x0", "0x0", "0x1"]);
+      const source = createPragmaPriceSource(
+        { callContract } as unknown as ProviderInterface,
+        "0x1",
+      );
+
+      await expect(source.getPrice({ symbol: "ABC" })).resolves.toBeUndefined();
+      await expect(
+        source.getPrice({ address: usdcAddress }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  it("should serve fixtures by symbol or address", async () => {
+    const source = createFixturePriceSource({
+      strk: 0.5,
+      "0x53c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8": 1,
+    });
+
+    await expect(source.getPrice({ symbol: "STRK" })).resolves.toEqual({
+      usd: 0.5,
+    });
+    await expect(source.getPrice({ address: usdcAddress })).resolves.toEqual({
+      usd: 1,
+    });
+    await expect(source.getPrice({ symbol: "ETH" })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Timestamped USD prices, used to value donations at the time they were made.
+ * Timestamps are in seconds like block timestamps.
+ */
+export type PricePoint = {
+  timestamp: number;
+  usd: number;
+};
+
+// Snapshots further than this from a block are too far off to value it
+export const MAX_PRICE_GAP = 6 * 60 * 60;
+
+/**
+ * Adds a point to a history sorted by timestamp.
+ * Points closer than `minInterval` to an existing one are dropped, the history only needs a sample.
+ */
+export const appendPricePoint = (
+  points: PricePoint[],
+  point: PricePoint,
+  minInterval = 0,
+): PricePoint[] => {
+  if (
+    points.some(
+      ({ timestamp }) =>
+        Math.abs(timestamp - point.timestamp) < Math.max(minInterval, 1),
+    )
+  ) {
+    return points;
+  }
+  return [...points, point].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Resolves the price at a block timestamp from the snapshot closest to it,
+ * the earlier one on a tie.
+ * @returns `undefined` if no snapshot is within `maxGap` seconds
+ */
+export const resolvePriceAt = (
+  points: PricePoint[],
+  timestamp: number,
+  maxGap = MAX_PRICE_GAP,
+): PricePoint | undefined => {
+  // First snapshot after the timestamp, the one before is right below it
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (points[middle].timestamp <= timestamp) low = middle + 1;
+    else high = middle;
+  }
+  const before = points[low - 1];
+  const after = points[low];
+  const closest =
+    before &&
+    (!after || timestamp - before.timestamp <= after.timestamp - timestamp)
+      ? before
+      : after;
+  if (!closest || Math.abs(closest.timestamp - timestamp) > maxGap) {
+    return undefined;
+  }
+  return closest;
+};
@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { PricePoint, appendPricePoint } from "./priceHistory";
+
+/**
+ * Server-side store of price snapshots on the local filesystem, one `<token>.json` file per
+ * symbol or address holding its points sorted by timestamp.
+ */
+
+// One snapshot every few minutes is plenty to value donations
+const MIN_SNAPSHOT_INTERVAL = 5 * 60;
+
+export const getPriceHistoryDirectory = () =>
+  process.env.PRICE_HISTORY_DIR ?? path.join(process.cwd(), ".price-history");
+
+const getPriceHistoryPath = (token: string) => {
+  if (!/^[A-Za-z0-9.]+$/.test(token) || /^\.+$/.test(token)) {
+    throw new Error("Invalid price history token");
+  }
+  return path.join(getPriceHistoryDirectory(), `${token}.json`);
+};
+
+/**
+ * Reads the snapshots stored for a token.
+ * @returns an empty history if none was recorded yet
+ */
+export const readPriceHistory = async (
+  token: string,
+): Promise<PricePoint[]> => {
+  try {
+    return JSON.parse(await fs.readFile(getPriceHistoryPath(token), "utf8"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+};
+
+// Writes of the same token are chained so concurrent requests do not drop points
+const pendingWrites = new Map<string, Promise<void>>();
+
+export const recordPricePoint = (token: string, point: PricePoint) => {
+  const write = (pendingWrites.get(token) ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      const points = await readPriceHistory(token);
+      const updated = appendPricePoint(points, point, MIN_SNAPSHOT_INTERVAL);
+      if (updated === points) return;
+      await fs.mkdir(getPriceHistoryDirectory(), { recursive: true });
+      await fs.writeFile(getPriceHistoryPath(token), JSON.stringify(updated));
+    });
+  pendingWrites.set(token, write);
+  return write;
+};
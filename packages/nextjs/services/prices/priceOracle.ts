@@ -0,0 +1,165 @@
+import { RpcProvider } from "starknet";
+import { Chain, devnet } from "@starknet-react/chains";
+import scaffoldConfig from "~~/scaffold.config";
+import { PRAGMA_ORACLE_ADDRESSES } from "~~/utils/Constants";
+import { PricePoint } from "./priceHistory";
+import { recordPricePoint } from "./priceHistoryStore";
+import {
+  PriceQuote,
+  PriceSource,
+  PriceToken,
+  createCoinGeckoPriceSource,
+  createFixturePriceSource,
+  createPragmaPriceSource,
+  getPriceTokenKey,
+} from "./priceSources";
+
+/**
+ * Server-side price lookup that asks each source in turn and caches the first answer.
+ * When every source fails the last known price is served as stale instead of 0.
+ */
+
+// Prices served on devnet, where no source has data for the local tokens
+export const DEVNET_PRICE_FIXTURES: Record<string, number> = {
+  ETH: 2500,
+  STRK: 0.5,
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+  WBTC: 60000,
+};
+
+type PriceOracleOptions = {
+  sources: PriceSource[];
+  // How long a price is served from the cache before the sources are asked again
+  cacheTtl?: number;
+  // Age past which a price is reported as stale
+  maxAge?: number;
+  now?: () => number;
+  // Called with every price a source answers, used to keep price snapshots
+  onPrice?: (token: string, point: PricePoint) => Promise<void>;
+};
+
+type CachedPrice = {
+  usd: number;
+  source: string;
+  updatedAt: number;
+  fetchedAt: number;
+};
+
+export const createPriceOracle = ({
+  sources,
+  cacheTtl = 60_000,
+  maxAge = 60 * 60_000,
+  now = Date.now,
+  onPrice,
+}: PriceOracleOptions) => {
+  const cache = new Map<string, CachedPrice>();
+
+  const toQuote = (token: string, cached?: CachedPrice): PriceQuote =>
+    cached
+      ? {
+          token,
+          usd: cached.usd,
+          status: now() - cached.updatedAt > maxAge ? "stale" : "fresh",
+          source: cached.source,
+          updatedAt: cached.updatedAt,
+        }
+      : { token, usd: null, status: "missing", source: null, updatedAt: null };
+
+  const getQuote = async (priceToken: PriceToken): Promise<PriceQuote> => {
+    const key = getPriceTokenKey(priceToken);
+    const cached = cache.get(key);
+    if (cached && now() - cached.fetchedAt < cacheTtl) {
+      return toQuote(key, cached);
+    }
+
+    for (const source of sources) {
+      try {
+        const price = await source.getPrice(priceToken);
+        if (!price) continue;
+        const fetchedAt = now();
+        const entry = {
+          usd: price.usd,
+          source: source.name,
+          updatedAt: price.updatedAt ?? fetchedAt,
+          fetchedAt,
+        };
+        cache.set(key, entry);
+        await onPrice?.(key, {
+          timestamp: Math.floor(entry.updatedAt / 1000),
+          usd: entry.usd,
+        }).catch((e) =>
+          console.error("⚡️ ~ file: priceOracle.ts ~ snapshot error", e),
+        );
+        return toQuote(key, entry);
+      } catch (e) {
+        console.error(
+          `⚡️ ~ file: priceOracle.ts ~ ${source.name} error for ${key}`,
+          e,
+        );
+      }
+    }
+
+    // Nothing answered, the last known price is only good as a stale one
+    return cached ? { ...toQuote(key, cached), status: "stale" } : toQuote(key);
+  };
+
+  return { getQuote, clear: () => cache.clear() };
+};
+
+export type PriceOracle = ReturnType<typeof createPriceOracle>;
+
+const targetNetwork: Chain = scaffoldConfig.targetNetworks[0];
+
+const createPriceSource = (name: string): PriceSource | undefined => {
+  switch (name) {
+    case "coingecko":
+      return createCoinGeckoPriceSource();
+    case "pragma": {
+      const oracleAddress = PRAGMA_ORACLE_ADDRESSES[targetNetwork.network];
+      // Pragma is read on chain, which needs an RPC endpoint for the target network
+      if (!oracleAddress || !scaffoldConfig.rpcProviderUrl) return undefined;
+      return createPragmaPriceSource(
+        new RpcProvider({ nodeUrl: scaffoldConfig.rpcProviderUrl }),
+        oracleAddress,
+      );
+    }
+    case "fixture":
+      return createFixturePriceSource(DEVNET_PRICE_FIXTURES);
+    default:
+      console.error(
+        `⚡️ ~ file: priceOracle.ts ~ unknown price source ${name}`,
+      );
+      return undefined;
+  }
+};
+
+/**
+ * Sources in the order of `PRICE_SOURCES` (comma separated),
+ * else fixtures on devnet and CoinGecko then Pragma anywhere else.
+ */
+export const getDefaultPriceSources = (
+  names = process.env.PRICE_SOURCES,
+): PriceSource[] => {
+  const defaultNames =
+    targetNetwork.network === devnet.network
+      ? ["fixture"]
+      : ["coingecko", "pragma"];
+  const sourceNames = names
+    ? names.split(",").map((name) => name.trim().toLowerCase())
+    : defaultNames;
+  return sourceNames
+    .map(createPriceSource)
+    .filter((source): source is PriceSource => source !== undefined);
+};
+
+let defaultPriceOracle: PriceOracle | undefined;
+
+export const getPriceOracle = () => {
+  defaultPriceOracle ??= createPriceOracle({
+    sources: getDefaultPriceSources(),
+    onPrice: recordPricePoint,
+  });
+  return defaultPriceOracle;
+};
@@ -0,0 +1,155 @@
+import {
+  ProviderInterface,
+  shortString,
+  validateAndParseAddress,
+} from "starknet";
+import { COINGECKO_IDS } from "~~/utils/Constants";
+
+/**
+ * A token to price, known by its symbol, its address or both.
+ * Sources quote what they can identify and skip the rest.
+ */
+export type PriceToken = {
+  symbol?: string;
+  address?: string;
+};
+
+export type SourcePrice = {
+  usd: number;
+  // Milliseconds since epoch the price was observed at, defaults to the time it was fetched
+  updatedAt?: number;
+};
+
+export interface PriceSource {
+  name: string;
+  /**
+   * @returns `undefined` if the source cannot quote the token
+   * @throws if the source failed to answer
+   */
+  getPrice(token: PriceToken): Promise<SourcePrice | undefined>;
+}
+
+export type PriceStatus = "fresh" | "stale" | "missing";
+
+/**
+ * Price served by the price API.
+ * A stale quote is the last known price, kept because every source failed or it is too old.
+ * A missing quote has no price at all, `usd` is then `null` rather than 0.
+ */
+export type PriceQuote = {
+  token: string;
+  usd: number | null;
+  status: PriceStatus;
+  source: string | null;
+  updatedAt: number | null;
+};
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{1,64}$/;
+
+/**
+ * Reads the symbol or address a price is requested for.
+ * @returns `undefined` if it is neither
+ */
+export const parsePriceToken = (value: string): PriceToken | undefined => {
+  const trimmed = value.trim();
+  if (ADDRESS_REGEX.test(trimmed)) {
+    return { address: validateAndParseAddress(trimmed) };
+  }
+  if (/^[A-Za-z0-9.]{1,16}$/.test(trimmed)) {
+    return { symbol: trimmed.toUpperCase() };
+  }
+  return undefined;
+};
+
+export const getPriceTokenKey = ({ symbol, address }: PriceToken) =>
+  address ?? symbol ?? "";
+
+const isValidPrice = (usd: unknown): usd is number =>
+  typeof usd === "number" && Number.isFinite(usd) && usd > 0;
+
+/**
+ * CoinGecko quotes known symbols by id and any other Starknet token by contract address
+ */
+export const createCoinGeckoPriceSource = (
+  apiUrl = "https://api.coingecko.com/api/v3",
+): PriceSource => ({
+  name: "coingecko",
+  async getPrice({ symbol, address }) {
+    const coingeckoId = symbol ? COINGECKO_IDS[symbol] : undefined;
+    let url: string;
+    if (coingeckoId) {
+      url = `${apiUrl}/simple/price?ids=${coingeckoId}&vs_currencies=usd`;
+    } else if (address) {
+      url = `${apiUrl}/simple/token_price/starknet?contract_addresses=${address}&vs_currencies=usd`;
+    } else {
+      return undefined;
+    }
+
+    // Prices are cached by the oracle, the Next.js fetch cache would keep them forever
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`coingecko response status: ${response.status}`);
+    }
+    const json: Record<string, { usd?: number }> = await response.json();
+    const entry = coingeckoId
+      ? json[coingeckoId]
+      : Object.entries(json).find(
+          ([key]) => BigInt(key) === BigInt(address!),
+        )?.[1];
+    return isValidPrice(entry?.usd) ? { usd: entry.usd } : undefined;
+  },
+});
+
+/**
+ * Reads the median spot price of `<SYMBOL>/USD` from a Pragma oracle contract
+ */
+export const createPragmaPriceSource = (
+  provider: ProviderInterface,
+  oracleAddress: string,
+): PriceSource => ({
+  name: "pragma",
+  async getPrice({ symbol }) {
+    if (!symbol) return undefined;
+    const pairId = `${symbol}/USD`;
+    if (pairId.length > 31) return undefined;
+
+    // DataType::SpotEntry(pair_id)
+    const result = await provider.callContract({
+      contractAddress: oracleAddress,
+      entrypoint: "get_data_median",
+      calldata: ["0", shortString.encodeShortString(pairId)],
+    });
+    // PragmaPricesResponse { price, decimals, last_updated_timestamp, num_sources_aggregated, .. }
+    const [price, decimals, lastUpdated, sources] = result.map(BigInt);
+    if (!price || !sources) return undefined;
+    return {
+      usd: Number(price) / 10 ** Number(decimals),
+      updatedAt: Number(lastUpdated) * 1000,
+    };
+  },
+});
+
+/**
+ * Static prices by symbol or address, for devnet and tests
+ */
+export const createFixturePriceSource = (
+  prices: Record<string, number>,
+): PriceSource => {
+  const normalized = new Map(
+    Object.entries(prices).map(([key, usd]) => [
+      ADDRESS_REGEX.test(key)
+        ? validateAndParseAddress(key)
+        : key.toUpperCase(),
+      usd,
+    ]),
+  );
+  return {
+    name: "fixture",
+    async getPrice({ symbol, address }) {
+      const usd =
+        (address && normalized.get(address)) ||
+        (symbol && normalized.get(symbol));
+      return isValidPrice(usd) ? { usd } : undefined;
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  EventCacheEntry,
+  getEventCacheKey,
+  isEventCacheValid,
+  readEventCache,
+  writeEventCache,
+} from "../eventCache";
+
+const signature = {
+  deployedAddress: "0x123",
+  classHash: "0xabc",
+  fromBlock: "0",
+  blockData: true,
+  transactionData: false,
+  receiptData: false,
+};
+
+const entry: EventCacheEntry = {
+  key: "sepolia:123:Transfer",
+  signature,
+  lastSyncedBlock: 100n,
+  events: [],
+};
+
+describe("eventCache", () => {
+  describe("getEventCacheKey", () => {
+    it("should normalise the address so padded and unpadded forms match", () => {
+      expect(getEventCacheKey("sepolia", "0x0123", "Transfer")).toBe(
+        getEventCacheKey("sepolia", "0x123", "Transfer"),
+      );
+    });
+
+    it("should separate networks and events", () => {
+      expect(getEventCacheKey("sepolia", "0x123", "Transfer")).not.toBe(
+        getEventCacheKey("devnet", "0x123", "Transfer"),
+      );
+      expect(getEventCacheKey("sepolia", "0x123", "Transfer")).not.toBe(
+        getEventCacheKey("sepolia", "0x123", "ActiveChanged"),
+      );
+    });
+  });
+
+  describe("isEventCacheValid", () => {
+    it("should accept an entry with the same signature", () => {
+      expect(isEventCacheValid(entry, { ...signature }, 100n)).toBe(true);
+    });
+
+    it("should reject an entry after a redeploy", () => {
+      expect(
+        isEventCacheValid(
+          entry,
+          { ...signature, deployedAddress: "0x456" },
+          200n,
+        ),
+      ).toBe(false);
+      expect(
+        isEventCacheValid(entry, { ...signature, classHash: "0xdef" }, 200n),
+      ).toBe(false);
+    });
+
+    it("should reject an entry synced past the chain head", () => {
+      expect(isEventCacheValid(entry, { ...signature }, 99n)).toBe(false);
+    });
+
+    it("should reject an entry read with different options", () => {
+      expect(
+        isEventCacheValid(entry, { ...signature, fromBlock: "10" }, 200n),
+      ).toBe(false);
+      expect(
+        isEventCacheValid(entry, { ...signature, receiptData: true }, 200n),
+      ).toBe(false);
+    });
+  });
+
+  it("should be a no-op without IndexedDB", async () => {
+    await expect(writeEventCache(entry)).resolves.toBeUndefined();
+    await expect(readEventCache(entry.key)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import {
+  getTransactionHistoryKey,
+  TRANSACTION_HISTORY_LIMIT,
+  TransactionRecord,
+  useGlobalState,
+} from "../store";
+
+const key = getTransactionHistoryKey("sepolia", "0x123");
+
+const transaction = (hash: string): TransactionRecord => ({
+  hash,
+  status: "submitted",
+  description: "withdraw_funds",
+  submittedAt: 1700000000000,
+});
+
+describe("useGlobalState transaction history", () => {
+  beforeEach(() => {
+    useGlobalState.setState({ transactions: {} });
+    localStorage.clear();
+  });
+
+  it("should key histories per network and normalised account", () => {
+    expect(getTransactionHistoryKey("sepolia", "0x0123")).toBe(key);
+    expect(getTransactionHistoryKey("devnet", "0x123")).not.toBe(key);
+  });
+
+  it("should add the most recent transaction first", () => {
+    const { addTransaction } = useGlobalState.getState();
+    addTransaction(key, transaction("0x1"));
+    addTransaction(key, transaction("0x2"));
+
+    expect(
+      useGlobalState.getState().transactions[key].map((tx) => tx.hash),
+    ).toEqual(["0x2", "0x1"]);
+  });
+
+  it("should keep a bounded history", () => {
+    const { addTransaction } = useGlobalState.getState();
+    for (let i = 0; i <= TRANSACTION_HISTORY_LIMIT; i++) {
+      addTransaction(key, transaction(`0x${i}`));
+    }
+
+    expect(useGlobalState.getState().transactions[key]).toHaveLength(
+      TRANSACTION_HISTORY_LIMIT,
+    );
+  });
+
+  it("should update the status of a transaction", () => {
+    const { addTransaction, updateTransaction } = useGlobalState.getState();
+    addTransaction(key, transaction("0x1"));
+    updateTransaction(key, "0x1", {
+      status: "reverted",
+      revertReason: "Cannot withdraw!",
+    });
+
+    expect(useGlobalState.getState().transactions[key][0]).toMatchObject({
+      status: "reverted",
+      revertReason: "Cannot withdraw!",
+    });
+  });
+
+  it("should clear a single history", () => {
+    const otherKey = getTransactionHistoryKey("devnet", "0x123");
+    const { addTransaction, clearTransactions } = useGlobalState.getState();
+    addTransaction(key, transaction("0x1"));
+    addTransaction(otherKey, transaction("0x2"));
+    clearTransactions(key);
+
+    expect(useGlobalState.getState().transactions[key]).toBeUndefined();
+    expect(useGlobalState.getState().transactions[otherKey]).toHaveLength(1);
+  });
+
+  it("should only persist the transaction history", () => {
+    useGlobalState.getState().addTransaction(key, transaction("0x1"));
+
+    const persisted = JSON.parse(
+      localStorage.getItem("scaffoldStark.transactions") ?? "{}",
+    );
+    expect(Object.keys(persisted.state)).toEqual(["transactions"]);
+  });
+});
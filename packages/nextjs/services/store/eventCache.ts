@@ -0,0 +1,103 @@
+/**
+ * IndexedDB cache for event history
+ *
+ * Keeps the events read by useScaffoldEventHistory and the last synced block per
+ * network, contract address and event, so reloads resume from where they stopped
+ * instead of reading the whole history again.
+ */
+
+const DB_NAME = "scaffold-stark-events";
+const DB_VERSION = 1;
+const STORE_NAME = "eventHistory";
+
+/**
+ * Everything that decides whether cached events can be reused.
+ * A new address or class hash in deployedContracts.ts means a redeploy, so the history restarts.
+ */
+export type EventCacheSignature = {
+  deployedAddress: string;
+  classHash: string;
+  fromBlock: string;
+  blockData: boolean;
+  transactionData: boolean;
+  receiptData: boolean;
+};
+
+export type EventCacheEntry = {
+  key: string;
+  signature: EventCacheSignature;
+  lastSyncedBlock: bigint;
+  events: any[];
+};
+
+export const getEventCacheKey = (
+  network: string,
+  address: string,
+  eventName: string,
+) => `${network}:${BigInt(address).toString(16)}:${eventName}`;
+
+/**
+ * Whether cached events can be reused at the current chain head.
+ * A head below the last synced block means the chain was reset, e.g. a restarted devnet,
+ * and the cached blocks may not exist anymore.
+ */
+export const isEventCacheValid = (
+  entry: EventCacheEntry,
+  signature: EventCacheSignature,
+  latestBlock: bigint,
+) =>
+  entry.lastSyncedBlock <= latestBlock &&
+  (Object.keys(signature) as (keyof EventCacheSignature)[]).every(
+    (field) => entry.signature?.[field] === signature[field],
+  );
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => (dbPromise = undefined));
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest,
+): Promise<T | undefined> => {
+  // Nothing to cache to during SSR or in browsers without IndexedDB
+  if (typeof indexedDB === "undefined") return undefined;
+  try {
+    const db = await openDatabase();
+    return await new Promise<T>((resolve, reject) => {
+      const request = createRequest(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    // The cache is an optimisation, reading from the RPC still works without it
+    console.error("⚡️ ~ file: eventCache.ts ~ error", e);
+    return undefined;
+  }
+};
+
+export const readEventCache = (key: string) =>
+  runRequest<EventCacheEntry>("readonly", (store) => store.get(key));
+
+export const writeEventCache = async (entry: EventCacheEntry) => {
+  await runRequest("readwrite", (store) => store.put(entry));
+};
+
+export const deleteEventCache = async (key: string) => {
+  await runRequest("readwrite", (store) => store.delete(key));
+};
@@ -1,4 +1,5 @@
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
 import scaffoldConfig from "~~/scaffold.config";
 import { ChainWithAttributes } from "~~/utils/scaffold-stark";
 
@@ -9,25 +10,106 @@ import { ChainWithAttributes } from "~~/utils/scaffold-stark";
  * values from anywhere in the app.
  *
  * Think about it as a global useState.
+ *
+ * Only the transaction history is persisted, so it survives closing the tab mid-transaction.
+ */
+
+// Number of transactions kept per account and network
+export const TRANSACTION_HISTORY_LIMIT = 20;
+
+export type TransactionRecordStatus =
+  | "submitted"
+  | "pending"
+  | "accepted"
+  | "reverted"
+  // Not included in a block, e.g. it failed validation
+  | "rejected";
+
+export type TransactionRecord = {
+  hash: string;
+  status: TransactionRecordStatus;
+  // Function names of the calls sent, e.g. "approve, fund_to_contract"
+  description?: string;
+  revertReason?: string;
+  // Unix timestamp in milliseconds of the submission
+  submittedAt: number;
+};
+
+/**
+ * Key of a transaction history entry, transactions are kept apart per account and network.
  */
+export const getTransactionHistoryKey = (network: string, address: string) =>
+  `${network}:${BigInt(address).toString(16)}`;
 
 type GlobalState = {
   nativeCurrencyPrice: number;
   strkCurrencyPrice: number;
   setNativeCurrencyPrice: (newNativeCurrencyPriceState: number) => void;
   setStrkCurrencyPrice: (newNativeCurrencyPriceState: number) => void;
+  // USD prices of other tokens by symbol, see useTokenPrices
+  tokenPrices: Record<string, number>;
+  setTokenPrice: (symbol: string, price: number) => void;
   targetNetwork: ChainWithAttributes;
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => void;
+  transactions: Record<string, TransactionRecord[]>;
+  addTransaction: (key: string, transaction: TransactionRecord) => void;
+  updateTransaction: (
+    key: string,
+    hash: string,
+    update: Partial<Omit<TransactionRecord, "hash">>,
+  ) => void;
+  clearTransactions: (key: string) => void;
 };
 
-export const useGlobalState = create<GlobalState>((set) => ({
-  nativeCurrencyPrice: 0,
-  strkCurrencyPrice: 0,
-  setNativeCurrencyPrice: (newValue: number): void =>
-    set(() => ({ nativeCurrencyPrice: newValue })),
-  setStrkCurrencyPrice: (newValue: number): void =>
-    set(() => ({ strkCurrencyPrice: newValue })),
-  targetNetwork: scaffoldConfig.targetNetworks[0],
-  setTargetNetwork: (newTargetNetwork: ChainWithAttributes) =>
-    set(() => ({ targetNetwork: newTargetNetwork })),
-}));
+export const useGlobalState = create<GlobalState>()(
+  persist(
+    (set) => ({
+      nativeCurrencyPrice: 0,
+      strkCurrencyPrice: 0,
+      setNativeCurrencyPrice: (newValue: number): void =>
+        set(() => ({ nativeCurrencyPrice: newValue })),
+      setStrkCurrencyPrice: (newValue: number): void =>
+        set(() => ({ strkCurrencyPrice: newValue })),
+      tokenPrices: {},
+      setTokenPrice: (symbol: string, price: number): void =>
+        set((state) => ({
+          tokenPrices: { ...state.tokenPrices, [symbol]: price },
+        })),
+      targetNetwork: scaffoldConfig.targetNetworks[0],
+      setTargetNetwork: (newTargetNetwork: ChainWithAttributes) =>
+        set(() => ({ targetNetwork: newTargetNetwork })),
+      transactions: {},
+      addTransaction: (key: string, transaction: TransactionRecord) =>
+        set((state) => ({
+          transactions: {
+            ...state.transactions,
+            [key]: [
+              transaction,
+              ...(state.transactions[key] ?? []).filter(
+                (tx) => tx.hash !== transaction.hash,
+              ),
+            ].slice(0, TRANSACTION_HISTORY_LIMIT),
+          },
+        })),
+      updateTransaction: (key, hash, update) =>
+        set((state) => ({
+          transactions: {
+            ...state.transactions,
+            [key]: (state.transactions[key] ?? []).map((tx) =>
+              tx.hash === hash ? { ...tx, ...update } : tx,
+            ),
+          },
+        })),
+      clearTransactions: (key: string) =>
+        set((state) => {
+          const { [key]: _, ...transactions } = state.transactions;
+          return { transactions };
+        }),
+    }),
+    {
+      name: "scaffoldStark.transactions",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ transactions: state.transactions }),
+    },
+  ),
+);
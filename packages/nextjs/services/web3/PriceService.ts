@@ -1,30 +1,67 @@
 import scaffoldConfig from "~~/scaffold.config";
+import {
+  PricePoint,
+  appendPricePoint,
+  resolvePriceAt,
+} from "~~/services/prices/priceHistory";
+import { PriceQuote } from "~~/services/prices/priceSources";
 
-export const fetchPriceFromCoingecko = async (
-  symbol: string,
+/**
+ * Fetches the price API quote of a token symbol or address.
+ * @returns `undefined` if every attempt failed
+ */
+export const fetchPriceQuote = async (
+  token: string,
   retries = 3,
-): Promise<number> => {
+): Promise<PriceQuote | undefined> => {
   let attempt = 0;
   while (attempt < retries) {
     try {
-      const response = await fetch(`/api/price/${symbol}`);
-      const data = await response.json();
-      return symbol === "ETH" ? data.ethereum.usd : data.starknet.usd;
+      const response = await fetch(`/api/price/${token}`);
+      if (!response.ok) {
+        throw new Error(`price api response status: ${response.status}`);
+      }
+      const quote: PriceQuote = await response.json();
+      if (quote.usd !== null && typeof quote.usd !== "number") {
+        throw new Error("Malformed price quote");
+      }
+      return quote;
     } catch (error) {
       console.error(
-        `Attempt ${
-          attempt + 1
-        } - Error fetching ${symbol} price from Coingecko: `,
+        `Attempt ${attempt + 1} - Error fetching ${token} price: `,
         error,
       );
       attempt++;
       if (attempt === retries) {
         console.error(`Failed to fetch price after ${retries} attempts.`);
-        return 0;
+        return undefined;
       }
     }
   }
-  return 0;
+  return undefined;
+};
+
+/**
+ * Fetches the recorded prices of a token at block timestamps.
+ * @returns price by timestamp, timestamps without a close enough snapshot are left out
+ */
+export const fetchHistoricalPrices = async (
+  token: string,
+  timestamps: number[],
+): Promise<Record<number, number>> => {
+  const response = await fetch(
+    `/api/price/${token}/history?at=${timestamps.join(",")}`,
+  );
+  if (!response.ok) {
+    throw new Error(`price api response status: ${response.status}`);
+  }
+  const { prices }: { prices: Record<string, PricePoint | null> } =
+    await response.json();
+  return Object.fromEntries(
+    Object.entries(prices)
+      .filter(([, point]) => point !== null)
+      .map(([timestamp, point]) => [Number(timestamp), point!.usd]),
+  );
 };
 
 class PriceService {
@@ -39,6 +76,12 @@ class PriceService {
   > = new Map();
   private currentNativeCurrencyPrice: number = 0;
   private currentStrkCurrencyPrice: number = 0;
+  // Quotes of other tokens, polled once a campaign accepts them
+  private tokenPrices: Map<string, PriceQuote | undefined> = new Map();
+  private setTokenPrice?: (symbol: string, price: number) => void;
+  // Timestamped prices seen while polling, and the ones resolved at past block timestamps
+  private priceHistory: Map<string, PricePoint[]> = new Map();
+  private historicalPrices: Map<string, number> = new Map();
   private idCounter: number = 0;
 
   private constructor() {}
@@ -93,10 +136,106 @@ class PriceService {
     return this.currentStrkCurrencyPrice;
   }
 
+  /**
+   * Adds token symbols to the polled prices, symbols seen for the first time are fetched right away.
+   * ETH and STRK are always polled.
+   */
+  public trackTokenPrices(
+    symbols: string[],
+    setTokenPrice: (symbol: string, price: number) => void,
+  ) {
+    this.setTokenPrice = setTokenPrice;
+    const newSymbols = symbols.filter(
+      (symbol) =>
+        symbol !== "ETH" && symbol !== "STRK" && !this.tokenPrices.has(symbol),
+    );
+    if (newSymbols.length === 0) return;
+    newSymbols.forEach((symbol) => this.tokenPrices.set(symbol, undefined));
+    this.fetchTokenPrices(newSymbols);
+  }
+
+  public getTokenPrice(symbol: string) {
+    if (symbol === "ETH") return this.currentNativeCurrencyPrice;
+    if (symbol === "STRK") return this.currentStrkCurrencyPrice;
+    return this.tokenPrices.get(symbol)?.usd ?? 0;
+  }
+
+  /**
+   * Last quote of a tracked token, with its staleness
+   * @returns `undefined` until the token was fetched once
+   */
+  public getTokenQuote(symbol: string) {
+    return this.tokenPrices.get(symbol);
+  }
+
+  /**
+   * USD prices of a token at block timestamps, to value donations at the time they were made.
+   * Prices polled in this session answer first, the rest comes from the server snapshots.
+   * @returns price by timestamp, timestamps without a known price are left out
+   */
+  public async getPricesAt(
+    symbol: string,
+    timestamps: number[],
+  ): Promise<Record<number, number>> {
+    const prices: Record<number, number> = {};
+    const unresolved: number[] = [];
+    for (const timestamp of new Set(timestamps)) {
+      const price =
+        this.historicalPrices.get(`${symbol}@${timestamp}`) ??
+        resolvePriceAt(this.priceHistory.get(symbol) ?? [], timestamp)?.usd;
+      if (price !== undefined) prices[timestamp] = price;
+      else unresolved.push(timestamp);
+    }
+    if (unresolved.length === 0) return prices;
+
+    try {
+      const fetched = await fetchHistoricalPrices(symbol, unresolved);
+      Object.entries(fetched).forEach(([timestamp, price]) => {
+        // Past prices never change once resolved
+        this.historicalPrices.set(`${symbol}@${timestamp}`, price);
+        prices[Number(timestamp)] = price;
+      });
+    } catch (error) {
+      console.error(`Error fetching ${symbol} historical prices:`, error);
+    }
+    return prices;
+  }
+
+  private recordPricePoint(symbol: string, quote?: PriceQuote) {
+    if (!quote || quote.usd === null || quote.updatedAt === null) return;
+    this.priceHistory.set(
+      symbol,
+      appendPricePoint(this.priceHistory.get(symbol) ?? [], {
+        timestamp: Math.floor(quote.updatedAt / 1000),
+        usd: quote.usd,
+      }),
+    );
+  }
+
+  private async fetchTokenPrices(symbols: string[]) {
+    for (const symbol of symbols) {
+      const quote = await fetchPriceQuote(symbol);
+      const previous = this.tokenPrices.get(symbol);
+      if (!quote) continue;
+      // Keep the last known price when the API lost it, it is stale by now
+      if (quote.usd === null && previous?.usd) {
+        this.tokenPrices.set(symbol, { ...previous, status: "stale" });
+        continue;
+      }
+      this.tokenPrices.set(symbol, quote);
+      this.recordPricePoint(symbol, quote);
+      if (quote.usd !== null) this.setTokenPrice?.(symbol, quote.usd);
+    }
+  }
+
   private async fetchPrices() {
     try {
-      const ethPrice = await fetchPriceFromCoingecko("ETH");
-      const strkPrice = await fetchPriceFromCoingecko("STRK");
+      const ethQuote = await fetchPriceQuote("ETH");
+      const strkQuote = await fetchPriceQuote("STRK");
+      this.recordPricePoint("ETH", ethQuote);
+      this.recordPricePoint("STRK", strkQuote);
+      const ethPrice = ethQuote?.usd ?? 0;
+      const strkPrice = strkQuote?.usd ?? 0;
       if (ethPrice && strkPrice) {
         this.currentNativeCurrencyPrice = ethPrice;
         this.currentStrkCurrencyPrice = strkPrice;
@@ -109,6 +248,7 @@ class PriceService {
           strkPrice || this.currentStrkCurrencyPrice,
         );
       });
+      await this.fetchTokenPrices(Array.from(this.tokenPrices.keys()));
     } catch (error) {
       console.error("Error fetching prices:", error);
     }
@@ -8,6 +8,15 @@ import {
   beforeAll,
 } from "vitest";
 import scaffoldConfig from "~~/scaffold.config";
+import { PriceQuote } from "~~/services/prices/priceSources";
+
+const mockQuote = (token: string, usd: number | null): PriceQuote => ({
+  token,
+  usd,
+  status: usd === null ? "missing" : "fresh",
+  source: usd === null ? null : "coingecko",
+  updatedAt: usd === null ? null : 0,
+});
 
 const mockFetch = vi.fn();
 vi.stubGlobal("fetch", mockFetch);
@@ -15,13 +24,13 @@ mockFetch.mockImplementation((url: string) => {
   if (url.includes("ETH")) {
     return Promise.resolve({
       ok: true,
-      json: () => Promise.resolve({ ethereum: { usd: 2000 } }),
+      json: () => Promise.resolve(mockQuote("ETH", 2000)),
     });
   }
   if (url.includes("STRK")) {
     return Promise.resolve({
       ok: true,
-      json: () => Promise.resolve({ starknet: { usd: 100 } }),
+      json: () => Promise.resolve(mockQuote("STRK", 100)),
     });
   }
   return Promise.reject(new Error("Unknown URL"));
@@ -53,6 +62,8 @@ describe("PriceService", () => {
     priceService["listeners"].forEach((_, ref) => {
       priceService.stopPolling(ref);
     });
+    priceService["priceHistory"].clear();
+    priceService["historicalPrices"].clear();
   });
 
   describe("Singleton Pattern", () => {
@@ -204,13 +215,13 @@ describe("PriceService", () => {
         if (url.includes("ETH")) {
           return Promise.resolve({
             ok: true,
-            json: () => Promise.resolve({ ethereum: { usd: mockEthPrice } }),
+            json: () => Promise.resolve(mockQuote("ETH", mockEthPrice)),
           });
         }
         if (url.includes("STRK")) {
           return Promise.resolve({
             ok: true,
-            json: () => Promise.resolve({ starknet: { usd: mockStrkPrice } }),
+            json: () => Promise.resolve(mockQuote("STRK", mockStrkPrice)),
           });
         }
         return Promise.reject(new Error("Unknown URL"));
@@ -269,20 +280,19 @@ describe("PriceService", () => {
     it("should retry failed requests up to maximum attempts", async () => {
       const mockError = new Error("Network error");
       mockFetch
-        // First attempt (ETH + STRK)
-        .mockRejectedValueOnce(mockError)
+        // ETH fails twice before the third attempt succeeds
         .mockRejectedValueOnce(mockError)
-        // Second attempt (ETH + STRK)
         .mockRejectedValueOnce(mockError)
-        .mockRejectedValueOnce(mockError)
-        // Third attempt (ETH + STRK)
         .mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve({ ethereum: { usd: 2000 } }),
+          json: () => Promise.resolve(mockQuote("ETH", 2000)),
         })
+        // Then STRK does the same
+        .mockRejectedValueOnce(mockError)
+        .mockRejectedValueOnce(mockError)
         .mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve({ starknet: { usd: 100 } }),
+          json: () => Promise.resolve(mockQuote("STRK", 100)),
         });
 
       await priceService["fetchPrices"]();
@@ -341,4 +351,134 @@ describe("PriceService", () => {
       ).not.toThrow();
     });
   });
+
+  describe("Token Prices", () => {
+    afterEach(() => {
+      priceService["tokenPrices"].clear();
+    });
+
+    it("should fetch newly tracked tokens and report their price", async () => {
+      const mockSetTokenPrice = vi.fn();
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              url.endsWith("USDC")
+                ? mockQuote("USDC", 1.001)
+                : mockQuote("UNKNOWN", null),
+            ),
+        }),
+      );
+
+      priceService.trackTokenPrices(
+        ["ETH", "USDC", "UNKNOWN"],
+        mockSetTokenPrice,
+      );
+      await vi.waitFor(() => {
+        expect(priceService.getTokenQuote("UNKNOWN")?.status).toBe("missing");
+      });
+
+      // ETH is polled with the native price, missing prices are never reported as 0
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledWith("/api/price/USDC");
+      expect(mockSetTokenPrice).toHaveBeenCalledTimes(1);
+      expect(mockSetTokenPrice).toHaveBeenCalledWith("USDC", 1.001);
+      expect(priceService.getTokenPrice("USDC")).toBe(1.001);
+      expect(priceService.getTokenPrice("UNKNOWN")).toBe(0);
+    });
+
+    it("should keep the last price as stale once the API loses it", async () => {
+      const mockSetTokenPrice = vi.fn();
+      priceService["tokenPrices"].set("USDC", mockQuote("USDC", 1));
+      mockFetch.mockImplementation(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockQuote("USDC", null)),
+        }),
+      );
+      priceService["setTokenPrice"] = mockSetTokenPrice;
+
+      await priceService["fetchTokenPrices"](["USDC"]);
+
+      expect(priceService.getTokenQuote("USDC")).toMatchObject({
+        usd: 1,
+        status: "stale",
+      });
+      expect(mockSetTokenPrice).not.toHaveBeenCalled();
+    });
+
+    it("should not refetch tokens that are already tracked", () => {
+      priceService["tokenPrices"].set("USDC", mockQuote("USDC", 1));
+
+      priceService.trackTokenPrices(["USDC"], vi.fn());
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should return the native prices for ETH and STRK", () => {
+      priceService["currentNativeCurrencyPrice"] = 2000;
+      priceService["currentStrkCurrencyPrice"] = 100;
+
+      expect(priceService.getTokenPrice("ETH")).toBe(2000);
+      expect(priceService.getTokenPrice("STRK")).toBe(100);
+    });
+  });
+
+  describe("Historical Prices", () => {
+    it("should record the quotes it polls", async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              ...mockQuote(url.endsWith("ETH") ? "ETH" : "STRK", 2000),
+              updatedAt: 1_700_000_000_000,
+            }),
+        }),
+      );
+
+      await priceService["fetchPrices"]();
+
+      expect(priceService["priceHistory"].get("ETH")).toEqual([
+        { timestamp: 1_700_000_000, usd: 2000 },
+      ]);
+    });
+
+    it("should resolve recent blocks locally and older ones from the API", async () => {
+      priceService["priceHistory"].set("STRK", [
+        { timestamp: 1_700_000_000, usd: 0.5 },
+      ]);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            token: "STRK",
+            prices: {
+              1600000000: { timestamp: 1_600_000_100, usd: 0.25 },
+              1500000000: null,
+            },
+          }),
+      });
+
+      const prices = await priceService.getPricesAt(
+        "STRK",
+        [1_700_000_060, 1_600_000_000, 1_500_000_000],
+      );
+
+      expect(prices).toEqual({ 1700000060: 0.5, 1600000000: 0.25 });
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/api/price/STRK/history?at=1600000000,1500000000",
+      );
+    });
+
+    it("should not fetch prices it already resolved", async () => {
+      priceService["historicalPrices"].set("USDC@1600000000", 1);
+
+      const prices = await priceService.getPricesAt("USDC", [1_600_000_000]);
+
+      expect(prices).toEqual({ 1600000000: 1 });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -272,8 +272,77 @@ const universalErc20Abi = [
   },
 ] as const;
 
+// Read side of the crowdfunding factory, it is only in deployedContracts.ts on networks `yarn deploy` ran for
+const crowdfundingFactoryAbi = [
+  {
+    type: "impl",
+    name: "CrowdfundingFactoryImpl",
+    interface_name: "contracts::crowdfunding_factory::ICrowdfundingFactory",
+  },
+  {
+    name: "contracts::crowdfunding_factory::ICrowdfundingFactory",
+    type: "interface",
+    items: [
+      {
+        name: "get_campaigns",
+        type: "function",
+        inputs: [],
+        outputs: [
+          {
+            type: "core::array::Array::<core::starknet::contract_address::ContractAddress>",
+          },
+        ],
+        state_mutability: "view",
+      },
+      {
+        name: "get_campaign_count",
+        type: "function",
+        inputs: [],
+        outputs: [
+          {
+            type: "core::integer::u32",
+          },
+        ],
+        state_mutability: "view",
+      },
+      {
+        name: "get_campaign",
+        type: "function",
+        inputs: [
+          {
+            name: "index",
+            type: "core::integer::u32",
+          },
+        ],
+        outputs: [
+          {
+            type: "core::starknet::contract_address::ContractAddress",
+          },
+        ],
+        state_mutability: "view",
+      },
+    ],
+  },
+] as const;
+
 export const LAST_CONNECTED_TIME_LOCALSTORAGE_KEY = "lastConnectedTime";
 
+// CoinGecko ids of the token symbols the price API can quote
+export const COINGECKO_IDS: Record<string, string> = {
+  ETH: "ethereum",
+  STRK: "starknet",
+  USDC: "usd-coin",
+  USDT: "tether",
+  DAI: "dai",
+  WBTC: "wrapped-bitcoin",
+};
+
+// Pragma oracle contracts by network, read for on-chain spot prices
+export const PRAGMA_ORACLE_ADDRESSES: Record<string, string> = {
+  mainnet: "0x2a85bd616f912537c50a49a4076db02c00b29b2cdc8a197ce92ed1837fa875b",
+  sepolia: "0x36031daa264c24520b11d93af622c848b2499b66b41d611bac95e13cfca131a",
+};
+
 export {
   devnetEthClassHash,
   devnetStrkClassHash,
@@ -282,4 +351,5 @@ export {
   universalStrkAddress,
   sepoliaMainnetStrkClassHash,
   universalErc20Abi,
+  crowdfundingFactoryAbi,
 };
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePercentage,
+  getCampaignProgress,
+  toBarPercent,
+} from "../progress";
+
+describe("Progress Utility Functions", () => {
+  describe("calculatePercentage", () => {
+    it("should compute exact percentages", () => {
+      expect(calculatePercentage(1n, 2n)).toBe("50");
+      expect(calculatePercentage(1n, 3n)).toBe("33.33");
+      expect(calculatePercentage(2n, 3n)).toBe("66.66");
+    });
+
+    it("should honor the requested precision", () => {
+      expect(calculatePercentage(1n, 3n, 0)).toBe("33");
+      expect(calculatePercentage(1n, 3n, 5)).toBe("33.33333");
+      expect(calculatePercentage(1n, 8n, 1)).toBe("12.5");
+    });
+
+    it("should not lose precision on u256 values", () => {
+      const target = 2n ** 255n;
+      expect(calculatePercentage(target / 3n, target, 4)).toBe("33.3333");
+      expect(calculatePercentage(target - 1n, target)).toBe("99.99");
+    });
+
+    it("should go beyond 100 when over target", () => {
+      expect(calculatePercentage(5n, 4n)).toBe("125");
+    });
+
+    it("should return 0 for empty values and totals", () => {
+      expect(calculatePercentage(0n, 10n)).toBe("0");
+      expect(calculatePercentage(10n, 0n)).toBe("0");
+    });
+  });
+
+  describe("toBarPercent", () => {
+    it("should convert amounts to capped bar widths", () => {
+      expect(toBarPercent(1n, 3n)).toBe(33.33);
+      expect(toBarPercent(5n, 4n)).toBe(100);
+      expect(toBarPercent(1n, 0n)).toBe(0);
+    });
+  });
+
+  describe("getCampaignProgress", () => {
+    it("should split pledged funds into withdrawn and held segments", () => {
+      const { segments, isOverTarget } = getCampaignProgress({
+        target: 100n,
+        pledged: 80n,
+        withdrawn: 30n,
+      });
+      expect(segments).toEqual([
+        { kind: "withdrawn", amount: 30n, width: 30 },
+        { kind: "pledged", amount: 50n, width: 50 },
+      ]);
+      expect(isOverTarget).toBe(false);
+    });
+
+    it("should scale to the last stretch goal and mark reached goals", () => {
+      const { segments, markers, isOverTarget } = getCampaignProgress({
+        target: 100n,
+        pledged: 150n,
+        stretchGoals: [
+          { label: "Translations", amount: 150n },
+          { label: "Mobile app", amount: 200n },
+        ],
+      });
+      expect(segments).toEqual([
+        { kind: "pledged", amount: 100n, width: 50 },
+        { kind: "stretch", amount: 50n, width: 25 },
+      ]);
+      expect(markers).toEqual([
+        { label: "Target", amount: 100n, position: 50, reached: true },
+        { label: "Translations", amount: 150n, position: 75, reached: true },
+        { label: "Mobile app", amount: 200n, position: 100, reached: false },
+      ]);
+      expect(isOverTarget).toBe(true);
+    });
+
+    it("should scale to the pledged amount beyond every goal", () => {
+      const { segments, markers } = getCampaignProgress({
+        target: 100n,
+        pledged: 400n,
+        targetLabel: "Cap",
+      });
+      expect(segments.map(({ width }) => width)).toEqual([25, 75]);
+      expect(markers[0]).toMatchObject({ label: "Cap", position: 25 });
+    });
+
+    it("should render an empty bar without a target", () => {
+      expect(getCampaignProgress({ target: 0n, pledged: 0n }).segments).toEqual(
+        [],
+      );
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { decodeRevertReason } from "../revertReason";
+
+describe("decodeRevertReason", () => {
+  it("should prefer the decoded string printed by the node", () => {
+    const reason =
+      "Error in the called contract (0x0123):\nError at pc=0:104:\nExecution failed. Failure reason: 0x43616e6e6f7420776974686472617721 ('Cannot withdraw!').";
+    expect(decodeRevertReason(reason)).toBe("Cannot withdraw!");
+  });
+
+  it("should decode raw failure felts", () => {
+    const reason =
+      "Execution failed. Failure reason: 0x43616d706169676e2068617320656e646564.";
+    expect(decodeRevertReason(reason)).toBe("Campaign has ended");
+  });
+
+  it("should skip generic nested call failures", () => {
+    const reason =
+      "Execution failed. Failure reason: (0x43616e6e6f7420776974686472617721, 0x454e545259504f494e545f4641494c4544, 0x454e545259504f494e545f4641494c4544).";
+    expect(decodeRevertReason(reason)).toBe("Cannot withdraw!");
+  });
+
+  it("should fall back to the first line when nothing can be decoded", () => {
+    expect(decodeRevertReason("  Insufficient max fee\nmore details")).toBe(
+      "Insufficient max fee",
+    );
+  });
+});
@@ -189,7 +189,32 @@ export type UseScaffoldWriteConfig<
   >,
 > = {
   contractName: TContractName;
-} & IsContractDeclarationMissing<
+} & ScaffoldWriteParams<TAbi, TContractName, TFunctionName>;
+
+/**
+ * Write config for a contract reached by address, typed by the ABI of a declared contract
+ * e.g. any campaign deployed from the crowdfunding class
+ */
+export type UseScaffoldWriteContractAtConfig<
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "external"
+  >,
+> = {
+  abiName: TContractName;
+  address: string | undefined;
+} & ScaffoldWriteParams<TAbi, TContractName, TFunctionName>;
+
+type ScaffoldWriteParams<
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "external"
+  >,
+> = IsContractDeclarationMissing<
   Partial<UseSendTransactionProps> & {
     functionName: string;
     args: any[];
@@ -319,7 +344,32 @@ export type UseScaffoldReadConfig<
   >,
 > = {
   contractName: TContractName;
-} & IsContractDeclarationMissing<
+} & ScaffoldReadParams<TAbi, TContractName, TFunctionName>;
+
+/**
+ * Read config for a contract reached by address, typed by the ABI of a declared contract
+ * e.g. any campaign deployed from the crowdfunding class
+ */
+export type UseScaffoldReadContractAtConfig<
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "view"
+  >,
+> = {
+  abiName: TContractName;
+  address: string | undefined;
+} & ScaffoldReadParams<TAbi, TContractName, TFunctionName>;
+
+type ScaffoldReadParams<
+  TAbi extends Abi,
+  TContractName extends ContractName,
+  TFunctionName extends ExtractAbiFunctionNamesScaffold<
+    ContractAbi<TContractName>,
+    "view"
+  >,
+> = IsContractDeclarationMissing<
   Partial<UseReadContractProps<TAbi, TFunctionName>>,
   {
     functionName: TFunctionName;
@@ -368,6 +418,7 @@ export type UseScaffoldEventHistoryConfig<
   TReceiptData extends boolean = false,
 > = {
   contractName: TContractName;
+  address?: string;
   eventName: IsContractDeclarationMissing<string, TEventName>;
   fromBlock: bigint;
   filters?: any;
@@ -376,6 +427,11 @@ export type UseScaffoldEventHistoryConfig<
   receiptData?: TReceiptData;
   watch?: boolean;
   enabled?: boolean;
+  chunkSize?: number;
+  blockRangeSize?: number | bigint;
+  concurrency?: number;
+  parseArgs?: boolean;
+  cache?: boolean;
 };
 
 /// export all the types from kanabi
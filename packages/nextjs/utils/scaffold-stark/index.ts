@@ -1,3 +1,4 @@
 export * from "./networks";
 export * from "./notification";
 export * from "./types";
+export * from "./revertReason";
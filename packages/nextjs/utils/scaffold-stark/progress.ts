@@ -0,0 +1,123 @@
+// Progress math for u256 amounts. Everything stays in bigint, floats only appear
+// as the final CSS width, which never needs more than two decimals.
+
+export type ProgressGoal = {
+  label: string;
+  amount: bigint;
+};
+
+export type ProgressSegmentKind = "withdrawn" | "pledged" | "stretch";
+
+export type ProgressSegment = {
+  kind: ProgressSegmentKind;
+  amount: bigint;
+  // Width on the bar, in percent of the bar's scale
+  width: number;
+};
+
+export type ProgressMarker = ProgressGoal & {
+  // Position on the bar, in percent of the bar's scale
+  position: number;
+  reached: boolean;
+};
+
+export type CampaignProgressInput = {
+  target: bigint;
+  // Total contributed, including what was already paid out
+  pledged: bigint;
+  // Part of `pledged` already paid out to the grantee
+  withdrawn?: bigint;
+  stretchGoals?: ProgressGoal[];
+  // Label of the target marker, e.g. "Cap" for hard capped campaigns
+  targetLabel?: string;
+};
+
+const max = (...values: bigint[]) =>
+  values.reduce((result, value) => (value > result ? value : result));
+
+const min = (...values: bigint[]) =>
+  values.reduce((result, value) => (value < result ? value : result));
+
+/**
+ * Computes `value / total` as a percentage string without floating point errors.
+ * The result is truncated, not rounded, so 100% is only shown once the total is reached.
+ * @param value - e.g. the amount raised
+ * @param total - e.g. the target, a zero total gives "0"
+ * @param precision - maximum number of decimals, trailing zeros are trimmed
+ * @returns e.g. "33.33" for 1/3 with the default precision
+ */
+export const calculatePercentage = (
+  value: bigint,
+  total: bigint,
+  precision: number = 2,
+): string => {
+  if (total <= 0n || value <= 0n) return "0";
+  const scale = 10n ** BigInt(precision);
+  const scaled = (value * 100n * scale) / total;
+
+  const integerPart = scaled / scale;
+  const fractionalPart = (scaled % scale)
+    .toString()
+    .padStart(precision, "0")
+    .replace(/0+$/, "");
+  return fractionalPart ? `${integerPart}.${fractionalPart}` : `${integerPart}`;
+};
+
+/**
+ * Position of an amount on a bar spanning `[0, scale]`, in percent with two decimals, capped to 100.
+ */
+export const toBarPercent = (amount: bigint, scale: bigint): number => {
+  if (scale <= 0n || amount <= 0n) return 0;
+  return Number((min(amount, scale) * 10_000n) / scale) / 100;
+};
+
+/**
+ * Lays out a campaign progress bar.
+ * The scale extends to the last stretch goal, or to what was pledged if more. Segments are, in order:
+ * what was already paid out, what is still held up to the target, and what was pledged beyond it.
+ */
+export const getCampaignProgress = ({
+  target,
+  pledged,
+  withdrawn = 0n,
+  stretchGoals = [],
+  targetLabel = "Target",
+}: CampaignProgressInput) => {
+  const scale = max(
+    target,
+    pledged,
+    ...stretchGoals.map((goal) => goal.amount),
+  );
+  const paidOut = min(withdrawn, pledged);
+  const heldUpToTarget = max(min(pledged, target) - paidOut, 0n);
+  const beyondTarget = pledged - paidOut - heldUpToTarget;
+
+  const segments: ProgressSegment[] = (
+    [
+      ["withdrawn", paidOut],
+      ["pledged", heldUpToTarget],
+      ["stretch", beyondTarget],
+    ] as [ProgressSegmentKind, bigint][]
+  )
+    .filter(([, amount]) => amount > 0n)
+    .map(([kind, amount]) => ({
+      kind,
+      amount,
+      width: toBarPercent(amount, scale),
+    }));
+
+  const markers: ProgressMarker[] = [
+    { label: targetLabel, amount: target },
+    ...stretchGoals,
+  ].map((goal) => ({
+    ...goal,
+    position: toBarPercent(goal.amount, scale),
+    reached: pledged >= goal.amount,
+  }));
+
+  return {
+    segments,
+    markers,
+    isOverTarget: target > 0n && pledged > target,
+  };
+};
@@ -0,0 +1,61 @@
+import {
+  GetTransactionReceiptResponse,
+  ReceiptTx,
+  RevertedTransactionReceiptResponse,
+  shortString,
+} from "starknet";
+
+// Felts the sequencer appends to every failure raised through a nested call
+const GENERIC_FAILURES = ["ENTRYPOINT_FAILED", "argent/multicall-failed"];
+
+const decodeFelt = (felt: string) => {
+  try {
+    const decoded = shortString.decodeShortString(felt);
+    // Only keep felts that are readable assert strings, not addresses or selectors
+    return /^[\x20-\x7e]+$/.test(decoded) ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extracts the assert message from a Starknet revert reason or execution error,
+ * e.g. `... Failure reason: 0x43616e6e6f74207769746864726177 ('Cannot withdraw!').` gives `Cannot withdraw!`
+ * @param reason - `revert_reason` of a receipt or the message of a failed simulation
+ * @returns the contract's assert string, or the first line of the reason when none is found
+ */
+export const decodeRevertReason = (reason: string): string => {
+  const failures: string[] = [];
+
+  // Newer nodes print the decoded string next to the felt
+  for (const [, text] of Array.from(reason.matchAll(/\('([^']*)'\)/g))) {
+    failures.push(text);
+  }
+
+  if (failures.length === 0) {
+    const failureFelts =
+      /Failure reason:\s*\(?((?:0x[0-9a-fA-F]+(?:,\s*)?)+)\)?/.exec(reason);
+    for (const felt of failureFelts?.[1].split(/,\s*/) ?? []) {
+      const decoded = decodeFelt(felt);
+      if (decoded) failures.push(decoded);
+    }
+  }
+
+  const message = failures.find(
+    (failure) => !GENERIC_FAILURES.includes(failure),
+  );
+  return message ?? reason.trim().split("\n")[0];
+};
+
+/**
+ * Returns the decoded revert reason of a reverted receipt, or `undefined` if the transaction succeeded.
+ */
+export const getReceiptRevertReason = (
+  receipt: GetTransactionReceiptResponse,
+): string | undefined => {
+  if (!ReceiptTx.isReverted(receipt)) return undefined;
+  return decodeRevertReason(
+    (receipt as RevertedTransactionReceiptResponse).revert_reason ??
+      "Transaction reverted",
+  );
+};
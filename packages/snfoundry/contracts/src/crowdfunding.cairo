@@ -3,8 +3,20 @@
 // This contract implements a decentralized crowdfunding platform on StarkNet where:
 // - Users can create and manage fundraising campaigns
 // - Supporters can contribute ERC20 tokens (STRK, ETH, etc.)
-// - Campaign owners can withdraw funds when conditions are met
-// - Campaigns have targets, deadlines, and descriptions
+// - Campaign owners can withdraw funds once the target is met
+// - Supporters can claim a refund if the campaign ends below its target, for 30 days after the
+//   deadline, a reset then sweeps unclaimed refunds to the owner
+// - Campaigns have targets, deadlines, a title and a long-form markdown description
+//   referenced by URI (https://, ipfs:// or an inline data: URI)
+// - Off-chain metadata (images, category, links, grantee profile) is referenced by its
+//   SHA-256 content hash, so the frontend can verify the document it fetches
+// - Funds can be released to the grantee in milestone tranches, each approved by the owner
+// - Reward tiers at contribution thresholds, qualifying backers get a badge recorded on chain
+// - A funding policy decides what happens around the target (all-or-nothing, keep-what-you-raise
+//   or hard cap) and stretch goals list what extra funding beyond the target pays for
+// - Keep-what-you-raise campaigns can accept an allow-list of tokens next to the primary one and
+//   set their target in USD, both are priced off-chain since the contract has no price oracle
+// - The owner can upgrade the contract class in place, keeping its address and storage
 //
 // Security Features:
 // - Ownable pattern for access control
@@ -12,7 +24,73 @@
 // - Active status management
 // - Safe token transfer handling
 
-use starknet::ContractAddress;
+use starknet::{ClassHash, ContractAddress};
+
+// A tranche of the funding target released to the grantee once approved
+#[derive(Drop, Serde, starknet::Store)]
+pub struct Milestone {
+    pub amount: u256,          // Tranche amount, the last tranche also releases any surplus
+    pub description: ByteArray, // What the grantee delivers for this tranche
+    pub approved: bool,        // Set by the owner, in order
+    pub released: bool,        // Set once the tranche has been transferred
+}
+
+// What happens around the funding target
+#[derive(Drop, Copy, Serde, PartialEq, starknet::Store)]
+pub enum FundingPolicy {
+    // Withdraw once the target is met, backers are refunded if it is missed
+    #[default]
+    AllOrNothing,
+    // Withdraw once the target is met or the deadline has passed, no refunds
+    KeepWhatYouRaise,
+    // All-or-nothing, and contributions beyond the target are rejected
+    HardCap,
+}
+
+// Unit the funding target is expressed in
+#[derive(Drop, Copy, Serde, PartialEq, starknet::Store)]
+pub enum TargetUnit {
+    // Smallest unit of the primary token, checked on chain
+    #[default]
+    Token,
+    // US dollar cents, aggregated off-chain across every accepted token
+    Usd,
+}
+
+// Amount raised in one of the accepted tokens
+#[derive(Drop, Copy, Serde)]
+pub struct TokenRaised {
+    pub token: ContractAddress,
+    pub amount: u256,
+}
+
+// Extra funding goal beyond the target
+#[derive(Drop, Serde, starknet::Store)]
+pub struct StretchGoal {
+    pub name: ByteArray,
+    pub amount: u256,          // Total raised needed to unlock the goal
+}
+
+// A perk offered to backers whose contribution in the round reaches `min_amount`
+#[derive(Drop, Serde, starknet::Store)]
+pub struct RewardTier {
+    pub name: ByteArray,
+    pub min_amount: u256,
+}
+
+// Badge recorded for a backer, one per round holding the highest tier reached
+#[derive(Drop, Serde, starknet::Store)]
+pub struct BackerBadge {
+    pub round: u32,
+    pub tier: u32,             // Index into the round's reward tiers
+    pub name: ByteArray,       // Tier name at the time it was earned
+}
+
+// Replaces the class of a deployed campaign, see scripts-ts/upgrade.ts
+#[starknet::interface]
+pub trait IUpgradeable<TContractState> {
+    fn upgrade(ref self: TContractState, new_class_hash: ClassHash);
+}
 
 #[starknet::interface]
 pub trait IFund<TContractState> {
@@ -22,8 +100,11 @@ pub trait IFund<TContractState> {
     // Returns the target amount that needs to be raised for the campaign
     fn get_fund_target(self: @TContractState) -> u256;
 
-    // Returns the campaign description stored as a felt252
-    fn get_fund_description(self: @TContractState) -> felt252;
+    // Returns the campaign title
+    fn get_fund_title(self: @TContractState) -> ByteArray;
+
+    // Returns the URI of the campaign's markdown description
+    fn get_fund_description_uri(self: @TContractState) -> ByteArray;
 
     // Returns the Unix timestamp when the campaign ends
     fn get_deadline(self: @TContractState) -> felt252;
@@ -34,21 +115,100 @@ pub trait IFund<TContractState> {
     // Returns the contract address of the ERC20 token being used for fundraising
     fn get_token_address(self: @TContractState) -> ContractAddress;
 
+    // Returns the address that receives the funds
+    fn get_grantee_address(self: @TContractState) -> ContractAddress;
+
     // Allows supporters to contribute tokens to the campaign
     // Requires prior approval for token transfer
     fn fund_to_contract(ref self: TContractState, amount: u256);
 
+    // Contributes any of the accepted tokens, see get_accepted_tokens
+    fn fund_with_token(ref self: TContractState, token: ContractAddress, amount: u256);
+
+    // Replaces the tokens accepted next to the primary one in the current round
+    // Owner only, before any contribution, and only for keep-what-you-raise campaigns
+    fn set_accepted_tokens(ref self: TContractState, tokens: Array<ContractAddress>);
+
+    // Returns the tokens accepted in the current round, the primary token first
+    fn get_accepted_tokens(self: @TContractState) -> Array<ContractAddress>;
+
+    // Returns the amount raised in each accepted token in the current round
+    fn get_raised_by_token(self: @TContractState) -> Array<TokenRaised>;
+
+    // Returns the amount an address contributed in one token in the current round
+    fn get_token_contribution(self: @TContractState, token: ContractAddress, contributor: ContractAddress) -> u256;
+
+    // Returns the unit of the funding target
+    fn get_target_unit(self: @TContractState) -> TargetUnit;
+
+    // Changes the target unit together with the target expressed in it (owner only, before any contribution)
+    fn set_target_unit(ref self: TContractState, unit: TargetUnit, fund_target: u256);
+
     // Allows the campaign owner to withdraw collected funds
-    // Only succeeds if deadline is reached or target is met
+    // Only succeeds once the target is met and the campaign has no milestones
     fn withdraw_funds(ref self: TContractState);
 
+    // Replaces the milestones of the current round (owner only, before any approval)
+    // Amounts must add up to the funding target, not with keep-what-you-raise
+    fn set_milestones(ref self: TContractState, amounts: Array<u256>, descriptions: Array<ByteArray>);
+
+    // Returns the number of milestones in the current round
+    fn get_milestone_count(self: @TContractState) -> u32;
+
+    // Returns the milestones of the current round
+    fn get_milestones(self: @TContractState) -> Array<Milestone>;
+
+    // Allows the owner to approve the next milestone once the target is met
+    fn approve_milestone(ref self: TContractState, index: u32);
+
+    // Transfers an approved milestone's tranche to the grantee (owner or grantee)
+    fn release_milestone(ref self: TContractState, index: u32);
+
+    // Replaces the reward tiers of the current round (owner only)
+    // Minimum amounts must be positive and strictly increasing
+    fn set_reward_tiers(ref self: TContractState, names: Array<ByteArray>, min_amounts: Array<u256>);
+
+    // Returns the reward tiers of the current round
+    fn get_reward_tiers(self: @TContractState) -> Array<RewardTier>;
+
+    // Returns every badge a backer has earned on this campaign, across rounds
+    fn get_backer_badges(self: @TContractState, backer: ContractAddress) -> Array<BackerBadge>;
+
+    // Returns the campaign's funding policy
+    fn get_funding_policy(self: @TContractState) -> FundingPolicy;
+
+    // Changes the funding policy (owner only, before any contribution in the round)
+    fn set_funding_policy(ref self: TContractState, policy: FundingPolicy);
+
+    // Replaces the stretch goals of the current round (owner only, not with a hard cap)
+    // Amounts must be above the target and strictly increasing
+    fn set_stretch_goals(ref self: TContractState, names: Array<ByteArray>, amounts: Array<u256>);
+
+    // Returns the stretch goals of the current round
+    fn get_stretch_goals(self: @TContractState) -> Array<StretchGoal>;
+
+    // Returns the total amount contributed by an address in the current round
+    fn get_contribution(self: @TContractState, contributor: ContractAddress) -> u256;
+
+    // Returns the total amount contributed in the current round
+    fn get_total_raised(self: @TContractState) -> u256;
+
+    // Returns whether the campaign ended below its target and refunds can be claimed
+    fn is_refundable(self: @TContractState) -> bool;
+
+    // Allows a supporter to get their contribution back after a failed campaign
+    // Only the primary token is refunded, other tokens are only accepted by campaigns without refunds
+    fn claim_refund(ref self: TContractState);
+
     // Resets the campaign with new parameters for another fundraising round
-    // Only callable by contract owner
+    // Only callable by contract owner, once the funds are withdrawn or, for a missed target,
+    // once the refund grace period is over, unclaimed refunds are then sent to the owner
     fn reset_fund(ref self: TContractState,
         token: ContractAddress,          // New token contract address
         grantee_address: ContractAddress, // New beneficiary address
         fund_target: u256,               // New funding target
-        fund_description: felt252,        // New campaign description
+        fund_title: ByteArray,            // New campaign title
+        fund_description_uri: ByteArray,  // New markdown description URI
         deadline: felt252,                // New deadline timestamp
         initial_owner: ContractAddress    // New campaign owner
     );
@@ -61,16 +221,25 @@ pub trait IFund<TContractState> {
 
     // Allows owner to pause/unpause the campaign
     fn set_active(ref self: TContractState, new_active: bool);
+
+    // Returns the SHA-256 hash of the campaign metadata document, zero if none is set
+    fn get_metadata_hash(self: @TContractState) -> u256;
+
+    // Allows owner to point the campaign at a new metadata document
+    fn set_metadata_hash(ref self: TContractState, metadata_hash: u256);
 }
 
 #[starknet::contract]
 pub mod crowdfunding {
     use starknet::ContractAddress;
+    use super::{BackerBadge, FundingPolicy, Milestone, RewardTier, StretchGoal, TargetUnit, TokenRaised};
+    use core::num::traits::Zero;
     use starknet::event::EventEmitter;
-    use starknet::get_caller_address;
+    use starknet::{ClassHash, SyscallResultTrait, get_caller_address};
+    use starknet::syscalls::{call_contract_syscall, replace_class_syscall};
+    use starknet::storage::{Map, StorageMapReadAccess, StorageMapWriteAccess};
     use openzeppelin_access::ownable::{OwnableComponent};
     use openzeppelin_token::erc20::interface::{IERC20Dispatcher, IERC20DispatcherTrait};
-    use openzeppelin_token::erc20::interface::{IERC20MetadataDispatcher, IERC20MetadataDispatcherTrait};
     use core::traits::TryInto;
 
     // Ownable component integration
@@ -80,6 +249,9 @@ pub mod crowdfunding {
     impl OwnableMixinImpl = OwnableComponent::OwnableMixinImpl<ContractState>;
     impl OwnableInternalImpl = OwnableComponent::InternalImpl<ContractState>;
 
+    // Time backers have after a missed deadline to claim refunds, a reset then sweeps what is left
+    const REFUND_GRACE_PERIOD: u64 = 2592000; // 30 days
+
     // Contract Storage Structure
     // Each field represents a critical piece of campaign information
     #[storage]
@@ -87,11 +259,30 @@ pub mod crowdfunding {
         token: ContractAddress,           // Address of ERC20 token used for fundraising
         fund_target: u256,               // Total amount needed to be raised
         grantee_address: ContractAddress, // Address that will receive the funds
-        fund_description: felt252,        // Campaign details (English text)
+        fund_title: ByteArray,            // Campaign title
+        fund_description_uri: ByteArray,  // URI of the campaign details (markdown)
         deadline: felt252,                // Campaign end time (Unix timestamp)
         #[substorage(v0)]
         ownable: OwnableComponent::Storage, // Access control component
         active: bool,                     // Campaign status flag
+        round: u32,                       // Incremented on reset so the ledger starts empty
+        contributions: Map<(u32, ContractAddress), u256>, // (round, contributor) => amount
+        total_raised: u256,               // Sum of contributions in the current round
+        metadata_hash: u256,              // SHA-256 of the off-chain metadata document
+        milestones: Map<(u32, u32), Milestone>, // (round, index) => milestone
+        milestone_count: Map<u32, u32>,   // round => number of milestones
+        reward_tiers: Map<(u32, u32), RewardTier>, // (round, index) => tier
+        reward_tier_count: Map<u32, u32>, // round => number of tiers
+        backer_badges: Map<(ContractAddress, u32), BackerBadge>, // (backer, index) => badge
+        backer_badge_count: Map<ContractAddress, u32>, // backer => number of badges
+        funding_policy: FundingPolicy,    // Behavior around the target, all-or-nothing by default
+        stretch_goals: Map<(u32, u32), StretchGoal>, // (round, index) => stretch goal
+        stretch_goal_count: Map<u32, u32>, // round => number of stretch goals
+        accepted_tokens: Map<(u32, u32), ContractAddress>, // (round, index) => token accepted next to the primary one
+        accepted_token_count: Map<u32, u32>, // round => number of extra accepted tokens
+        token_raised: Map<(u32, ContractAddress), u256>, // (round, extra token) => amount raised
+        token_contributions: Map<(u32, ContractAddress, ContractAddress), u256>, // (round, extra token, contributor) => amount
+        target_unit: Map<u32, TargetUnit>, // round => unit of the funding target
     }
 
     // Event Definitions
@@ -106,6 +297,18 @@ pub mod crowdfunding {
         TransferFailed: TransferFailed,         // Failed token transfer
         ResetFund: ResetFund,                   // Campaign reset
         ActiveChanged: ActiveChanged,            // Status change
+        Refunded: Refunded,                     // Contribution returned to a supporter
+        MetadataChanged: MetadataChanged,       // Metadata document replaced
+        MilestonesSet: MilestonesSet,           // Milestone plan replaced
+        MilestoneApproved: MilestoneApproved,   // Milestone approved by the owner
+        MilestoneReleased: MilestoneReleased,   // Milestone tranche sent to the grantee
+        RewardTiersSet: RewardTiersSet,         // Reward tiers replaced
+        BadgeEarned: BadgeEarned,               // Backer reached a reward tier
+        FundingPolicyChanged: FundingPolicyChanged, // Funding policy replaced
+        StretchGoalsSet: StretchGoalsSet,       // Stretch goals replaced
+        AcceptedTokensSet: AcceptedTokensSet,   // Token allow-list replaced
+        TargetUnitChanged: TargetUnitChanged,   // Target unit and target replaced
+        Upgraded: Upgraded,                     // Contract class replaced
     }
 
     #[derive(Drop, starknet::Event)]
@@ -119,6 +322,7 @@ pub mod crowdfunding {
         from: ContractAddress,
         to: ContractAddress,
         amount: u256,
+        token: ContractAddress,
     }
 
     #[derive(Drop, starknet::Event)]
@@ -134,7 +338,8 @@ pub mod crowdfunding {
         token: ContractAddress,
         grantee_address: ContractAddress,
         fund_target: u256,
-        fund_description: felt252,
+        fund_title: ByteArray,
+        fund_description_uri: ByteArray,
         deadline: felt252,
         initial_owner: ContractAddress
     }
@@ -144,6 +349,79 @@ pub mod crowdfunding {
         active: bool,
     }
 
+    #[derive(Drop, starknet::Event)]
+    struct MetadataChanged {
+        metadata_hash: u256,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct MilestonesSet {
+        count: u32,
+        total: u256,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct MilestoneApproved {
+        #[key]
+        index: u32,
+        amount: u256,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct MilestoneReleased {
+        #[key]
+        index: u32,
+        grantee_address: ContractAddress,
+        amount: u256,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct RewardTiersSet {
+        count: u32,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct BadgeEarned {
+        #[key]
+        backer: ContractAddress,
+        round: u32,
+        tier: u32,
+        name: ByteArray,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct FundingPolicyChanged {
+        policy: FundingPolicy,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct StretchGoalsSet {
+        count: u32,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct AcceptedTokensSet {
+        count: u32,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct TargetUnitChanged {
+        unit: TargetUnit,
+        fund_target: u256,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct Upgraded {
+        class_hash: ClassHash,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct Refunded {
+        #[key]
+        contributor: ContractAddress,
+        amount: u256,
+    }
+
     // Constructor: Initializes a new crowdfunding campaign
     // Sets up initial parameters and activates the campaign
     #[constructor]
@@ -152,86 +430,33 @@ pub mod crowdfunding {
         token: ContractAddress,           // ERC20 token address (default: STRK)
         grantee_address: ContractAddress, // Beneficiary who receives funds
         fund_target: u256,               // Campaign goal amount
-        fund_description: felt252,        // Campaign description
+        fund_title: ByteArray,            // Campaign title
+        fund_description_uri: ByteArray,  // Markdown description URI
         deadline: felt252,                // End timestamp
         initial_owner: ContractAddress    // Campaign administrator
     ) {
         //fund token address,support any ERC20 token, if not pass token ,use STRK address 0x04718f5a0Fc34cC1AF16A1cdee98fFB20C31f5cD61D6Ab07201858f4287c938D
         self.token.write(token);
         self.fund_target.write(fund_target);
-        self.fund_description.write(fund_description);
+        self.fund_title.write(fund_title.clone());
+        self.fund_description_uri.write(fund_description_uri.clone());
         self.grantee_address.write(grantee_address);
         self.deadline.write(deadline);
         self.ownable.initializer(initial_owner);
         self.active.write(true);  // 初始化为激活状态
-        self.emit(ResetFund{token,grantee_address,fund_target,fund_description,deadline,initial_owner});
+        self.emit(ResetFund{token,grantee_address,fund_target,fund_title,fund_description_uri,deadline,initial_owner});
     }
 
     #[abi(embed_v0)]
     impl CrowdFundingImpl of super::IFund<ContractState> {
-        // Processes a new contribution to the campaign
-        // Validates the transaction and transfers tokens from contributor
+        // Processes a new contribution to the campaign in the primary token
         fn fund_to_contract(ref self: ContractState, amount: u256) {
-            //println!("amount: {}", amount);
-            let caller_address = get_caller_address();
-            //let caller_felt: felt252 = caller_address.try_into().unwrap();
-            //println!("caller_address (hex): 0x{:x}", caller_felt);
-            
-            let current_contract_address = starknet::get_contract_address();
-            //let contract_felt: felt252 = current_contract_address.try_into().unwrap();
-            
-            // Validation checks
-            assert(caller_address != current_contract_address, 'No self fund.');
-            assert(amount > 0, 'Amount <= 0');
-            
-            // Check if campaign is still active
-            let current_timestamp = starknet::get_block_timestamp();
-            //println!("current_timestamp: {}", current_timestamp);
-            let deadline: u64 = self.deadline.read().try_into().unwrap();
-            //println!("deadline: {}", deadline);
-            assert(current_timestamp <= deadline, 'Campaign has ended');
-            
-            let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
-            //println!("contract_address (hex): 0x{:x}", contract_felt);
-            
-            // 检查余额
-            let balance = token_dispatcher.balance_of(caller_address);
-            //println!("caller balance: {}", balance);
-            assert(balance >= amount, 'Insufficient balance');
-            
-            // 检查授权额度
-            let allowance = token_dispatcher.allowance(caller_address, current_contract_address);
-            //println!("allowance: {}", allowance);
-            assert(allowance >= amount, 'Insufficient allowance');
-            
-            // 执行转账
-            //println!("Attempting transfer from 0x{:x} to 0x{:x} amount {}", 
-            //    caller_felt,
-            //    contract_felt,
-            //    amount
-            //);
-            
-            // Check allowance before transfer
-            //let allowance = token_dispatcher.allowance(caller_address, current_contract_address);
-            //println!("Contract allowance: {}", allowance);
-            
-            match token_dispatcher.transfer_from(
-                caller_address, current_contract_address, amount
-            ) {
-                true => {
-                    //println!("Transfer successful!");
-                    self.emit(Transfer { from: caller_address, to: current_contract_address, amount: amount });
-                },
-                false => {
-                    //println!("Transfer failed!");
-                    self.emit(TransferFailed {
-                        from: caller_address,
-                        to: current_contract_address,
-                        amount: amount,
-                        error_message: 'Failed to transfer!'
-                    });
-                }
-            }
+            self.fund(self.token.read(), amount);
+        }
+
+        fn fund_with_token(ref self: ContractState, token: ContractAddress, amount: u256) {
+            assert(self.is_accepted_token(token), 'Token not accepted');
+            self.fund(token, amount);
         }
 
         // Processes withdrawal of funds to the grantee
@@ -240,24 +465,18 @@ pub mod crowdfunding {
             self.ownable.assert_only_owner();
             assert(self.active.read(), 'Not active status');
             //println!("in:in" );
-            // Check if deadline has passed or target is met
+            // Check the funding policy, a missed all-or-nothing target leaves the funds for refunds
             let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
-            let current_timestamp = starknet::get_block_timestamp();
-            let deadline: u64 = self.deadline.read().try_into().unwrap();
             let current_contract_address = starknet::get_contract_address();
             let balance = token_dispatcher.balance_of(current_contract_address);
-            let target = self.fund_target.read();
             
-            //println!("current_timestamp: {}", current_timestamp);
-            //println!("deadline: {}", deadline);
             //println!("fund_target raw: {}", target);
             //println!("fund_target from getter: {}", self.get_fund_target());
             //println!("balance: {}", balance);
 
-            assert(
-                current_timestamp > deadline || balance >= target,
-                'Cannot withdraw!'
-            );
+            assert(self.is_payout_unlocked(), 'Cannot withdraw!');
+            // Campaigns with milestones pay out tranche by tranche
+            assert(self.milestone_count.read(self.round.read()) == 0, 'Use milestone release');
 
             //println!("Assert passed successfully");
             let grantee_address = self.grantee_address.read();
@@ -273,7 +492,8 @@ pub mod crowdfunding {
                 true => {
                     //println!("Transfer successful!");
                     self.active.write(false);  // 提现后设置为非激活状态
-                    self.emit(Transfer { from: current_contract_address, to: grantee_address, amount: balance });
+                    self.emit(Transfer { from: current_contract_address, to: grantee_address, amount: balance, token: self.token.read() });
+                    self.transfer_accepted_tokens(grantee_address);
                     self.emit(ActiveChanged { active: false });
                 },
                 false => {
@@ -288,6 +508,337 @@ pub mod crowdfunding {
             }
         }
 
+        fn set_milestones(ref self: ContractState, amounts: Array<u256>, descriptions: Array<ByteArray>) {
+            self.ownable.assert_only_owner();
+            assert(amounts.len() == descriptions.len(), 'Length mismatch');
+            let round = self.round.read();
+            // Tranches are amounts of the primary token
+            assert(amounts.len() == 0 || !self.is_priced_off_chain(), 'Milestones need one token');
+            // Tranches only pay out a met target, a missed one has to stay refundable
+            assert(
+                amounts.len() == 0 || self.funding_policy.read() != FundingPolicy::KeepWhatYouRaise,
+                'Milestones need a refund policy'
+            );
+            let current_count = self.milestone_count.read(round);
+            // The plan is frozen once the first tranche is approved
+            assert(
+                current_count == 0 || !self.milestones.read((round, 0)).approved,
+                'Milestones already approved'
+            );
+
+            let count = amounts.len();
+            let mut total: u256 = 0;
+            let mut index = 0;
+            while index < count {
+                let amount = *amounts.at(index);
+                assert(amount > 0, 'Milestone amount <= 0');
+                total += amount;
+                self
+                    .milestones
+                    .write(
+                        (round, index),
+                        Milestone {
+                            amount,
+                            description: descriptions.at(index).clone(),
+                            approved: false,
+                            released: false
+                        }
+                    );
+                index += 1;
+            };
+            assert(count == 0 || total == self.fund_target.read(), 'Milestones != target');
+            self.milestone_count.write(round, count);
+            self.emit(MilestonesSet { count, total });
+        }
+
+        fn get_milestone_count(self: @ContractState) -> u32 {
+            self.milestone_count.read(self.round.read())
+        }
+
+        fn get_milestones(self: @ContractState) -> Array<Milestone> {
+            let round = self.round.read();
+            let count = self.milestone_count.read(round);
+            let mut milestones = array![];
+            let mut index = 0;
+            while index < count {
+                milestones.append(self.milestones.read((round, index)));
+                index += 1;
+            };
+            milestones
+        }
+
+        // Approves milestones one by one, in order, once the target has been raised
+        // The deadline alone never unlocks a plan, its tranches add up to the full target
+        fn approve_milestone(ref self: ContractState, index: u32) {
+            self.ownable.assert_only_owner();
+            assert(self.active.read(), 'Not active status');
+            assert(self.total_raised.read() >= self.fund_target.read(), 'Target not met');
+            let round = self.round.read();
+            assert(index < self.milestone_count.read(round), 'Invalid milestone');
+            let mut milestone = self.milestones.read((round, index));
+            assert(!milestone.approved, 'Milestone already approved');
+            assert(index == 0 || self.milestones.read((round, index - 1)).approved, 'Approve in order');
+
+            milestone.approved = true;
+            let amount = milestone.amount;
+            self.milestones.write((round, index), milestone);
+            self.emit(MilestoneApproved { index, amount });
+        }
+
+        // Sends an approved tranche to the grantee, the last tranche also sends any surplus
+        fn release_milestone(ref self: ContractState, index: u32) {
+            let caller_address = get_caller_address();
+            let grantee_address = self.grantee_address.read();
+            assert(
+                caller_address == self.ownable.owner() || caller_address == grantee_address,
+                'Not owner or grantee'
+            );
+            let round = self.round.read();
+            let count = self.milestone_count.read(round);
+            assert(index < count, 'Invalid milestone');
+            let mut milestone = self.milestones.read((round, index));
+            assert(milestone.approved, 'Milestone not approved');
+            assert(!milestone.released, 'Milestone already released');
+            assert(index == 0 || self.milestones.read((round, index - 1)).released, 'Release in order');
+
+            let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
+            let current_contract_address = starknet::get_contract_address();
+            let is_last = index + 1 == count;
+            let amount = if is_last {
+                token_dispatcher.balance_of(current_contract_address)
+            } else {
+                milestone.amount
+            };
+
+            // Mark as released before transferring to prevent double releases
+            milestone.released = true;
+            self.milestones.write((round, index), milestone);
+            assert(token_dispatcher.transfer(grantee_address, amount), 'Failed to release!');
+            self.emit(Transfer { from: current_contract_address, to: grantee_address, amount, token: self.token.read() });
+            self.emit(MilestoneReleased { index, grantee_address, amount });
+            if is_last {
+                self.active.write(false);
+                self.emit(ActiveChanged { active: false });
+            }
+        }
+
+        fn set_reward_tiers(ref self: ContractState, names: Array<ByteArray>, min_amounts: Array<u256>) {
+            self.ownable.assert_only_owner();
+            assert(names.len() == min_amounts.len(), 'Length mismatch');
+            let round = self.round.read();
+            let count = names.len();
+            let mut previous: u256 = 0;
+            let mut index = 0;
+            while index < count {
+                let min_amount = *min_amounts.at(index);
+                // Sorted tiers let award_badge pick the highest one reached
+                assert(min_amount > previous, 'Tiers must increase');
+                previous = min_amount;
+                self.reward_tiers.write((round, index), RewardTier { name: names.at(index).clone(), min_amount });
+                index += 1;
+            };
+            self.reward_tier_count.write(round, count);
+            self.emit(RewardTiersSet { count });
+        }
+
+        fn get_reward_tiers(self: @ContractState) -> Array<RewardTier> {
+            let round = self.round.read();
+            let count = self.reward_tier_count.read(round);
+            let mut tiers = array![];
+            let mut index = 0;
+            while index < count {
+                tiers.append(self.reward_tiers.read((round, index)));
+                index += 1;
+            };
+            tiers
+        }
+
+        fn get_backer_badges(self: @ContractState, backer: ContractAddress) -> Array<BackerBadge> {
+            let count = self.backer_badge_count.read(backer);
+            let mut badges = array![];
+            let mut index = 0;
+            while index < count {
+                badges.append(self.backer_badges.read((backer, index)));
+                index += 1;
+            };
+            badges
+        }
+
+        fn get_funding_policy(self: @ContractState) -> FundingPolicy {
+            self.funding_policy.read()
+        }
+
+        // Changing the rules after backers contributed under them is not allowed
+        fn set_funding_policy(ref self: ContractState, policy: FundingPolicy) {
+            self.ownable.assert_only_owner();
+            assert(!self.has_contributions(self.round.read()), 'Contributions received');
+            if policy == FundingPolicy::HardCap {
+                assert(self.stretch_goal_count.read(self.round.read()) == 0, 'Hard cap has stretch goals');
+            }
+            // A missed target would leave a milestone plan with neither payout nor refunds
+            if policy == FundingPolicy::KeepWhatYouRaise {
+                assert(self.milestone_count.read(self.round.read()) == 0, 'Milestones need a refund policy');
+            }
+            // Refunds and caps need a target the contract can check, and refunds only cover the
+            // primary token, so extra tokens stay with keep-what-you-raise
+            assert(
+                policy == FundingPolicy::KeepWhatYouRaise || !self.is_priced_off_chain(),
+                'Needs keep what you raise'
+            );
+            self.funding_policy.write(policy);
+            self.emit(FundingPolicyChanged { policy });
+        }
+
+        fn set_stretch_goals(ref self: ContractState, names: Array<ByteArray>, amounts: Array<u256>) {
+            self.ownable.assert_only_owner();
+            assert(names.len() == amounts.len(), 'Length mismatch');
+            let count = names.len();
+            assert(
+                count == 0 || self.funding_policy.read() != FundingPolicy::HardCap,
+                'Hard cap has stretch goals'
+            );
+            let round = self.round.read();
+            let mut previous = self.fund_target.read();
+            let mut index = 0;
+            while index < count {
+                let amount = *amounts.at(index);
+                assert(amount > previous, 'Goals must increase');
+                previous = amount;
+                self.stretch_goals.write((round, index), StretchGoal { name: names.at(index).clone(), amount });
+                index += 1;
+            };
+            self.stretch_goal_count.write(round, count);
+            self.emit(StretchGoalsSet { count });
+        }
+
+        fn get_stretch_goals(self: @ContractState) -> Array<StretchGoal> {
+            let round = self.round.read();
+            let count = self.stretch_goal_count.read(round);
+            let mut goals = array![];
+            let mut index = 0;
+            while index < count {
+                goals.append(self.stretch_goals.read((round, index)));
+                index += 1;
+            };
+            goals
+        }
+
+        fn set_accepted_tokens(ref self: ContractState, tokens: Array<ContractAddress>) {
+            self.ownable.assert_only_owner();
+            let round = self.round.read();
+            assert(!self.has_contributions(round), 'Contributions received');
+            let count = tokens.len();
+            assert(
+                count == 0 || self.funding_policy.read() == FundingPolicy::KeepWhatYouRaise,
+                'Needs keep what you raise'
+            );
+            assert(count == 0 || self.milestone_count.read(round) == 0, 'Milestones need one token');
+
+            let primary = self.token.read();
+            let mut index = 0;
+            while index < count {
+                let token = *tokens.at(index);
+                assert(token.is_non_zero(), 'Token is zero');
+                assert(token != primary, 'Token already accepted');
+                let mut previous = 0;
+                while previous < index {
+                    assert(*tokens.at(previous) != token, 'Token already accepted');
+                    previous += 1;
+                };
+                self.accepted_tokens.write((round, index), token);
+                index += 1;
+            };
+            self.accepted_token_count.write(round, count);
+            self.emit(AcceptedTokensSet { count });
+        }
+
+        fn get_accepted_tokens(self: @ContractState) -> Array<ContractAddress> {
+            let round = self.round.read();
+            let count = self.accepted_token_count.read(round);
+            let mut tokens = array![self.token.read()];
+            let mut index = 0;
+            while index < count {
+                tokens.append(self.accepted_tokens.read((round, index)));
+                index += 1;
+            };
+            tokens
+        }
+
+        fn get_raised_by_token(self: @ContractState) -> Array<TokenRaised> {
+            let round = self.round.read();
+            let count = self.accepted_token_count.read(round);
+            let mut raised = array![TokenRaised { token: self.token.read(), amount: self.total_raised.read() }];
+            let mut index = 0;
+            while index < count {
+                let token = self.accepted_tokens.read((round, index));
+                raised.append(TokenRaised { token, amount: self.token_raised.read((round, token)) });
+                index += 1;
+            };
+            raised
+        }
+
+        fn get_token_contribution(self: @ContractState, token: ContractAddress, contributor: ContractAddress) -> u256 {
+            let round = self.round.read();
+            if token == self.token.read() {
+                return self.contributions.read((round, contributor));
+            }
+            self.token_contributions.read((round, token, contributor))
+        }
+
+        fn get_target_unit(self: @ContractState) -> TargetUnit {
+            self.target_unit.read(self.round.read())
+        }
+
+        // The target is replaced together with its unit so it is never read in the wrong unit
+        fn set_target_unit(ref self: ContractState, unit: TargetUnit, fund_target: u256) {
+            self.ownable.assert_only_owner();
+            let round = self.round.read();
+            assert(!self.has_contributions(round), 'Contributions received');
+            assert(fund_target > 0, 'Target <= 0');
+            if unit == TargetUnit::Usd {
+                assert(self.funding_policy.read() == FundingPolicy::KeepWhatYouRaise, 'Needs keep what you raise');
+                assert(self.milestone_count.read(round) == 0, 'Milestones need one token');
+            }
+            // Stretch goals were validated against the previous target
+            assert(self.stretch_goal_count.read(round) == 0, 'Clear stretch goals first');
+            self.target_unit.write(round, unit);
+            self.fund_target.write(fund_target);
+            self.emit(TargetUnitChanged { unit, fund_target });
+        }
+
+        fn get_contribution(self: @ContractState, contributor: ContractAddress) -> u256 {
+            self.contributions.read((self.round.read(), contributor))
+        }
+
+        fn get_total_raised(self: @ContractState) -> u256 {
+            self.total_raised.read()
+        }
+
+        fn is_refundable(self: @ContractState) -> bool {
+            let current_timestamp = starknet::get_block_timestamp();
+            let deadline: u64 = self.deadline.read().try_into().unwrap();
+            self.funding_policy.read() != FundingPolicy::KeepWhatYouRaise
+                && current_timestamp > deadline
+                && self.total_raised.read() < self.fund_target.read()
+        }
+
+        // Returns the caller's contribution once the campaign has ended below its target
+        fn claim_refund(ref self: ContractState) {
+            assert(self.is_refundable(), 'Refunds not available');
+            let caller_address = get_caller_address();
+            let round = self.round.read();
+            let amount = self.contributions.read((round, caller_address));
+            assert(amount > 0, 'Nothing to refund');
+
+            // Clear the ledger entry before transferring to prevent double claims
+            self.contributions.write((round, caller_address), 0);
+            let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
+            let current_contract_address = starknet::get_contract_address();
+            assert(token_dispatcher.transfer(caller_address, amount), 'Failed to refund!');
+            self.emit(Transfer { from: current_contract_address, to: caller_address, amount, token: self.token.read() });
+            self.emit(Refunded { contributor: caller_address, amount });
+        }
+
         // Returns the current contract balance
         fn get_fund_balance(self: @ContractState) -> u256 {
             let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
@@ -301,9 +852,14 @@ pub mod crowdfunding {
             self.fund_target.read()
         }
 
-        // Returns the crowdfunding campaign description
-        fn get_fund_description(self: @ContractState) -> felt252 {
-            self.fund_description.read()
+        // Returns the crowdfunding campaign title
+        fn get_fund_title(self: @ContractState) -> ByteArray {
+            self.fund_title.read()
+        }
+
+        // Returns the URI of the markdown description
+        fn get_fund_description_uri(self: @ContractState) -> ByteArray {
+            self.fund_description_uri.read()
         }
 
         // Returns the campaign deadline timestamp
@@ -326,7 +882,7 @@ pub mod crowdfunding {
                 let eth: core::byte_array::ByteArray = "ETH";
                 eth
             } else {
-                IERC20MetadataDispatcher { contract_address: self.token.read() }.symbol()
+                self.read_token_symbol(token_address)
             }
         }
 
@@ -334,6 +890,11 @@ pub mod crowdfunding {
         fn get_token_address(self: @ContractState) -> ContractAddress {
             self.token.read()
         }
+
+        // Returns the grantee address
+        fn get_grantee_address(self: @ContractState) -> ContractAddress {
+            self.grantee_address.read()
+        }
         
         // Returns the contract owner
         fn get_owner(self: @ContractState) -> ContractAddress {
@@ -352,12 +913,25 @@ pub mod crowdfunding {
             self.emit(ActiveChanged { active: new_active });
         }
 
+        // Returns the hash of the current metadata document
+        fn get_metadata_hash(self: @ContractState) -> u256 {
+            self.metadata_hash.read()
+        }
+
+        // Updates the metadata document hash (owner only)
+        fn set_metadata_hash(ref self: ContractState, metadata_hash: u256) {
+            self.ownable.assert_only_owner();
+            self.metadata_hash.write(metadata_hash);
+            self.emit(MetadataChanged { metadata_hash });
+        }
+
         //Reset the contract and start a new crowdfunding
         fn reset_fund(ref self: ContractState,
             token: ContractAddress,          // New token contract address
             grantee_address: ContractAddress, // New beneficiary address
             fund_target: u256,               // New funding target
-            fund_description: felt252,        // New campaign description
+            fund_title: ByteArray,            // New campaign title
+            fund_description_uri: ByteArray,  // New markdown description URI
             deadline: felt252,                // New deadline timestamp
             initial_owner: ContractAddress    // New campaign owner
         ) {
@@ -366,19 +940,277 @@ pub mod crowdfunding {
             let token_dispatcher = IERC20Dispatcher { contract_address: self.token.read() };
             let current_contract_address = starknet::get_contract_address();
             let balance = token_dispatcher.balance_of(current_contract_address);
-            assert(
-                balance <= 0,
-                'Please withdraw first!'
-            );
+            if balance > 0 {
+                // Refunds left unclaimed past the grace period would otherwise lock the campaign
+                assert(self.is_refund_grace_period_over(), 'Please withdraw first!');
+                let owner = get_caller_address();
+                assert(token_dispatcher.transfer(owner, balance), 'Failed to sweep refunds!');
+                self.emit(Transfer { from: current_contract_address, to: owner, amount: balance, token: self.token.read() });
+            }
+            assert(!self.has_accepted_token_balance(), 'Please withdraw first!');
             self.token.write(token);
             self.fund_target.write(fund_target);
-            self.fund_description.write(fund_description);
+            self.fund_title.write(fund_title.clone());
+            self.fund_description_uri.write(fund_description_uri.clone());
             self.grantee_address.write(grantee_address);
             self.deadline.write(deadline);
             self.ownable.initializer(initial_owner);
             self.active.write(true);  // 重置后设置为激活状态
-            self.emit(ResetFund{token:self.token.read(),grantee_address,fund_target,fund_description,deadline,initial_owner});
+            // Start a fresh contributor ledger for the new round
+            self.round.write(self.round.read() + 1);
+            self.total_raised.write(0);
+            // Metadata described the previous round
+            self.metadata_hash.write(0);
+            self.emit(ResetFund{token:self.token.read(),grantee_address,fund_target,fund_title,fund_description_uri,deadline,initial_owner});
             self.emit(ActiveChanged { active: true });
         }
     }
+
+    #[abi(embed_v0)]
+    impl UpgradeableImpl of super::IUpgradeable<ContractState> {
+        // Replaces the contract class (owner only). The address, balances and storage are kept,
+        // so the new class must only append to the storage layout.
+        fn upgrade(ref self: ContractState, new_class_hash: ClassHash) {
+            self.ownable.assert_only_owner();
+            assert(new_class_hash.is_non_zero(), 'Class hash is zero');
+            replace_class_syscall(new_class_hash).unwrap_syscall();
+            self.emit(Upgraded { class_hash: new_class_hash });
+        }
+    }
+
+    #[generate_trait]
+    impl CrowdfundingInternalImpl of CrowdfundingInternalTrait {
+        // Validates a contribution and transfers the tokens from the contributor
+        fn fund(ref self: ContractState, token: ContractAddress, amount: u256) {
+            //println!("amount: {}", amount);
+            let caller_address = get_caller_address();
+            //let caller_felt: felt252 = caller_address.try_into().unwrap();
+            //println!("caller_address (hex): 0x{:x}", caller_felt);
+            
+            let current_contract_address = starknet::get_contract_address();
+            //let contract_felt: felt252 = current_contract_address.try_into().unwrap();
+            
+            // Validation checks
+            assert(caller_address != current_contract_address, 'No self fund.');
+            assert(amount > 0, 'Amount <= 0');
+            
+            // Check if campaign is still active
+            let current_timestamp = starknet::get_block_timestamp();
+            //println!("current_timestamp: {}", current_timestamp);
+            let deadline: u64 = self.deadline.read().try_into().unwrap();
+            //println!("deadline: {}", deadline);
+            assert(current_timestamp <= deadline, 'Campaign has ended');
+            if self.funding_policy.read() == FundingPolicy::HardCap {
+                assert(self.total_raised.read() + amount <= self.fund_target.read(), 'Exceeds hard cap');
+            }
+            
+            let token_dispatcher = IERC20Dispatcher { contract_address: token };
+            //println!("contract_address (hex): 0x{:x}", contract_felt);
+            
+            // 检查余额
+            let balance = token_dispatcher.balance_of(caller_address);
+            //println!("caller balance: {}", balance);
+            assert(balance >= amount, 'Insufficient balance');
+            
+            // 检查授权额度
+            let allowance = token_dispatcher.allowance(caller_address, current_contract_address);
+            //println!("allowance: {}", allowance);
+            assert(allowance >= amount, 'Insufficient allowance');
+            
+            // 执行转账
+            //println!("Attempting transfer from 0x{:x} to 0x{:x} amount {}", 
+            //    caller_felt,
+            //    contract_felt,
+            //    amount
+            //);
+            
+            // Check allowance before transfer
+            //let allowance = token_dispatcher.allowance(caller_address, current_contract_address);
+            //println!("Contract allowance: {}", allowance);
+            
+            match token_dispatcher.transfer_from(
+                caller_address, current_contract_address, amount
+            ) {
+                true => {
+                    //println!("Transfer successful!");
+                    let round = self.round.read();
+                    // The primary token keeps the ledger behind the target, refunds and badges
+                    if token == self.token.read() {
+                        let contributed = self.contributions.read((round, caller_address));
+                        self.contributions.write((round, caller_address), contributed + amount);
+                        self.total_raised.write(self.total_raised.read() + amount);
+                        self.award_badge(round, caller_address, contributed + amount);
+                    } else {
+                        let contributed = self.token_contributions.read((round, token, caller_address));
+                        self.token_contributions.write((round, token, caller_address), contributed + amount);
+                        self.token_raised.write((round, token), self.token_raised.read((round, token)) + amount);
+                    }
+                    self.emit(Transfer { from: caller_address, to: current_contract_address, amount: amount, token });
+                },
+                false => {
+                    //println!("Transfer failed!");
+                    self.emit(TransferFailed {
+                        from: caller_address,
+                        to: current_contract_address,
+                        amount: amount,
+                        error_message: 'Failed to transfer!'
+                    });
+                }
+            }
+        }
+
+        // Funds can go to the grantee once the target is met, keep-what-you-raise campaigns
+        // can also pay out a missed target once they have ended
+        // USD targets are priced off-chain, so those campaigns only unlock once they have ended
+        fn is_payout_unlocked(self: @ContractState) -> bool {
+            let is_token_target = self.target_unit.read(self.round.read()) == TargetUnit::Token;
+            if is_token_target && self.total_raised.read() >= self.fund_target.read() {
+                return true;
+            }
+            let deadline: u64 = self.deadline.read().try_into().unwrap();
+            self.funding_policy.read() == FundingPolicy::KeepWhatYouRaise
+                && starknet::get_block_timestamp() > deadline
+        }
+
+        // ERC20s return their symbol either as a short string, like most tokens on Starknet, or as a ByteArray
+        fn read_token_symbol(self: @ContractState, token: ContractAddress) -> ByteArray {
+            let mut result = call_contract_syscall(token, selector!("symbol"), array![].span())
+                .unwrap_syscall();
+            if result.len() == 1 {
+                return short_string_to_byte_array(*result.at(0));
+            }
+            Serde::<ByteArray>::deserialize(ref result).expect('Invalid token symbol')
+        }
+
+        // Whether the target has to be checked off-chain, against prices of several tokens or in USD
+        fn is_priced_off_chain(self: @ContractState) -> bool {
+            let round = self.round.read();
+            self.accepted_token_count.read(round) > 0 || self.target_unit.read(round) == TargetUnit::Usd
+        }
+
+        fn is_accepted_token(self: @ContractState, token: ContractAddress) -> bool {
+            if token == self.token.read() {
+                return true;
+            }
+            let round = self.round.read();
+            let count = self.accepted_token_count.read(round);
+            let mut index = 0;
+            let mut accepted = false;
+            while index < count {
+                if self.accepted_tokens.read((round, index)) == token {
+                    accepted = true;
+                    break;
+                }
+                index += 1;
+            };
+            accepted
+        }
+
+        fn has_contributions(self: @ContractState, round: u32) -> bool {
+            if self.total_raised.read() > 0 {
+                return true;
+            }
+            let count = self.accepted_token_count.read(round);
+            let mut index = 0;
+            let mut contributed = false;
+            while index < count {
+                if self.token_raised.read((round, self.accepted_tokens.read((round, index)))) > 0 {
+                    contributed = true;
+                    break;
+                }
+                index += 1;
+            };
+            contributed
+        }
+
+        // A missed target whose backers had the whole grace period to claim their refunds
+        fn is_refund_grace_period_over(self: @ContractState) -> bool {
+            let deadline: u64 = self.deadline.read().try_into().unwrap();
+            self.is_refundable() && starknet::get_block_timestamp() > deadline + REFUND_GRACE_PERIOD
+        }
+
+        fn has_accepted_token_balance(self: @ContractState) -> bool {
+            let round = self.round.read();
+            let count = self.accepted_token_count.read(round);
+            let current_contract_address = starknet::get_contract_address();
+            let mut index = 0;
+            let mut has_balance = false;
+            while index < count {
+                let token_dispatcher = IERC20Dispatcher { contract_address: self.accepted_tokens.read((round, index)) };
+                if token_dispatcher.balance_of(current_contract_address) > 0 {
+                    has_balance = true;
+                    break;
+                }
+                index += 1;
+            };
+            has_balance
+        }
+
+        // Sends the whole balance of every extra accepted token, the primary token is paid out by the caller
+        fn transfer_accepted_tokens(ref self: ContractState, to: ContractAddress) {
+            let round = self.round.read();
+            let count = self.accepted_token_count.read(round);
+            let current_contract_address = starknet::get_contract_address();
+            let mut index = 0;
+            while index < count {
+                let token = self.accepted_tokens.read((round, index));
+                let token_dispatcher = IERC20Dispatcher { contract_address: token };
+                let amount = token_dispatcher.balance_of(current_contract_address);
+                if amount > 0 {
+                    assert(token_dispatcher.transfer(to, amount), 'Failed to withdraw!');
+                    self.emit(Transfer { from: current_contract_address, to, amount, token });
+                }
+                index += 1;
+            };
+        }
+
+        // Records the highest tier a backer's round total reaches, upgrading the round's badge if needed
+        fn award_badge(ref self: ContractState, round: u32, backer: ContractAddress, total: u256) {
+            let tier_count = self.reward_tier_count.read(round);
+            let mut reached = tier_count;
+            let mut index = 0;
+            while index < tier_count {
+                if self.reward_tiers.read((round, index)).min_amount > total {
+                    break;
+                }
+                reached = index;
+                index += 1;
+            };
+            if reached == tier_count {
+                return;
+            }
+
+            let name = self.reward_tiers.read((round, reached)).name;
+            let badge_count = self.backer_badge_count.read(backer);
+            let mut badge_index = badge_count;
+            if badge_count > 0 {
+                let last = self.backer_badges.read((backer, badge_count - 1));
+                if last.round == round {
+                    if last.tier >= reached {
+                        return;
+                    }
+                    badge_index = badge_count - 1;
+                }
+            }
+
+            self.backer_badges.write((backer, badge_index), BackerBadge { round, tier: reached, name: name.clone() });
+            if badge_index == badge_count {
+                self.backer_badge_count.write(backer, badge_count + 1);
+            }
+            self.emit(BadgeEarned { backer, round, tier: reached, name });
+        }
+    }
+
+    // Converts a short string such as 'STRK' into a ByteArray of its bytes
+    fn short_string_to_byte_array(value: felt252) -> ByteArray {
+        let mut remaining: u256 = value.into();
+        let mut len = 0;
+        while remaining != 0 {
+            remaining /= 256;
+            len += 1;
+        };
+        let mut bytes: ByteArray = "";
+        bytes.append_word(value, len);
+        bytes
+    }
 }
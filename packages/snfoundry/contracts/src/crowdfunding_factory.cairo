@@ -0,0 +1,182 @@
+// CrowdFunding Factory Contract
+//
+// Deploys independent crowdfunding campaigns and keeps a registry of them, so a new
+// campaign no longer requires resetting (and wiping) an existing one.
+// - Anyone can create a campaign and becomes its owner
+// - Campaigns are deployed from a single declared crowdfunding class hash
+// - The factory owner can point new campaigns at an updated class hash
+
+use starknet::{ClassHash, ContractAddress};
+
+#[starknet::interface]
+pub trait ICrowdfundingFactory<TContractState> {
+    // Deploys a new crowdfunding campaign owned by the caller and returns its address
+    fn create_campaign(
+        ref self: TContractState,
+        token: ContractAddress,           // ERC20 token used for fundraising
+        grantee_address: ContractAddress, // Beneficiary who receives funds
+        fund_target: u256,                // Campaign goal amount
+        fund_title: ByteArray,            // Campaign title
+        fund_description_uri: ByteArray,  // Markdown description URI
+        deadline: felt252                 // End timestamp
+    ) -> ContractAddress;
+
+    // Returns the addresses of all campaigns created by this factory
+    fn get_campaigns(self: @TContractState) -> Array<ContractAddress>;
+
+    // Returns the number of campaigns created by this factory
+    fn get_campaign_count(self: @TContractState) -> u32;
+
+    // Returns the campaign address at the given registry index
+    fn get_campaign(self: @TContractState, index: u32) -> ContractAddress;
+
+    // Returns the crowdfunding class hash used for new campaigns
+    fn get_campaign_class_hash(self: @TContractState) -> ClassHash;
+
+    // Allows the factory owner to change the class hash used for new campaigns
+    fn set_campaign_class_hash(ref self: TContractState, class_hash: ClassHash);
+}
+
+#[starknet::contract]
+pub mod crowdfunding_factory {
+    use core::num::traits::Zero;
+    use openzeppelin_access::ownable::OwnableComponent;
+    use starknet::storage::{Map, StorageMapReadAccess, StorageMapWriteAccess};
+    use starknet::syscalls::deploy_syscall;
+    use starknet::{ClassHash, ContractAddress, SyscallResultTrait, get_caller_address};
+
+    // Ownable component integration
+    component!(path: OwnableComponent, storage: ownable, event: OwnableEvent);
+
+    #[abi(embed_v0)]
+    impl OwnableMixinImpl = OwnableComponent::OwnableMixinImpl<ContractState>;
+    impl OwnableInternalImpl = OwnableComponent::InternalImpl<ContractState>;
+
+    #[storage]
+    struct Storage {
+        campaign_class_hash: ClassHash,          // Declared crowdfunding class
+        campaigns: Map<u32, ContractAddress>,    // Registry index => campaign address
+        campaign_count: u32,                     // Number of campaigns created
+        #[substorage(v0)]
+        ownable: OwnableComponent::Storage,      // Access control component
+    }
+
+    #[event]
+    #[derive(Drop, starknet::Event)]
+    enum Event {
+        #[flat]
+        OwnableEvent: OwnableComponent::Event,
+        CampaignCreated: CampaignCreated,
+        CampaignClassHashChanged: CampaignClassHashChanged,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct CampaignCreated {
+        #[key]
+        campaign: ContractAddress,
+        #[key]
+        creator: ContractAddress,
+        index: u32,
+        token: ContractAddress,
+        grantee_address: ContractAddress,
+        fund_target: u256,
+        fund_title: ByteArray,
+        fund_description_uri: ByteArray,
+        deadline: felt252,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct CampaignClassHashChanged {
+        class_hash: ClassHash,
+    }
+
+    #[constructor]
+    fn constructor(ref self: ContractState, campaign_class_hash: ClassHash, owner: ContractAddress) {
+        assert(campaign_class_hash.is_non_zero(), 'Class hash is zero');
+        self.campaign_class_hash.write(campaign_class_hash);
+        self.ownable.initializer(owner);
+    }
+
+    #[abi(embed_v0)]
+    impl CrowdfundingFactoryImpl of super::ICrowdfundingFactory<ContractState> {
+        fn create_campaign(
+            ref self: ContractState,
+            token: ContractAddress,
+            grantee_address: ContractAddress,
+            fund_target: u256,
+            fund_title: ByteArray,
+            fund_description_uri: ByteArray,
+            deadline: felt252
+        ) -> ContractAddress {
+            let creator = get_caller_address();
+            assert(grantee_address.is_non_zero(), 'Grantee is zero');
+            assert(fund_target > 0, 'Target <= 0');
+
+            // Constructor calldata follows crowdfunding's constructor order, the creator owns the campaign
+            let mut calldata: Array<felt252> = array![];
+            token.serialize(ref calldata);
+            grantee_address.serialize(ref calldata);
+            fund_target.serialize(ref calldata);
+            fund_title.serialize(ref calldata);
+            fund_description_uri.serialize(ref calldata);
+            deadline.serialize(ref calldata);
+            creator.serialize(ref calldata);
+
+            // The registry index is a unique salt per factory
+            let index = self.campaign_count.read();
+            let (campaign, _) = deploy_syscall(
+                self.campaign_class_hash.read(), index.into(), calldata.span(), false
+            )
+                .unwrap_syscall();
+
+            self.campaigns.write(index, campaign);
+            self.campaign_count.write(index + 1);
+            self
+                .emit(
+                    CampaignCreated {
+                        campaign,
+                        creator,
+                        index,
+                        token,
+                        grantee_address,
+                        fund_target,
+                        fund_title,
+                        fund_description_uri,
+                        deadline
+                    }
+                );
+            campaign
+        }
+
+        fn get_campaigns(self: @ContractState) -> Array<ContractAddress> {
+            let mut campaigns = array![];
+            let count = self.campaign_count.read();
+            let mut index = 0;
+            while index < count {
+                campaigns.append(self.campaigns.read(index));
+                index += 1;
+            };
+            campaigns
+        }
+
+        fn get_campaign_count(self: @ContractState) -> u32 {
+            self.campaign_count.read()
+        }
+
+        fn get_campaign(self: @ContractState, index: u32) -> ContractAddress {
+            assert(index < self.campaign_count.read(), 'Index out of range');
+            self.campaigns.read(index)
+        }
+
+        fn get_campaign_class_hash(self: @ContractState) -> ClassHash {
+            self.campaign_class_hash.read()
+        }
+
+        fn set_campaign_class_hash(ref self: ContractState, class_hash: ClassHash) {
+            self.ownable.assert_only_owner();
+            assert(class_hash.is_non_zero(), 'Class hash is zero');
+            self.campaign_class_hash.write(class_hash);
+            self.emit(CampaignClassHashChanged { class_hash });
+        }
+    }
+}
@@ -1 +1,2 @@
-mod crowdfunding;
\ No newline at end of file
+pub mod crowdfunding;
+pub mod crowdfunding_factory;
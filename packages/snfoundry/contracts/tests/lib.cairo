@@ -0,0 +1,3 @@
+mod mocks;
+mod test_crowdfunding;
+mod test_crowdfunding_factory;
@@ -0,0 +1,93 @@
+// Test doubles for the crowdfunding tests
+
+use starknet::ContractAddress;
+
+#[starknet::interface]
+pub trait IERC20Mock<TContractState> {
+    // Creates tokens out of thin air for a test account
+    fn mint(ref self: TContractState, recipient: ContractAddress, amount: u256);
+}
+
+// Minimal ERC20 whose symbol is a short string, like most tokens deployed on Starknet
+#[starknet::contract]
+pub mod ERC20Mock {
+    use starknet::storage::{Map, StorageMapReadAccess, StorageMapWriteAccess};
+    use starknet::{ContractAddress, get_caller_address};
+
+    #[storage]
+    struct Storage {
+        symbol: felt252,
+        total_supply: u256,
+        balances: Map<ContractAddress, u256>,
+        allowances: Map<(ContractAddress, ContractAddress), u256>, // (owner, spender) => amount
+    }
+
+    #[constructor]
+    fn constructor(ref self: ContractState, symbol: felt252) {
+        self.symbol.write(symbol);
+    }
+
+    #[abi(embed_v0)]
+    impl ERC20MockImpl of super::IERC20Mock<ContractState> {
+        fn mint(ref self: ContractState, recipient: ContractAddress, amount: u256) {
+            self.total_supply.write(self.total_supply.read() + amount);
+            self.balances.write(recipient, self.balances.read(recipient) + amount);
+        }
+    }
+
+    #[external(v0)]
+    fn symbol(self: @ContractState) -> felt252 {
+        self.symbol.read()
+    }
+
+    #[external(v0)]
+    fn total_supply(self: @ContractState) -> u256 {
+        self.total_supply.read()
+    }
+
+    #[external(v0)]
+    fn balance_of(self: @ContractState, account: ContractAddress) -> u256 {
+        self.balances.read(account)
+    }
+
+    #[external(v0)]
+    fn allowance(self: @ContractState, owner: ContractAddress, spender: ContractAddress) -> u256 {
+        self.allowances.read((owner, spender))
+    }
+
+    #[external(v0)]
+    fn approve(ref self: ContractState, spender: ContractAddress, amount: u256) -> bool {
+        self.allowances.write((get_caller_address(), spender), amount);
+        true
+    }
+
+    #[external(v0)]
+    fn transfer(ref self: ContractState, recipient: ContractAddress, amount: u256) -> bool {
+        self.move_tokens(get_caller_address(), recipient, amount);
+        true
+    }
+
+    #[external(v0)]
+    fn transfer_from(
+        ref self: ContractState, sender: ContractAddress, recipient: ContractAddress, amount: u256
+    ) -> bool {
+        let spender = get_caller_address();
+        let allowance = self.allowances.read((sender, spender));
+        assert(allowance >= amount, 'Insufficient allowance');
+        self.allowances.write((sender, spender), allowance - amount);
+        self.move_tokens(sender, recipient, amount);
+        true
+    }
+
+    #[generate_trait]
+    impl InternalImpl of InternalTrait {
+        fn move_tokens(
+            ref self: ContractState, from: ContractAddress, to: ContractAddress, amount: u256
+        ) {
+            let balance = self.balances.read(from);
+            assert(balance >= amount, 'Insufficient balance');
+            self.balances.write(from, balance - amount);
+            self.balances.write(to, self.balances.read(to) + amount);
+        }
+    }
+}
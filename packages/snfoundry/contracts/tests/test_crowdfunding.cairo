@@ -0,0 +1,704 @@
+use contracts::crowdfunding::{FundingPolicy, IFundDispatcher, IFundDispatcherTrait};
+use openzeppelin_token::erc20::interface::{IERC20Dispatcher, IERC20DispatcherTrait};
+use snforge_std::{
+    ContractClassTrait, DeclareResultTrait, EventSpyTrait, EventsFilterTrait, declare, spy_events,
+    start_cheat_block_timestamp_global, start_cheat_caller_address, stop_cheat_caller_address
+};
+use starknet::{ContractAddress, contract_address_const};
+use super::mocks::{IERC20MockDispatcher, IERC20MockDispatcherTrait};
+
+const TARGET: u256 = 1000;
+const START: u64 = 100;
+const DEADLINE: u64 = 1000;
+
+fn OWNER() -> ContractAddress {
+    contract_address_const::<'owner'>()
+}
+
+fn GRANTEE() -> ContractAddress {
+    contract_address_const::<'grantee'>()
+}
+
+fn BACKER() -> ContractAddress {
+    contract_address_const::<'backer'>()
+}
+
+fn deploy_token(symbol: felt252) -> ContractAddress {
+    let contract = declare("ERC20Mock").unwrap().contract_class();
+    let (address, _) = contract.deploy(@array![symbol]).unwrap();
+    address
+}
+
+// Deploys a campaign owned by OWNER for TARGET of a fresh token, open until DEADLINE
+fn setup() -> (IFundDispatcher, ContractAddress) {
+    start_cheat_block_timestamp_global(START);
+    let token = deploy_token('STK');
+    let contract = declare("crowdfunding").unwrap().contract_class();
+    let title: ByteArray = "Test campaign";
+    let description_uri: ByteArray = "ipfs://description";
+    let deadline: felt252 = DEADLINE.into();
+    let mut calldata = array![];
+    token.serialize(ref calldata);
+    GRANTEE().serialize(ref calldata);
+    TARGET.serialize(ref calldata);
+    title.serialize(ref calldata);
+    description_uri.serialize(ref calldata);
+    deadline.serialize(ref calldata);
+    OWNER().serialize(ref calldata);
+    let (address, _) = contract.deploy(@calldata).unwrap();
+    (IFundDispatcher { contract_address: address }, token)
+}
+
+fn balance_of(token: ContractAddress, account: ContractAddress) -> u256 {
+    IERC20Dispatcher { contract_address: token }.balance_of(account)
+}
+
+// Mints `amount` to the backer, approves the campaign and contributes it
+fn contribute(campaign: IFundDispatcher, token: ContractAddress, backer: ContractAddress, amount: u256) {
+    IERC20MockDispatcher { contract_address: token }.mint(backer, amount);
+    start_cheat_caller_address(token, backer);
+    IERC20Dispatcher { contract_address: token }.approve(campaign.contract_address, amount);
+    stop_cheat_caller_address(token);
+    start_cheat_caller_address(campaign.contract_address, backer);
+    campaign.fund_with_token(token, amount);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn set_policy(campaign: IFundDispatcher, policy: FundingPolicy) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_funding_policy(policy);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+// Splits the target into two tranches
+fn set_two_milestones(campaign: IFundDispatcher) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_milestones(array![TARGET / 2, TARGET / 2], array!["Prototype", "Launch"]);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn set_accepted_tokens(campaign: IFundDispatcher, tokens: Array<ContractAddress>) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_accepted_tokens(tokens);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn end_campaign() {
+    start_cheat_block_timestamp_global(DEADLINE + 1);
+}
+
+fn withdraw(campaign: IFundDispatcher) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.withdraw_funds();
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn approve_milestone(campaign: IFundDispatcher, index: u32) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.approve_milestone(index);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn release_milestone(campaign: IFundDispatcher, caller: ContractAddress, index: u32) {
+    start_cheat_caller_address(campaign.contract_address, caller);
+    campaign.release_milestone(index);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+fn claim_refund(campaign: IFundDispatcher, backer: ContractAddress) {
+    start_cheat_caller_address(campaign.contract_address, backer);
+    campaign.claim_refund();
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+// Starts a new round for the same token, target and owner
+fn reset(campaign: IFundDispatcher, token: ContractAddress) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    let deadline: felt252 = (DEADLINE * 2).into();
+    campaign.reset_fund(token, GRANTEE(), TARGET, "Next round", "ipfs://next", deadline, OWNER());
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+#[test]
+#[should_panic(expected: 'Milestones need a refund policy')]
+fn test_keep_what_you_raise_rejects_milestones() {
+    let (campaign, _) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    set_two_milestones(campaign);
+}
+
+#[test]
+#[should_panic(expected: 'Milestones need a refund policy')]
+fn test_milestones_reject_keep_what_you_raise() {
+    let (campaign, _) = setup();
+    set_two_milestones(campaign);
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+}
+
+#[test]
+#[should_panic(expected: 'Target not met')]
+fn test_approve_milestone_needs_target_after_deadline() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET / 4);
+    end_campaign();
+
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.approve_milestone(0);
+}
+
+// A milestone plan that misses its target leaves the funds to the backers
+#[test]
+fn test_missed_milestone_campaign_refunds_backers() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET / 4);
+    end_campaign();
+
+    assert(campaign.is_refundable(), 'Should be refundable');
+    start_cheat_caller_address(campaign.contract_address, BACKER());
+    campaign.claim_refund();
+    assert(balance_of(token, BACKER()) == TARGET / 4, 'Refund not received');
+    assert(balance_of(token, campaign.contract_address) == 0, 'Funds left behind');
+}
+
+#[test]
+fn test_token_symbol_reads_short_string_symbols() {
+    let (campaign, _) = setup();
+    assert(campaign.get_token_symbol() == "STK", 'Wrong symbol');
+}
+
+// Refunds only cover the primary token, other tokens would have no way back to their backers
+#[test]
+#[should_panic(expected: 'Needs keep what you raise')]
+fn test_all_or_nothing_rejects_extra_tokens() {
+    let (campaign, _) = setup();
+    set_accepted_tokens(campaign, array![deploy_token('EXT')]);
+}
+
+#[test]
+#[should_panic(expected: 'Needs keep what you raise')]
+fn test_extra_tokens_reject_refund_policies() {
+    let (campaign, _) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    set_accepted_tokens(campaign, array![deploy_token('EXT')]);
+    set_policy(campaign, FundingPolicy::AllOrNothing);
+}
+
+#[test]
+#[should_panic(expected: 'Contributions received')]
+fn test_extra_token_contributions_lock_the_policy() {
+    let (campaign, _) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    let extra = deploy_token('EXT');
+    set_accepted_tokens(campaign, array![extra]);
+    contribute(campaign, extra, BACKER(), 10);
+    set_policy(campaign, FundingPolicy::AllOrNothing);
+}
+
+#[test]
+fn test_all_or_nothing_withdraws_a_met_target() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET);
+    withdraw(campaign);
+
+    assert(balance_of(token, GRANTEE()) == TARGET, 'Grantee not paid');
+    assert(balance_of(token, campaign.contract_address) == 0, 'Funds left behind');
+    assert(!campaign.get_active(), 'Should be inactive');
+}
+
+#[test]
+#[should_panic(expected: 'Cannot withdraw!')]
+fn test_all_or_nothing_withdraw_needs_target() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    end_campaign();
+    withdraw(campaign);
+}
+
+#[test]
+fn test_keep_what_you_raise_withdraws_a_missed_target_once_ended() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    end_campaign();
+    withdraw(campaign);
+
+    assert(balance_of(token, GRANTEE()) == TARGET / 2, 'Grantee not paid');
+}
+
+#[test]
+#[should_panic(expected: 'Cannot withdraw!')]
+fn test_keep_what_you_raise_withdraw_waits_for_deadline() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    withdraw(campaign);
+}
+
+#[test]
+#[should_panic(expected: 'Use milestone release')]
+fn test_milestone_campaigns_cannot_withdraw_at_once() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    withdraw(campaign);
+}
+
+#[test]
+fn test_all_or_nothing_refunds_a_missed_target() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    end_campaign();
+    claim_refund(campaign, BACKER());
+
+    assert(balance_of(token, BACKER()) == TARGET / 2, 'Refund not received');
+    assert(campaign.get_contribution(BACKER()) == 0, 'Ledger not cleared');
+}
+
+#[test]
+#[should_panic(expected: 'Nothing to refund')]
+fn test_refund_is_claimed_once() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    end_campaign();
+    claim_refund(campaign, BACKER());
+    claim_refund(campaign, BACKER());
+}
+
+#[test]
+#[should_panic(expected: 'Refunds not available')]
+fn test_all_or_nothing_met_target_has_no_refunds() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET);
+    end_campaign();
+    claim_refund(campaign, BACKER());
+}
+
+#[test]
+#[should_panic(expected: 'Refunds not available')]
+fn test_keep_what_you_raise_has_no_refunds() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    end_campaign();
+    claim_refund(campaign, BACKER());
+}
+
+// The last tranche also carries what was raised beyond the target
+#[test]
+fn test_milestones_release_tranche_by_tranche() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET + 100);
+
+    approve_milestone(campaign, 0);
+    release_milestone(campaign, OWNER(), 0);
+    assert(balance_of(token, GRANTEE()) == TARGET / 2, 'First tranche not paid');
+    assert(campaign.get_active(), 'Should stay active');
+
+    approve_milestone(campaign, 1);
+    release_milestone(campaign, GRANTEE(), 1);
+    assert(balance_of(token, GRANTEE()) == TARGET + 100, 'Last tranche not paid');
+    assert(balance_of(token, campaign.contract_address) == 0, 'Funds left behind');
+    assert(!campaign.get_active(), 'Should be inactive');
+}
+
+#[test]
+#[should_panic(expected: 'Approve in order')]
+fn test_milestones_are_approved_in_order() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    approve_milestone(campaign, 1);
+}
+
+#[test]
+#[should_panic(expected: 'Milestone not approved')]
+fn test_release_needs_an_approved_milestone() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    release_milestone(campaign, OWNER(), 0);
+}
+
+#[test]
+#[should_panic(expected: 'Release in order')]
+fn test_milestones_are_released_in_order() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    approve_milestone(campaign, 0);
+    approve_milestone(campaign, 1);
+    release_milestone(campaign, OWNER(), 1);
+}
+
+#[test]
+#[should_panic(expected: 'Milestone already released')]
+fn test_milestone_is_released_once() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    approve_milestone(campaign, 0);
+    release_milestone(campaign, OWNER(), 0);
+    release_milestone(campaign, GRANTEE(), 0);
+}
+
+#[test]
+#[should_panic(expected: 'Not owner or grantee')]
+fn test_backers_cannot_release_milestones() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    approve_milestone(campaign, 0);
+    release_milestone(campaign, BACKER(), 0);
+}
+
+#[test]
+#[should_panic(expected: 'Please withdraw first!')]
+fn test_reset_needs_a_withdrawal() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET);
+    reset(campaign, token);
+}
+
+#[test]
+fn test_all_or_nothing_reset_starts_a_new_round() {
+    let (campaign, token) = setup();
+    set_two_milestones(campaign);
+    contribute(campaign, token, BACKER(), TARGET);
+    approve_milestone(campaign, 0);
+    release_milestone(campaign, OWNER(), 0);
+    approve_milestone(campaign, 1);
+    release_milestone(campaign, OWNER(), 1);
+    reset(campaign, token);
+
+    assert(campaign.get_active(), 'Should be active');
+    assert(campaign.get_total_raised() == 0, 'Raised not cleared');
+    assert(campaign.get_contribution(BACKER()) == 0, 'Ledger not cleared');
+    assert(campaign.get_milestone_count() == 0, 'Milestones not cleared');
+}
+
+#[test]
+#[should_panic(expected: 'Please withdraw first!')]
+fn test_reset_needs_extra_tokens_withdrawn() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    let extra = deploy_token('EXT');
+    set_accepted_tokens(campaign, array![extra]);
+    contribute(campaign, extra, BACKER(), 10);
+    reset(campaign, token);
+}
+
+#[test]
+fn test_keep_what_you_raise_withdraw_pays_every_token_and_allows_a_reset() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    let extra = deploy_token('EXT');
+    set_accepted_tokens(campaign, array![extra]);
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    contribute(campaign, extra, BACKER(), 10);
+    end_campaign();
+    withdraw(campaign);
+
+    assert(balance_of(token, GRANTEE()) == TARGET / 2, 'Grantee not paid');
+    assert(balance_of(extra, GRANTEE()) == 10, 'Extra token not paid');
+
+    reset(campaign, token);
+    assert(campaign.get_active(), 'Should be active');
+    assert(campaign.get_accepted_tokens().len() == 1, 'Tokens not cleared');
+}
+
+// Bronze from 100, Silver from 500 and Gold from the target
+fn set_three_reward_tiers(campaign: IFundDispatcher) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_reward_tiers(array!["Bronze", "Silver", "Gold"], array![100, 500, TARGET]);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+// Tier index and name of the last badge the backer earned
+fn last_badge(campaign: IFundDispatcher, backer: ContractAddress) -> (u32, ByteArray) {
+    let badges = campaign.get_backer_badges(backer);
+    assert(badges.len() > 0, 'No badge earned');
+    let badge = badges.at(badges.len() - 1);
+    (*badge.tier, badge.name.clone())
+}
+
+#[test]
+#[should_panic(expected: 'Tiers must increase')]
+fn test_reward_tiers_must_increase() {
+    let (campaign, _) = setup();
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_reward_tiers(array!["Bronze", "Silver"], array![100, 100]);
+}
+
+#[test]
+#[should_panic(expected: 'Caller is not the owner')]
+fn test_only_the_owner_sets_reward_tiers() {
+    let (campaign, _) = setup();
+    start_cheat_caller_address(campaign.contract_address, BACKER());
+    campaign.set_reward_tiers(array!["Bronze"], array![100]);
+}
+
+#[test]
+fn test_contribution_below_the_first_tier_earns_no_badge() {
+    let (campaign, token) = setup();
+    set_three_reward_tiers(campaign);
+    contribute(campaign, token, BACKER(), 99);
+
+    assert(campaign.get_backer_badges(BACKER()).len() == 0, 'Badge earned');
+}
+
+#[test]
+fn test_contribution_at_a_tier_minimum_earns_that_tier() {
+    let (campaign, token) = setup();
+    set_three_reward_tiers(campaign);
+    contribute(campaign, token, BACKER(), 100);
+
+    let (tier, name) = last_badge(campaign, BACKER());
+    assert(tier == 0, 'Wrong tier');
+    assert(name == "Bronze", 'Wrong badge name');
+}
+
+#[test]
+fn test_contribution_below_a_tier_minimum_keeps_the_tier_under_it() {
+    let (campaign, token) = setup();
+    set_three_reward_tiers(campaign);
+    contribute(campaign, token, BACKER(), 499);
+
+    let (tier, _) = last_badge(campaign, BACKER());
+    assert(tier == 0, 'Wrong tier');
+}
+
+#[test]
+fn test_contribution_above_the_last_tier_earns_the_last_tier() {
+    let (campaign, token) = setup();
+    set_three_reward_tiers(campaign);
+    contribute(campaign, token, BACKER(), TARGET * 2);
+
+    let (tier, name) = last_badge(campaign, BACKER());
+    assert(tier == 2, 'Wrong tier');
+    assert(name == "Gold", 'Wrong badge name');
+}
+
+#[test]
+fn test_top_ups_upgrade_the_badge_of_the_round() {
+    let (campaign, token) = setup();
+    set_three_reward_tiers(campaign);
+    contribute(campaign, token, BACKER(), 100);
+    contribute(campaign, token, BACKER(), 400);
+
+    // The running total reaches Silver, which replaces Bronze instead of adding a badge
+    assert(campaign.get_backer_badges(BACKER()).len() == 1, 'Badge not replaced');
+    let (tier, name) = last_badge(campaign, BACKER());
+    assert(tier == 1, 'Wrong tier');
+    assert(name == "Silver", 'Wrong badge name');
+
+    contribute(campaign, token, BACKER(), 1);
+    let (tier, _) = last_badge(campaign, BACKER());
+    assert(tier == 1, 'Badge changed');
+}
+
+#[test]
+fn test_extra_token_contributions_earn_no_badge() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::KeepWhatYouRaise);
+    set_three_reward_tiers(campaign);
+    let extra = deploy_token('EXT');
+    set_accepted_tokens(campaign, array![extra]);
+    contribute(campaign, extra, BACKER(), TARGET);
+
+    assert(campaign.get_backer_badges(BACKER()).len() == 0, 'Badge earned');
+    contribute(campaign, token, BACKER(), 500);
+    let (tier, _) = last_badge(campaign, BACKER());
+    assert(tier == 1, 'Wrong tier');
+}
+
+fn set_stretch_goals(campaign: IFundDispatcher, amounts: Array<u256>) {
+    let mut names = array![];
+    let mut index = 0;
+    while index < amounts.len() {
+        names.append("Stretch goal");
+        index += 1;
+    };
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_stretch_goals(names, amounts);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+#[test]
+fn test_hard_cap_accepts_contributions_up_to_the_target() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::HardCap);
+    contribute(campaign, token, BACKER(), TARGET - 1);
+    contribute(campaign, token, BACKER(), 1);
+
+    assert(campaign.get_total_raised() == TARGET, 'Wrong total raised');
+}
+
+#[test]
+#[should_panic(expected: 'Exceeds hard cap')]
+fn test_hard_cap_rejects_contributions_past_the_target() {
+    let (campaign, token) = setup();
+    set_policy(campaign, FundingPolicy::HardCap);
+    contribute(campaign, token, BACKER(), TARGET);
+    contribute(campaign, token, BACKER(), 1);
+}
+
+#[test]
+fn test_all_or_nothing_accepts_contributions_past_the_target() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET + 1);
+
+    assert(campaign.get_total_raised() == TARGET + 1, 'Wrong total raised');
+}
+
+#[test]
+#[should_panic(expected: 'Hard cap has stretch goals')]
+fn test_hard_cap_rejects_stretch_goals() {
+    let (campaign, _) = setup();
+    set_policy(campaign, FundingPolicy::HardCap);
+    set_stretch_goals(campaign, array![TARGET * 2]);
+}
+
+#[test]
+#[should_panic(expected: 'Hard cap has stretch goals')]
+fn test_stretch_goals_reject_a_hard_cap() {
+    let (campaign, _) = setup();
+    set_stretch_goals(campaign, array![TARGET * 2]);
+    set_policy(campaign, FundingPolicy::HardCap);
+}
+
+#[test]
+fn test_stretch_goals_start_above_the_target() {
+    let (campaign, _) = setup();
+    set_stretch_goals(campaign, array![TARGET + 1, TARGET * 2]);
+
+    let goals = campaign.get_stretch_goals();
+    assert(goals.len() == 2, 'Wrong goal count');
+    assert(*goals.at(0).amount == TARGET + 1, 'Wrong first goal');
+    assert(*goals.at(1).amount == TARGET * 2, 'Wrong second goal');
+}
+
+#[test]
+#[should_panic(expected: 'Goals must increase')]
+fn test_stretch_goal_at_the_target_is_rejected() {
+    let (campaign, _) = setup();
+    set_stretch_goals(campaign, array![TARGET]);
+}
+
+#[test]
+#[should_panic(expected: 'Goals must increase')]
+fn test_stretch_goals_must_increase() {
+    let (campaign, _) = setup();
+    set_stretch_goals(campaign, array![TARGET * 2, TARGET * 2]);
+}
+
+#[test]
+fn test_constructor_stores_title_and_description_uri() {
+    let (campaign, _) = setup();
+
+    assert(campaign.get_fund_title() == "Test campaign", 'Wrong title');
+    assert(campaign.get_fund_description_uri() == "ipfs://description", 'Wrong description URI');
+}
+
+#[test]
+fn test_reset_replaces_title_and_description_uri() {
+    let (campaign, token) = setup();
+    reset(campaign, token);
+
+    assert(campaign.get_fund_title() == "Next round", 'Wrong title');
+    assert(campaign.get_fund_description_uri() == "ipfs://next", 'Wrong description URI');
+}
+
+// sha256 of a metadata document, stored as a u256
+const METADATA_HASH: u256 = 0x9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08;
+
+fn set_metadata_hash(campaign: IFundDispatcher, metadata_hash: u256) {
+    start_cheat_caller_address(campaign.contract_address, OWNER());
+    campaign.set_metadata_hash(metadata_hash);
+    stop_cheat_caller_address(campaign.contract_address);
+}
+
+#[test]
+fn test_metadata_hash_is_set_and_read_back() {
+    let (campaign, _) = setup();
+    assert(campaign.get_metadata_hash() == 0, 'Hash set at deploy');
+
+    set_metadata_hash(campaign, METADATA_HASH);
+
+    assert(campaign.get_metadata_hash() == METADATA_HASH, 'Wrong metadata hash');
+}
+
+#[test]
+#[should_panic(expected: 'Caller is not the owner')]
+fn test_only_the_owner_sets_the_metadata_hash() {
+    let (campaign, _) = setup();
+    start_cheat_caller_address(campaign.contract_address, BACKER());
+    campaign.set_metadata_hash(METADATA_HASH);
+}
+
+#[test]
+fn test_set_metadata_hash_emits_metadata_changed() {
+    let (campaign, _) = setup();
+    let mut spy = spy_events();
+
+    set_metadata_hash(campaign, METADATA_HASH);
+
+    let events = spy.get_events().emitted_by(campaign.contract_address);
+    assert(events.events.len() == 1, 'Wrong event count');
+    let (_, event) = events.events.at(0);
+    assert(event.keys == @array![selector!("MetadataChanged")], 'Wrong event');
+    assert(
+        event.data == @array![METADATA_HASH.low.into(), METADATA_HASH.high.into()],
+        'Wrong event metadata hash'
+    );
+}
+
+#[test]
+fn test_reset_clears_the_metadata_hash() {
+    let (campaign, token) = setup();
+    set_metadata_hash(campaign, METADATA_HASH);
+    reset(campaign, token);
+
+    assert(campaign.get_metadata_hash() == 0, 'Hash not cleared');
+}
+
+// Mirrors the contract, backers can claim refunds this long after a missed deadline
+const REFUND_GRACE_PERIOD: u64 = 2592000;
+
+#[test]
+#[should_panic(expected: 'Please withdraw first!')]
+fn test_missed_target_reset_waits_for_the_refund_grace_period() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    start_cheat_block_timestamp_global(DEADLINE + REFUND_GRACE_PERIOD);
+    reset(campaign, token);
+}
+
+#[test]
+fn test_reset_after_the_refund_grace_period_sweeps_unclaimed_refunds() {
+    let (campaign, token) = setup();
+    let claimer = contract_address_const::<'claimer'>();
+    contribute(campaign, token, BACKER(), TARGET / 2);
+    contribute(campaign, token, claimer, 100);
+    end_campaign();
+    claim_refund(campaign, claimer);
+    start_cheat_block_timestamp_global(DEADLINE + REFUND_GRACE_PERIOD + 1);
+    reset(campaign, token);
+
+    assert(balance_of(token, claimer) == 100, 'Refund not kept');
+    assert(balance_of(token, OWNER()) == TARGET / 2, 'Refunds not swept');
+    assert(balance_of(token, campaign.contract_address) == 0, 'Balance left');
+    assert(campaign.get_active(), 'Should be active');
+    assert(campaign.get_contribution(BACKER()) == 0, 'Ledger not cleared');
+}
+
+#[test]
+#[should_panic(expected: 'Please withdraw first!')]
+fn test_met_target_reset_still_needs_a_withdrawal_after_the_grace_period() {
+    let (campaign, token) = setup();
+    contribute(campaign, token, BACKER(), TARGET);
+    start_cheat_block_timestamp_global(DEADLINE + REFUND_GRACE_PERIOD + 1);
+    reset(campaign, token);
+}
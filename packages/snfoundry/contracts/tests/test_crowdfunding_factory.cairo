@@ -0,0 +1,118 @@
+use contracts::crowdfunding::{IFundDispatcher, IFundDispatcherTrait};
+use contracts::crowdfunding_factory::{
+    ICrowdfundingFactoryDispatcher, ICrowdfundingFactoryDispatcherTrait
+};
+use snforge_std::{
+    ContractClassTrait, DeclareResultTrait, declare, start_cheat_caller_address,
+    stop_cheat_caller_address
+};
+use starknet::{ClassHash, ContractAddress, contract_address_const};
+
+const TARGET: u256 = 1000;
+const DEADLINE: felt252 = 1000;
+
+fn OWNER() -> ContractAddress {
+    contract_address_const::<'owner'>()
+}
+
+fn CREATOR() -> ContractAddress {
+    contract_address_const::<'creator'>()
+}
+
+fn GRANTEE() -> ContractAddress {
+    contract_address_const::<'grantee'>()
+}
+
+fn crowdfunding_class_hash() -> ClassHash {
+    *declare("crowdfunding").unwrap().contract_class().class_hash
+}
+
+// Deploys a factory owned by OWNER that creates campaigns from the crowdfunding class
+fn setup() -> (ICrowdfundingFactoryDispatcher, ContractAddress) {
+    let token_class = declare("ERC20Mock").unwrap().contract_class();
+    let (token, _) = token_class.deploy(@array!['STK']).unwrap();
+    let contract = declare("crowdfunding_factory").unwrap().contract_class();
+    let mut calldata = array![];
+    crowdfunding_class_hash().serialize(ref calldata);
+    OWNER().serialize(ref calldata);
+    let (address, _) = contract.deploy(@calldata).unwrap();
+    (ICrowdfundingFactoryDispatcher { contract_address: address }, token)
+}
+
+fn create_campaign(
+    factory: ICrowdfundingFactoryDispatcher,
+    creator: ContractAddress,
+    token: ContractAddress,
+    title: ByteArray
+) -> ContractAddress {
+    start_cheat_caller_address(factory.contract_address, creator);
+    let campaign = factory
+        .create_campaign(token, GRANTEE(), TARGET, title, "ipfs://description", DEADLINE);
+    stop_cheat_caller_address(factory.contract_address);
+    campaign
+}
+
+#[test]
+fn test_create_campaign_deploys_a_campaign_owned_by_the_creator() {
+    let (factory, token) = setup();
+
+    let campaign = IFundDispatcher {
+        contract_address: create_campaign(factory, CREATOR(), token, "First campaign")
+    };
+
+    assert(campaign.get_owner() == CREATOR(), 'Wrong owner');
+    assert(campaign.get_token_address() == token, 'Wrong token');
+    assert(campaign.get_grantee_address() == GRANTEE(), 'Wrong grantee');
+    assert(campaign.get_fund_target() == TARGET, 'Wrong target');
+    assert(campaign.get_fund_title() == "First campaign", 'Wrong title');
+    assert(campaign.get_fund_description_uri() == "ipfs://description", 'Wrong description URI');
+    assert(campaign.get_deadline() == DEADLINE, 'Wrong deadline');
+}
+
+#[test]
+fn test_campaigns_are_listed_in_creation_order() {
+    let (factory, token) = setup();
+
+    let first = create_campaign(factory, CREATOR(), token, "First campaign");
+    let second = create_campaign(factory, OWNER(), token, "Second campaign");
+
+    assert(first != second, 'Campaigns share an address');
+    assert(factory.get_campaign_count() == 2, 'Wrong campaign count');
+    assert(factory.get_campaigns() == array![first, second], 'Wrong campaign list');
+    assert(factory.get_campaign(0) == first, 'Wrong first campaign');
+    assert(factory.get_campaign(1) == second, 'Wrong second campaign');
+}
+
+#[test]
+fn test_new_factory_lists_no_campaigns() {
+    let (factory, _) = setup();
+
+    assert(factory.get_campaign_count() == 0, 'Wrong campaign count');
+    assert(factory.get_campaigns().len() == 0, 'Campaigns listed');
+}
+
+#[test]
+#[should_panic(expected: 'Index out of range')]
+fn test_get_campaign_rejects_unknown_index() {
+    let (factory, token) = setup();
+    create_campaign(factory, CREATOR(), token, "First campaign");
+
+    factory.get_campaign(1);
+}
+
+#[test]
+#[should_panic(expected: 'Grantee is zero')]
+fn test_create_campaign_rejects_zero_grantee() {
+    let (factory, token) = setup();
+
+    factory.create_campaign(token, contract_address_const::<0>(), TARGET, "", "", DEADLINE);
+}
+
+#[test]
+#[should_panic(expected: 'Caller is not the owner')]
+fn test_only_the_owner_changes_the_campaign_class() {
+    let (factory, _) = setup();
+
+    start_cheat_caller_address(factory.contract_address, CREATOR());
+    factory.set_campaign_class_hash(crowdfunding_class_hash());
+}
@@ -12,15 +12,29 @@ import {
   UniversalDetails,
   isSierra,
   TransactionReceipt,
+  Abi,
+  Call,
+  num,
+  Invocations,
+  TransactionType,
 } from "starknet";
-import { DeployContractParams, Network } from "./types";
+import { DeployContractParams, Network, UpgradeContractParams } from "./types";
 import { green, red, yellow } from "./helpers/colorize-log";
-import { getTxVersion } from "./helpers/fees";
+import { formatTokenAmount, getTxVersion, simulateFees } from "./helpers/fees";
+import {
+  deriveSalt,
+  findRecordedDeployment,
+  loadManifest,
+  saveManifest,
+} from "./helpers/deployment-manifest";
+import { readStorageLayout } from "./helpers/storage-layout";
 
 interface Arguments {
   network: string;
   reset: boolean;
   fee?: string;
+  saltSeed?: string;
+  dryRun: boolean;
   [x: string]: unknown;
   _: (string | number)[];
   $0: string;
@@ -46,25 +60,92 @@ const argv = yargs(process.argv.slice(2))
     choices: ["eth", "strk"],
     default: "eth",
   })
+  .option("salt-seed", {
+    type: "string",
+    description:
+      "Derive deterministic salts from this seed instead of random ones",
+    demandOption: false,
+  })
+  .option("dry-run", {
+    type: "boolean",
+    description:
+      "Simulate the declarations and deploy calls and estimate their fees, without sending them",
+    default: false,
+  })
   .parseSync() as Arguments;
 
 const networkName: string = argv.network;
 const resetDeployments: boolean = argv.reset;
 const feeToken: string = argv.fee;
+const saltSeed: string | undefined = argv.saltSeed;
+const dryRun: boolean = argv.dryRun;
 
 let deployments = {};
 let deployCalls = [];
 
 const { provider, deployer }: Network = networks[networkName];
 
+// Steps done by previous runs, see helpers/deployment-manifest.ts
+const manifest = loadManifest(networkName);
+// Contracts this run queued a deployment for, by the salt of their UDC call
+const pendingSalts = new Map<string, string>();
+// Addresses of contracts that were already deployed before this run
+const existingAddresses = new Set<string>();
+// Classes a dry run would declare, simulated ahead of the deploy calls
+const pendingDeclarations: {
+  contract: string;
+  payload: DeclareContractPayload;
+}[] = [];
+
+// A dry run leaves the manifest as it was, nothing was sent
+const saveProgress = () => {
+  if (!dryRun) saveManifest(manifest);
+};
+
+const isDeployed = async (address: string) => {
+  try {
+    await provider.getClassHashAt(address);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Kept by class hash, so an upgrade can check the layout of the class it replaces
+const recordStorageLayout = (contract: string, classHash: string) => {
+  const layout = readStorageLayout(contract);
+  if (!layout) return;
+  manifest.storageLayouts = {
+    ...manifest.storageLayouts,
+    [num.toHex(classHash)]: layout,
+  };
+};
+
 const declareIfNot_NotWait = async (
+  contract: string,
   payload: DeclareContractPayload,
   options?: UniversalDetails
 ) => {
   const declareContractPayload = extractContractHashes(payload);
+  const recorded = manifest.declared[contract];
   try {
     await provider.getClassByHash(declareContractPayload.classHash);
+    console.log(yellow("Class already declared "), contract);
+    manifest.declared[contract] = {
+      classHash: declareContractPayload.classHash,
+      txHash:
+        recorded?.classHash === declareContractPayload.classHash
+          ? recorded.txHash
+          : undefined,
+    };
   } catch (error) {
+    if (dryRun) {
+      console.log(yellow("Class would be declared "), contract);
+      pendingDeclarations.push({ contract, payload });
+      return {
+        classHash: declareContractPayload.classHash,
+      };
+    }
     try {
       const isSierraContract = isSierra(payload.contract);
       console.log('networkName: {}',networkName);
@@ -80,11 +161,17 @@ const declareIfNot_NotWait = async (
       if (networkName === "sepolia" || networkName === "mainnet") {
         await provider.waitForTransaction(transaction_hash);
       }
+      manifest.declared[contract] = {
+        classHash: declareContractPayload.classHash,
+        txHash: transaction_hash,
+      };
     } catch (e) {
       console.error(red("Error declaring contract:"), e);
       throw e;
     }
   }
+  recordStorageLayout(contract, declareContractPayload.classHash);
+  saveProgress();
   return {
     classHash: declareContractPayload.classHash,
   };
@@ -131,6 +218,50 @@ const findContractFile = (
   return path.join(targetDir, matchingFile);
 };
 
+/**
+ * Encodes constructor arguments with the compiled contract ABI.
+ * Checks the argument names first, so a missing or misspelled one fails with its name.
+ *
+ * @throws if an argument is missing, unknown or cannot be encoded
+ */
+const compileConstructorCalldata = (
+  contract: string,
+  constructorArgs: RawArgs | undefined,
+  abi: Abi = JSON.parse(
+    fs
+      .readFileSync(findContractFile(contract, "contract_class"))
+      .toString("ascii")
+  ).abi
+): string[] => {
+  const constructor = abi.find(({ type }) => type === "constructor");
+  if (!constructor || constructor.inputs.length === 0) return [];
+  if (!Array.isArray(constructorArgs)) {
+    const names: string[] = constructor.inputs.map(({ name }) => name);
+    const missing = names.filter(
+      (name) => constructorArgs?.[name] === undefined
+    );
+    const unknown = Object.keys(constructorArgs ?? {}).filter(
+      (name) => !names.includes(name)
+    );
+    if (missing.length > 0 || unknown.length > 0) {
+      throw new Error(
+        red(
+          `Invalid ${contract} constructor arguments:` +
+            (missing.length > 0 ? ` missing ${missing.join(", ")}.` : "") +
+            (unknown.length > 0 ? ` unknown ${unknown.join(", ")}.` : "")
+        )
+      );
+    }
+  }
+  try {
+    return new CallData(abi).compile("constructor", constructorArgs);
+  } catch (e) {
+    throw new Error(
+      red(`Cannot encode the ${contract} constructor arguments: ${e.message}`)
+    );
+  }
+};
+
 /**
  * Deploy a contract using the specified parameters.
  *
@@ -209,14 +340,16 @@ const deployContract = async (
     };
   }
 
-  const contractCalldata = new CallData(compiledContractSierra.abi);
-  const constructorCalldata = constructorArgs
-    ? contractCalldata.compile("constructor", constructorArgs)
-    : [];
+  const constructorCalldata = compileConstructorCalldata(
+    contract,
+    constructorArgs,
+    compiledContractSierra.abi
+  );
 
   console.log(yellow("Deploying Contract "), contractName || contract);
 
   let { classHash } = await declareIfNot_NotWait(
+    contract,
     {
       contract: compiledContractSierra,
       casm: compiledContractCasm,
@@ -224,17 +357,51 @@ const deployContract = async (
     options
   );
 
-  let randomSalt = stark.randomAddress();
+  let finalContractName = contractName || contract;
 
-  let { contractAddress } = await deployContract_NotWait({
-    salt: randomSalt,
+  // Reruns reuse the recorded salt, the contract then lands on the same address
+  const recorded = findRecordedDeployment(
+    manifest,
+    finalContractName,
     classHash,
-    constructorCalldata,
-  });
-
-  console.log(green("Contract Deployed at "), contractAddress);
+    constructorCalldata
+  );
+  const salt =
+    recorded?.salt ??
+    (saltSeed
+      ? deriveSalt(saltSeed, finalContractName)
+      : stark.randomAddress());
+
+  let contractAddress: string;
+  const { addresses } = transaction.buildUDCCall(
+    { salt, classHash, constructorCalldata },
+    deployer.address
+  );
+  if (await isDeployed(addresses[0])) {
+    contractAddress = addresses[0];
+    existingAddresses.add(BigInt(contractAddress).toString());
+    console.log(yellow("Contract already deployed at "), contractAddress);
+  } else {
+    ({ contractAddress } = await deployContract_NotWait({
+      salt,
+      classHash,
+      constructorCalldata,
+    }));
+    pendingSalts.set(BigInt(salt).toString(), finalContractName);
+    console.log(green("Contract Deployed at "), contractAddress);
+  }
 
-  let finalContractName = contractName || contract;
+  manifest.contracts[finalContractName] = {
+    contract,
+    classHash,
+    salt,
+    constructorCalldata: constructorCalldata.map((value) => num.toHex(value)),
+    address: contractAddress,
+    txHash: existingAddresses.has(BigInt(contractAddress).toString())
+      ? recorded?.txHash
+      : undefined,
+  };
+  saveProgress();
 
   deployments[finalContractName] = {
     classHash: classHash,
@@ -248,7 +415,254 @@ const deployContract = async (
   };
 };
 
+/**
+ * Upgrade a deployed contract to its compiled class, keeping its address and storage.
+ * The class is declared if needed, then `upgrade` is called from the deployer, which must own the contract.
+ *
+ * @param {UpgradeContractParams} params - The contract to upgrade.
+ * @param {string} params.contract - The name of the compiled contract.
+ * @param {string} [params.contractName] - The name the contract is exported as (optional).
+ * @param {string} params.address - The address of the deployed contract.
+ * @param {UniversalDetails} [params.options] - Additional transaction options (optional).
+ *
+ * @returns {Promise<{ classHash: string; address: string }>} The new class hash and the unchanged address.
+ */
+const upgradeContract = async (
+  params: UpgradeContractParams
+): Promise<{
+  classHash: string;
+  address: string;
+}> => {
+  const { contract, contractName, address, options } = params;
+  const finalContractName = contractName || contract;
+  if (dryRun) {
+    throw new Error(red("Upgrades do not support --dry-run"));
+  }
+
+  const compiledContractCasm = JSON.parse(
+    fs
+      .readFileSync(findContractFile(contract, "compiled_contract_class"))
+      .toString("ascii")
+  );
+  const compiledContractSierra = JSON.parse(
+    fs
+      .readFileSync(findContractFile(contract, "contract_class"))
+      .toString("ascii")
+  );
+
+  const [owner] = await provider.callContract({
+    contractAddress: address,
+    entrypoint: "owner",
+  });
+  if (BigInt(owner) !== BigInt(deployer.address)) {
+    const ownerAddress = num.toHex(owner);
+    throw new Error(
+      red(
+        `The deployer ${deployer.address} does not own ${finalContractName} at ${address}, its owner is ${ownerAddress}`
+      )
+    );
+  }
+
+  console.log(yellow("Upgrading Contract "), finalContractName);
+
+  const { classHash } = await declareIfNot_NotWait(
+    contract,
+    {
+      contract: compiledContractSierra,
+      casm: compiledContractCasm,
+    },
+    options
+  );
+
+  const currentClassHash = await provider.getClassHashAt(address);
+  if (BigInt(currentClassHash) === BigInt(classHash)) {
+    console.log(yellow("Contract already runs class "), classHash);
+    return { classHash, address };
+  }
+
+  const txVersion = await getTxVersion(networks[networkName], feeToken);
+  const { transaction_hash } = await deployer.execute(
+    [
+      {
+        contractAddress: address,
+        entrypoint: "upgrade",
+        calldata: new CallData(compiledContractSierra.abi).compile("upgrade", {
+          new_class_hash: classHash,
+        }),
+      },
+    ],
+    { ...options, version: txVersion }
+  );
+  const receipt = (await provider.waitForTransaction(
+    transaction_hash
+  )) as TransactionReceipt;
+  if (receipt.execution_status !== "SUCCEEDED") {
+    throw new Error(red(`Upgrade Failed: ${receipt.revert_reason}`));
+  }
+  console.log(green("Contract Upgraded at "), transaction_hash);
+
+  const recorded = manifest.contracts[finalContractName];
+  if (recorded && BigInt(recorded.address) === BigInt(address)) {
+    recorded.upgrades = [
+      ...(recorded.upgrades ?? []),
+      { classHash, txHash: transaction_hash },
+    ];
+    saveManifest(manifest);
+  }
+
+  // The exported deployment keeps its address and points to the new class
+  const latest = loadExistingDeployments();
+  if (latest[finalContractName]) {
+    latest[finalContractName].classHash = classHash;
+    fs.writeFileSync(
+      path.resolve(__dirname, `../deployments/${networkName}_latest.json`),
+      JSON.stringify(latest, null, 2)
+    );
+  }
+
+  return { classHash, address };
+};
+
+/**
+ * Queue a call to a contract deployed in this run.
+ * Queued calls are executed by `executeDeployCalls` in the same multicall, after the deployments.
+ *
+ * @param {Object} params - The call to queue.
+ * @param {string} params.contract - The name of the compiled contract, used for its ABI.
+ * @param {string} params.contractAddress - The address returned by `deployContract`.
+ * @param {string} params.entrypoint - The function to call.
+ * @param {RawArgs} params.args - The function arguments, encoded with the contract ABI.
+ */
+const queueContractCall = ({
+  contract,
+  contractAddress,
+  entrypoint,
+  args,
+}: {
+  contract: string;
+  contractAddress: string;
+  entrypoint: string;
+  args: RawArgs;
+}) => {
+  // The deploy multicall is atomic, a contract deployed by a previous run already got its calls
+  if (existingAddresses.has(BigInt(contractAddress).toString())) {
+    console.log(yellow(`Skipping ${entrypoint}, already done at deployment`));
+    return;
+  }
+  const compiledContractSierra = JSON.parse(
+    fs
+      .readFileSync(findContractFile(contract, "contract_class"))
+      .toString("ascii")
+  );
+  deployCalls.push({
+    contractAddress,
+    entrypoint,
+    calldata: new CallData(compiledContractSierra.abi).compile(
+      entrypoint,
+      args
+    ),
+  });
+};
+
+/**
+ * Records the transaction of the contracts deployed by the given UDC calls
+ */
+const recordDeployTransaction = (calls: Call[], transactionHash: string) => {
+  calls
+    .filter(({ entrypoint }) => entrypoint === "deployContract")
+    .forEach(({ calldata }) => {
+      // UDC calldata: class hash, salt, unique, constructor calldata
+      const salt = BigInt((calldata as string[])[1]).toString();
+      const contractName = pendingSalts.get(salt);
+      if (!contractName) return;
+      manifest.contracts[contractName].txHash = transactionHash;
+      pendingSalts.delete(salt);
+    });
+  saveProgress();
+};
+
+/**
+ * Simulates what `executeDeployCalls` would send: the pending declarations, then the deploy multicall.
+ * Prints the constructor calldata of the new contracts and the fees in every fee token against the
+ * deployer's balance.
+ *
+ * @throws if a transaction would revert or no fee token balance covers the fees
+ */
+const simulateDeployCalls = async () => {
+  const invocations: Invocations = [
+    ...pendingDeclarations.map(({ payload }) => ({
+      type: TransactionType.DECLARE as const,
+      payload,
+    })),
+    ...(deployCalls.length > 0
+      ? [{ type: TransactionType.INVOKE as const, payload: deployCalls }]
+      : []),
+  ];
+  const labels = [
+    ...pendingDeclarations.map(({ contract }) => `Declare ${contract}`),
+    ...(deployCalls.length > 0
+      ? [`Deploy multicall (${deployCalls.length} calls)`]
+      : []),
+  ];
+
+  pendingSalts.forEach((contractName) => {
+    const { address, constructorCalldata } = manifest.contracts[contractName];
+    console.log(yellow(`${contractName} constructor calldata at ${address}:`));
+    console.log(`  [${constructorCalldata.join(", ")}]`);
+  });
+
+  if (invocations.length < 1) {
+    console.log(green("Nothing to execute, every step is already done"));
+    return;
+  }
+
+  const simulations = await simulateFees(networks[networkName], invocations);
+  const revertReason = simulations.find(
+    ({ revertReason }) => revertReason
+  )?.revertReason;
+  if (revertReason) {
+    throw new Error(red(`Deploy Calls would fail: ${revertReason}`));
+  }
+
+  simulations.forEach(({ token, fees, maxFee, balance }) => {
+    const { decimals } = networks[networkName].feeToken.find(
+      ({ name }) => name === token
+    );
+    const symbol = token.toUpperCase();
+    const format = (amount: bigint) =>
+      `${formatTokenAmount(amount, decimals)} ${symbol}`;
+    console.log(yellow(`Estimated fees in ${symbol}:`));
+    fees.forEach((fee, index) =>
+      console.log(`  ${labels[index]}: ${format(fee)}`)
+    );
+    const total = fees.reduce((sum, fee) => sum + fee, 0n);
+    console.log(`  Total: ${format(total)}, up to ${format(maxFee)}`);
+    if (balance >= maxFee) {
+      console.log(green(`  Balance ${format(balance)} covers it`));
+    } else {
+      const shortfall = format(maxFee - balance);
+      console.log(red(`  Balance ${format(balance)} is short of ${shortfall}`));
+    }
+  });
+
+  if (simulations.every(({ maxFee, balance }) => balance < maxFee)) {
+    throw new Error(
+      red(
+        "No fee token balance covers the estimated fees, fund the deployer first"
+      )
+    );
+  }
+};
+
 const executeDeployCalls = async (options?: UniversalDetails) => {
+  if (dryRun) {
+    await simulateDeployCalls();
+    return;
+  }
+  if (deployCalls.length < 1 && Object.keys(deployments).length > 0) {
+    console.log(green("Nothing to execute, every step is already done"));
+    return;
+  }
   if (deployCalls.length < 1) {
     throw new Error(
       red(
@@ -272,6 +686,7 @@ const executeDeployCalls = async (options?: UniversalDetails) => {
         throw new Error(red(`Deploy Calls Failed: ${revertReason}`));
       }
     }
+    recordDeployTransaction(deployCalls, transaction_hash);
     console.log(green("Deploy Calls Executed at "), transaction_hash);
   } catch (error) {
     // split the calls in half and try again recursively
@@ -325,10 +740,16 @@ const exportDeployments = () => {
 
 export {
   deployContract,
+  upgradeContract,
+  findContractFile,
+  compileConstructorCalldata,
+  networkName,
+  queueContractCall,
   provider,
   deployer,
   loadExistingDeployments,
   exportDeployments,
   executeDeployCalls,
   resetDeployments,
+  dryRun,
 };
@@ -2,9 +2,14 @@ import {
   deployContract,
   executeDeployCalls,
   exportDeployments,
-  deployer
+  deployer,
+  queueContractCall,
+  compileConstructorCalldata,
+  networkName,
+  dryRun,
 } from "./deploy-contract";
 import { green } from "./helpers/colorize-log";
+import { loadCampaignConfig } from "./helpers/campaign-config";
 /**
  * Deploy a contract using the specified parameters.
  *
@@ -41,27 +46,74 @@ import { green } from "./helpers/colorize-log";
  * @returns {Promise<void>}
  */
 const deployScript = async (): Promise<void> => {
-  await deployContract({
+  // Typed per network config, see helpers/campaign-config.ts
+  const config = loadCampaignConfig(networkName);
+  const crowdfundingArgs = {
+    token: config.token,
+    grantee_address: config.grantee,
+    fund_target: config.fundTarget,
+    fund_title: config.title,
+    fund_description_uri: config.descriptionUri,
+    deadline: config.deadline,
+    // The deployer owns the campaign until the setup calls below ran, see transfer_ownership
+    initial_owner: deployer.address,
+  };
+  // Checked against the constructor ABI before anything is declared
+  compileConstructorCalldata("crowdfunding", crowdfundingArgs);
+
+  const crowdfunding = await deployContract({
     contract: "crowdfunding",
     contractName: "crowdfunding",
-    constructorArgs: {
-      token: process.env.STRK_SEPOLIA_ADDRESS,
-      grantee_address: process.env.GRANTEE_ADDRESS,
-      fund_target: BigInt(process.env.FUND_TARGET ?? "100000000000000000000"),
-      fund_description: process.env.FUND_DESCRIPTION,
-      deadline: process.env.DEADLINE ?? "1767151217",
-      initial_owner: deployer.address,
-    },
-/*    options: {
+    constructorArgs: crowdfundingArgs,
+    /*    options: {
       maxFee: BigInt("1000000000000000000000000000000")
     }*/
   });
+
+  // Set in the same multicall as the deployment, while the deployer still owns the campaign
+  const { milestones } = config;
+  if (milestones && milestones.amounts.length > 0) {
+    queueContractCall({
+      contract: "crowdfunding",
+      contractAddress: crowdfunding.address,
+      entrypoint: "set_milestones",
+      args: {
+        amounts: milestones.amounts,
+        descriptions: milestones.descriptions,
+      },
+    });
+  }
+
+  // Queued after the owner-only setup calls, so they still run as the deployer
+  if (config.owner && BigInt(config.owner) !== BigInt(deployer.address)) {
+    queueContractCall({
+      contract: "crowdfunding",
+      contractAddress: crowdfunding.address,
+      entrypoint: "transfer_ownership",
+      args: { new_owner: config.owner },
+    });
+  }
+
+  // The factory deploys new campaigns from the crowdfunding class declared above
+  await deployContract({
+    contract: "crowdfunding_factory",
+    contractName: "crowdfundingFactory",
+    constructorArgs: {
+      campaign_class_hash: crowdfunding.classHash,
+      owner: deployer.address,
+    },
+  });
 };
 
 deployScript()
   .then(async () => {
     executeDeployCalls()
       .then(() => {
+        // A dry run deployed nothing, the exported deployments stay as they were
+        if (dryRun) {
+          console.log(green("Dry Run Done, nothing was sent"));
+          return;
+        }
         exportDeployments();
         console.log(green("All Setup Done"));
       })
@@ -70,4 +122,7 @@ deployScript()
         process.exit(1); // exit with error so that non subsequent scripts are run
       });
   })
-  .catch(console.error);
+  .catch((e) => {
+    console.error(e.message ?? e);
+    process.exit(1);
+  });
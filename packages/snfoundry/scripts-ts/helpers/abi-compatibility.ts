@@ -0,0 +1,188 @@
+import { Abi } from "starknet";
+
+/**
+ * ABI compatibility check between a deployed class and the one meant to replace it.
+ * The ABIs cover the types callers and indexers rely on:
+ * - structs keep their members, in order and with the same types, new ones are appended
+ * - enums keep their variants, in order and with the same types, new ones are appended
+ * - interface functions keep their inputs, outputs and mutability
+ * - struct events keep exactly the same members, indexers decode the keys and data by them
+ * - enum events keep their variants, new events are appended
+ * Storage is not part of the ABI, it is compared by storage-layout.ts.
+ */
+
+type AbiMember = {
+  name: string;
+  type: string;
+  // Event members and variants only, e.g. "key", "data" or "nested"
+  kind?: string;
+};
+
+type AbiFunction = {
+  type: "function";
+  name: string;
+  inputs: AbiMember[];
+  outputs: { type: string }[];
+  state_mutability: string;
+};
+
+type AbiEntry = {
+  type: string;
+  name: string;
+  // Events only, "struct" or "enum"
+  kind?: string;
+  members?: AbiMember[];
+  variants?: AbiMember[];
+  items?: AbiFunction[];
+};
+
+// Corelib types never change between two classes
+const isCoreType = (name: string) => name.startsWith("core::");
+
+const formatTypes = (types: { type: string }[]) =>
+  `(${types.map(({ type }) => type).join(", ")})`;
+
+const describeField = ({ type, kind }: AbiMember) =>
+  kind ? `${type} (${kind})` : type;
+
+const compareFields = (
+  label: string,
+  name: string,
+  previous: AbiMember[],
+  next: AbiMember[],
+  fields: "members" | "variants"
+) =>
+  previous.flatMap((field, index) => {
+    const nextField = next[index];
+    if (!nextField) {
+      return [`${label} ${name}: ${field.name} was removed`];
+    }
+    if (nextField.name !== field.name) {
+      return [
+        `${label} ${name}: ${field.name} was replaced by ${nextField.name}, new ${fields} must be appended`,
+      ];
+    }
+    if (describeField(nextField) !== describeField(field)) {
+      return [
+        `${label} ${name}: ${field.name} changed from ${describeField(
+          field
+        )} to ${describeField(nextField)}`,
+      ];
+    }
+    return [];
+  });
+
+const compareTypes = (previousAbi: AbiEntry[], nextAbi: AbiEntry[]) =>
+  previousAbi
+    .filter(
+      ({ type, name }) =>
+        (type === "struct" || type === "enum") && !isCoreType(name)
+    )
+    .flatMap(({ type, name, members, variants }) => {
+      const kind = type as "struct" | "enum";
+      const next = nextAbi.find(
+        (entry) => entry.type === type && entry.name === name
+      );
+      if (!next) {
+        return [`${kind} ${name} was removed`];
+      }
+      return kind === "struct"
+        ? compareFields(
+            kind,
+            name,
+            members ?? [],
+            next.members ?? [],
+            "members"
+          )
+        : compareFields(
+            kind,
+            name,
+            variants ?? [],
+            next.variants ?? [],
+            "variants"
+          );
+    });
+
+const compareEvents = (previousAbi: AbiEntry[], nextAbi: AbiEntry[]) =>
+  previousAbi
+    .filter(({ type }) => type === "event")
+    .flatMap(({ name, kind, members, variants }) => {
+      const next = nextAbi.find(
+        (entry) => entry.type === "event" && entry.name === name
+      );
+      if (!next) {
+        return [`event ${name} was removed`];
+      }
+      if (next.kind !== kind) {
+        return [`event ${name} changed from ${kind} to ${next.kind}`];
+      }
+      if (kind === "enum") {
+        return compareFields(
+          "event",
+          name,
+          variants ?? [],
+          next.variants ?? [],
+          "variants"
+        );
+      }
+      // Even an appended member changes the data indexers decode
+      const added = (next.members ?? [])
+        .slice((members ?? []).length)
+        .map((member) => `event ${name}: ${member.name} was added`);
+      return [
+        ...compareFields(
+          "event",
+          name,
+          members ?? [],
+          next.members ?? [],
+          "members"
+        ),
+        ...added,
+      ];
+    });
+
+const interfaceFunctions = (abi: AbiEntry[]) =>
+  abi
+    .filter(({ type }) => type === "interface")
+    .flatMap(({ items }) => items ?? [])
+    .filter(({ type }) => type === "function");
+
+const compareFunctions = (previousAbi: AbiEntry[], nextAbi: AbiEntry[]) => {
+  const nextFunctions = new Map(
+    interfaceFunctions(nextAbi).map((item) => [item.name, item])
+  );
+  return interfaceFunctions(previousAbi).flatMap((item) => {
+    const next = nextFunctions.get(item.name);
+    if (!next) {
+      return [`function ${item.name} was removed`];
+    }
+    const signature = `${formatTypes(item.inputs)} -> ${formatTypes(
+      item.outputs
+    )} ${item.state_mutability}`;
+    const nextSignature = `${formatTypes(next.inputs)} -> ${formatTypes(
+      next.outputs
+    )} ${next.state_mutability}`;
+    return signature === nextSignature
+      ? []
+      : [`function ${item.name} changed from ${signature} to ${nextSignature}`];
+  });
+};
+
+/**
+ * Lists the ABI changes that break callers or indexers of the previous class, see above.
+ * @returns one message per incompatibility, empty when the ABIs are compatible
+ */
+export const findAbiIncompatibilities = (
+  previousAbi: Abi,
+  nextAbi: Abi
+): string[] => [
+  ...compareTypes(previousAbi as AbiEntry[], nextAbi as AbiEntry[]),
+  ...compareEvents(previousAbi as AbiEntry[], nextAbi as AbiEntry[]),
+  ...compareFunctions(previousAbi as AbiEntry[], nextAbi as AbiEntry[]),
+];
+
+/**
+ * Whether the ABI exposes `name` through one of its interfaces, e.g. `upgrade`.
+ */
+export const hasInterfaceFunction = (abi: Abi, name: string): boolean =>
+  interfaceFunctions(abi as AbiEntry[]).some((item) => item.name === name);
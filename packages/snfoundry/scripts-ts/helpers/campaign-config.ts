@@ -0,0 +1,211 @@
+import fs from "fs";
+import path from "path";
+import { validateAndParseAddress } from "starknet";
+import { networks } from "./networks";
+import { readCampaignDescription } from "./campaign-description";
+import {
+  CampaignMilestones,
+  readCampaignMilestones,
+} from "./campaign-milestones";
+
+/**
+ * Campaign deployed by `deploy.ts`, read from `campaign/<network>.ts` or `campaign/<network>.json`.
+ * A TS config default-exports this type.
+ */
+export type CampaignConfigFile = {
+  // Symbol of a network token from helpers/networks.ts ("STRK", "ETH") or a token address
+  token: string;
+  // Needed when `token` is an address
+  tokenDecimals?: number;
+  grantee: string;
+  // Decimal amount of tokens, e.g. "100" or "12.5"
+  target: string;
+  // ISO date ("2026-12-31", "2026-12-31T18:00:00Z") or unix timestamp in seconds
+  deadline: string | number;
+  // Markdown file whose first heading is the title, relative to the snfoundry package
+  descriptionFile: string;
+  // Hosted copy of the description, it is stored inline otherwise
+  descriptionUri?: string;
+  // Milestones file relative to the snfoundry package, left out for a single withdrawal
+  milestonesFile?: string;
+  // Campaign administrator, defaults to the deployer, which hands over ownership once the campaign is set up
+  owner?: string;
+};
+
+export type CampaignConfig = {
+  token: string;
+  tokenDecimals: number;
+  grantee: string;
+  fundTarget: bigint;
+  deadline: bigint;
+  title: string;
+  descriptionUri: string;
+  milestones?: CampaignMilestones;
+  owner?: string;
+};
+
+export const findCampaignConfigFile = (network: string) => {
+  const candidates = [`campaign/${network}.ts`, `campaign/${network}.json`];
+  const found = candidates.find((candidate) =>
+    fs.existsSync(path.resolve(__dirname, "../..", candidate))
+  );
+  if (!found) {
+    throw new Error(
+      `No campaign config for ${network}, create ${candidates.join(" or ")}`
+    );
+  }
+  return found;
+};
+
+const readConfigFile = (filePath: string): Partial<CampaignConfigFile> => {
+  const resolvedPath = path.resolve(__dirname, "../..", filePath);
+  if (filePath.endsWith(".ts")) {
+    // deploy.ts runs through ts-node, which compiles the config on require
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const config = require(resolvedPath);
+    return config.default ?? config;
+  }
+  return JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+};
+
+const parseAddress = (value: unknown) => {
+  if (typeof value !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    throw new Error("must be a 0x-prefixed Starknet address");
+  }
+  const address = validateAndParseAddress(value);
+  if (BigInt(address) === 0n) {
+    throw new Error("must not be the zero address");
+  }
+  return address;
+};
+
+/**
+ * Converts a decimal token amount into its raw amount.
+ * @throws if it is not a positive decimal or has more fraction digits than the token
+ */
+export const parseDecimalAmount = (value: unknown, decimals: number) => {
+  if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error('must be a decimal string like "100" or "12.5"');
+  }
+  const [integer, fraction = ""] = value.split(".");
+  if (fraction.length > decimals) {
+    throw new Error(`has more than ${decimals} decimals`);
+  }
+  const amount = BigInt(integer + fraction.padEnd(decimals, "0"));
+  if (amount === 0n) {
+    throw new Error("must be greater than 0");
+  }
+  return amount;
+};
+
+/**
+ * Converts an ISO date or a unix timestamp in seconds into a timestamp.
+ * @throws if it cannot be parsed or is not in the future
+ */
+export const parseDeadline = (value: unknown, now = Date.now()) => {
+  let seconds: number;
+  if (typeof value === "number" || /^\d+$/.test(String(value))) {
+    seconds = Number(value);
+  } else if (typeof value === "string" && !isNaN(Date.parse(value))) {
+    seconds = Math.floor(Date.parse(value) / 1000);
+  } else {
+    throw new Error("must be an ISO date or a unix timestamp in seconds");
+  }
+  if (!Number.isSafeInteger(seconds)) {
+    throw new Error("must be a unix timestamp in seconds");
+  }
+  if (seconds * 1000 <= now) {
+    throw new Error(
+      `${new Date(seconds * 1000).toISOString()} is not in the future`
+    );
+  }
+  return BigInt(seconds);
+};
+
+/**
+ * Reads and validates the campaign config of a network.
+ * Every invalid field is reported at once, before anything is declared or deployed.
+ *
+ * @param network - network name from helpers/networks.ts
+ * @param filePath - config file relative to the snfoundry package, found by network name by default
+ * @throws with the list of invalid fields
+ */
+export const loadCampaignConfig = (
+  network: string,
+  filePath = findCampaignConfigFile(network)
+): CampaignConfig => {
+  const file = readConfigFile(filePath);
+  const errors: string[] = [];
+  const field = <T>(name: string, parse: () => T): T | undefined => {
+    try {
+      return parse();
+    } catch (e) {
+      errors.push(`${name}: ${e.message}`);
+      return undefined;
+    }
+  };
+
+  const token = field("token", () => {
+    const networkToken = networks[network]?.feeToken.find(
+      ({ name }) => name.toUpperCase() === String(file.token).toUpperCase()
+    );
+    if (networkToken) return networkToken;
+    if (typeof file.token === "string" && file.token.startsWith("0x")) {
+      return { address: parseAddress(file.token), decimals: undefined };
+    }
+    throw new Error(
+      `must be a ${network} token symbol (${(networks[network]?.feeToken ?? [])
+        .map(({ name }) => name.toUpperCase())
+        .join(", ")}) or a token address`
+    );
+  });
+  const tokenDecimals = field("tokenDecimals", () => {
+    const decimals = token?.decimals ?? file.tokenDecimals;
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      throw new Error("is needed for token addresses, between 0 and 36");
+    }
+    return decimals;
+  });
+  const grantee = field("grantee", () => parseAddress(file.grantee));
+  const owner =
+    file.owner === undefined
+      ? undefined
+      : field("owner", () => parseAddress(file.owner));
+  const fundTarget =
+    tokenDecimals === undefined
+      ? undefined
+      : field("target", () => parseDecimalAmount(file.target, tokenDecimals));
+  const deadline = field("deadline", () => parseDeadline(file.deadline));
+  const description = field("descriptionFile", () => {
+    if (typeof file.descriptionFile !== "string") {
+      throw new Error("must be a markdown file path");
+    }
+    return readCampaignDescription(file.descriptionFile, file.descriptionUri);
+  });
+  const milestones =
+    file.milestonesFile && fundTarget !== undefined
+      ? field("milestonesFile", () =>
+          readCampaignMilestones(file.milestonesFile, fundTarget)
+        )
+      : undefined;
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid campaign config ${filePath}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+
+  return {
+    token: token.address,
+    tokenDecimals,
+    grantee,
+    fundTarget,
+    deadline,
+    title: description.title,
+    descriptionUri: description.descriptionUri,
+    milestones,
+    owner,
+  };
+};
@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+
+export type CampaignDescription = {
+  title: string;
+  descriptionUri: string;
+};
+
+/**
+ * Reads a campaign description from a markdown file.
+ * The first `# ` heading becomes the on-chain title and the rest of the document the description.
+ * The description is stored inline as a `data:text/markdown` URI unless `descriptionUri` points to a hosted copy.
+ *
+ * @param filePath - markdown file, relative to the snfoundry package
+ * @param descriptionUri - optional https:// or ipfs:// URI of the hosted markdown
+ * @throws if the file is missing or has no title heading
+ */
+export const readCampaignDescription = (
+  filePath: string,
+  descriptionUri?: string
+): CampaignDescription => {
+  const resolvedPath = path.resolve(__dirname, "../..", filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Campaign description file not found: ${resolvedPath}`);
+  }
+
+  const lines = fs.readFileSync(resolvedPath, "utf8").split(/\r?\n/);
+  const titleIndex = lines.findIndex((line) => /^#\s+/.test(line));
+  if (titleIndex === -1) {
+    throw new Error(
+      `Campaign description ${filePath} needs a "# Title" heading for the campaign title`
+    );
+  }
+
+  const title = lines[titleIndex].replace(/^#\s+/, "").trim();
+  const body = lines
+    .filter((_, index) => index !== titleIndex)
+    .join("\n")
+    .trim();
+
+  return {
+    title,
+    descriptionUri:
+      descriptionUri ||
+      `data:text/markdown;base64,${Buffer.from(body, "utf8").toString(
+        "base64"
+      )}`,
+  };
+};
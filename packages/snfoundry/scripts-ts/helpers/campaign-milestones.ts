@@ -0,0 +1,64 @@
+import fs from "fs";
+import path from "path";
+
+export type CampaignMilestones = {
+  amounts: bigint[];
+  descriptions: string[];
+};
+
+type MilestoneConfig = {
+  amount: string;
+  description: string;
+};
+
+/**
+ * Reads the milestone plan of a campaign from a JSON file, as passed to `set_milestones`.
+ * The file holds a list of `{ "amount": "<raw token amount>", "description": "..." }` entries.
+ *
+ * @param filePath - JSON file, relative to the snfoundry package
+ * @param fundTarget - campaign target, the milestone amounts must add up to it
+ * @throws if the file is missing, malformed or does not match the target
+ */
+export const readCampaignMilestones = (
+  filePath: string,
+  fundTarget: bigint
+): CampaignMilestones => {
+  const resolvedPath = path.resolve(__dirname, "../..", filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Campaign milestones file not found: ${resolvedPath}`);
+  }
+
+  const config: unknown = JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+  if (!Array.isArray(config)) {
+    throw new Error(`Campaign milestones ${filePath} must be a list`);
+  }
+
+  const milestones = (config as MilestoneConfig[]).map(
+    ({ amount, description }, index) => {
+      if (typeof amount !== "string" || !/^\d+$/.test(amount)) {
+        throw new Error(
+          `Milestone ${index + 1} amount must be a raw token amount string`
+        );
+      }
+      if (BigInt(amount) <= 0n) {
+        throw new Error(`Milestone ${index + 1} amount must be positive`);
+      }
+      if (typeof description !== "string" || description.trim() === "") {
+        throw new Error(`Milestone ${index + 1} needs a description`);
+      }
+      return { amount: BigInt(amount), description: description.trim() };
+    }
+  );
+
+  const total = milestones.reduce((sum, { amount }) => sum + amount, 0n);
+  if (milestones.length > 0 && total !== fundTarget) {
+    throw new Error(
+      `Milestones in ${filePath} add up to ${total}, the fund target is ${fundTarget}`
+    );
+  }
+
+  return {
+    amounts: milestones.map(({ amount }) => amount),
+    descriptions: milestones.map(({ description }) => description),
+  };
+};
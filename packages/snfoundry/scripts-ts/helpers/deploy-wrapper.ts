@@ -8,6 +8,8 @@ interface CommandLineOptions {
   network?: string; // The --network option
   reset?: boolean;
   fee?: string;
+  saltSeed?: string;
+  dryRun?: boolean;
 }
 
 const argv = yargs(process.argv.slice(2))
@@ -19,6 +21,16 @@ const argv = yargs(process.argv.slice(2))
       description: "Do not reset deployments (keep existing deployments)",
       default: true,
     },
+    "salt-seed": {
+      type: "string",
+      description: "Derive deterministic salts from this seed",
+    },
+    "dry-run": {
+      type: "boolean",
+      description:
+        "Simulate the deploy and estimate its fees without sending anything",
+      default: false,
+    },
   })
   .parseSync() as CommandLineOptions;
 
@@ -34,7 +46,11 @@ try {
       ` --network ${process.env.NETWORK}` +
       ` --fee ${process.env.FEE_TOKEN}` +
       ` --no-reset ${process.env.NO_RESET}` +
-      ` && ts-node ../scripts-ts/helpers/parse-deployments.ts && cd ..`,
+      (argv.saltSeed ? ` --salt-seed ${argv.saltSeed}` : "") +
+      (argv.dryRun
+        ? " --dry-run"
+        : " && ts-node ../scripts-ts/helpers/parse-deployments.ts") +
+      " && cd ..",
     { stdio: "inherit" }
   );
 } catch (error) {
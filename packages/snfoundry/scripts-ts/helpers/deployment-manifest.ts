@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import { hash, num } from "starknet";
+import { StorageLayout } from "./storage-layout";
+
+/**
+ * Per network record of what `deploy.ts` declared and deployed, kept in
+ * `deployments/<network>_manifest.json`. It is written after every step so a
+ * failed run can be resumed: reruns reuse the recorded salts, which gives the
+ * same addresses, and skip what is already on chain.
+ */
+
+export type DeclaredClass = {
+  classHash: string;
+  // Missing when the class was already declared on the network
+  txHash?: string;
+};
+
+export type DeployedContract = {
+  contract: string;
+  classHash: string;
+  salt: string;
+  constructorCalldata: string[];
+  address: string;
+  // Set once the deploy multicall went through
+  txHash?: string;
+  // Classes the contract was upgraded to, `classHash` stays the one it was deployed with
+  upgrades?: { classHash: string; txHash: string }[];
+};
+
+export type DeploymentManifest = {
+  network: string;
+  // By compiled contract name
+  declared: Record<string, DeclaredClass>;
+  // By exported contract name
+  contracts: Record<string, DeployedContract>;
+  // By class hash, as hex, the layouts declared classes were compiled with, see storage-layout.ts
+  storageLayouts?: Record<string, StorageLayout>;
+  updatedAt?: string;
+};
+
+export const getManifestPath = (network: string) =>
+  path.resolve(__dirname, `../../deployments/${network}_manifest.json`);
+
+export const loadManifest = (network: string): DeploymentManifest => {
+  const manifestPath = getManifestPath(network);
+  if (!fs.existsSync(manifestPath)) {
+    return { network, declared: {}, contracts: {} };
+  }
+  const manifest: DeploymentManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+  if (manifest.network !== network) {
+    throw new Error(
+      `Deployment manifest ${manifestPath} belongs to ${manifest.network}, not ${network}`
+    );
+  }
+  return manifest;
+};
+
+/**
+ * Writes the manifest through a temporary file, an interrupted run never leaves it half written
+ */
+export const saveManifest = (manifest: DeploymentManifest) => {
+  const manifestPath = getManifestPath(manifest.network);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  const tempPath = `${manifestPath}.tmp`;
+  fs.writeFileSync(
+    tempPath,
+    JSON.stringify(
+      { ...manifest, updatedAt: new Date().toISOString() },
+      null,
+      2
+    )
+  );
+  fs.renameSync(tempPath, manifestPath);
+};
+
+/**
+ * Derives the UDC salt of a contract from a seed, the same seed gives the same
+ * address on every network for the same deployer, class and calldata.
+ */
+export const deriveSalt = (seed: string, contractName: string) =>
+  num.toHex(hash.starknetKeccak(`${seed}:${contractName}`));
+
+/**
+ * Finds the recorded deployment of a contract if it used the same class and calldata,
+ * anything else is a new deployment.
+ */
+export const findRecordedDeployment = (
+  manifest: DeploymentManifest,
+  contractName: string,
+  classHash: string,
+  constructorCalldata: string[]
+): DeployedContract | undefined => {
+  const recorded = manifest.contracts[contractName];
+  if (
+    !recorded ||
+    BigInt(recorded.classHash) !== BigInt(classHash) ||
+    recorded.constructorCalldata.length !== constructorCalldata.length ||
+    recorded.constructorCalldata.some(
+      (value, index) => BigInt(value) !== BigInt(constructorCalldata[index])
+    )
+  ) {
+    return undefined;
+  }
+  return recorded;
+};
@@ -1,4 +1,4 @@
-import { Contract, Provider, uint256, Abi } from "starknet";
+import { Contract, Provider, uint256, Abi, Invocations } from "starknet";
 import { red, yellow } from "./colorize-log";
 import { Network } from "../types";
 
@@ -90,6 +90,70 @@ export async function getBalance(
   }
 }
 
+export type FeeSimulation = {
+  token: string;
+  // Estimated fee of each transaction, in the token's smallest unit
+  fees: bigint[];
+  // Highest total fee the transactions can be sent with, what the balance has to cover
+  maxFee: bigint;
+  balance: bigint;
+  // Reason of the first transaction that would revert
+  revertReason?: string;
+};
+
+/**
+ * Simulates transactions from the deployer, in order and without sending them, once per fee token.
+ * Later transactions see the effects of earlier ones, so a deploy can be simulated with the
+ * declarations it depends on. Balances are not charged in a simulation, every token gets an estimate.
+ */
+export async function simulateFees(
+  network: Network,
+  invocations: Invocations
+): Promise<FeeSimulation[]> {
+  const { feeToken: feeTokenOptions, provider, deployer } = network;
+  return Promise.all(
+    feeTokenOptions.map(async (token) => {
+      const results = await deployer.simulateTransaction(invocations, {
+        // Sierra declarations, invocations are reduced to V1 by starknet.js when paid in ETH
+        version: getTxVersionFromFeeToken(token.name, true),
+        skipValidate: true,
+      });
+      const revertReason = results
+        .map(
+          ({ transaction_trace }) =>
+            (
+              transaction_trace as {
+                execute_invocation?: { revert_reason?: string };
+              }
+            ).execute_invocation?.revert_reason
+        )
+        .find(Boolean);
+      return {
+        token: token.name,
+        fees: results.map(({ fee_estimation }) =>
+          BigInt(fee_estimation.overall_fee)
+        ),
+        maxFee: results.reduce(
+          (total, { suggestedMaxFee }) => total + BigInt(suggestedMaxFee),
+          0n
+        ),
+        balance: await getBalance(deployer.address, provider, token.address),
+        revertReason,
+      };
+    })
+  );
+}
+
+/**
+ * Formats a raw token amount with its decimals, e.g. 1500000000000000n with 18 decimals is "0.0015"
+ */
+export function formatTokenAmount(amount: bigint, decimals: number) {
+  const padded = amount.toString().padStart(decimals + 1, "0");
+  const integer = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, "");
+  return fraction ? `${integer}.${fraction}` : integer;
+}
+
 function getTxVersionFromFeeToken(feeToken: string, isSierra?: boolean) {
   return feeToken === "strk"
     ? TransactionVersion.V3
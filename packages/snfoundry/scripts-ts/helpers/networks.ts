@@ -60,16 +60,16 @@ const deployerMainnet =
 
 const feeTokenOptions = {
   devnet: [
-    { name: "eth", address: ETH_TOKEN_ADDRESS_DEVNET },
-    { name: "strk", address: STRK_TOKEN_ADDRESS_DEVNET },
+    { name: "eth", address: ETH_TOKEN_ADDRESS_DEVNET, decimals: 18 },
+    { name: "strk", address: STRK_TOKEN_ADDRESS_DEVNET, decimals: 18 },
   ],
   mainnet: [
-    { name: "eth", address: ETH_TOKEN_ADDRESS },
-    { name: "strk", address: STRK_TOKEN_ADDRESS },
+    { name: "eth", address: ETH_TOKEN_ADDRESS, decimals: 18 },
+    { name: "strk", address: STRK_TOKEN_ADDRESS, decimals: 18 },
   ],
   sepolia: [
-    { name: "eth", address: ETH_TOKEN_ADDRESS },
-    { name: "strk", address: STRK_TOKEN_ADDRESS },
+    { name: "eth", address: ETH_TOKEN_ADDRESS, decimals: 18 },
+    { name: "strk", address: STRK_TOKEN_ADDRESS, decimals: 18 },
   ],
 };
 
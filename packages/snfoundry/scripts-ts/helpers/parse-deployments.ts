@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import prettier from "prettier";
 import { Abi, CompiledSierra } from "starknet";
+import { yellow } from "./colorize-log";
 
 const TARGET_DIR = path.join(__dirname, "../../../nextjs/contracts");
 const deploymentsDir = path.join(__dirname, "../../deployments");
@@ -52,7 +53,13 @@ const getContractDataFromDeployments = (): Record<
               classHash: contractData.classHash,
             },
           };
-        } catch (e) {}
+        } catch (e) {
+          console.warn(
+            yellow(
+              `Skipping ${contractName} on ${chainId}: could not read the ABI of "${contractData.contract}"`
+            )
+          );
+        }
       });
     }
   });
@@ -60,9 +67,15 @@ const getContractDataFromDeployments = (): Record<
   return allContractsData;
 };
 
-const generateTsAbis = () => {
-  const allContractsData = getContractDataFromDeployments();
-
+/**
+ * Writes nextjs/contracts/deployedContracts.ts, from the exported deployments by default
+ */
+export const generateTsAbis = (
+  allContractsData: Record<
+    string,
+    Record<string, { address: string; abi: Abi; classHash: string }>
+  > = getContractDataFromDeployments()
+) => {
   const fileContent = Object.entries(allContractsData).reduce(
     (content, [chainId, chainConfig]) => {
       // Use chainId directly as it is already a hex string
@@ -90,4 +103,6 @@ const generateTsAbis = () => {
   );
 };
 
-generateTsAbis();
+if (typeof module !== "undefined" && require.main === module) {
+  generateTsAbis();
+}
@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Storage layout of a contract, read from its Cairo source since neither the ABI nor the
+ * Sierra artifacts list storage variables. Starknet addresses a storage variable by the hash
+ * of its name, so what a replacing class has to keep is:
+ * - every storage variable, under the same name and with the same type, new ones can be added
+ * - the members of structs and the variants of enums stored through `starknet::Store`, in
+ *   order and with the same types, new ones are appended
+ * The layout of a class is recorded in the deployment manifest when it is declared, so the
+ * class deployed at an address can be compared with the one meant to replace it.
+ */
+
+export type StorageLayout = {
+  // Storage variable name => type, e.g. "Map<(u32,ContractAddress),u256>"
+  variables: Record<string, string>;
+  // Stored struct or enum name => its members or variants as "name: type"
+  types: Record<string, string[]>;
+};
+
+const SOURCE_DIR = path.resolve(__dirname, "../../contracts/src");
+
+const listCairoFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listCairoFiles(entryPath);
+    return entry.name.endsWith(".cairo") ? [entryPath] : [];
+  });
+
+const stripComments = (source: string) => source.replace(/\/\/.*$/gm, "");
+
+// Text between the brace at `openIndex` and its matching closing brace
+const blockAt = (source: string, openIndex: number): string => {
+  let depth = 0;
+  for (let index = openIndex; index < source.length; index++) {
+    if (source[index] === "{") depth++;
+    if (source[index] === "}" && --depth === 0) {
+      return source.slice(openIndex + 1, index);
+    }
+  }
+  throw new Error("Unbalanced braces in contract source");
+};
+
+// Splits on commas outside of generic arguments and tuples, e.g. in `Map<(u32, u32), u256>`
+const splitFields = (body: string): string[] => {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of body) {
+    if (char === "<" || char === "(") depth++;
+    if (char === ">" || char === ")") depth--;
+    if (char === "," && depth === 0) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return [...fields, current]
+    .map((field) => field.replace(/#\[[^\]]*\]/g, "").trim())
+    .filter((field) => field.length > 0);
+};
+
+// Unit enum variants are stored as their index only, like a variant holding `()`
+const parseField = (field: string): [string, string] => {
+  const separator = field.indexOf(":");
+  if (separator === -1) return [field, "()"];
+  return [
+    field
+      .slice(0, separator)
+      .replace(/^pub\s+/, "")
+      .trim(),
+    field.slice(separator + 1).replace(/\s+/g, ""),
+  ];
+};
+
+const findStoredTypes = (source: string): Record<string, string[]> => {
+  const types: Record<string, string[]> = {};
+  const storedType =
+    /#\[derive\([^)]*\bstarknet::Store\b[^)]*\)\]\s*(?:#\[[^\]]*\]\s*)*(?:pub\s+)?(?:struct|enum)\s+(\w+)\s*\{/g;
+  for (const match of Array.from(source.matchAll(storedType))) {
+    const body = blockAt(source, (match.index ?? 0) + match[0].length - 1);
+    types[match[1]] = splitFields(body).map((field) =>
+      parseField(field).join(": ")
+    );
+  }
+  return types;
+};
+
+/**
+ * Reads the storage layout of `#[starknet::contract] mod <contract>` from contracts/src.
+ * @returns `undefined` when no contract module of that name is found, e.g. for a class of a dependency
+ */
+export const readStorageLayout = (
+  contract: string
+): StorageLayout | undefined => {
+  const contractModule = new RegExp(
+    `#\\[starknet::contract\\]\\s*(?:pub\\s+)?mod\\s+${contract}\\s*\\{`
+  );
+  for (const file of listCairoFiles(SOURCE_DIR)) {
+    const source = stripComments(fs.readFileSync(file, "utf8"));
+    const moduleMatch = contractModule.exec(source);
+    if (!moduleMatch) continue;
+
+    const moduleBody = blockAt(
+      source,
+      moduleMatch.index + moduleMatch[0].length - 1
+    );
+    const storageMatch = /#\[storage\]\s*struct\s+Storage\s*\{/.exec(
+      moduleBody
+    );
+    if (!storageMatch) {
+      throw new Error(`No #[storage] struct in contract ${contract}`);
+    }
+    const storageBody = blockAt(
+      moduleBody,
+      storageMatch.index + storageMatch[0].length - 1
+    );
+    return {
+      variables: Object.fromEntries(splitFields(storageBody).map(parseField)),
+      types: findStoredTypes(source),
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Lists the storage changes that would leave the data of the previous class unreadable, see above.
+ * @returns one message per incompatibility, empty when the new layout only adds to the previous one
+ */
+export const findStorageIncompatibilities = (
+  previous: StorageLayout,
+  next: StorageLayout
+): string[] => [
+  ...Object.entries(previous.variables).flatMap(([name, type]) => {
+    const nextType = next.variables[name];
+    if (nextType === undefined) {
+      return [
+        `storage ${name} was removed or renamed, its data would be left behind`,
+      ];
+    }
+    return nextType === type
+      ? []
+      : [`storage ${name} changed from ${type} to ${nextType}`];
+  }),
+  // A stored type that is gone is only used by variables that were retyped, reported above
+  ...Object.entries(previous.types).flatMap(([name, fields]) => {
+    const nextFields = next.types[name];
+    if (!nextFields) return [];
+    return fields.flatMap((field, index) => {
+      if (nextFields[index] === undefined) {
+        return [`stored type ${name}: ${field} was removed`];
+      }
+      return nextFields[index] === field
+        ? []
+        : [
+            `stored type ${name}: ${field} was replaced by ${nextFields[index]}, new fields must be appended`,
+          ];
+    });
+  }),
+];
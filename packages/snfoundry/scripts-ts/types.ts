@@ -5,7 +5,8 @@ export type Networks = Record<"devnet" | "sepolia" | "mainnet", Network>;
 export type Network = {
   provider: RpcProvider;
   deployer: Account;
-  feeToken: { name: string; address: string }[];
+  // Tokens fees can be paid in, campaign configs can also refer to them by symbol
+  feeToken: { name: string; address: string; decimals: number }[];
 };
 
 export type DeployContractParams = {
@@ -14,3 +15,10 @@ export type DeployContractParams = {
   constructorArgs?: RawArgs;
   options?: UniversalDetails;
 };
+
+export type UpgradeContractParams = {
+  contract: string;
+  contractName?: string;
+  address: string;
+  options?: UniversalDetails;
+};
@@ -0,0 +1,145 @@
+import fs from "fs";
+import yargs from "yargs";
+import { Abi, CompiledSierra, num } from "starknet";
+import {
+  upgradeContract,
+  findContractFile,
+  networkName,
+  provider,
+} from "./deploy-contract";
+import { green, red, yellow } from "./helpers/colorize-log";
+import {
+  findAbiIncompatibilities,
+  hasInterfaceFunction,
+} from "./helpers/abi-compatibility";
+import { loadManifest } from "./helpers/deployment-manifest";
+import {
+  findStorageIncompatibilities,
+  readStorageLayout,
+} from "./helpers/storage-layout";
+import { generateTsAbis } from "./helpers/parse-deployments";
+import deployedContracts from "../../nextjs/contracts/deployedContracts";
+
+type DeployedContracts = Record<
+  string,
+  Record<string, { address: string; abi: Abi; classHash: string }>
+>;
+
+const argv = yargs(process.argv.slice(2))
+  .option("contract", {
+    type: "string",
+    description: "Name of the compiled contract to upgrade to",
+    default: "crowdfunding",
+  })
+  .option("contract-name", {
+    type: "string",
+    description: "Name the contract is exported as, defaults to --contract",
+  })
+  .option("address", {
+    type: "string",
+    description:
+      "Contract to upgrade, defaults to its address in deployedContracts.ts",
+  })
+  .option("force", {
+    type: "boolean",
+    description:
+      "Upgrade even if the ABI or storage layout compatibility check fails",
+    default: false,
+  })
+  .parseSync();
+
+/**
+ * Upgrades a deployed contract to the compiled class of `--contract`.
+ * The class deployed at the address is checked first: its ABI against the new ABI, see
+ * helpers/abi-compatibility.ts, and its recorded storage layout against the contract source, see
+ * helpers/storage-layout.ts. Then deployedContracts.ts gets the new class and ABI at the same address.
+ *
+ * @example
+ * yarn upgrade-contract --network sepolia
+ * yarn upgrade-contract --network sepolia --contract crowdfunding --address 0x...
+ */
+const upgradeScript = async (): Promise<void> => {
+  const contractName = argv.contractName ?? argv.contract;
+  const contracts = deployedContracts as unknown as DeployedContracts;
+  const previous = contracts[networkName]?.[contractName];
+  const address = argv.address ?? previous?.address;
+  if (!address || BigInt(address) === 0n) {
+    throw new Error(
+      red(
+        `No ${contractName} deployed on ${networkName}, pass its address with --address`
+      )
+    );
+  }
+
+  const compiledContractSierra: CompiledSierra = JSON.parse(
+    fs
+      .readFileSync(findContractFile(argv.contract, "contract_class"))
+      .toString("ascii")
+  );
+  const abi: Abi = compiledContractSierra.abi.filter(
+    (item) => item.type !== "l1_handler"
+  );
+
+  // Compared with the class actually deployed, deployedContracts.ts may be out of date
+  const { abi: deployedAbi } = await provider.getClassAt(address);
+  if (!hasInterfaceFunction(deployedAbi, "upgrade")) {
+    throw new Error(
+      red(
+        `The class deployed at ${address} has no upgrade entrypoint, redeploy ${contractName} with yarn deploy instead`
+      )
+    );
+  }
+
+  // Layouts are recorded when a class is declared, a class declared before that has none
+  const deployedClassHash = num.toHex(await provider.getClassHashAt(address));
+  const deployedLayout =
+    loadManifest(networkName).storageLayouts?.[deployedClassHash];
+  const layout = readStorageLayout(argv.contract);
+  if (!layout) {
+    throw new Error(
+      red(`No #[starknet::contract] mod ${argv.contract} in contracts/src`)
+    );
+  }
+
+  const incompatibilities = [
+    ...findAbiIncompatibilities(deployedAbi, abi),
+    ...(deployedLayout
+      ? findStorageIncompatibilities(deployedLayout, layout)
+      : [
+          `no storage layout is recorded for the deployed class ${deployedClassHash}, compare its storage by hand`,
+        ]),
+  ];
+  if (incompatibilities.length > 0) {
+    const report = [
+      `The ${argv.contract} class is not compatible with ${contractName} at ${address}:`,
+      ...incompatibilities.map((incompatibility) => `  - ${incompatibility}`),
+    ].join("\n");
+    if (!argv.force) {
+      throw new Error(red(`${report}\nPass --force to upgrade anyway`));
+    }
+    console.warn(yellow(report));
+  }
+
+  const { classHash } = await upgradeContract({
+    contract: argv.contract,
+    contractName,
+    address,
+  });
+
+  generateTsAbis({
+    ...contracts,
+    [networkName]: {
+      ...contracts[networkName],
+      [contractName]: { address, abi, classHash },
+    },
+  });
+};
+
+upgradeScript()
+  .then(() => {
+    console.log(green("Upgrade Done"));
+  })
+  .catch((e) => {
+    console.error(e.message ?? e);
+    process.exit(1);
+  });